@@ -0,0 +1,77 @@
+@api @grpc
+Feature: gRPC client against an in-process gRPC stub server
+  The Greeter service of test-data/protos/greeter.proto is served by a gRPC stub
+  server on a free port, the gRPC steps connect to it with the same .proto file.
+
+  Background:
+    Given user starts gRPC stub server "greeter" using proto "greeter.proto"
+    And user connects to gRPC server "{{grpcStub.greeter.address}}" using proto "greeter.proto"
+
+  Scenario: Unary call with metadata
+    Given user stubs gRPC method "greeter.Greeter/SayHello" with:
+      """
+      { "message": "Hello Ada", "mood": "HAPPY" }
+      """
+    And user sets gRPC metadata "x-tenant-id" to "acme"
+    When user calls gRPC method "greeter.Greeter/SayHello" with:
+      """
+      { "name": "Ada", "visits": "9007199254740993" }
+      """
+    Then the gRPC call should succeed
+    And the gRPC response should have JSON path "$.message" with value "Hello Ada"
+    And the gRPC response should have JSON path "$.mood" with value "HAPPY"
+    And gRPC stub method "greeter.Greeter/SayHello" should have been called 1 times
+    And the last call to gRPC stub method "greeter.Greeter/SayHello" should have JSON path "$[0].visits" with value "9007199254740993"
+    And the last call to gRPC stub method "greeter.Greeter/SayHello" should have metadata "x-tenant-id" with value "acme"
+
+  Scenario: Server streaming call
+    Given user stubs gRPC method "Greeter/SayHelloStream" with:
+      """
+      [{ "message": "Hello" }, { "message": "Hello again" }, { "message": "Goodbye" }]
+      """
+    When user calls gRPC method "Greeter/SayHelloStream" with:
+      """
+      { "name": "Ada" }
+      """
+    Then the gRPC call should succeed
+    And the gRPC response should contain 3 messages
+    And gRPC response message 3 should have JSON path "$.message" with value "Goodbye"
+
+  Scenario: Client streaming call
+    Given user stubs gRPC method "Greeter/CollectNames" with:
+      """
+      { "names": ["Ada", "Grace"], "count": 2 }
+      """
+    When user calls gRPC method "Greeter/CollectNames" with:
+      """
+      [{ "name": "Ada" }, { "name": "Grace" }]
+      """
+    Then the gRPC call should succeed
+    And the gRPC response should have JSON path "$.count" with value "2"
+    And the last call to gRPC stub method "Greeter/CollectNames" should have JSON path "$[1].name" with value "Grace"
+
+  Scenario: Bidirectional streaming call
+    Given user stubs gRPC method "Greeter/Chat" with:
+      """
+      [{ "message": "Hi Ada" }, { "message": "Hi Grace" }]
+      """
+    When user calls gRPC method "Greeter/Chat" with:
+      """
+      [{ "name": "Ada" }, { "name": "Grace" }]
+      """
+    Then the gRPC call should succeed
+    And the gRPC response should contain 2 messages
+    And gRPC response message 2 should have JSON path "$.message" with value "Hi Grace"
+
+  Scenario: Failed call reports the gRPC status
+    Given user stubs gRPC method "Greeter/SayHello" with status "NOT_FOUND" and details "unknown name"
+    When user calls gRPC method "Greeter/SayHello" with:
+      """
+      { "name": "Nobody" }
+      """
+    Then the gRPC status should be "NOT_FOUND"
+    And the gRPC status details should contain "unknown name"
+
+  Scenario: Methods without a stub are unimplemented
+    When user calls gRPC method "Greeter/SayHello"
+    Then the gRPC status should be "UNIMPLEMENTED"
@@ -16,7 +16,12 @@ import { ResponseParser } from './ResponseParser';
 import { AuthenticationHandler } from './AuthenticationHandler';
 import { RetryHandler } from './RetryHandler';
 import { ConnectionPool } from './ConnectionPool';
+import { ContractValidator } from '../contract/ContractValidator';
+import { LoadRequestRecorder } from '../load/LoadRequestRecorder';
 import { ProxyManager } from '../../core/proxy/ProxyManager';
+import { CSTracer } from '../../core/telemetry/CSTracer';
+import { TraceSpan } from '../../core/telemetry/TraceSpan';
+import { SpanKind, SpanStatusCode } from '../../core/telemetry/types/telemetry.types';
 import { ActionLogger } from '../../core/logging/ActionLogger';
 import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
 
@@ -46,8 +51,17 @@ export class CSHttpClient {
   public async request(options: RequestOptions): Promise<Response> {
     const requestId = this.generateRequestId();
     const startTime = Date.now();
+    const requested = options;
+
+    // Load test replays are not traced
+    const span = options.silent ? null : this.startSpan(options);
+    if (span?.isRecording()) {
+      options = { ...options, headers: CSTracer.getInstance().inject({ ...options.headers }, span) };
+    }
     
-    ActionLogger.getInstance().logAPIRequest(requestId, options);
+    if (!options.silent) {
+      ActionLogger.getInstance().logAPIRequest(requestId, options);
+    }
 
     try {
       // Apply authentication
@@ -64,8 +78,8 @@ export class CSHttpClient {
       const response = await this.retryHandler.executeWithRetry(
         () => this.executeRequest(requestId, options),
         {
-          maxRetries: options.retryCount || ConfigurationManager.getInt('API_RETRY_COUNT', 3),
-          delay: options.retryDelay || ConfigurationManager.getInt('API_RETRY_DELAY', 1000),
+          maxRetries: options.retryCount ?? ConfigurationManager.getInt('API_RETRY_COUNT', 3),
+          delay: options.retryDelay ?? ConfigurationManager.getInt('API_RETRY_DELAY', 1000),
           retryCondition: this.shouldRetry.bind(this)
         }
       );
@@ -73,18 +87,84 @@ export class CSHttpClient {
       const duration = Date.now() - startTime;
       response.duration = duration;
 
-      ActionLogger.getInstance().logAPIResponse(requestId, response);
+      span?.setAttribute('http.response.status_code', response.status);
+      if (response.status >= 400) {
+        span?.setStatus(SpanStatusCode.ERROR, `HTTP ${response.status}`);
+      }
+
+      if (!options.silent) {
+        ActionLogger.getInstance().logAPIResponse(requestId, response);
+      }
+
+      if (options.contract) {
+        await this.validateContract(options.contract, response);
+      }
+
+      // Scenarios run in load mode replay the requests of their recording run
+      LoadRequestRecorder.getInstance().record(requested, response);
       
       return response;
     } catch (error) {
       const duration = Date.now() - startTime;
-      ActionLogger.getInstance().logAPIError(requestId, error as Error, duration);
+      span?.recordException(error as Error);
+      if (!options.silent) {
+        ActionLogger.getInstance().logAPIError(requestId, error as Error, duration);
+      }
       throw this.enhanceError(error as Error, options);
     } finally {
+      span?.end();
       this.activeRequests.delete(requestId);
     }
   }
 
+  /**
+   * Client span of a request, the backend continues the trace from its traceparent header
+   */
+  private startSpan(options: RequestOptions): TraceSpan {
+    const method = (options.method || 'GET').toUpperCase();
+    const parsedUrl = url.parse(options.url);
+    const secure = parsedUrl.protocol === 'https:';
+
+    return CSTracer.getInstance().startSpan(`${method} ${parsedUrl.pathname || '/'}`, {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        'http.request.method': method,
+        'url.scheme': secure ? 'https' : 'http',
+        'url.path': parsedUrl.pathname || '/',
+        'server.address': parsedUrl.hostname || undefined,
+        'server.port': parsedUrl.port ? parseInt(parsedUrl.port, 10) : (secure ? 443 : 80)
+      }
+    });
+  }
+
+  /**
+   * Validate a response against the API contract per API_CONTRACT_VALIDATION,
+   * coverage is recorded in every mode
+   */
+  private async validateContract(spec: string, response: Response): Promise<void> {
+    const validator = ContractValidator.getInstance();
+    const mode = validator.getMode();
+
+    // With validation off coverage is best-effort, a missing or invalid spec never fails the request
+    if (mode === 'off') {
+      try {
+        await validator.validate(spec, response);
+      } catch (error) {
+        ActionLogger.getInstance().warn(`API contract coverage not recorded for ${spec}: ${(error as Error).message}`);
+      }
+      return;
+    }
+
+    const result = await validator.validate(spec, response);
+    if (result.valid) {
+      return;
+    }
+    if (mode === 'strict') {
+      throw new Error(validator.formatErrors(result));
+    }
+    ActionLogger.getInstance().warn(validator.formatErrors(result), { spec, status: response.status });
+  }
+
   // Convenience methods
   public async get(url: string, options?: Partial<RequestOptions>): Promise<Response> {
     return this.request({ ...options, url, method: 'GET' });
@@ -325,15 +405,20 @@ export class CSHttpClient {
     reject: (error: any) => void
   ): void {
     req.on('socket', (socket) => {
-      socket.on('lookup', () => {
+      // Kept-alive sockets are already connected, listening again would pile up listeners
+      if (!socket.connecting) {
+        return;
+      }
+
+      socket.once('lookup', () => {
         metrics.dns = Date.now();
       });
 
-      socket.on('connect', () => {
+      socket.once('connect', () => {
         metrics.tcp = Date.now() - (metrics.dns || Date.now());
       });
 
-      socket.on('secureConnect', () => {
+      socket.once('secureConnect', () => {
         metrics.tls = Date.now() - (metrics.tcp || Date.now());
       });
     });
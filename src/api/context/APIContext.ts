@@ -38,6 +38,9 @@ export class APIContext {
                 backoff: 'exponential'
             }
         };
+        if (initialData.contract) {
+            this.data.contract = initialData.contract;
+        }
 
         ActionLogger.getInstance().debug(`API context created: ${name}`);
     }
@@ -148,6 +151,21 @@ export class APIContext {
         ActionLogger.getInstance().debug('Proxy configured');
     }
 
+    /**
+     * Get OpenAPI spec of the API
+     */
+    public getContract(): string | undefined {
+        return this.data.contract;
+    }
+
+    /**
+     * Set OpenAPI spec responses are validated against
+     */
+    public setContract(spec: string): void {
+        this.data.contract = spec;
+        ActionLogger.getInstance().debug(`API contract set to: ${spec}`);
+    }
+
     /**
      * Get variable value
      */
@@ -310,6 +328,11 @@ export class APIContext {
         } else if (contextState.auth !== null) {
             mergedRequest.auth = contextState.auth;
         }
+
+        const contract = requestOptions.contract ?? contextState.contract;
+        if (contract) {
+            mergedRequest.contract = contract;
+        }
         
         return mergedRequest;
     }
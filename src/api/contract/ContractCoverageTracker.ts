@@ -0,0 +1,125 @@
+// src/api/contract/ContractCoverageTracker.ts
+
+import { OpenAPIContract } from './OpenAPIContract';
+import { OpenAPIOperation, Response } from '../types/api.types';
+import { ContractCoverageReport, ContractOperationCoverage, ContractSpecCoverage } from '../../reporting/types/reporting.types';
+
+interface SpecCoverage {
+    contract: OpenAPIContract;
+    operations: Map<string, ContractOperationCoverage>;
+    unmatchedRequests: Set<string>;
+}
+
+/**
+ * Tracks which operations and status codes of the loaded OpenAPI specs the run exercised
+ */
+export class ContractCoverageTracker {
+    private static instance: ContractCoverageTracker;
+    private specs: Map<string, SpecCoverage> = new Map();
+    private recorded: WeakSet<Response> = new WeakSet();
+
+    private constructor() {}
+
+    public static getInstance(): ContractCoverageTracker {
+        if (!ContractCoverageTracker.instance) {
+            ContractCoverageTracker.instance = new ContractCoverageTracker();
+        }
+        return ContractCoverageTracker.instance;
+    }
+
+    /**
+     * Record a response, each response counts once however often it is validated
+     */
+    record(contract: OpenAPIContract, response: Response, operation: OpenAPIOperation | undefined, violations: number): void {
+        if (this.recorded.has(response)) {
+            return;
+        }
+        this.recorded.add(response);
+
+        const spec = this.getSpec(contract);
+        if (!operation) {
+            spec.unmatchedRequests.add(`${response.request.method} ${new URL(response.request.url, 'http://localhost').pathname}`);
+            return;
+        }
+
+        const coverage = spec.operations.get(operation.id)!;
+        const status = String(response.status);
+        coverage.exercisedStatuses[status] = (coverage.exercisedStatuses[status] || 0) + 1;
+        coverage.violations += violations;
+
+        // 404 covers the documented 404, else 4XX, else default
+        const documented = contract.findResponse(operation, response.status);
+        if (!documented) {
+            if (!coverage.undocumentedStatuses.includes(status)) {
+                coverage.undocumentedStatuses.push(status);
+            }
+        } else if (!coverage.coveredStatuses.includes(documented.key)) {
+            coverage.coveredStatuses.push(documented.key);
+        }
+    }
+
+    /**
+     * Coverage of every spec a response was validated against
+     */
+    getReport(): ContractCoverageReport | undefined {
+        if (this.specs.size === 0) {
+            return undefined;
+        }
+
+        const specs: ContractSpecCoverage[] = [];
+        let totalViolations = 0;
+
+        for (const { contract, operations, unmatchedRequests } of this.specs.values()) {
+            let documented = 0;
+            let exercised = 0;
+
+            for (const coverage of operations.values()) {
+                documented += coverage.documentedStatuses.length;
+                exercised += coverage.coveredStatuses.length;
+                totalViolations += coverage.violations;
+            }
+
+            specs.push({
+                spec: contract.spec,
+                title: contract.title,
+                version: contract.version,
+                operations: Array.from(operations.values()),
+                coveredOperations: Array.from(operations.values()).filter(c => Object.keys(c.exercisedStatuses).length > 0).length,
+                totalOperations: operations.size,
+                statusCoverage: documented > 0 ? Math.round(exercised / documented * 1000) / 10 : 0,
+                unmatchedRequests: Array.from(unmatchedRequests)
+            });
+        }
+
+        return { specs, totalViolations };
+    }
+
+    clear(): void {
+        this.specs.clear();
+        this.recorded = new WeakSet();
+    }
+
+    private getSpec(contract: OpenAPIContract): SpecCoverage {
+        let spec = this.specs.get(contract.spec);
+        if (!spec) {
+            spec = { contract, operations: new Map(), unmatchedRequests: new Set() };
+            for (const operation of contract.operations) {
+                const coverage: ContractOperationCoverage = {
+                    method: operation.method,
+                    path: operation.path,
+                    documentedStatuses: Object.keys(operation.responses),
+                    coveredStatuses: [],
+                    exercisedStatuses: {},
+                    undocumentedStatuses: [],
+                    violations: 0
+                };
+                if (operation.operationId) {
+                    coverage.operationId = operation.operationId;
+                }
+                spec.operations.set(operation.id, coverage);
+            }
+            this.specs.set(contract.spec, spec);
+        }
+        return spec;
+    }
+}
@@ -0,0 +1,163 @@
+// src/api/contract/ContractValidator.ts
+
+import * as path from 'path';
+import { OpenAPIContract } from './OpenAPIContract';
+import { ContractCoverageTracker } from './ContractCoverageTracker';
+import { SchemaValidator } from '../validators/SchemaValidator';
+import { ContractValidationMode, ContractValidationResult, Response, Schema, ValidationError } from '../types/api.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import { FileUtils } from '../../core/utils/FileUtils';
+
+/**
+ * Validates responses against the operation of an OpenAPI spec:
+ * documented status code, content type and body schema
+ *
+ * API_CONTRACT_VALIDATION controls validation of every response of an API context
+ * with a contract: off, warn (log violations) or strict (fail the request).
+ */
+export class ContractValidator {
+    private static instance: ContractValidator;
+    private contracts: Map<string, Promise<OpenAPIContract>> = new Map();
+    private schemaValidator: SchemaValidator;
+
+    private constructor() {
+        this.schemaValidator = SchemaValidator.getInstance();
+    }
+
+    public static getInstance(): ContractValidator {
+        if (!ContractValidator.instance) {
+            ContractValidator.instance = new ContractValidator();
+        }
+        return ContractValidator.instance;
+    }
+
+    public getMode(): ContractValidationMode {
+        const mode = ConfigurationManager.get('API_CONTRACT_VALIDATION', 'off').toLowerCase();
+        if (mode !== 'off' && mode !== 'warn' && mode !== 'strict') {
+            throw new Error(`Invalid API_CONTRACT_VALIDATION "${mode}", expected off, warn or strict`);
+        }
+        return mode;
+    }
+
+    /**
+     * Load a spec, relative paths resolve against API_CONTRACT_PATH, then the working directory
+     */
+    public async getContract(spec: string): Promise<OpenAPIContract> {
+        const specPath = await this.resolvePath(spec);
+
+        let contract = this.contracts.get(specPath);
+        if (!contract) {
+            contract = OpenAPIContract.load(specPath).then(
+                loaded => {
+                    ActionLogger.getInstance().info(`API contract loaded: ${loaded.title} ${loaded.version} (${loaded.operations.length} operations)`);
+                    return loaded;
+                },
+                error => {
+                    this.contracts.delete(specPath);
+                    throw new Error(`Failed to load API contract ${spec}: ${(error as Error).message}`);
+                }
+            );
+            this.contracts.set(specPath, contract);
+        }
+        return contract;
+    }
+
+    /**
+     * Validate a response and record it in the contract coverage
+     */
+    public async validate(spec: string, response: Response): Promise<ContractValidationResult> {
+        const startTime = Date.now();
+        const contract = await this.getContract(spec);
+        const errors: ValidationError[] = [];
+        const result: ContractValidationResult = { valid: true, status: response.status, errors };
+
+        const operation = contract.findOperation(response.request.method, response.request.url);
+        if (!operation) {
+            errors.push(this.error('', `No operation for ${response.request.method} ${response.request.url}`, 'documented operation', response.request.url));
+        } else {
+            result.operation = operation.id;
+
+            const documented = contract.findResponse(operation, response.status);
+            if (!documented) {
+                const statuses = Object.keys(operation.responses).join(', ');
+                errors.push(this.error('status', `Status ${response.status} is not documented (documented: ${statuses})`, statuses, response.status));
+            } else {
+                result.matchedResponse = documented.key;
+                await this.validateContent(documented.response.content, response, errors);
+            }
+        }
+
+        result.valid = errors.length === 0;
+        result.message = result.valid
+            ? `Response conforms to ${contract.title}${result.operation ? ` ${result.operation}` : ''}`
+            : `Response violates ${contract.title}${result.operation ? ` ${result.operation}` : ''}: ${errors.length} errors found`;
+        result.duration = Date.now() - startTime;
+
+        ContractCoverageTracker.getInstance().record(contract, response, operation, errors.length);
+        ActionLogger.getInstance().debug('API contract validation completed', result);
+        return result;
+    }
+
+    /**
+     * Readable list of the violations of a result
+     */
+    public formatErrors(result: ContractValidationResult): string {
+        const errors = (result.errors || []).map(e => `  - ${e.path ? `${e.path}: ` : ''}${e.message}`);
+        return [result.message, ...errors].join('\n');
+    }
+
+    private async validateContent(content: Record<string, Schema | null>, response: Response, errors: ValidationError[]): Promise<void> {
+        const mediaTypes = Object.keys(content);
+        if (mediaTypes.length === 0 || this.isEmpty(response.body)) {
+            return;
+        }
+
+        const header = response.headers['content-type'] ?? response.headers['Content-Type'];
+        const contentType = String(Array.isArray(header) ? header[0] : header || '').split(';')[0]!.trim().toLowerCase();
+        const [type] = contentType.split('/');
+        const mediaType = [contentType, `${type}/*`, '*/*'].find(candidate => mediaTypes.includes(candidate));
+
+        if (!mediaType) {
+            errors.push(this.error('content-type', `Content type "${contentType}" is not documented (documented: ${mediaTypes.join(', ')})`, mediaTypes.join(', '), contentType));
+            return;
+        }
+
+        const schema = content[mediaType];
+        if (!schema || !/[/+]json$/.test(contentType)) {
+            return;
+        }
+
+        const schemaResult = await this.schemaValidator.validateSchema(this.parseBody(response.body), schema);
+        for (const schemaError of schemaResult.errors || []) {
+            errors.push({ ...schemaError, type: 'contract' });
+        }
+    }
+
+    private async resolvePath(spec: string): Promise<string> {
+        if (path.isAbsolute(spec)) {
+            return spec;
+        }
+        const contractPath = path.resolve(ConfigurationManager.get('API_CONTRACT_PATH', './test-data/contracts'), spec);
+        return (await FileUtils.exists(contractPath)) ? contractPath : path.resolve(spec);
+    }
+
+    private parseBody(body: any): any {
+        if (typeof body !== 'string' && !Buffer.isBuffer(body)) {
+            return body;
+        }
+        try {
+            return JSON.parse(body.toString());
+        } catch {
+            return body.toString();
+        }
+    }
+
+    private isEmpty(body: any): boolean {
+        return body === undefined || body === null || body === '' || (Buffer.isBuffer(body) && body.length === 0);
+    }
+
+    private error(errorPath: string, message: string, expected: any, actual: any): ValidationError {
+        return { path: errorPath, message, expected, actual, type: 'contract' };
+    }
+}
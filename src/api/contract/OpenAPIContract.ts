@@ -0,0 +1,147 @@
+// src/api/contract/OpenAPIContract.ts
+
+import { HttpMethod, OpenAPIOperation, OpenAPIResponse, Schema } from '../types/api.types';
+import { OpenAPISpecLoader } from './OpenAPISpecLoader';
+
+const METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+interface PathMatcher {
+    operation: OpenAPIOperation;
+    pattern: RegExp;
+    parameters: number;
+}
+
+/**
+ * Operations of an OpenAPI 3.x spec, matched against request URLs
+ *
+ * Request paths are matched with and without the path of each server, so
+ * `https://host/v1/users/7` matches `/users/{id}` of a spec served at `/v1`.
+ */
+export class OpenAPIContract {
+    readonly title: string;
+    readonly version: string;
+    readonly operations: OpenAPIOperation[] = [];
+    private readonly basePaths: string[];
+    private readonly matchers: PathMatcher[] = [];
+
+    constructor(readonly spec: string, document: any) {
+        this.title = document.info?.title || spec;
+        this.version = String(document.info?.version || '');
+        this.basePaths = this.getBasePaths(document.servers || []);
+
+        for (const [template, pathItem] of Object.entries<any>(document.paths || {})) {
+            for (const method of METHODS) {
+                const definition = pathItem?.[method];
+                if (!definition) continue;
+
+                const operation: OpenAPIOperation = {
+                    id: `${method.toUpperCase()} ${template}`,
+                    method: method.toUpperCase() as HttpMethod,
+                    path: template,
+                    responses: this.getResponses(definition.responses || {})
+                };
+                if (definition.operationId) {
+                    operation.operationId = definition.operationId;
+                }
+
+                this.operations.push(operation);
+                this.matchers.push({
+                    operation,
+                    pattern: this.toPattern(template),
+                    parameters: (template.match(/\{[^}]+\}/g) || []).length
+                });
+            }
+        }
+
+        // Literal paths win over templated ones, /users/me before /users/{id}
+        this.matchers.sort((a, b) => a.parameters - b.parameters);
+    }
+
+    /**
+     * Load a spec from a JSON or YAML file
+     */
+    static async load(specPath: string): Promise<OpenAPIContract> {
+        const document = await new OpenAPISpecLoader().load(specPath);
+        return new OpenAPIContract(specPath, document);
+    }
+
+    /**
+     * Operation documenting a request
+     */
+    findOperation(method: string, requestUrl: string): OpenAPIOperation | undefined {
+        const requestPath = this.getRequestPath(requestUrl);
+        const candidates = [requestPath];
+        for (const basePath of this.basePaths) {
+            if (requestPath.startsWith(basePath + '/')) {
+                candidates.push(requestPath.substring(basePath.length));
+            }
+        }
+
+        for (const candidate of candidates) {
+            const matcher = this.matchers.find(m => m.operation.method === method.toUpperCase() && m.pattern.test(candidate));
+            if (matcher) {
+                return matcher.operation;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Documented response for a status: exact code, then range (2XX), then default
+     */
+    findResponse(operation: OpenAPIOperation, status: number): { key: string; response: OpenAPIResponse } | undefined {
+        const keys = [String(status), `${String(status)[0]}XX`, 'default'];
+        for (const key of keys) {
+            const match = Object.keys(operation.responses).find(k => k.toUpperCase() === key.toUpperCase());
+            if (match) {
+                return { key: match, response: operation.responses[match]! };
+            }
+        }
+        return undefined;
+    }
+
+    private getResponses(responses: Record<string, any>): Record<string, OpenAPIResponse> {
+        const result: Record<string, OpenAPIResponse> = {};
+        for (const [status, response] of Object.entries(responses)) {
+            const content: Record<string, Schema | null> = {};
+            for (const [mediaType, media] of Object.entries<any>(response?.content || {})) {
+                content[mediaType.toLowerCase()] = media?.schema || null;
+            }
+            result[status] = { content };
+            if (response?.description) {
+                result[status].description = response.description;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Paths of the servers, variables replaced by their defaults
+     */
+    private getBasePaths(servers: any[]): string[] {
+        const basePaths: string[] = [];
+        for (const server of servers) {
+            const serverUrl = String(server.url || '').replace(/\{([^}]+)\}/g, (_: string, name: string) =>
+                String(server.variables?.[name]?.default ?? ''));
+            const basePath = new URL(serverUrl, 'http://localhost').pathname.replace(/\/+$/, '');
+            if (basePath && !basePaths.includes(basePath)) {
+                basePaths.push(basePath);
+            }
+        }
+        return basePaths;
+    }
+
+    private getRequestPath(requestUrl: string): string {
+        const pathname = new URL(requestUrl, 'http://localhost').pathname;
+        return pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+    }
+
+    private toPattern(template: string): RegExp {
+        const source = template
+            .replace(/\/+$/, '')
+            .split(/(\{[^}]+\})/)
+            .map(part => /^\{[^}]+\}$/.test(part) ? '[^/]+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join('');
+        return new RegExp(`^${source || '/'}$`);
+    }
+}
@@ -0,0 +1,108 @@
+// src/api/contract/OpenAPISpecLoader.ts
+
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { FileUtils } from '../../core/utils/FileUtils';
+
+/**
+ * Loads OpenAPI 3.x documents from JSON or YAML and inlines every `$ref`
+ *
+ * Local refs (`#/components/schemas/User`) and refs into other files
+ * (`schemas/user.yaml#/User`) are resolved relative to the referencing document.
+ * A recursive schema is cut at its first repetition and accepts any value there.
+ */
+export class OpenAPISpecLoader {
+    private documents: Map<string, any> = new Map();
+    private resolved: Map<string, any> = new Map();
+
+    /**
+     * Load a spec with all refs resolved
+     */
+    async load(specPath: string): Promise<any> {
+        const file = path.resolve(specPath);
+        const document = await this.readDocument(file);
+
+        if (!document || typeof document !== 'object' || !String(document.openapi || '').startsWith('3.')) {
+            const found = document?.swagger ? ` (found Swagger ${document.swagger})` : '';
+            throw new Error(`${specPath} is not an OpenAPI 3.x document${found}`);
+        }
+
+        return this.resolve(document, file, []);
+    }
+
+    private async readDocument(file: string): Promise<any> {
+        if (!this.documents.has(file)) {
+            if (!(await FileUtils.exists(file))) {
+                throw new Error(`OpenAPI document not found: ${file}`);
+            }
+            const content = (await FileUtils.readFile(file)).toString();
+            this.documents.set(file, /\.ya?ml$/i.test(file) ? parseYaml(content) : JSON.parse(content));
+        }
+        return this.documents.get(file);
+    }
+
+    /**
+     * Copy of a node with refs replaced by their targets, `stack` holds the refs being resolved
+     */
+    private async resolve(node: any, file: string, stack: string[]): Promise<any> {
+        if (Array.isArray(node)) {
+            const items = [];
+            for (const item of node) {
+                items.push(await this.resolve(item, file, stack));
+            }
+            return items;
+        }
+        if (!node || typeof node !== 'object') {
+            return node;
+        }
+
+        if (typeof node.$ref === 'string') {
+            const [refFile, pointer] = this.splitRef(node.$ref, file);
+            const key = `${refFile}#${pointer}`;
+
+            if (stack.includes(key)) {
+                return {};
+            }
+            if (this.resolved.has(key)) {
+                return this.resolved.get(key);
+            }
+
+            const target = this.getPointer(await this.readDocument(refFile), pointer, node.$ref);
+            const value = await this.resolve(target, refFile, [...stack, key]);
+            this.resolved.set(key, value);
+            return value;
+        }
+
+        const result: Record<string, any> = {};
+        for (const [key, value] of Object.entries(node)) {
+            result[key] = await this.resolve(value, file, stack);
+        }
+        return result;
+    }
+
+    private splitRef(ref: string, file: string): [string, string] {
+        const hash = ref.indexOf('#');
+        const target = hash === -1 ? ref : ref.substring(0, hash);
+        const pointer = hash === -1 ? '' : ref.substring(hash + 1);
+
+        if (/^https?:\/\//i.test(target)) {
+            throw new Error(`Remote $ref "${ref}" is not supported, download the document next to the spec`);
+        }
+        return [target ? path.resolve(path.dirname(file), target) : file, pointer];
+    }
+
+    /**
+     * Resolve a JSON pointer, e.g. /components/schemas/User
+     */
+    private getPointer(document: any, pointer: string, ref: string): any {
+        let value = document;
+        for (const segment of pointer.split('/').filter(Boolean)) {
+            const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+            if (value === null || typeof value !== 'object' || !(key in value)) {
+                throw new Error(`Unresolvable $ref "${ref}"`);
+            }
+            value = value[key];
+        }
+        return value;
+    }
+}
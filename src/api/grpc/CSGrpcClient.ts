@@ -0,0 +1,221 @@
+// src/api/grpc/CSGrpcClient.ts
+
+import { EventEmitter } from 'events';
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+import { GrpcDescriptorLoader } from './GrpcDescriptorLoader';
+import { AuthenticationHandler } from '../client/AuthenticationHandler';
+import { CertificateManager } from '../client/CertificateManager';
+import { GrpcCallOptions, GrpcClientOptions, GrpcMethodType, GrpcResponse } from '../types/api.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+
+/**
+ * gRPC client invoking the methods of loaded service descriptors with JSON messages
+ *
+ * Addresses are host:port, optionally with a grpc:// (plaintext) or grpcs:// (TLS) scheme.
+ * A call never throws for a non-OK status, the status is part of the response.
+ */
+export class CSGrpcClient {
+    readonly target: string;
+    private client: grpc.Client;
+
+    private constructor(
+        readonly address: string,
+        private readonly packageDefinition: protoLoader.PackageDefinition,
+        credentials: grpc.ChannelCredentials
+    ) {
+        this.target = CSGrpcClient.parseAddress(address).target;
+        this.client = new grpc.Client(this.target, credentials);
+    }
+
+    /**
+     * Connect using .proto files, or server reflection when no files are given
+     */
+    static async connect(address: string, protoFiles: string[], options: GrpcClientOptions = {}): Promise<CSGrpcClient> {
+        const { target, tls } = CSGrpcClient.parseAddress(address);
+        const credentials = await CSGrpcClient.createCredentials(options.tls ?? tls, options.certificate);
+        const loader = GrpcDescriptorLoader.getInstance();
+        const definition = protoFiles.length > 0
+            ? await loader.loadProtoFiles(protoFiles)
+            : await loader.loadFromReflection(target, credentials);
+
+        const client = new CSGrpcClient(address, definition, credentials);
+        ActionLogger.getInstance().info(`gRPC client created for ${target}`, { services: client.listServices() });
+        return client;
+    }
+
+    listServices(): string[] {
+        return Object.keys(this.packageDefinition).filter(name => this.isService(this.packageDefinition[name]));
+    }
+
+    listMethods(): string[] {
+        return this.listServices().flatMap(service =>
+            Object.keys(this.packageDefinition[service] as protoLoader.ServiceDefinition).map(method => `${service}/${method}`));
+    }
+
+    /**
+     * Invoke a method, unary and server-streaming methods take the first message
+     */
+    async invoke(method: string, messages: any[], options: GrpcCallOptions = {}): Promise<GrpcResponse> {
+        const { name, definition } = this.findMethod(method);
+        const type = this.getMethodType(definition);
+        const metadata = await this.createMetadata(options);
+        const callOptions: grpc.CallOptions = {
+            deadline: Date.now() + (options.timeout ?? ConfigurationManager.getInt('GRPC_TIMEOUT', 30000))
+        };
+
+        ActionLogger.getInstance().debug(`gRPC call ${name}`, { type, messages: messages.length });
+        const startTime = Date.now();
+
+        return new Promise<GrpcResponse>(resolve => {
+            const received: any[] = [];
+            let headers: grpc.Metadata = new grpc.Metadata();
+
+            const unaryCallback = (_error: grpc.ServiceError | null, value?: any) => {
+                if (value !== undefined) {
+                    received.push(value);
+                }
+            };
+
+            let call: grpc.ClientUnaryCall | grpc.ClientReadableStream<any> | grpc.ClientWritableStream<any> | grpc.ClientDuplexStream<any, any>;
+            switch (type) {
+                case 'unary':
+                    call = this.client.makeUnaryRequest(definition.path, definition.requestSerialize, definition.responseDeserialize,
+                        messages[0] ?? {}, metadata, callOptions, unaryCallback);
+                    break;
+                case 'server-streaming':
+                    call = this.client.makeServerStreamRequest(definition.path, definition.requestSerialize, definition.responseDeserialize,
+                        messages[0] ?? {}, metadata, callOptions);
+                    break;
+                case 'client-streaming':
+                    call = this.client.makeClientStreamRequest(definition.path, definition.requestSerialize, definition.responseDeserialize,
+                        metadata, callOptions, unaryCallback);
+                    break;
+                default:
+                    call = this.client.makeBidiStreamRequest(definition.path, definition.requestSerialize, definition.responseDeserialize,
+                        metadata, callOptions);
+            }
+
+            const events: EventEmitter = call;
+            events.on('metadata', (value: grpc.Metadata) => {
+                headers = value;
+            });
+            events.on('data', (value: any) => received.push(value));
+            // A failed status is reported as error and status, the status carries everything needed
+            events.on('error', () => undefined);
+            events.on('status', (status: grpc.StatusObject) => {
+                resolve({
+                    method: name,
+                    type,
+                    status: status.code,
+                    statusName: grpc.status[status.code] || String(status.code),
+                    details: status.details,
+                    messages: received,
+                    metadata: this.toRecord(headers),
+                    trailers: this.toRecord(status.metadata),
+                    duration: Date.now() - startTime
+                });
+            });
+
+            if ('write' in call) {
+                for (const message of messages) {
+                    call.write(message);
+                }
+                call.end();
+            }
+        });
+    }
+
+    close(): void {
+        this.client.close();
+    }
+
+    /**
+     * Target and transport of an address
+     */
+    static parseAddress(address: string): { target: string; tls: boolean } {
+        const match = address.match(/^(grpcs?|https?):\/\/([^/]+)\/?$/i);
+        if (match) {
+            const scheme = match[1]!.toLowerCase();
+            return { target: match[2]!, tls: scheme === 'grpcs' || scheme === 'https' };
+        }
+        return { target: address, tls: false };
+    }
+
+    private static async createCredentials(tls: boolean, certificate?: GrpcClientOptions['certificate']): Promise<grpc.ChannelCredentials> {
+        if (!tls && !certificate) {
+            return grpc.credentials.createInsecure();
+        }
+        if (!certificate) {
+            return grpc.credentials.createSsl();
+        }
+
+        const loaded = await CertificateManager.getInstance().loadCertificate(certificate);
+        if (loaded.pfx) {
+            throw new Error('PFX certificates are not supported for gRPC, please use PEM cert and key files');
+        }
+        const toBuffer = (value: string | Buffer | undefined): Buffer | null =>
+            value === undefined ? null : Buffer.isBuffer(value) ? value : Buffer.from(value);
+        const ca = Array.isArray(loaded.ca) ? Buffer.concat(loaded.ca.map(c => toBuffer(c)!)) : toBuffer(loaded.ca);
+
+        return grpc.credentials.createSsl(ca, toBuffer(loaded.key), toBuffer(loaded.cert));
+    }
+
+    private async createMetadata(options: GrpcCallOptions): Promise<grpc.Metadata> {
+        const metadata = new grpc.Metadata();
+        let headers: Record<string, string> = { ...options.metadata };
+
+        if (options.auth && options.auth.type !== 'certificate') {
+            const authenticated = await new AuthenticationHandler().applyAuthentication(
+                { url: `https://${this.target}`, method: 'POST', headers }, options.auth);
+            headers = authenticated.headers || headers;
+        }
+
+        for (const [key, value] of Object.entries(headers)) {
+            if (key.toLowerCase().endsWith('-bin')) {
+                metadata.set(key, Buffer.from(value, 'base64'));
+            } else {
+                metadata.set(key, value);
+            }
+        }
+        return metadata;
+    }
+
+    /**
+     * Method by full name (package.Service/Method or package.Service.Method) or by Service/Method
+     */
+    private findMethod(method: string): { name: string; definition: protoLoader.MethodDefinition<any, any> } {
+        const separator = method.includes('/') ? method.lastIndexOf('/') : method.lastIndexOf('.');
+        const serviceName = method.substring(0, separator);
+        const methodName = method.substring(separator + 1);
+
+        const services = this.listServices().filter(name => name === serviceName || name.endsWith(`.${serviceName}`));
+        for (const service of services) {
+            const definition = (this.packageDefinition[service] as protoLoader.ServiceDefinition)[methodName];
+            if (definition) {
+                return { name: `${service}/${methodName}`, definition };
+            }
+        }
+        throw new Error(`gRPC method '${method}' not found. Available methods: ${this.listMethods().join(', ') || 'none'}`);
+    }
+
+    private getMethodType(definition: protoLoader.MethodDefinition<any, any>): GrpcMethodType {
+        if (definition.requestStream) {
+            return definition.responseStream ? 'bidi-streaming' : 'client-streaming';
+        }
+        return definition.responseStream ? 'server-streaming' : 'unary';
+    }
+
+    private isService(definition: protoLoader.AnyDefinition | undefined): definition is protoLoader.ServiceDefinition {
+        return definition !== undefined && !('format' in definition);
+    }
+
+    private toRecord(metadata: grpc.Metadata): Record<string, string> {
+        const record: Record<string, string> = {};
+        for (const [key, value] of Object.entries(metadata.getMap())) {
+            record[key] = Buffer.isBuffer(value) ? value.toString('base64') : String(value);
+        }
+        return record;
+    }
+}
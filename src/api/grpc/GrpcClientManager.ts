@@ -0,0 +1,48 @@
+// src/api/grpc/GrpcClientManager.ts
+
+import { CSGrpcClient } from './CSGrpcClient';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+
+/**
+ * Named gRPC clients of the running scenario, closed when the scenario ends
+ */
+export class GrpcClientManager {
+    private static instance: GrpcClientManager;
+    private clients: Map<string, CSGrpcClient> = new Map();
+
+    private constructor() {}
+
+    public static getInstance(): GrpcClientManager {
+        if (!GrpcClientManager.instance) {
+            GrpcClientManager.instance = new GrpcClientManager();
+        }
+        return GrpcClientManager.instance;
+    }
+
+    /**
+     * Register a client, closing a previous one of the same name
+     */
+    add(name: string, client: CSGrpcClient): void {
+        this.clients.get(name)?.close();
+        this.clients.set(name, client);
+    }
+
+    get(name: string): CSGrpcClient {
+        const client = this.clients.get(name);
+        if (!client) {
+            throw new Error(`gRPC client '${name}' is not connected. Please use "Given user connects to gRPC server" first`);
+        }
+        return client;
+    }
+
+    closeAll(): void {
+        for (const [name, client] of this.clients) {
+            try {
+                client.close();
+            } catch (error) {
+                void ActionLogger.getInstance().logError(error as Error, `Failed to close gRPC client ${name}`);
+            }
+        }
+        this.clients.clear();
+    }
+}
@@ -0,0 +1,101 @@
+// src/api/grpc/GrpcDescriptorLoader.ts
+
+import * as path from 'path';
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+import { GrpcReflectionClient } from './GrpcReflectionClient';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import { FileUtils } from '../../core/utils/FileUtils';
+
+/**
+ * Loads gRPC service descriptors from .proto files or server reflection
+ *
+ * Messages are decoded to plain JSON: field names as in the .proto file, 64-bit
+ * integers and enums as strings, bytes as base64 and unset fields with defaults.
+ */
+export class GrpcDescriptorLoader {
+    private static instance: GrpcDescriptorLoader;
+    private cache: Map<string, Promise<protoLoader.PackageDefinition>> = new Map();
+
+    static readonly LOADER_OPTIONS: protoLoader.Options = {
+        keepCase: true,
+        longs: String,
+        enums: String,
+        bytes: String,
+        defaults: true,
+        oneofs: true
+    };
+
+    private constructor() {}
+
+    public static getInstance(): GrpcDescriptorLoader {
+        if (!GrpcDescriptorLoader.instance) {
+            GrpcDescriptorLoader.instance = new GrpcDescriptorLoader();
+        }
+        return GrpcDescriptorLoader.instance;
+    }
+
+    /**
+     * Load .proto files, relative paths are resolved against GRPC_PROTO_PATH
+     */
+    loadProtoFiles(files: string[]): Promise<protoLoader.PackageDefinition> {
+        const key = `proto:${files.join(',')}`;
+        let definition = this.cache.get(key);
+        if (!definition) {
+            definition = this.readProtoFiles(files);
+            definition.catch(() => this.cache.delete(key));
+            this.cache.set(key, definition);
+        }
+        return definition;
+    }
+
+    /**
+     * Load the descriptors a server publishes through reflection, cached per target
+     */
+    loadFromReflection(target: string, credentials: grpc.ChannelCredentials): Promise<protoLoader.PackageDefinition> {
+        const key = `reflection:${target}`;
+        let definition = this.cache.get(key);
+        if (!definition) {
+            const timeout = ConfigurationManager.getInt('GRPC_TIMEOUT', 30000);
+            definition = new GrpcReflectionClient(target, credentials, timeout).getFileDescriptorSet()
+                .then(descriptorSet => protoLoader.loadFileDescriptorSetFromBuffer(descriptorSet, GrpcDescriptorLoader.LOADER_OPTIONS));
+            definition.catch(() => this.cache.delete(key));
+            this.cache.set(key, definition);
+        }
+        return definition;
+    }
+
+    clearCache(): void {
+        this.cache.clear();
+    }
+
+    private async readProtoFiles(files: string[]): Promise<protoLoader.PackageDefinition> {
+        const protoPath = ConfigurationManager.get('GRPC_PROTO_PATH', './test-data/protos');
+        const resolved: string[] = [];
+
+        for (const file of files) {
+            const candidates = path.isAbsolute(file) ? [file] : [path.resolve(protoPath, file), path.resolve(file)];
+            const found = await this.findFirst(candidates);
+            if (!found) {
+                throw new Error(`Proto file not found: ${file} (looked in ${candidates.join(', ')})`);
+            }
+            resolved.push(found);
+        }
+
+        const includeDirs = Array.from(new Set([path.resolve(protoPath), ...resolved.map(file => path.dirname(file))]));
+        const definition = await protoLoader.load(resolved, { ...GrpcDescriptorLoader.LOADER_OPTIONS, includeDirs });
+
+        ActionLogger.getInstance().debug('Proto files loaded', { files: resolved });
+        return definition;
+    }
+
+    private async findFirst(candidates: string[]): Promise<string | null> {
+        for (const candidate of candidates) {
+            if (await FileUtils.exists(candidate)) {
+                return candidate;
+            }
+        }
+        return null;
+    }
+}
@@ -0,0 +1,213 @@
+// src/api/grpc/GrpcReflectionClient.ts
+
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+
+/**
+ * Reads the service descriptors of a server through the gRPC server reflection service
+ *
+ * The v1 service is tried first, servers only offering v1alpha are supported as well.
+ * The descriptors of all services and their imports are returned as one FileDescriptorSet.
+ */
+export class GrpcReflectionClient {
+    private static readonly PACKAGES = ['grpc.reflection.v1', 'grpc.reflection.v1alpha'];
+
+    constructor(
+        private readonly target: string,
+        private readonly credentials: grpc.ChannelCredentials,
+        private readonly timeout: number
+    ) {}
+
+    async getFileDescriptorSet(): Promise<Buffer> {
+        let lastError: Error | null = null;
+        for (const pkg of GrpcReflectionClient.PACKAGES) {
+            try {
+                return await this.readDescriptors(pkg);
+            } catch (error) {
+                lastError = error as Error;
+                if ((error as grpc.ServiceError).code !== grpc.status.UNIMPLEMENTED) {
+                    break;
+                }
+            }
+        }
+        throw new Error(`Server reflection failed for ${this.target}: ${lastError?.message}`);
+    }
+
+    private async readDescriptors(pkg: string): Promise<Buffer> {
+        const packageDefinition = protoLoader.fromJSON(this.createReflectionSchema(pkg), { keepCase: true, defaults: true });
+        const service = packageDefinition[`${pkg}.ServerReflection`] as protoLoader.ServiceDefinition;
+        const method = service['ServerReflectionInfo']!;
+
+        const client = new grpc.Client(this.target, this.credentials);
+        const call = client.makeBidiStreamRequest(
+            method.path,
+            method.requestSerialize,
+            method.responseDeserialize,
+            new grpc.Metadata(),
+            { deadline: Date.now() + this.timeout }
+        );
+
+        const pending: Array<{ resolve: (response: any) => void; reject: (error: Error) => void }> = [];
+        call.on('data', (response: any) => pending.shift()?.resolve(response));
+        call.on('error', (error: Error) => pending.splice(0).forEach(p => p.reject(error)));
+
+        const send = (request: Record<string, string>): Promise<any> => new Promise((resolve, reject) => {
+            pending.push({ resolve, reject });
+            call.write({ host: '', ...request });
+        });
+        const checked = async (request: Record<string, string>): Promise<any> => {
+            const response = await send(request);
+            if (response.error_response) {
+                throw new Error(`${JSON.stringify(request)}: ${response.error_response.error_message} (code ${response.error_response.error_code})`);
+            }
+            return response;
+        };
+
+        try {
+            const services: string[] = (await checked({ list_services: '*' })).list_services_response.service
+                .map((s: { name: string }) => s.name)
+                .filter((name: string) => !name.startsWith('grpc.reflection.'));
+
+            const files = new Map<string, Buffer>();
+            const addFiles = (response: any) => {
+                for (const file of response.file_descriptor_response.file_descriptor_proto as Buffer[]) {
+                    files.set(this.readFileInfo(file).name, file);
+                }
+            };
+
+            for (const name of services) {
+                addFiles(await checked({ file_containing_symbol: name }));
+            }
+
+            // Servers may answer with the file only, fetch imports until the set is complete
+            let missing = this.findMissingImports(files);
+            while (missing.length > 0) {
+                for (const name of missing) {
+                    addFiles(await checked({ file_by_filename: name }));
+                }
+                missing = this.findMissingImports(files);
+            }
+
+            return Buffer.concat(Array.from(files.values()).map(file => Buffer.concat([
+                Buffer.from([0x0a]),
+                this.encodeVarint(file.length),
+                file
+            ])));
+        } finally {
+            call.end();
+            client.close();
+        }
+    }
+
+    private findMissingImports(files: Map<string, Buffer>): string[] {
+        const missing = new Set<string>();
+        for (const file of files.values()) {
+            for (const dependency of this.readFileInfo(file).dependencies) {
+                if (!files.has(dependency)) {
+                    missing.add(dependency);
+                }
+            }
+        }
+        return Array.from(missing);
+    }
+
+    /**
+     * Name (field 1) and imports (field 3) of a serialized FileDescriptorProto
+     */
+    private readFileInfo(file: Buffer): { name: string; dependencies: string[] } {
+        const info = { name: '', dependencies: [] as string[] };
+        let offset = 0;
+
+        const readVarint = (): number => {
+            let result = 0;
+            let shift = 0;
+            let byte: number;
+            do {
+                byte = file[offset++]!;
+                result += (byte & 0x7f) * Math.pow(2, shift);
+                shift += 7;
+            } while (byte & 0x80);
+            return result;
+        };
+
+        while (offset < file.length) {
+            const tag = readVarint();
+            const field = Math.floor(tag / 8);
+            switch (tag & 0x7) {
+                case 0:
+                    readVarint();
+                    break;
+                case 1:
+                    offset += 8;
+                    break;
+                case 2: {
+                    const length = readVarint();
+                    if (field === 1) {
+                        info.name = file.toString('utf8', offset, offset + length);
+                    } else if (field === 3) {
+                        info.dependencies.push(file.toString('utf8', offset, offset + length));
+                    }
+                    offset += length;
+                    break;
+                }
+                case 5:
+                    offset += 4;
+                    break;
+                default:
+                    throw new Error(`Unsupported wire type in file descriptor at offset ${offset}`);
+            }
+        }
+        return info;
+    }
+
+    private encodeVarint(value: number): Buffer {
+        const bytes: number[] = [];
+        while (value > 0x7f) {
+            bytes.push((value & 0x7f) | 0x80);
+            value = Math.floor(value / 128);
+        }
+        bytes.push(value);
+        return Buffer.from(bytes);
+    }
+
+    /**
+     * The subset of reflection.proto used here, in protobufjs JSON form
+     */
+    private createReflectionSchema(pkg: string): any {
+        const messages = {
+            ServerReflection: {
+                methods: {
+                    ServerReflectionInfo: {
+                        requestType: 'ServerReflectionRequest',
+                        requestStream: true,
+                        responseType: 'ServerReflectionResponse',
+                        responseStream: true
+                    }
+                }
+            },
+            ServerReflectionRequest: {
+                oneofs: { message_request: { oneof: ['file_by_filename', 'file_containing_symbol', 'list_services'] } },
+                fields: {
+                    host: { type: 'string', id: 1 },
+                    file_by_filename: { type: 'string', id: 3 },
+                    file_containing_symbol: { type: 'string', id: 4 },
+                    list_services: { type: 'string', id: 7 }
+                }
+            },
+            ServerReflectionResponse: {
+                fields: {
+                    valid_host: { type: 'string', id: 1 },
+                    file_descriptor_response: { type: 'FileDescriptorResponse', id: 4 },
+                    list_services_response: { type: 'ListServiceResponse', id: 6 },
+                    error_response: { type: 'ErrorResponse', id: 7 }
+                }
+            },
+            FileDescriptorResponse: { fields: { file_descriptor_proto: { rule: 'repeated', type: 'bytes', id: 1 } } },
+            ListServiceResponse: { fields: { service: { rule: 'repeated', type: 'ServiceResponse', id: 1 } } },
+            ServiceResponse: { fields: { name: { type: 'string', id: 1 } } },
+            ErrorResponse: { fields: { error_code: { type: 'int32', id: 1 }, error_message: { type: 'string', id: 2 } } }
+        };
+
+        return pkg.split('.').reduceRight<any>((nested, part) => ({ nested: { [part]: nested } }), { nested: messages });
+    }
+}
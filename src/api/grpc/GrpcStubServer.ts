@@ -0,0 +1,209 @@
+// src/api/grpc/GrpcStubServer.ts
+
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+import { GrpcDescriptorLoader } from './GrpcDescriptorLoader';
+import { GrpcStubRequest, GrpcStubResponse } from '../types/api.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+
+/**
+ * In-process plaintext gRPC server answering the methods of .proto files with stubbed responses
+ *
+ * Unary and client-streaming methods answer with the first stubbed message, server-streaming
+ * and bidi-streaming methods send every stubbed message once the request is complete.
+ * Every call is recorded, methods without a stub answer UNIMPLEMENTED.
+ */
+export class GrpcStubServer {
+    private server: grpc.Server | null = null;
+    private stubs: Map<string, GrpcStubResponse> = new Map();
+    private requests: GrpcStubRequest[] = [];
+    private methods: string[] = [];
+    private port: number = 0;
+
+    constructor(public readonly name: string) {}
+
+    /**
+     * Serve the services of the .proto files, port 0 picks a free port
+     */
+    async start(protoFiles: string[], port: number = 0): Promise<void> {
+        if (this.server) {
+            return;
+        }
+
+        const definition = await GrpcDescriptorLoader.getInstance().loadProtoFiles(protoFiles);
+        const server = new grpc.Server();
+        for (const [serviceName, service] of Object.entries(definition)) {
+            if ('format' in service) {
+                continue;
+            }
+            const implementation: grpc.UntypedServiceImplementation = {};
+            for (const [methodName, method] of Object.entries(service)) {
+                implementation[methodName] = this.createHandler(`${serviceName}/${methodName}`, method);
+                this.methods.push(`${serviceName}/${methodName}`);
+            }
+            server.addService(service as grpc.ServiceDefinition, implementation);
+        }
+
+        const host = ConfigurationManager.get('STUB_SERVER_HOST', '127.0.0.1');
+        this.port = await new Promise<number>((resolve, reject) => {
+            server.bindAsync(`${host.includes(':') ? `[${host}]` : host}:${port}`, grpc.ServerCredentials.createInsecure(),
+                (error, boundPort) => error ? reject(error) : resolve(boundPort));
+        });
+        this.server = server;
+        ActionLogger.getInstance().info(`gRPC stub server ${this.name} listening on ${this.getAddress()}`, { methods: this.methods });
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return;
+        }
+
+        this.server = null;
+        await new Promise<void>(resolve => server.tryShutdown(() => resolve()));
+        ActionLogger.getInstance().info(`gRPC stub server ${this.name} stopped`);
+    }
+
+    isRunning(): boolean {
+        return this.server !== null;
+    }
+
+    getAddress(): string {
+        const host = ConfigurationManager.get('STUB_SERVER_HOST', '127.0.0.1');
+        return `grpc://${host.includes(':') ? `[${host}]` : host}:${this.port}`;
+    }
+
+    /**
+     * Stub a method by full name (package.Service/Method) or by Service/Method, returns the full name
+     */
+    stub(method: string, response: GrpcStubResponse): string {
+        const name = this.findMethod(method);
+        this.parseStatus(response.status);
+        this.stubs.set(name, response);
+        return name;
+    }
+
+    /**
+     * Recorded calls, of one method when given
+     */
+    getRequests(method?: string): GrpcStubRequest[] {
+        if (method === undefined) {
+            return [...this.requests];
+        }
+        const name = this.findMethod(method);
+        return this.requests.filter(request => request.method === name);
+    }
+
+    private createHandler(name: string, method: protoLoader.MethodDefinition<any, any>): grpc.UntypedHandleCall {
+        if (!method.requestStream) {
+            if (!method.responseStream) {
+                return (call: grpc.ServerUnaryCall<any, any>, callback: grpc.sendUnaryData<any>) => {
+                    const response = this.record(name, [call.request], call.metadata);
+                    const error = this.toError(name, response);
+                    if (error) {
+                        callback(error);
+                    } else {
+                        callback(null, response!.messages[0] ?? {}, this.toMetadata(response!.trailers));
+                    }
+                };
+            }
+            return (call: grpc.ServerWritableStream<any, any>) => {
+                this.respond(call, this.record(name, [call.request], call.metadata), name);
+            };
+        }
+
+        return (call: grpc.ServerReadableStream<any, any> | grpc.ServerDuplexStream<any, any>, callback?: grpc.sendUnaryData<any>) => {
+            const messages: any[] = [];
+            call.on('data', (message: any) => messages.push(message));
+            call.on('end', () => {
+                const response = this.record(name, messages, call.metadata);
+                if ('write' in call) {
+                    this.respond(call, response, name);
+                    return;
+                }
+                const error = this.toError(name, response);
+                if (error) {
+                    callback!(error);
+                } else {
+                    callback!(null, response!.messages[0] ?? {}, this.toMetadata(response!.trailers));
+                }
+            });
+        };
+    }
+
+    /**
+     * Send the stubbed messages of a streaming response, then its status
+     */
+    private respond(call: grpc.ServerWritableStream<any, any> | grpc.ServerDuplexStream<any, any>, response: GrpcStubResponse | undefined, name: string): void {
+        const error = this.toError(name, response);
+        for (const message of error ? [] : response!.messages) {
+            call.write(message);
+        }
+        if (error) {
+            call.emit('error', error);
+        } else {
+            call.end(this.toMetadata(response!.trailers));
+        }
+    }
+
+    private record(method: string, messages: any[], metadata: grpc.Metadata): GrpcStubResponse | undefined {
+        const headers: Record<string, string> = {};
+        for (const [key, value] of Object.entries(metadata.getMap())) {
+            headers[key] = Buffer.isBuffer(value) ? value.toString('base64') : String(value);
+        }
+        this.requests.push({ method, messages, metadata: headers, timestamp: new Date() });
+        ActionLogger.getInstance().debug(`gRPC stub server ${this.name} received ${method}`, { messages: messages.length });
+        return this.stubs.get(method);
+    }
+
+    /**
+     * Error status of a response, null for OK
+     */
+    private toError(method: string, response: GrpcStubResponse | undefined): Partial<grpc.StatusObject> | null {
+        if (!response) {
+            return { code: grpc.status.UNIMPLEMENTED, details: `No stub for ${method} on gRPC stub server ${this.name}` };
+        }
+        const code = this.parseStatus(response.status);
+        if (code === grpc.status.OK) {
+            return null;
+        }
+        return { code, details: response.details ?? grpc.status[code] ?? '', metadata: this.toMetadata(response.trailers) };
+    }
+
+    private parseStatus(status: string | number | undefined): grpc.status {
+        if (status === undefined) {
+            return grpc.status.OK;
+        }
+        const code = typeof status === 'number' || /^\d+$/.test(status)
+            ? Number(status)
+            : (grpc.status as unknown as Record<string, number | undefined>)[status.toUpperCase()];
+        if (code === undefined || grpc.status[code] === undefined) {
+            throw new Error(`Unknown gRPC status '${status}'`);
+        }
+        return code;
+    }
+
+    private toMetadata(values: Record<string, string> = {}): grpc.Metadata {
+        const metadata = new grpc.Metadata();
+        for (const [key, value] of Object.entries(values)) {
+            metadata.set(key.toLowerCase(), value);
+        }
+        return metadata;
+    }
+
+    private findMethod(method: string): string {
+        const separator = method.includes('/') ? method.lastIndexOf('/') : method.lastIndexOf('.');
+        const serviceName = method.substring(0, separator);
+        const methodName = method.substring(separator + 1);
+
+        const name = this.methods.find(candidate => {
+            const [service, candidateMethod] = candidate.split('/');
+            return candidateMethod === methodName && (service === serviceName || service!.endsWith(`.${serviceName}`));
+        });
+        if (!name) {
+            throw new Error(`gRPC method '${method}' not served by gRPC stub server ${this.name}. Available methods: ${this.methods.join(', ') || 'none'}`);
+        }
+        return name;
+    }
+}
@@ -0,0 +1,71 @@
+// src/api/grpc/GrpcStubServerManager.ts
+
+import { GrpcStubServer } from './GrpcStubServer';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+
+/**
+ * Named gRPC stub servers of the running scenario, stopped when the scenario ends
+ *
+ * The address of a running server is available as configuration GRPC_STUB_<NAME>_ADDRESS.
+ */
+export class GrpcStubServerManager {
+    private static instance: GrpcStubServerManager;
+    private servers: Map<string, GrpcStubServer> = new Map();
+
+    private constructor() {}
+
+    public static getInstance(): GrpcStubServerManager {
+        if (!GrpcStubServerManager.instance) {
+            GrpcStubServerManager.instance = new GrpcStubServerManager();
+        }
+        return GrpcStubServerManager.instance;
+    }
+
+    /**
+     * Start a server, a running server of the same name is returned as is
+     */
+    async start(name: string, protoFiles: string[], port?: number): Promise<GrpcStubServer> {
+        const running = this.servers.get(name);
+        if (running) {
+            return running;
+        }
+
+        const server = new GrpcStubServer(name);
+        await server.start(protoFiles, port);
+        this.servers.set(name, server);
+        ConfigurationManager.set(this.getAddressKey(name), server.getAddress());
+        return server;
+    }
+
+    get(name: string): GrpcStubServer {
+        const server = this.servers.get(name);
+        if (!server) {
+            throw new Error(`gRPC stub server '${name}' is not running. Please use "Given user starts gRPC stub server \\"${name}\\" using proto" first`);
+        }
+        return server;
+    }
+
+    async stop(name: string): Promise<void> {
+        const server = this.servers.get(name);
+        if (!server) {
+            return;
+        }
+        this.servers.delete(name);
+        await server.stop();
+    }
+
+    async stopAll(): Promise<void> {
+        for (const name of Array.from(this.servers.keys())) {
+            try {
+                await this.stop(name);
+            } catch (error) {
+                void ActionLogger.getInstance().logError(error as Error, `Failed to stop gRPC stub server ${name}`);
+            }
+        }
+    }
+
+    private getAddressKey(name: string): string {
+        return `GRPC_STUB_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_ADDRESS`;
+    }
+}
@@ -0,0 +1,137 @@
+// src/api/load/LoadMetrics.ts
+
+import { LoadThreshold, LoadThresholdMetric } from '../types/api.types';
+import {
+    LoadEndpointStats,
+    LoadLatencyStats,
+    LoadTestInterval,
+    LoadThresholdResult
+} from '../../reporting/types/reporting.types';
+
+interface LoadSample {
+    /** Milliseconds since the start of the test */
+    time: number;
+    latency: number;
+    ok: boolean;
+    name: string;
+    activeUsers: number;
+}
+
+/**
+ * Response samples of a load test and the statistics derived from them
+ */
+export class LoadMetrics {
+    private samples: LoadSample[] = [];
+
+    constructor(private readonly startTime: number) {}
+
+    add(name: string, latency: number, ok: boolean, activeUsers: number): void {
+        this.samples.push({ time: Date.now() - this.startTime, latency, ok, name, activeUsers });
+    }
+
+    get requests(): number {
+        return this.samples.length;
+    }
+
+    get errors(): number {
+        return this.samples.filter(sample => !sample.ok).length;
+    }
+
+    errorRate(): number {
+        return this.samples.length === 0 ? 0 : this.round(this.errors / this.samples.length * 100);
+    }
+
+    /**
+     * Requests per second over the elapsed time
+     */
+    throughput(elapsed: number): number {
+        return elapsed <= 0 ? 0 : this.round(this.samples.length / (elapsed / 1000));
+    }
+
+    latency(samples: LoadSample[] = this.samples): LoadLatencyStats {
+        if (samples.length === 0) {
+            return { avg: 0, min: 0, max: 0, p50: 0, p90: 0, p95: 0, p99: 0 };
+        }
+        const sorted = samples.map(sample => sample.latency).sort((a, b) => a - b);
+        return {
+            avg: this.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+            min: sorted[0]!,
+            max: sorted[sorted.length - 1]!,
+            p50: this.percentile(sorted, 50),
+            p90: this.percentile(sorted, 90),
+            p95: this.percentile(sorted, 95),
+            p99: this.percentile(sorted, 99)
+        };
+    }
+
+    endpoints(): LoadEndpointStats[] {
+        const byName = new Map<string, LoadSample[]>();
+        for (const sample of this.samples) {
+            const samples = byName.get(sample.name) || [];
+            samples.push(sample);
+            byName.set(sample.name, samples);
+        }
+        return Array.from(byName.entries()).map(([name, samples]) => ({
+            name,
+            requests: samples.length,
+            errors: samples.filter(sample => !sample.ok).length,
+            latency: this.latency(samples)
+        }));
+    }
+
+    /**
+     * Measurements per interval, about 60 intervals of at least a second
+     */
+    intervals(elapsed: number): LoadTestInterval[] {
+        const size = Math.max(1000, Math.ceil(elapsed / 60 / 1000) * 1000);
+        const count = Math.max(1, Math.ceil(elapsed / size));
+        const buckets: LoadSample[][] = Array.from({ length: count }, () => []);
+        for (const sample of this.samples) {
+            buckets[Math.min(count - 1, Math.floor(sample.time / size))]!.push(sample);
+        }
+
+        return buckets.map((samples, index) => {
+            const latency = this.latency(samples);
+            return {
+                time: (index + 1) * size / 1000,
+                requests: samples.length,
+                errors: samples.filter(sample => !sample.ok).length,
+                throughput: this.round(samples.length / (size / 1000)),
+                p50: latency.p50,
+                p95: latency.p95,
+                activeUsers: samples.reduce((max, sample) => Math.max(max, sample.activeUsers), 0)
+            };
+        });
+    }
+
+    evaluate(thresholds: LoadThreshold[], elapsed: number): LoadThresholdResult[] {
+        const latency = this.latency();
+        const values: Record<LoadThresholdMetric, number> = {
+            ...latency,
+            errorRate: this.errorRate(),
+            throughput: this.throughput(elapsed),
+            requests: this.samples.length
+        };
+
+        return thresholds.map(threshold => {
+            const actual = values[threshold.metric];
+            let passed: boolean;
+            switch (threshold.operator) {
+                case '<': passed = actual < threshold.value; break;
+                case '<=': passed = actual <= threshold.value; break;
+                case '>': passed = actual > threshold.value; break;
+                default: passed = actual >= threshold.value;
+            }
+            return { expression: threshold.expression, actual, passed };
+        });
+    }
+
+    private percentile(sorted: number[], percentile: number): number {
+        const index = Math.ceil(percentile / 100 * sorted.length) - 1;
+        return sorted[Math.max(0, Math.min(sorted.length - 1, index))]!;
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
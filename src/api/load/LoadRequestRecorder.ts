@@ -0,0 +1,57 @@
+// src/api/load/LoadRequestRecorder.ts
+
+import { RecordedRequest, RequestOptions, Response } from '../types/api.types';
+
+/**
+ * Records the requests a scenario sends through CSHttpClient, so its load test
+ * replays exactly what the functional run did
+ */
+export class LoadRequestRecorder {
+    private static instance: LoadRequestRecorder;
+    private requests: RecordedRequest[] | null = null;
+
+    private constructor() {}
+
+    public static getInstance(): LoadRequestRecorder {
+        if (!LoadRequestRecorder.instance) {
+            LoadRequestRecorder.instance = new LoadRequestRecorder();
+        }
+        return LoadRequestRecorder.instance;
+    }
+
+    start(): void {
+        this.requests = [];
+    }
+
+    /**
+     * Stop recording and return the recorded requests
+     */
+    stop(): RecordedRequest[] {
+        const requests = this.requests || [];
+        this.requests = null;
+        return requests;
+    }
+
+    isRecording(): boolean {
+        return this.requests !== null;
+    }
+
+    record(options: RequestOptions, response: Response): void {
+        if (!this.requests || options.silent) {
+            return;
+        }
+
+        let path = options.url;
+        try {
+            path = new URL(options.url).pathname;
+        } catch {
+            // Keep the URL as given
+        }
+
+        this.requests.push({
+            name: `${options.method} ${path}`,
+            options: { ...options, headers: { ...options.headers } },
+            status: response.status
+        });
+    }
+}
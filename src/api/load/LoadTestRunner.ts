@@ -0,0 +1,315 @@
+// src/api/load/LoadTestRunner.ts
+
+import { CSHttpClient } from '../client/CSHttpClient';
+import { LoadMetrics } from './LoadMetrics';
+import { LoadThreshold, LoadThresholdMetric, LoadTestSettings, RecordedRequest } from '../types/api.types';
+import { LoadTestResult } from '../../reporting/types/reporting.types';
+import { Scenario } from '../../bdd/types/bdd.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+
+/**
+ * Runs API scenarios as load tests
+ *
+ * A scenario tagged @load(users=50,duration=60s,rampUp=10s,p95<500), or any scenario
+ * when LOAD_PROFILE is set (--load), first runs once functionally while its requests
+ * are recorded. The recorded requests are then replayed by virtual users through
+ * CSHttpClient: either a fixed number of users looping over them (closed model) or
+ * iterations started at a fixed rate (arrival-rate model, rate=20/s). Settings come
+ * from the LOAD_* configuration, overridden by the tag, overridden by the profile.
+ * Scenarios that sent no API requests run once, functionally.
+ *
+ * Requests are replayed verbatim: bodies, IDs taken from earlier responses and
+ * authentication tokens keep the values of the recording run, so chained or
+ * single-use data (created IDs, one-time tokens) is not fresh per virtual user.
+ */
+export class LoadTestRunner {
+    private static instance: LoadTestRunner;
+    private static readonly METRICS: LoadThresholdMetric[] = ['avg', 'min', 'max', 'p50', 'p90', 'p95', 'p99', 'errorRate', 'throughput', 'requests'];
+    private results: LoadTestResult[] = [];
+
+    private constructor() {}
+
+    public static getInstance(): LoadTestRunner {
+        if (!LoadTestRunner.instance) {
+            LoadTestRunner.instance = new LoadTestRunner();
+        }
+        return LoadTestRunner.instance;
+    }
+
+    isLoadScenario(scenario: Scenario): boolean {
+        return !!this.findLoadTag(scenario) || !!ConfigurationManager.get('LOAD_PROFILE', '');
+    }
+
+    getSettings(scenario: Scenario): LoadTestSettings {
+        const settings: LoadTestSettings = {
+            users: 10,
+            duration: 30000,
+            rampUp: 0,
+            thinkTime: 0,
+            thresholds: []
+        };
+        const thresholds = new Map<string, LoadThreshold>();
+
+        const defaults = [
+            `users=${ConfigurationManager.get('LOAD_USERS', '10')}`,
+            `duration=${ConfigurationManager.get('LOAD_DURATION', '30s')}`,
+            `rampUp=${ConfigurationManager.get('LOAD_RAMP_UP', '0s')}`,
+            `thinkTime=${ConfigurationManager.get('LOAD_THINK_TIME', '0s')}`,
+            ConfigurationManager.get('LOAD_ARRIVAL_RATE', '') ? `rate=${ConfigurationManager.get('LOAD_ARRIVAL_RATE')}` : '',
+            ConfigurationManager.get('LOAD_THRESHOLDS', 'errorRate<1%')
+        ].filter(Boolean).join(',');
+
+        const tag = this.findLoadTag(scenario);
+        const tagSpec = tag?.match(/^@load\((.*)\)$/i)?.[1] || '';
+
+        for (const spec of [defaults, tagSpec, this.getProfileSpec()]) {
+            this.applySpec(spec, settings, thresholds);
+        }
+
+        settings.thresholds = Array.from(thresholds.values());
+        return settings;
+    }
+
+    /**
+     * Replay recorded requests with virtual users and evaluate the thresholds
+     */
+    async run(scenario: string, requests: RecordedRequest[], settings: LoadTestSettings): Promise<LoadTestResult> {
+        if (requests.length === 0) {
+            throw new Error('Load test needs an API scenario, no requests were sent through the API client during the recording run');
+        }
+
+        const logger = ActionLogger.getInstance();
+        const model = settings.arrivalRate ? 'arrival-rate' : 'closed';
+        logger.info(`Load test started: ${scenario}`, {
+            model,
+            users: settings.users,
+            duration: settings.duration,
+            rampUp: settings.rampUp,
+            arrivalRate: settings.arrivalRate,
+            requests: requests.map(request => request.name)
+        });
+
+        const startTime = Date.now();
+        const endTime = startTime + settings.duration;
+        const metrics = new LoadMetrics(startTime);
+        const state = { active: 0, iterations: 0, dropped: 0 };
+
+        const iteration = async (): Promise<void> => {
+            state.active++;
+            state.iterations++;
+            try {
+                for (const request of requests) {
+                    if (Date.now() >= endTime) {
+                        break;
+                    }
+                    await this.send(request, metrics, state.active);
+                    await this.sleep(Math.min(this.thinkTime(settings), endTime - Date.now()));
+                }
+            } finally {
+                state.active--;
+            }
+        };
+
+        if (settings.arrivalRate) {
+            await this.runArrivalRate(iteration, settings, startTime, state);
+        } else {
+            await Promise.all(Array.from({ length: settings.users }, async (_, user) => {
+                await this.sleep(settings.rampUp * user / settings.users);
+                while (Date.now() < endTime) {
+                    await iteration();
+                }
+            }));
+        }
+
+        const elapsed = Date.now() - startTime;
+        const thresholds = metrics.evaluate(settings.thresholds, elapsed);
+        const result: LoadTestResult = {
+            scenario,
+            model,
+            users: settings.users,
+            duration: settings.duration / 1000,
+            rampUp: settings.rampUp / 1000,
+            startTime: new Date(startTime),
+            endTime: new Date(),
+            iterations: state.iterations,
+            droppedIterations: state.dropped,
+            requests: metrics.requests,
+            errors: metrics.errors,
+            errorRate: metrics.errorRate(),
+            throughput: metrics.throughput(elapsed),
+            latency: metrics.latency(),
+            endpoints: metrics.endpoints(),
+            intervals: metrics.intervals(elapsed),
+            thresholds,
+            passed: thresholds.every(threshold => threshold.passed)
+        };
+        if (settings.arrivalRate) {
+            result.arrivalRate = settings.arrivalRate;
+        }
+
+        this.results.push(result);
+        logger.info(`Load test ${result.passed ? 'passed' : 'failed'}: ${scenario} - ${result.requests} requests, ` +
+            `${result.throughput} req/s, p95 ${result.latency.p95}ms, ${result.errorRate}% errors`, { thresholds });
+        return result;
+    }
+
+    getResults(): LoadTestResult[] {
+        return [...this.results];
+    }
+
+    clear(): void {
+        this.results = [];
+    }
+
+    /**
+     * Start iterations at the arrival rate, ramping up linearly, with at most users running at once
+     */
+    private async runArrivalRate(
+        iteration: () => Promise<void>,
+        settings: LoadTestSettings,
+        startTime: number,
+        state: { active: number; dropped: number }
+    ): Promise<void> {
+        const rate = settings.arrivalRate!;
+        const running = new Set<Promise<void>>();
+        let next = 0;
+
+        while (next < settings.duration) {
+            if (state.active < settings.users) {
+                const started: Promise<void> = iteration().finally(() => running.delete(started));
+                running.add(started);
+            } else {
+                state.dropped++;
+            }
+
+            const currentRate = settings.rampUp > 0 && next < settings.rampUp
+                ? Math.max(rate * next / settings.rampUp, rate / 10)
+                : rate;
+            next += 1000 / currentRate;
+            await this.sleep(startTime + next - Date.now());
+        }
+
+        await Promise.all(Array.from(running));
+    }
+
+    private async send(request: RecordedRequest, metrics: LoadMetrics, activeUsers: number): Promise<void> {
+        const options = { ...request.options, silent: true, retryCount: 0 };
+        delete options.contract;
+
+        const started = Date.now();
+        let ok = false;
+        try {
+            const response = await CSHttpClient.getInstance().request(options);
+            // A request fails when its status class differs from the recording run
+            ok = Math.floor(response.status / 100) === Math.floor(request.status / 100);
+        } catch {
+            ok = false;
+        }
+        metrics.add(request.name, Date.now() - started, ok, activeUsers);
+    }
+
+    private findLoadTag(scenario: Scenario): string | undefined {
+        return scenario.tags.find(tag => /^@load(\(.*\))?$/i.test(tag));
+    }
+
+    /**
+     * LOAD_PROFILE is a profile name (LOAD_PROFILE_<NAME>), "default" or inline settings
+     */
+    private getProfileSpec(): string {
+        const profile = ConfigurationManager.get('LOAD_PROFILE', '');
+        if (!profile || profile === 'default' || profile === 'true') {
+            return '';
+        }
+        if (/[=<>]/.test(profile)) {
+            return profile;
+        }
+
+        const key = `LOAD_PROFILE_${profile.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+        const spec = ConfigurationManager.get(key, '');
+        if (!spec) {
+            throw new Error(`Load profile '${profile}' is not configured, please set ${key}`);
+        }
+        return spec;
+    }
+
+    private applySpec(spec: string, settings: LoadTestSettings, thresholds: Map<string, LoadThreshold>): void {
+        for (const item of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+            const threshold = item.match(/^(\w+)(<=|>=|<|>)(\d+(?:\.\d+)?)(ms|s|%|\/s)?$/);
+            if (threshold) {
+                const metric = threshold[1] as LoadThresholdMetric;
+                if (!LoadTestRunner.METRICS.includes(metric)) {
+                    throw new Error(`Unknown load threshold metric '${metric}' in '${item}', use one of ${LoadTestRunner.METRICS.join(', ')}`);
+                }
+                const operator = threshold[2] as LoadThreshold['operator'];
+                const value = parseFloat(threshold[3]!) * (threshold[4] === 's' ? 1000 : 1);
+                thresholds.set(`${metric}${operator}`, { metric, operator, value, expression: item });
+                continue;
+            }
+
+            const setting = item.match(/^(\w+)=(.+)$/);
+            if (!setting) {
+                throw new Error(`Invalid load setting '${item}', expected name=value or a threshold such as p95<500`);
+            }
+            const [, name, value] = setting as unknown as [string, string, string];
+            switch (name) {
+                case 'users':
+                    settings.users = Math.ceil(this.parsePositive(name, value));
+                    break;
+                case 'duration':
+                    settings.duration = this.parseTime(name, value);
+                    break;
+                case 'rampUp':
+                    settings.rampUp = this.parseTime(name, value);
+                    break;
+                case 'thinkTime': {
+                    const [min, max] = value.split('-');
+                    settings.thinkTime = this.parseTime(name, min!);
+                    if (max) {
+                        settings.thinkTimeMax = this.parseTime(name, max);
+                    } else {
+                        delete settings.thinkTimeMax;
+                    }
+                    break;
+                }
+                case 'rate':
+                case 'arrivalRate':
+                    settings.arrivalRate = this.parsePositive(name, value.replace(/\/s$/, ''));
+                    break;
+                default:
+                    throw new Error(`Unknown load setting '${name}', use users, duration, rampUp, thinkTime or rate`);
+            }
+        }
+    }
+
+    /**
+     * Time in milliseconds from 500ms, 10s, 2m or 1h, plain numbers are seconds
+     */
+    private parseTime(name: string, value: string): number {
+        const match = value.trim().match(/^(\d+(?:\.\d+)?)(ms|s|m|h)?$/);
+        if (!match) {
+            throw new Error(`Invalid time '${value}' for load setting ${name}`);
+        }
+        const multipliers: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+        return parseFloat(match[1]!) * multipliers[match[2] || 's']!;
+    }
+
+    private parsePositive(name: string, value: string): number {
+        const number = parseFloat(value);
+        if (!(number > 0)) {
+            throw new Error(`Load setting ${name} must be a positive number, got '${value}'`);
+        }
+        return number;
+    }
+
+    private thinkTime(settings: LoadTestSettings): number {
+        if (settings.thinkTimeMax === undefined || settings.thinkTimeMax <= settings.thinkTime) {
+            return settings.thinkTime;
+        }
+        return settings.thinkTime + Math.random() * (settings.thinkTimeMax - settings.thinkTime);
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+    }
+}
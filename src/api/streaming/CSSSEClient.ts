@@ -0,0 +1,146 @@
+// src/api/streaming/CSSSEClient.ts
+
+import * as http from 'http';
+import * as https from 'https';
+import { StreamConversation } from './StreamConversation';
+import { AuthenticationHandler } from '../client/AuthenticationHandler';
+import { StreamConnectOptions, StreamMessage, StreamMessageMatcher } from '../types/api.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+
+/**
+ * Server-sent events (text/event-stream) client for API scenarios
+ *
+ * Each dispatched event is added to the conversation with its event name,
+ * "message" when the server sends none.
+ */
+export class CSSSEClient {
+    readonly conversation: StreamConversation;
+    private request: http.ClientRequest | null = null;
+    private response: http.IncomingMessage | null = null;
+    private buffer: string = '';
+    private pending: { event?: string; id?: string; data: string[] } = { data: [] };
+    private closed: boolean = false;
+
+    constructor(
+        readonly url: string,
+        private readonly options: StreamConnectOptions = {}
+    ) {
+        this.conversation = new StreamConversation(url, 'sse', options.scenarioId);
+    }
+
+    async connect(): Promise<void> {
+        let url = this.url;
+        let headers: Record<string, string> = { 'Accept': 'text/event-stream', 'Cache-Control': 'no-cache', ...this.options.headers };
+
+        if (this.options.auth) {
+            const authenticated = await new AuthenticationHandler().applyAuthentication({ url, method: 'GET', headers }, this.options.auth);
+            url = authenticated.url;
+            headers = authenticated.headers || headers;
+        }
+
+        const timeout = this.options.timeout ?? ConfigurationManager.getInt('API_STREAM_TIMEOUT', 10000);
+        const parsed = new URL(url);
+        const transport = parsed.protocol === 'https:' ? https : http;
+
+        this.response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+            const request = transport.request(parsed, {
+                method: 'GET',
+                headers,
+                rejectUnauthorized: this.options.validateSSL ?? true
+            }, resolve);
+            const timer = setTimeout(() => request.destroy(new Error(`Connection to ${this.url} timed out after ${timeout}ms`)), timeout);
+            request.once('response', () => clearTimeout(timer));
+            request.once('error', error => {
+                clearTimeout(timer);
+                reject(error);
+            });
+            request.end();
+            this.request = request;
+        });
+
+        const response = this.response;
+        const contentType = String(response.headers['content-type'] || '');
+        if (response.statusCode !== 200 || !contentType.includes('text/event-stream')) {
+            response.resume();
+            this.close();
+            throw new Error(`Server-sent events from ${this.url} answered with status ${response.statusCode} and content type '${contentType}'`);
+        }
+
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => this.parse(chunk));
+        response.on('end', () => this.onClosed('stream ended by server'));
+        response.on('error', (error: Error) => {
+            void ActionLogger.getInstance().logError(error, `Server-sent events error: ${this.url}`);
+            this.onClosed(error.message);
+        });
+
+        ActionLogger.getInstance().info(`Subscribed to server-sent events: ${this.url}`);
+    }
+
+    waitForEvent(matcher: StreamMessageMatcher, timeout?: number): Promise<StreamMessage> {
+        return this.conversation.waitFor(matcher, timeout ?? this.options.timeout ?? ConfigurationManager.getInt('API_STREAM_TIMEOUT', 10000));
+    }
+
+    isOpen(): boolean {
+        return this.response !== null && !this.closed;
+    }
+
+    close(): void {
+        this.request?.destroy();
+        this.onClosed('unsubscribed');
+    }
+
+    private parse(chunk: string): void {
+        this.buffer += chunk;
+        const lines = this.buffer.split(/\r\n|\r|\n/);
+        this.buffer = lines.pop() || '';
+
+        for (const line of lines) {
+            if (line === '') {
+                this.dispatch();
+                continue;
+            }
+            if (line.startsWith(':')) {
+                continue;
+            }
+            const colon = line.indexOf(':');
+            const field = colon === -1 ? line : line.substring(0, colon);
+            const value = colon === -1 ? '' : line.substring(colon + 1).replace(/^ /, '');
+
+            switch (field) {
+                case 'event':
+                    this.pending.event = value;
+                    break;
+                case 'data':
+                    this.pending.data.push(value);
+                    break;
+                case 'id':
+                    this.pending.id = value;
+                    break;
+            }
+        }
+    }
+
+    private dispatch(): void {
+        const { event, id, data } = this.pending;
+        this.pending = { data: [] };
+        if (data.length === 0) {
+            return;
+        }
+        const extra: { event: string; id?: string } = { event: event || 'message' };
+        if (id !== undefined) {
+            extra.id = id;
+        }
+        this.conversation.add('received', 'event', data.join('\n'), extra);
+    }
+
+    private onClosed(reason: string): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.conversation.close(reason);
+        ActionLogger.getInstance().debug(`Server-sent events closed: ${this.url}`, { reason });
+    }
+}
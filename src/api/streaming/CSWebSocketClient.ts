@@ -0,0 +1,130 @@
+// src/api/streaming/CSWebSocketClient.ts
+
+import WebSocket from 'ws';
+import { StreamConversation } from './StreamConversation';
+import { AuthenticationHandler } from '../client/AuthenticationHandler';
+import { StreamConnectOptions, StreamMessage, StreamMessageMatcher } from '../types/api.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+
+/**
+ * WebSocket (ws/wss) client for API scenarios
+ *
+ * Headers and authentication are applied to the upgrade request.
+ */
+export class CSWebSocketClient {
+    readonly conversation: StreamConversation;
+    private socket: WebSocket | null = null;
+    private closeCode: number | null = null;
+
+    constructor(
+        readonly url: string,
+        private readonly options: StreamConnectOptions = {}
+    ) {
+        this.conversation = new StreamConversation(url, 'websocket', options.scenarioId);
+    }
+
+    async connect(): Promise<void> {
+        let url = this.url;
+        let headers: Record<string, string> = { ...this.options.headers };
+
+        if (this.options.auth) {
+            const authenticated = await new AuthenticationHandler().applyAuthentication({ url, method: 'GET', headers }, this.options.auth);
+            url = authenticated.url;
+            headers = authenticated.headers || headers;
+        }
+
+        const timeout = this.options.timeout ?? ConfigurationManager.getInt('API_STREAM_TIMEOUT', 10000);
+        const socket = new WebSocket(url, this.options.protocols || [], {
+            headers,
+            handshakeTimeout: timeout,
+            rejectUnauthorized: this.options.validateSSL ?? true
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            socket.once('open', () => resolve());
+            socket.once('unexpected-response', (_request, response) => {
+                reject(new Error(`WebSocket upgrade to ${this.url} rejected with status ${response.statusCode}`));
+            });
+            socket.once('error', reject);
+        });
+
+        socket.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+            const buffer = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer);
+            this.conversation.add('received', isBinary ? 'binary' : 'text', isBinary ? buffer.toString('base64') : buffer.toString('utf8'));
+        });
+        socket.on('close', (code: number, reason: Buffer) => {
+            this.closeCode = code;
+            this.conversation.close(`code ${code}${reason.length ? `: ${reason.toString()}` : ''}`);
+            ActionLogger.getInstance().debug(`WebSocket closed: ${this.url}`, { code });
+        });
+        socket.on('error', (error: Error) => {
+            void ActionLogger.getInstance().logError(error, `WebSocket error: ${this.url}`);
+        });
+
+        this.socket = socket;
+        ActionLogger.getInstance().info(`WebSocket connected: ${this.url}`);
+    }
+
+    async sendText(text: string): Promise<void> {
+        await this.send(text, false);
+        this.conversation.add('sent', 'text', text);
+    }
+
+    async sendJSON(data: any): Promise<void> {
+        await this.sendText(typeof data === 'string' ? data : JSON.stringify(data));
+    }
+
+    async sendBinary(data: Buffer): Promise<void> {
+        await this.send(data, true);
+        this.conversation.add('sent', 'binary', data.toString('base64'));
+    }
+
+    waitForMessage(matcher: StreamMessageMatcher, timeout?: number): Promise<StreamMessage> {
+        return this.conversation.waitFor(matcher, timeout ?? this.options.timeout ?? ConfigurationManager.getInt('API_STREAM_TIMEOUT', 10000));
+    }
+
+    isOpen(): boolean {
+        return this.socket?.readyState === WebSocket.OPEN;
+    }
+
+    getCloseCode(): number | null {
+        return this.closeCode;
+    }
+
+    /**
+     * Close the connection, waiting for the close handshake
+     */
+    async close(code: number = 1000, reason?: string): Promise<void> {
+        const socket = this.socket;
+        if (!socket || socket.readyState === WebSocket.CLOSED) {
+            return;
+        }
+
+        await new Promise<void>(resolve => {
+            const timer = setTimeout(() => {
+                socket.terminate();
+                resolve();
+            }, 5000);
+            socket.once('close', () => {
+                clearTimeout(timer);
+                resolve();
+            });
+            if (socket.readyState === WebSocket.CONNECTING) {
+                socket.terminate();
+            } else {
+                socket.close(code, reason);
+            }
+        });
+    }
+
+    private send(data: string | Buffer, binary: boolean): Promise<void> {
+        const socket = this.socket;
+        if (!socket || socket.readyState !== WebSocket.OPEN) {
+            throw new Error(`WebSocket ${this.url} is not open`);
+        }
+        return new Promise((resolve, reject) => {
+            socket.send(data, { binary }, error => error ? reject(error) : resolve());
+        });
+    }
+}
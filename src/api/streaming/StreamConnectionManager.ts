@@ -0,0 +1,88 @@
+// src/api/streaming/StreamConnectionManager.ts
+
+import { CSWebSocketClient } from './CSWebSocketClient';
+import { CSSSEClient } from './CSSSEClient';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+
+type StreamClient = CSWebSocketClient | CSSSEClient;
+
+/**
+ * Open WebSocket and server-sent event connections of the running scenario
+ *
+ * Connections are named per protocol and closed when the scenario ends.
+ */
+export class StreamConnectionManager {
+    private static instance: StreamConnectionManager;
+    private webSockets: Map<string, CSWebSocketClient> = new Map();
+    private eventSources: Map<string, CSSSEClient> = new Map();
+
+    private constructor() {}
+
+    public static getInstance(): StreamConnectionManager {
+        if (!StreamConnectionManager.instance) {
+            StreamConnectionManager.instance = new StreamConnectionManager();
+        }
+        return StreamConnectionManager.instance;
+    }
+
+    /**
+     * Register a connected WebSocket, closing a previous one of the same name
+     */
+    async addWebSocket(name: string, client: CSWebSocketClient): Promise<void> {
+        await this.closeSafely(this.webSockets.get(name));
+        this.webSockets.set(name, client);
+    }
+
+    getWebSocket(name: string): CSWebSocketClient {
+        const client = this.webSockets.get(name);
+        if (!client) {
+            throw new Error(`WebSocket '${name}' is not connected. Please use "Given user connects to WebSocket" first`);
+        }
+        return client;
+    }
+
+    async closeWebSocket(name: string): Promise<void> {
+        const client = this.webSockets.get(name);
+        this.webSockets.delete(name);
+        await client?.close();
+    }
+
+    /**
+     * Register a subscribed event source, closing a previous one of the same name
+     */
+    async addEventSource(name: string, client: CSSSEClient): Promise<void> {
+        await this.closeSafely(this.eventSources.get(name));
+        this.eventSources.set(name, client);
+    }
+
+    getEventSource(name: string): CSSSEClient {
+        const client = this.eventSources.get(name);
+        if (!client) {
+            throw new Error(`Server-sent events '${name}' are not subscribed. Please use "Given user subscribes to server-sent events" first`);
+        }
+        return client;
+    }
+
+    closeEventSource(name: string): void {
+        const client = this.eventSources.get(name);
+        this.eventSources.delete(name);
+        client?.close();
+    }
+
+    async closeAll(): Promise<void> {
+        const clients: StreamClient[] = [...this.webSockets.values(), ...this.eventSources.values()];
+        this.webSockets.clear();
+        this.eventSources.clear();
+        for (const client of clients) {
+            await this.closeSafely(client);
+        }
+    }
+
+    private async closeSafely(client: StreamClient | undefined): Promise<void> {
+        try {
+            await client?.close();
+        } catch (error) {
+            void ActionLogger.getInstance().logError(error as Error, `Failed to close ${client?.url}`);
+        }
+    }
+}
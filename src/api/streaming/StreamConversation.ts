@@ -0,0 +1,173 @@
+// src/api/streaming/StreamConversation.ts
+
+import * as crypto from 'crypto';
+import { StreamMessage, StreamMessageMatcher, StreamProtocol } from '../types/api.types';
+import { JSONPathValidator } from '../validators/JSONPathValidator';
+import { NetworkCollector } from '../../reporting/collectors/NetworkCollector';
+
+/**
+ * Messages sent and received on a WebSocket or SSE connection
+ *
+ * Waiting consumes messages: each wait looks at messages received after the
+ * previous match, so consecutive waits follow the stream in order. Every message
+ * is reported to the NetworkCollector as a frame of the connection.
+ */
+export class StreamConversation {
+    readonly connectionId: string = crypto.randomBytes(8).toString('hex');
+    private messages: StreamMessage[] = [];
+    private listeners: Set<() => void> = new Set();
+    private cursor: number = -1;
+    private closeReason: string | null = null;
+
+    constructor(
+        readonly url: string,
+        readonly protocol: StreamProtocol,
+        private readonly scenarioId: string = 'api'
+    ) {}
+
+    add(direction: StreamMessage['direction'], type: StreamMessage['type'], data: string, extra: { event?: string; id?: string } = {}): StreamMessage {
+        const message: StreamMessage = {
+            index: this.messages.length,
+            direction,
+            type,
+            data,
+            timestamp: new Date(),
+            ...extra
+        };
+        if (type !== 'binary') {
+            try {
+                message.json = JSON.parse(data);
+            } catch {
+                // Plain text payload
+            }
+        }
+
+        this.messages.push(message);
+        NetworkCollector.getInstance().recordFrame(this.scenarioId, {
+            id: `${this.connectionId}-${message.index}`,
+            timestamp: message.timestamp.toISOString(),
+            direction,
+            opcode: type === 'binary' ? 0x2 : 0x1,
+            mask: direction === 'sent',
+            payload: extra.event ? `${extra.event}: ${data}` : data,
+            type: type === 'event' ? 'sse' : type,
+            size: Buffer.byteLength(data),
+            wsUrl: this.url,
+            wsId: this.connectionId
+        });
+
+        this.notify();
+        return message;
+    }
+
+    /**
+     * Stop waiting, pending and later waits fail with the reason
+     */
+    close(reason: string): void {
+        this.closeReason = reason;
+        this.notify();
+    }
+
+    getMessages(direction?: StreamMessage['direction']): StreamMessage[] {
+        return direction ? this.messages.filter(message => message.direction === direction) : [...this.messages];
+    }
+
+    /**
+     * Next received message matching, waiting up to timeout milliseconds
+     */
+    waitFor(matcher: StreamMessageMatcher, timeout: number): Promise<StreamMessage> {
+        return new Promise((resolve, reject) => {
+            const check = (): boolean => {
+                const message = this.messages.find(m => m.index > this.cursor && m.direction === 'received' && this.matches(m, matcher));
+                if (message) {
+                    this.cursor = message.index;
+                    finish();
+                    resolve(message);
+                    return true;
+                }
+                if (this.closeReason) {
+                    finish();
+                    reject(new Error(`No ${this.describe(matcher)} before the connection closed (${this.closeReason})${this.describeReceived()}`));
+                    return true;
+                }
+                return false;
+            };
+            const timer = setTimeout(() => {
+                finish();
+                reject(new Error(`No ${this.describe(matcher)} within ${timeout}ms${this.describeReceived()}`));
+            }, timeout);
+            const finish = () => {
+                clearTimeout(timer);
+                this.listeners.delete(check);
+            };
+
+            if (!check()) {
+                this.listeners.add(check);
+            }
+        });
+    }
+
+    /**
+     * Whether the received messages contain the matchers in the given order
+     */
+    assertOrder(matchers: StreamMessageMatcher[]): void {
+        let index = 0;
+        for (const message of this.getMessages('received')) {
+            if (index < matchers.length && this.matches(message, matchers[index]!)) {
+                index++;
+            }
+        }
+        if (index < matchers.length) {
+            throw new Error(`Expected ${matchers.map(m => this.describe(m)).join(', then ')} in order, ` +
+                `but found no ${this.describe(matchers[index]!)} after the previous ones${this.describeReceived()}`);
+        }
+    }
+
+    matches(message: StreamMessage, matcher: StreamMessageMatcher): boolean {
+        if (matcher.event !== undefined && message.event !== matcher.event) {
+            return false;
+        }
+        if (matcher.contains !== undefined && !message.data.includes(matcher.contains)) {
+            return false;
+        }
+        if (matcher.jsonPath !== undefined) {
+            if (message.json === undefined) {
+                return false;
+            }
+            const validator = JSONPathValidator.getInstance();
+            if (!validator.pathExists(message.json, matcher.jsonPath)) {
+                return false;
+            }
+            if (matcher.value !== undefined) {
+                const actual = validator.extractValue(message.json, matcher.jsonPath);
+                return (typeof actual === 'string' ? actual : JSON.stringify(actual)) === matcher.value;
+            }
+        }
+        return true;
+    }
+
+    describe(matcher: StreamMessageMatcher): string {
+        const parts: string[] = [];
+        if (matcher.event !== undefined) parts.push(`event "${matcher.event}"`);
+        if (matcher.contains !== undefined) parts.push(`containing "${matcher.contains}"`);
+        if (matcher.jsonPath !== undefined) {
+            parts.push(matcher.value !== undefined ? `with ${matcher.jsonPath} = ${matcher.value}` : `with ${matcher.jsonPath}`);
+        }
+        return `message ${parts.join(' ') || 'of any kind'}`.trim();
+    }
+
+    private describeReceived(): string {
+        const received = this.getMessages('received');
+        if (received.length === 0) {
+            return '. No messages received';
+        }
+        const last = received.slice(-5).map(m => `${m.event ? `${m.event}: ` : ''}${m.data.substring(0, 200)}`);
+        return `. ${received.length} messages received, last: ${last.join(' | ')}`;
+    }
+
+    private notify(): void {
+        for (const listener of Array.from(this.listeners)) {
+            listener();
+        }
+    }
+}
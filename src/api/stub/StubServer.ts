@@ -0,0 +1,457 @@
+// src/api/stub/StubServer.ts
+
+import * as http from 'http';
+import * as net from 'net';
+import * as path from 'path';
+import { StubMapping, StubRequest, StubServerScope, StubValueMatcher } from '../types/api.types';
+import { JSONPathValidator } from '../validators/JSONPathValidator';
+import { RequestTemplateEngine } from '../templates/RequestTemplateEngine';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import { FileUtils } from '../../core/utils/FileUtils';
+
+const DEFAULT_PRIORITY = 5;
+const INITIAL_STATE = 'Started';
+const MATCHER_KEYS = ['equalTo', 'contains', 'matches', 'absent'];
+
+interface RegisteredStub {
+    name: string;
+    mapping: StubMapping;
+    /** Registration order, later stubs win at equal priority */
+    order: number;
+}
+
+/**
+ * In-process HTTP server answering requests with stubbed responses
+ *
+ * Stubs match on method, path (exact, template or pattern), query, headers and
+ * body (JSONPath or substring). Every request is recorded for verification,
+ * requests without a matching stub get a 404 listing the registered stubs.
+ */
+export class StubServer {
+    private server: http.Server | null = null;
+    private sockets: Set<net.Socket> = new Set();
+    private stubs: RegisteredStub[] = [];
+    private requests: StubRequest[] = [];
+    private states: Map<string, string> = new Map();
+    private stubCounter: number = 0;
+    private port: number = 0;
+
+    constructor(
+        public readonly name: string,
+        public readonly scope: StubServerScope = 'scenario'
+    ) {}
+
+    /**
+     * Start listening, port 0 picks a free port
+     */
+    async start(port: number = 0): Promise<void> {
+        if (this.server) {
+            return;
+        }
+
+        const host = ConfigurationManager.get('STUB_SERVER_HOST', '127.0.0.1');
+        const server = http.createServer((req, res) => {
+            this.handle(req, res).catch(error => {
+                void ActionLogger.getInstance().logError(error as Error, `Stub server ${this.name} failed to respond`);
+                if (!res.headersSent) {
+                    res.writeHead(500, { 'content-type': 'text/plain' });
+                }
+                res.end(`Stub server error: ${(error as Error).message}`);
+            });
+        });
+        server.on('connection', socket => {
+            this.sockets.add(socket);
+            socket.on('close', () => this.sockets.delete(socket));
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, host, () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+
+        this.server = server;
+        this.port = (server.address() as net.AddressInfo).port;
+        ActionLogger.getInstance().info(`Stub server ${this.name} listening on ${this.getUrl()}`);
+    }
+
+    /**
+     * Stop listening and drop open connections, including requests held by a timeout fault
+     */
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return;
+        }
+
+        this.server = null;
+        for (const socket of this.sockets) {
+            socket.destroy();
+        }
+        this.sockets.clear();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        ActionLogger.getInstance().info(`Stub server ${this.name} stopped`);
+    }
+
+    isRunning(): boolean {
+        return this.server !== null;
+    }
+
+    getUrl(): string {
+        const host = ConfigurationManager.get('STUB_SERVER_HOST', '127.0.0.1');
+        return `http://${host.includes(':') ? `[${host}]` : host}:${this.port}`;
+    }
+
+    getPort(): number {
+        return this.port;
+    }
+
+    /**
+     * Register a stub, a stub with the same name is replaced
+     */
+    addStub(mapping: StubMapping): string {
+        if (!mapping.request || !mapping.response) {
+            throw new Error('Stub mapping requires a request and a response');
+        }
+
+        const name = mapping.name || `${mapping.request.method || 'ANY'} ${mapping.request.path || mapping.request.pathPattern || '*'}`;
+        this.stubs = this.stubs.filter(stub => stub.name !== name);
+        this.stubs.push({ name, mapping, order: ++this.stubCounter });
+
+        ActionLogger.getInstance().debug(`Stub registered on ${this.name}: ${name}`, mapping);
+        return name;
+    }
+
+    removeStub(name: string): void {
+        this.stubs = this.stubs.filter(stub => stub.name !== name);
+    }
+
+    getStubNames(): string[] {
+        return this.stubs.map(stub => stub.name);
+    }
+
+    /**
+     * Register stubs from a JSON file or a directory of JSON files
+     *
+     * A file holds a mapping, an array of mappings or `{ "mappings": [...] }`.
+     * Relative `bodyFile`s resolve against the file's directory.
+     */
+    async loadMappings(mappingPath: string): Promise<string[]> {
+        const files = (await FileUtils.getStats(mappingPath)).isDirectory
+            ? (await FileUtils.readDir(mappingPath)).filter(file => file.endsWith('.json')).sort().map(file => path.join(mappingPath, file))
+            : [mappingPath];
+
+        const names: string[] = [];
+        for (const file of files) {
+            const content = JSON.parse((await FileUtils.readFile(file)).toString());
+            const mappings: StubMapping[] = Array.isArray(content) ? content : content.mappings || [content];
+
+            for (const mapping of mappings) {
+                if (mapping.response?.bodyFile && !path.isAbsolute(mapping.response.bodyFile)) {
+                    mapping.response.bodyFile = path.resolve(path.dirname(file), mapping.response.bodyFile);
+                }
+                names.push(this.addStub(mapping));
+            }
+        }
+        return names;
+    }
+
+    /**
+     * Requests received, optionally only those matched by a stub
+     */
+    getRequests(stubName?: string): StubRequest[] {
+        return stubName === undefined ? [...this.requests] : this.requests.filter(request => request.stub === stubName);
+    }
+
+    getUnmatchedRequests(): StubRequest[] {
+        return this.requests.filter(request => request.stub === undefined);
+    }
+
+    getScenarioState(scenario: string): string {
+        return this.states.get(scenario) ?? INITIAL_STATE;
+    }
+
+    setScenarioState(scenario: string, state: string): void {
+        this.states.set(scenario, state);
+    }
+
+    /**
+     * Remove recorded requests and scenario states, keeping the stubs
+     */
+    clearRequests(): void {
+        this.requests = [];
+        this.states.clear();
+    }
+
+    /**
+     * Remove stubs, recorded requests and scenario states
+     */
+    reset(): void {
+        this.stubs = [];
+        this.requests = [];
+        this.states.clear();
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const request = await this.readRequest(req);
+        this.requests.push(request);
+
+        const match = this.findStub(request);
+        if (!match) {
+            ActionLogger.getInstance().warn(`Stub server ${this.name} has no stub for ${request.method} ${request.path}`);
+            res.writeHead(404, { 'content-type': 'application/json' });
+            res.end(JSON.stringify({
+                error: `No stub matched ${request.method} ${request.path}`,
+                stubs: this.getStubNames()
+            }));
+            return;
+        }
+
+        const { stub, params } = match;
+        request.stub = stub.name;
+        request.params = params;
+        if (stub.mapping.scenario && stub.mapping.newState) {
+            this.states.set(stub.mapping.scenario, stub.mapping.newState);
+        }
+
+        await this.respond(stub.mapping, request, res);
+    }
+
+    private async respond(mapping: StubMapping, request: StubRequest, res: http.ServerResponse): Promise<void> {
+        const response = mapping.response;
+        if (response.delay) {
+            await new Promise(resolve => setTimeout(resolve, response.delay));
+        }
+
+        switch (response.fault) {
+            case 'connection-reset':
+                res.socket?.destroy();
+                return;
+            case 'empty-response':
+                res.socket?.end();
+                return;
+            case 'malformed-response':
+                res.socket?.end('HTTP/1.1 ???\r\nlorem ipsum\r\n\r\n');
+                return;
+            case 'timeout':
+                // Held until the client gives up or the server stops
+                return;
+        }
+
+        const headers: Record<string, string> = { ...response.headers };
+        let body = response.bodyFile
+            ? (await FileUtils.readFile(this.resolveBodyFile(response.bodyFile))).toString()
+            : response.body;
+
+        if (body !== undefined && body !== null && typeof body !== 'string') {
+            body = JSON.stringify(body);
+            if (!Object.keys(headers).some(header => header.toLowerCase() === 'content-type')) {
+                headers['content-type'] = 'application/json';
+            }
+        }
+
+        if (response.templated) {
+            const engine = RequestTemplateEngine.getInstance();
+            const context = { request };
+            if (typeof body === 'string') {
+                body = await engine.processTemplate(body, context, { useCache: false });
+            }
+            for (const [header, value] of Object.entries(headers)) {
+                headers[header] = await engine.processTemplate(value, context, { useCache: false });
+            }
+        }
+
+        res.writeHead(response.status ?? 200, headers);
+        res.end(body ?? '');
+    }
+
+    /**
+     * Matching stub with the lowest priority, the latest one at equal priority
+     */
+    private findStub(request: StubRequest): { stub: RegisteredStub; params: Record<string, string> } | undefined {
+        let best: { stub: RegisteredStub; params: Record<string, string> } | undefined;
+
+        for (const stub of this.stubs) {
+            const params = this.matches(stub.mapping, request);
+            if (!params) continue;
+
+            if (!best) {
+                best = { stub, params };
+                continue;
+            }
+            const priority = stub.mapping.priority ?? DEFAULT_PRIORITY;
+            const bestPriority = best.stub.mapping.priority ?? DEFAULT_PRIORITY;
+            if (priority < bestPriority || (priority === bestPriority && stub.order > best.stub.order)) {
+                best = { stub, params };
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Path parameters when the stub matches, null otherwise
+     */
+    private matches(mapping: StubMapping, request: StubRequest): Record<string, string> | null {
+        const pattern = mapping.request;
+
+        if (pattern.method && pattern.method !== 'ANY' && pattern.method.toUpperCase() !== request.method) {
+            return null;
+        }
+        if (mapping.scenario && mapping.requiredState && this.getScenarioState(mapping.scenario) !== mapping.requiredState) {
+            return null;
+        }
+
+        let params: Record<string, string> = {};
+        if (pattern.path) {
+            const pathParams = this.matchPath(pattern.path, request.path);
+            if (!pathParams) {
+                return null;
+            }
+            params = pathParams;
+        }
+        if (pattern.pathPattern && !new RegExp(pattern.pathPattern).test(request.path)) {
+            return null;
+        }
+
+        for (const [name, matcher] of Object.entries(pattern.query || {})) {
+            if (!this.matchValue(request.query[name], matcher)) {
+                return null;
+            }
+        }
+        for (const [name, matcher] of Object.entries(pattern.headers || {})) {
+            if (!this.matchValue(request.headers[name.toLowerCase()], matcher)) {
+                return null;
+            }
+        }
+
+        if (pattern.bodyContains !== undefined) {
+            const text = typeof request.body === 'string' ? request.body : JSON.stringify(request.body ?? '');
+            if (!text.includes(pattern.bodyContains)) {
+                return null;
+            }
+        }
+        if (pattern.bodyJsonPath) {
+            if (request.body === null || typeof request.body !== 'object') {
+                return null;
+            }
+            for (const [jsonPath, expected] of Object.entries(pattern.bodyJsonPath)) {
+                const actual = JSONPathValidator.getInstance().extractValue(request.body, jsonPath);
+                if (!this.matchJsonValue(actual, expected)) {
+                    return null;
+                }
+            }
+        }
+
+        return params;
+    }
+
+    /**
+     * Template parameters of a path, e.g. /users/{id} and /users/7 give { id: '7' }
+     */
+    private matchPath(template: string, requestPath: string): Record<string, string> | null {
+        const names: string[] = [];
+        const source = template
+            .replace(/\/+$/, '')
+            .split(/(\{[^}]+\})/)
+            .map(part => {
+                const param = part.match(/^\{([^}]+)\}$/);
+                if (param) {
+                    names.push(param[1]!);
+                    return '([^/]+)';
+                }
+                return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            })
+            .join('');
+
+        const match = requestPath.replace(/(.)\/+$/, '$1').match(new RegExp(`^${source || '/'}$`));
+        if (!match) {
+            return null;
+        }
+
+        const params: Record<string, string> = {};
+        names.forEach((name, index) => {
+            params[name] = decodeURIComponent(match[index + 1]!);
+        });
+        return params;
+    }
+
+    private matchValue(actual: string | undefined, matcher: StubValueMatcher): boolean {
+        if (typeof matcher === 'string') {
+            return actual === matcher;
+        }
+        if (matcher.absent !== undefined) {
+            return matcher.absent === (actual === undefined);
+        }
+        if (actual === undefined) {
+            return false;
+        }
+        return (matcher.equalTo === undefined || actual === matcher.equalTo)
+            && (matcher.contains === undefined || actual.includes(matcher.contains))
+            && (matcher.matches === undefined || new RegExp(matcher.matches).test(actual));
+    }
+
+    /**
+     * Expected JSONPath value: a value matcher for strings, otherwise compared as JSON
+     */
+    private matchJsonValue(actual: any, expected: any): boolean {
+        const isMatcher = expected !== null && typeof expected === 'object' && !Array.isArray(expected)
+            && Object.keys(expected).length > 0 && Object.keys(expected).every(key => MATCHER_KEYS.includes(key));
+
+        if (isMatcher) {
+            return this.matchValue(actual === undefined ? undefined : typeof actual === 'string' ? actual : JSON.stringify(actual), expected);
+        }
+        if (typeof expected === 'string' && typeof actual !== 'string' && actual !== undefined) {
+            return JSON.stringify(actual) === expected;
+        }
+        return JSON.stringify(actual) === JSON.stringify(expected);
+    }
+
+    private async readRequest(req: http.IncomingMessage): Promise<StubRequest> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+            chunks.push(chunk as Buffer);
+        }
+        const text = Buffer.concat(chunks).toString('utf8');
+
+        const url = new URL(req.url || '/', 'http://localhost');
+        const query: Record<string, string> = {};
+        url.searchParams.forEach((value, key) => {
+            query[key] = value;
+        });
+
+        const headers: Record<string, string> = {};
+        for (const [header, value] of Object.entries(req.headers)) {
+            if (value !== undefined) {
+                headers[header] = Array.isArray(value) ? value.join(', ') : value;
+            }
+        }
+
+        let body: any = text;
+        if (text && (/json/i.test(headers['content-type'] || '') || /^\s*[{[]/.test(text))) {
+            try {
+                body = JSON.parse(text);
+            } catch {
+                body = text;
+            }
+        }
+
+        return {
+            method: (req.method || 'GET').toUpperCase(),
+            path: url.pathname,
+            query,
+            headers,
+            body,
+            params: {},
+            timestamp: new Date()
+        };
+    }
+
+    private resolveBodyFile(bodyFile: string): string {
+        return path.isAbsolute(bodyFile)
+            ? bodyFile
+            : path.resolve(ConfigurationManager.get('STUB_MAPPINGS_PATH', './test-data/stubs'), bodyFile);
+    }
+}
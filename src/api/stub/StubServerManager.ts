@@ -0,0 +1,104 @@
+// src/api/stub/StubServerManager.ts
+
+import { StubServer } from './StubServer';
+import { StubServerScope } from '../types/api.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+
+/**
+ * Named stub servers of the run
+ *
+ * Scenario servers stop when the scenario ends, feature servers when the feature ends and
+ * start every scenario with their stubs but without the requests and states of earlier ones.
+ * The URL of a running server is available as configuration STUB_<NAME>_URL.
+ */
+export class StubServerManager {
+    private static instance: StubServerManager;
+    private servers: Map<string, StubServer> = new Map();
+
+    private constructor() {}
+
+    public static getInstance(): StubServerManager {
+        if (!StubServerManager.instance) {
+            StubServerManager.instance = new StubServerManager();
+        }
+        return StubServerManager.instance;
+    }
+
+    /**
+     * Start a server, a running server of the same name is returned as is
+     */
+    async start(name: string, options: { port?: number; scope?: StubServerScope } = {}): Promise<StubServer> {
+        const running = this.servers.get(name);
+        if (running) {
+            return running;
+        }
+
+        const server = new StubServer(name, options.scope);
+        await server.start(options.port);
+        this.servers.set(name, server);
+        ConfigurationManager.set(this.getUrlKey(name), server.getUrl());
+        return server;
+    }
+
+    get(name: string): StubServer {
+        const server = this.servers.get(name);
+        if (!server) {
+            throw new Error(`Stub server '${name}' is not running. Please use "Given user starts stub server \\"${name}\\"" first`);
+        }
+        return server;
+    }
+
+    has(name: string): boolean {
+        return this.servers.has(name);
+    }
+
+    async stop(name: string): Promise<void> {
+        const server = this.servers.get(name);
+        if (!server) {
+            return;
+        }
+        this.servers.delete(name);
+        await server.stop();
+    }
+
+    /**
+     * Stop the servers of a scope
+     */
+    async stopScope(scope: StubServerScope): Promise<void> {
+        for (const server of Array.from(this.servers.values())) {
+            if (server.scope === scope) {
+                await this.stopSafely(server.name);
+            }
+        }
+    }
+
+    /**
+     * Clear the recorded requests and scenario states of the servers of a scope
+     */
+    clearRequests(scope: StubServerScope): void {
+        for (const server of this.servers.values()) {
+            if (server.scope === scope) {
+                server.clearRequests();
+            }
+        }
+    }
+
+    async stopAll(): Promise<void> {
+        for (const name of Array.from(this.servers.keys())) {
+            await this.stopSafely(name);
+        }
+    }
+
+    private async stopSafely(name: string): Promise<void> {
+        try {
+            await this.stop(name);
+        } catch (error) {
+            void ActionLogger.getInstance().logError(error as Error, `Failed to stop stub server ${name}`);
+        }
+    }
+
+    private getUrlKey(name: string): string {
+        return `STUB_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_URL`;
+    }
+}
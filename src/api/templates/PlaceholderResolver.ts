@@ -1,5 +1,6 @@
 import { TemplateContext, PlaceholderOptions, CustomResolver } from '../types/api.types';
 import { ActionLogger } from '../../core/logging/ActionLogger';
+import { FakeDataGenerator } from '../../data/generators/FakeDataGenerator';
 
 /**
  * Resolve template placeholders with support for nested properties,
@@ -32,7 +33,8 @@ export class PlaceholderResolver {
     ): string {
         try {
             // Pattern matches: {{variable}}, {{variable|transformer}}, {{variable|transformer:arg}}, {{variable|default:value}}
-            const placeholderPattern = /\{\{([^}]+)\}\}/g;
+            // Single braces are allowed inside, e.g. {{fake.string.regex('[A-Z]{3}')}}
+            const placeholderPattern = /\{\{((?:[^}]|\}(?!\}))+)\}\}/g;
             
             return template.replace(placeholderPattern, (match, expression) => {
                 try {
@@ -61,9 +63,10 @@ export class PlaceholderResolver {
         context: TemplateContext,
         options: PlaceholderOptions
     ): string {
-        // Check cache if enabled
+        // Check cache if enabled (fake data must be generated every time)
         const cacheKey = `${expression}:${JSON.stringify(context)}`;
-        if (options.useCache && this.resolverCache.has(cacheKey)) {
+        const cacheable = options.useCache && !expression.startsWith('fake.');
+        if (cacheable && this.resolverCache.has(cacheKey)) {
             return this.resolverCache.get(cacheKey);
         }
 
@@ -81,6 +84,9 @@ export class PlaceholderResolver {
             } else {
                 throw new Error(`Unknown custom resolver: ${resolverName}`);
             }
+        } else if (parts.path.startsWith('fake.')) {
+            // Seeded synthetic data, e.g. {{fake.person.firstName}} or {{fake.number.int(1, 10)}}
+            value = FakeDataGenerator.getInstance().generate(parts.path.substring(5), ...parts.args);
         } else {
             // Standard property resolution
             value = this.resolveProperty(parts.path, context);
@@ -100,7 +106,7 @@ export class PlaceholderResolver {
         const result = this.valueToString(value, options);
 
         // Cache result if enabled
-        if (options.useCache) {
+        if (cacheable) {
             this.resolverCache.set(cacheKey, result);
         }
 
@@ -124,7 +130,7 @@ export class PlaceholderResolver {
         const firstSegment = segments[0]?.trim() || '';
         
         // Check if path has arguments (for custom resolvers)
-        const argMatch = firstSegment.match(/^([^(]+)\(([^)]*)\)$/);
+        const argMatch = firstSegment.match(/^([^(]+)\((.*)\)$/s);
         if (argMatch && argMatch[1] && argMatch[2] !== undefined) {
             parts.path = argMatch[1].trim();
             parts.args = this.parseArguments(argMatch[2]);
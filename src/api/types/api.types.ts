@@ -24,6 +24,10 @@ export interface RequestOptions {
   json?: any;
   followRedirects?: boolean;
   retryConfig?: RetryOptions;
+  /** OpenAPI spec the response is validated against */
+  contract?: string;
+  /** Skip request and response logging, for high-volume callers such as load tests */
+  silent?: boolean;
 }
 
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS' | 'TRACE' | 'CONNECT';
@@ -153,7 +157,7 @@ export interface ValidationError {
   expected?: any;
   actual?: any;
   message: string;
-  type?: 'status' | 'header' | 'body' | 'schema' | 'jsonpath' | 'xpath' | 'custom';
+  type?: 'status' | 'header' | 'body' | 'schema' | 'jsonpath' | 'xpath' | 'contract' | 'custom';
   line?: number;
   column?: number;
 }
@@ -350,6 +354,8 @@ export interface APIContextData {
     delay: number;
     backoff: string;
   };
+  /** OpenAPI spec of the API */
+  contract?: string;
 }
 
 export interface APIVariable {
@@ -562,4 +568,232 @@ export interface SchemaValidatorOptions {
   discriminator?: boolean;
   unicodeRegExp?: boolean;
   int32range?: boolean;
-}
\ No newline at end of file
+}
+
+// OpenAPI contract testing
+export type ContractValidationMode = 'off' | 'warn' | 'strict';
+
+export interface OpenAPIResponse {
+  description?: string;
+  /** Media type to schema, $refs resolved */
+  content: Record<string, Schema | null>;
+}
+
+export interface OpenAPIOperation {
+  id: string;
+  method: HttpMethod;
+  /** Path template, e.g. /users/{id} */
+  path: string;
+  operationId?: string;
+  /** Status code, range (2XX) or default to response */
+  responses: Record<string, OpenAPIResponse>;
+}
+
+export interface ContractValidationResult extends ValidationResult {
+  /** Operation the request matched, absent when the path is not in the spec */
+  operation?: string;
+  status: number;
+  /** Documented response the status resolved to, e.g. 200, 2XX or default */
+  matchedResponse?: string;
+}
+
+
+// HTTP stub server
+export type StubServerScope = 'scenario' | 'feature';
+
+/**
+ * Expected value, a plain string is compared for equality
+ */
+export type StubValueMatcher = string | {
+  equalTo?: string;
+  contains?: string;
+  matches?: string;
+  absent?: boolean;
+};
+
+export interface StubRequestPattern {
+  method?: HttpMethod | 'ANY';
+  /** Exact path or template, e.g. /users/{id} */
+  path?: string;
+  /** Regular expression the path must match */
+  pathPattern?: string;
+  query?: Record<string, StubValueMatcher>;
+  headers?: Record<string, StubValueMatcher>;
+  /** JSONPath expression to expected value, e.g. { "$.user.id": 7 } */
+  bodyJsonPath?: Record<string, any>;
+  bodyContains?: string;
+}
+
+export type StubFault = 'connection-reset' | 'empty-response' | 'malformed-response' | 'timeout';
+
+export interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: any;
+  /** File the body is read from */
+  bodyFile?: string;
+  /** Render body and headers with the RequestTemplateEngine, the request is {{request.*}} */
+  templated?: boolean;
+  /** Milliseconds before responding */
+  delay?: number;
+  fault?: StubFault;
+}
+
+export interface StubMapping {
+  name?: string;
+  /** Lower wins, default 5. Equal priorities prefer the latest stub */
+  priority?: number;
+  request: StubRequestPattern;
+  response: StubResponse;
+  /** Stateful stubs: match only while the scenario is in requiredState, then move it to newState */
+  scenario?: string;
+  requiredState?: string;
+  newState?: string;
+}
+
+export interface StubRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  /** Parsed JSON or text */
+  body: any;
+  /** Path template parameters */
+  params: Record<string, string>;
+  /** Name of the matched stub */
+  stub?: string;
+  timestamp: Date;
+}
+
+// WebSocket and server-sent event streams
+export type StreamProtocol = 'websocket' | 'sse';
+
+export interface StreamMessage {
+  /** Position in the conversation, sent and received */
+  index: number;
+  direction: 'sent' | 'received';
+  type: 'text' | 'binary' | 'event';
+  /** Text payload, base64 for binary frames */
+  data: string;
+  /** Payload parsed as JSON, absent when it is not JSON */
+  json?: any;
+  /** SSE event type and id */
+  event?: string;
+  id?: string;
+  timestamp: Date;
+}
+
+export interface StreamConnectOptions {
+  headers?: Record<string, string>;
+  auth?: AuthConfig;
+  timeout?: number;
+  validateSSL?: boolean;
+  /** WebSocket subprotocols */
+  protocols?: string[];
+  /** Scenario the conversation is reported for */
+  scenarioId?: string;
+}
+
+/**
+ * Message expectation, text and jsonPath/value are combined when both are given
+ */
+export interface StreamMessageMatcher {
+  /** Substring of the payload */
+  contains?: string;
+  /** JSONPath that must resolve, compared with value when given */
+  jsonPath?: string;
+  value?: string;
+  /** SSE event type */
+  event?: string;
+}
+
+export type GrpcMethodType = 'unary' | 'server-streaming' | 'client-streaming' | 'bidi-streaming';
+
+export interface GrpcClientOptions {
+  /** TLS channel, implied by grpcs:// and https:// addresses */
+  tls?: boolean;
+  /** Client certificate and CA for mutual TLS */
+  certificate?: CertificateConfig;
+}
+
+export interface GrpcCallOptions {
+  metadata?: Record<string, string>;
+  /** Deadline in milliseconds */
+  timeout?: number;
+  /** Applied to the call metadata, certificate auth is applied to the channel */
+  auth?: AuthConfig;
+}
+
+/**
+ * Outcome of a gRPC call, failed calls are responses with a non-OK status
+ */
+export interface GrpcResponse {
+  /** Full method name, e.g. shop.OrderService/GetOrder */
+  method: string;
+  type: GrpcMethodType;
+  status: number;
+  statusName: string;
+  details: string;
+  /** Decoded response messages, one for unary and client-streaming methods */
+  messages: any[];
+  metadata: Record<string, string>;
+  trailers: Record<string, string>;
+  duration: number;
+}
+
+/**
+ * Stubbed answer of a gRPC stub server method
+ */
+export interface GrpcStubResponse {
+  /** Response messages, streaming methods send all of them, the others the first */
+  messages: any[];
+  /** Status name or number, default OK */
+  status?: string | number;
+  details?: string;
+  trailers?: Record<string, string>;
+}
+
+export interface GrpcStubRequest {
+  /** Full method name, e.g. shop.OrderService/GetOrder */
+  method: string;
+  messages: any[];
+  metadata: Record<string, string>;
+  timestamp: Date;
+}
+
+export type LoadThresholdMetric = 'avg' | 'min' | 'max' | 'p50' | 'p90' | 'p95' | 'p99' | 'errorRate' | 'throughput' | 'requests';
+
+/**
+ * Pass condition of a load test, e.g. p95<500 (ms), errorRate<1 (%), throughput>=20 (requests/s)
+ */
+export interface LoadThreshold {
+  metric: LoadThresholdMetric;
+  operator: '<' | '<=' | '>' | '>=';
+  value: number;
+  expression: string;
+}
+
+/**
+ * Load model of a scenario run in load mode, times in milliseconds
+ */
+export interface LoadTestSettings {
+  /** Virtual users, with an arrival rate the maximum of concurrent iterations */
+  users: number;
+  duration: number;
+  rampUp: number;
+  /** Pause after every request, random between thinkTime and thinkTimeMax when given */
+  thinkTime: number;
+  thinkTimeMax?: number;
+  /** Iterations started per second regardless of response times (open model) */
+  arrivalRate?: number;
+  thresholds: LoadThreshold[];
+}
+
+/**
+ * Request sent through CSHttpClient while recording a load scenario
+ */
+export interface RecordedRequest {
+  name: string;
+  options: RequestOptions;
+  status: number;
+}
@@ -124,6 +124,11 @@ export class SchemaValidator {
             return this.validateAgainstSchema(data, resolvedSchema, options, path);
         }
 
+        // OpenAPI 3.0 nullable
+        if (data === null && schema['nullable'] === true) {
+            return true;
+        }
+
         // Type validation
         if (schema.type && !this.validateType(data, schema.type, path)) {
             return false;
@@ -511,7 +516,7 @@ export class SchemaValidator {
         const types = Array.isArray(type) ? type : [type];
         const dataType = this.getJsonType(data);
 
-        if (!types.includes(dataType)) {
+        if (!types.includes(dataType) && !(dataType === 'number' && types.includes('integer') && Number.isInteger(data))) {
             this.addError(path, `Expected type ${types.join(' or ')}`, types.join(' or '), dataType);
             return false;
         }
@@ -83,10 +83,13 @@ export abstract class CSBDDBaseStepDefinition {
   }
 
   /**
-   * Retrieve value from scenario context
+   * Retrieve value from scenario context, then from feature and world context
    */
   protected retrieve<T = any>(key: string, defaultValue?: T): T {
-    return this.scenarioContext.get<T>(key, defaultValue);
+    if (this.scenarioContext.has(key)) {
+      return this.scenarioContext.get<T>(key);
+    }
+    return this.context.retrieve<T>(key, defaultValue) as T;
   }
 
   /**
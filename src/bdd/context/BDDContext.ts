@@ -118,6 +118,13 @@ export class BDDContext {
     return this.scenarioContext;
   }
 
+  /**
+   * Id of the current scenario, 'global' outside of a scenario
+   */
+  public getScenarioId(): string {
+    return this.scenarioContext?.getScenarioId() || 'global';
+  }
+
   /**
    * Get step context
    */
@@ -246,16 +253,14 @@ export class BDDContext {
    * Store API response
    */
   public storeResponse(alias: string, response: any): void {
-    const scenarioId = this.scenarioContext?.getScenarioId() || 'global';
-    this.responseStorage.store(alias, response, scenarioId);
+    this.responseStorage.store(alias, response, this.getScenarioId());
   }
 
   /**
    * Retrieve API response
    */
   public retrieveResponse<T = any>(alias: string): T {
-    const scenarioId = this.scenarioContext?.getScenarioId() || 'global';
-    return this.responseStorage.retrieve<T>(alias, scenarioId);
+    return this.responseStorage.retrieve<T>(alias, this.getScenarioId());
   }
 
   /**
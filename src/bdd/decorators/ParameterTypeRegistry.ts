@@ -104,7 +104,8 @@ export class ParameterTypeRegistry {
       transformer: (s: string) => {
         return ['true', 'yes', 'on'].includes(s.toLowerCase());
       },
-      useForSnippets: true,
+      // 'on' and 'no' are too common in step text to infer a boolean
+      useForSnippets: false,
       preferForRegexpMatch: true
     });
 
@@ -142,7 +143,8 @@ export class ParameterTypeRegistry {
       transformer: (s: string) => {
         return s.split(',').map(item => item.trim());
       },
-      useForSnippets: true,
+      // Matches any text, so it would swallow whole steps in snippets
+      useForSnippets: false,
       preferForRegexpMatch: false
     });
 
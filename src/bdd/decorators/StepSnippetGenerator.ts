@@ -0,0 +1,310 @@
+// src/bdd/decorators/StepSnippetGenerator.ts
+
+import * as path from 'path';
+import { Step, CodeSnippet, UndefinedStep, ParameterTypeDefinition } from '../types/bdd.types';
+import { parameterTypeRegistry } from './ParameterTypeRegistry';
+import { FileUtils } from '../../core/utils/FileUtils';
+import { Logger } from '../../core/utils/Logger';
+
+/**
+ * Collects steps without a step definition and generates @CSBDDStepDef stubs
+ * Parameters are inferred from the snippet parameter types of the registry
+ */
+export class StepSnippetGenerator {
+  private static instance: StepSnippetGenerator;
+  private readonly snippets: Map<string, { snippet: CodeSnippet; steps: UndefinedStep[] }>;
+  private readonly logger: Logger;
+
+  private static readonly TYPESCRIPT_TYPES: Record<string, string> = {
+    string: 'string',
+    int: 'number',
+    float: 'number',
+    date: 'Date',
+    time: 'string'
+  };
+
+  private constructor() {
+    this.snippets = new Map();
+    this.logger = Logger.getInstance('StepSnippetGenerator');
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): StepSnippetGenerator {
+    if (!StepSnippetGenerator.instance) {
+      StepSnippetGenerator.instance = new StepSnippetGenerator();
+    }
+    return StepSnippetGenerator.instance;
+  }
+
+  /**
+   * Record an undefined step, steps producing the same snippet are grouped
+   */
+  public record(step: Step, uri?: string): CodeSnippet {
+    const snippet = this.generate(step);
+    const key = `${snippet.pattern}::${snippet.argument ?? ''}`;
+
+    if (!this.snippets.has(key)) {
+      this.snippets.set(key, { snippet, steps: [] });
+    }
+
+    const undefinedStep: UndefinedStep = { keyword: step.keyword, text: step.text, line: step.line };
+    if (uri) {
+      undefinedStep.uri = uri;
+    }
+
+    const entry = this.snippets.get(key)!;
+    const seen = entry.steps.some(s => s.uri === undefinedStep.uri && s.line === undefinedStep.line && s.text === undefinedStep.text);
+    if (!seen) {
+      entry.steps.push(undefinedStep);
+    }
+
+    return snippet;
+  }
+
+  /**
+   * Generate a step definition snippet for a step
+   */
+  public generate(step: Step): CodeSnippet {
+    const { expression, parameters } = this.buildExpression(step.text);
+    const argument = step.dataTable ? 'dataTable' : step.docString ? 'docString' : undefined;
+
+    // The registry treats parentheses as optional text and braces as parameters
+    const literalText = parameters.reduce((text, parameter) => text.replace(parameter.match, ''), step.text);
+    const patternType = /[(){}/\\]/.test(literalText) ? 'regexp' : 'string';
+    const pattern = patternType === 'string' ? expression : this.buildRegExp(step.text, parameters);
+
+    const methodName = this.toMethodName(step.text, parameters.map(p => p.match));
+    const args = this.buildArguments(parameters.map(p => p.type), argument);
+
+    const decoratorPattern = patternType === 'string' ? `'${pattern.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : `/${pattern}/`;
+    const code = [
+      `    @CSBDDStepDef(${decoratorPattern})`,
+      `    async ${methodName}(${args.join(', ')}): Promise<void> {`,
+      `        // Write code here that turns the phrase above into concrete actions`,
+      `        throw Object.assign(new Error('Pending'), { pending: true });`,
+      `    }`
+    ].join('\n');
+
+    const snippet: CodeSnippet = {
+      step: `${step.keyword} ${step.text}`.trim(),
+      code,
+      language: 'typescript',
+      patternType,
+      pattern,
+      methodName
+    };
+    if (argument) {
+      snippet.argument = argument;
+    }
+
+    return snippet;
+  }
+
+  /**
+   * Collected snippets with the steps they were generated from
+   */
+  public getSnippets(): Array<{ snippet: CodeSnippet; steps: UndefinedStep[] }> {
+    return Array.from(this.snippets.values());
+  }
+
+  public getUndefinedSteps(): UndefinedStep[] {
+    return this.getSnippets().flatMap(entry => entry.steps);
+  }
+
+  public hasUndefinedSteps(): boolean {
+    return this.snippets.size > 0;
+  }
+
+  public clear(): void {
+    this.snippets.clear();
+  }
+
+  /**
+   * Ready-to-paste snippets, one per distinct step
+   */
+  public format(): string {
+    const entries = this.withUniqueMethodNames();
+    if (entries.length === 0) {
+      return '';
+    }
+
+    const blocks = entries.map(({ snippet, steps, code }) => {
+      const locations = steps
+        .slice(0, 3)
+        .map(s => `${s.uri ? path.relative(process.cwd(), s.uri) : 'unknown'}:${s.line}`);
+      const more = steps.length > 3 ? ` and ${steps.length - 3} more` : '';
+      return `    // ${snippet.step} (${locations.join(', ')}${more})\n${code}`;
+    });
+
+    return [
+      `${this.getUndefinedSteps().length} undefined step(s). Implement them with these snippets:`,
+      '',
+      ...blocks.flatMap(block => [block, ''])
+    ].join('\n');
+  }
+
+  /**
+   * Write the snippets as a step definition class skeleton
+   */
+  public async writeToFile(filePath: string): Promise<void> {
+    const entries = this.withUniqueMethodNames();
+    const needsDataTable = entries.some(({ snippet }) => snippet.argument === 'dataTable');
+
+    const content = [
+      `import { CSBDDStepDef } from '${this.importPath(filePath, 'decorators/CSBDDStepDef')}';`,
+      `import { CSBDDBaseStepDefinition } from '${this.importPath(filePath, 'base/CSBDDBaseStepDefinition')}';`,
+      ...(needsDataTable ? [`import { DataTable } from '${this.importPath(filePath, 'types/bdd.types')}';`] : []),
+      '',
+      'export class UndefinedSteps extends CSBDDBaseStepDefinition {',
+      '',
+      entries.map(entry => entry.code).join('\n\n'),
+      '}',
+      ''
+    ].join('\n');
+
+    await FileUtils.writeFile(filePath, content);
+    this.logger.info(`Step definition snippets written to ${filePath}`);
+  }
+
+  /**
+   * Relative import of a module of the bdd directory from the snippet file, path aliases do not resolve at runtime
+   */
+  private importPath(filePath: string, modulePath: string): string {
+    const target = path.relative(path.dirname(path.resolve(filePath)), path.resolve(__dirname, '..', modulePath));
+    const importPath = target.split(path.sep).join('/');
+    return importPath.startsWith('.') ? importPath : `./${importPath}`;
+  }
+
+  /**
+   * Snippet code with numbered method names where different steps share a name
+   */
+  private withUniqueMethodNames(): Array<{ snippet: CodeSnippet; steps: UndefinedStep[]; code: string }> {
+    const methodNames = new Map<string, number>();
+
+    return this.getSnippets().map(({ snippet, steps }) => {
+      const count = methodNames.get(snippet.methodName) ?? 0;
+      methodNames.set(snippet.methodName, count + 1);
+      const code = count === 0 ? snippet.code : snippet.code.replace(
+        `async ${snippet.methodName}(`,
+        `async ${snippet.methodName}${count + 1}(`
+      );
+      return { snippet, steps, code };
+    });
+  }
+
+  /**
+   * Replace parameter values with parameter types, earliest and longest match first
+   */
+  private buildExpression(text: string): {
+    expression: string;
+    parameters: Array<{ type: string; match: string; index: number }>;
+  } {
+    const types = parameterTypeRegistry.getSnippetParameterTypes();
+    const parameters: Array<{ type: string; match: string; index: number }> = [];
+    let expression = '';
+    let position = 0;
+
+    while (position < text.length) {
+      let best: { type: ParameterTypeDefinition; index: number; match: string } | null = null;
+
+      for (const type of types) {
+        const found = this.findParameter(text, type, position);
+        if (found && (!best || found.index < best.index ||
+            (found.index === best.index && found.match.length > best.match.length))) {
+          best = { type, ...found };
+        }
+      }
+
+      if (!best) {
+        break;
+      }
+
+      expression += text.slice(position, best.index) + `{${best.type.name}}`;
+      parameters.push({ type: best.type.name, match: best.match, index: best.index });
+      position = best.index + best.match.length;
+    }
+
+    return { expression: expression + text.slice(position), parameters };
+  }
+
+  private findParameter(text: string, type: ParameterTypeDefinition, from: number): { index: number; match: string } | null {
+    const regex = new RegExp(type.regexp.source, type.regexp.flags.replace('g', '') + 'g');
+    regex.lastIndex = from;
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text))) {
+      const value = match[0];
+      const before = text[match.index - 1] ?? '';
+      const after = text[match.index + value.length] ?? '';
+
+      // Only whole tokens, so "v2" or "button3" are not split into parameters
+      if (value.length > 0 && !/\w/.test(before) && !/\w/.test(after)) {
+        return { index: match.index, match: value };
+      }
+      regex.lastIndex = match.index + 1;
+    }
+
+    return null;
+  }
+
+  private buildRegExp(text: string, parameters: Array<{ type: string; match: string; index: number }>): string {
+    let source = '^';
+    let position = 0;
+
+    for (const parameter of parameters) {
+      source += this.escapeRegExp(text.slice(position, parameter.index));
+      const definition = parameterTypeRegistry.getParameterType(parameter.type);
+      source += definition ? definition.regexp.source : '(.*)';
+      position = parameter.index + parameter.match.length;
+    }
+
+    return `${source}${this.escapeRegExp(text.slice(position))}$`.replace(/\//g, '\\/');
+  }
+
+  private buildArguments(types: string[], argument?: 'dataTable' | 'docString'): string[] {
+    const counts = new Map<string, number>();
+    const args = types.map(type => {
+      const count = (counts.get(type) ?? 0) + 1;
+      counts.set(type, count);
+      const name = `${type}${count > 1 ? count : ''}`;
+      return `${name}: ${StepSnippetGenerator.TYPESCRIPT_TYPES[type] ?? 'any'}`;
+    });
+
+    if (argument === 'dataTable') {
+      args.push('dataTable: DataTable');
+    } else if (argument === 'docString') {
+      args.push('docString: string');
+    }
+
+    return args;
+  }
+
+  private toMethodName(text: string, values: string[]): string {
+    const literal = values.reduce((result, value) => result.replace(value, ' '), text);
+    const words = literal
+      .replace(/<[^>]*>/g, ' ')
+      .split(/[^A-Za-z0-9]+/)
+      .filter(word => word.length > 0)
+      .slice(0, 8);
+
+    const name = words
+      .map((word, index) => index === 0 ?
+        word.toLowerCase() :
+        word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+      .join('');
+
+    if (!name) {
+      return 'undefinedStep';
+    }
+    return /^\d/.test(name) ? `step${name}` : name;
+  }
+
+  private escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+// Export singleton instance
+export const stepSnippetGenerator = StepSnippetGenerator.getInstance();
@@ -137,6 +137,10 @@ export class ExamplesParser {
         scenario.line = outline.line;
       }
       
+      if (outline.rule) {
+        scenario.rule = outline.rule;
+      }
+      
       scenarios.push(scenario);
     });
     
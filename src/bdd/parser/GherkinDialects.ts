@@ -0,0 +1,570 @@
+// src/bdd/parser/GherkinDialects.ts
+
+import { GherkinDialect } from '../types/bdd.types';
+
+/**
+ * Gherkin keywords per language, in the layout of the official gherkin-languages.json
+ * Block keywords are listed without the colon, step keywords include their trailing
+ * space unless the language does not separate words with spaces
+ */
+export const GHERKIN_DIALECTS: Record<string, GherkinDialect> = {
+  ar: {
+    name: 'Arabic',
+    native: 'العربية',
+    feature: ['خاصية'],
+    rule: ['Rule'],
+    background: ['الخلفية'],
+    scenario: ['مثال', 'سيناريو'],
+    scenarioOutline: ['سيناريو مخطط'],
+    examples: ['امثلة'],
+    given: ['* ', 'بفرض '],
+    when: ['* ', 'متى ', 'عندما '],
+    then: ['* ', 'اذاً ', 'ثم '],
+    and: ['* ', 'و '],
+    but: ['* ', 'لكن ']
+  },
+  bg: {
+    name: 'Bulgarian',
+    native: 'български',
+    feature: ['Функционалност'],
+    rule: ['Правило'],
+    background: ['Предистория'],
+    scenario: ['Пример', 'Сценарий'],
+    scenarioOutline: ['Рамка на сценарий'],
+    examples: ['Примери'],
+    given: ['* ', 'Дадено '],
+    when: ['* ', 'Когато '],
+    then: ['* ', 'То '],
+    and: ['* ', 'И '],
+    but: ['* ', 'Но ']
+  },
+  ca: {
+    name: 'Catalan',
+    native: 'català',
+    feature: ['Característica', 'Funcionalitat'],
+    rule: ['Rule'],
+    background: ['Rerefons', 'Antecedents'],
+    scenario: ['Exemple', 'Escenari'],
+    scenarioOutline: ['Esquema de l\'escenari'],
+    examples: ['Exemples'],
+    given: ['* ', 'Donat ', 'Donada ', 'Atès ', 'Atesa '],
+    when: ['* ', 'Quan '],
+    then: ['* ', 'Aleshores ', 'Cal '],
+    and: ['* ', 'I '],
+    but: ['* ', 'Però ']
+  },
+  cs: {
+    name: 'Czech',
+    native: 'Česky',
+    feature: ['Požadavek'],
+    rule: ['Pravidlo'],
+    background: ['Pozadí', 'Kontext'],
+    scenario: ['Příklad', 'Scénář'],
+    scenarioOutline: ['Náčrt Scénáře', 'Osnova scénáře'],
+    examples: ['Příklady'],
+    given: ['* ', 'Pokud ', 'Za předpokladu '],
+    when: ['* ', 'Když '],
+    then: ['* ', 'Pak '],
+    and: ['* ', 'A také ', 'A '],
+    but: ['* ', 'Ale ']
+  },
+  da: {
+    name: 'Danish',
+    native: 'dansk',
+    feature: ['Egenskab'],
+    rule: ['Rule'],
+    background: ['Baggrund'],
+    scenario: ['Eksempel', 'Scenarie'],
+    scenarioOutline: ['Abstrakt Scenario'],
+    examples: ['Eksempler'],
+    given: ['* ', 'Givet '],
+    when: ['* ', 'Når '],
+    then: ['* ', 'Så '],
+    and: ['* ', 'Og '],
+    but: ['* ', 'Men ']
+  },
+  de: {
+    name: 'German',
+    native: 'Deutsch',
+    feature: ['Funktionalität', 'Funktion'],
+    rule: ['Rule', 'Regel'],
+    background: ['Grundlage', 'Hintergrund', 'Voraussetzungen', 'Vorbedingungen'],
+    scenario: ['Beispiel', 'Szenario'],
+    scenarioOutline: ['Szenariogrundriss', 'Szenarien'],
+    examples: ['Beispiele'],
+    given: ['* ', 'Angenommen ', 'Gegeben sei ', 'Gegeben seien '],
+    when: ['* ', 'Wenn '],
+    then: ['* ', 'Dann '],
+    and: ['* ', 'Und '],
+    but: ['* ', 'Aber ']
+  },
+  el: {
+    name: 'Greek',
+    native: 'Ελληνικά',
+    feature: ['Δυνατότητα', 'Λειτουργία'],
+    rule: ['Rule'],
+    background: ['Υπόβαθρο'],
+    scenario: ['Παράδειγμα', 'Σενάριο'],
+    scenarioOutline: ['Περιγραφή Σεναρίου', 'Περίγραμμα Σεναρίου'],
+    examples: ['Παραδείγματα', 'Σενάρια'],
+    given: ['* ', 'Δεδομένου '],
+    when: ['* ', 'Όταν '],
+    then: ['* ', 'Τότε '],
+    and: ['* ', 'Και '],
+    but: ['* ', 'Αλλά ']
+  },
+  en: {
+    name: 'English',
+    native: 'English',
+    feature: ['Feature', 'Business Need', 'Ability'],
+    rule: ['Rule'],
+    background: ['Background'],
+    scenario: ['Example', 'Scenario'],
+    scenarioOutline: ['Scenario Outline', 'Scenario Template'],
+    examples: ['Examples', 'Scenarios'],
+    given: ['* ', 'Given '],
+    when: ['* ', 'When '],
+    then: ['* ', 'Then '],
+    and: ['* ', 'And '],
+    but: ['* ', 'But ']
+  },
+  es: {
+    name: 'Spanish',
+    native: 'español',
+    feature: ['Característica', 'Necesidad del negocio', 'Requisito'],
+    rule: ['Regla', 'Regla de negocio'],
+    background: ['Antecedentes'],
+    scenario: ['Ejemplo', 'Escenario'],
+    scenarioOutline: ['Esquema del escenario'],
+    examples: ['Ejemplos'],
+    given: ['* ', 'Dado ', 'Dada ', 'Dados ', 'Dadas '],
+    when: ['* ', 'Cuando '],
+    then: ['* ', 'Entonces '],
+    and: ['* ', 'Y ', 'E '],
+    but: ['* ', 'Pero ']
+  },
+  et: {
+    name: 'Estonian',
+    native: 'eesti keel',
+    feature: ['Omadus'],
+    rule: ['Reegel'],
+    background: ['Taust'],
+    scenario: ['Juhtum', 'Stsenaarium'],
+    scenarioOutline: ['Raamjuhtum', 'Raamstsenaarium'],
+    examples: ['Juhtumid'],
+    given: ['* ', 'Eeldades '],
+    when: ['* ', 'Kui '],
+    then: ['* ', 'Siis '],
+    and: ['* ', 'Ja '],
+    but: ['* ', 'Kuid ']
+  },
+  fi: {
+    name: 'Finnish',
+    native: 'suomi',
+    feature: ['Ominaisuus'],
+    rule: ['Rule'],
+    background: ['Tausta'],
+    scenario: ['Tapaus'],
+    scenarioOutline: ['Tapausaihio'],
+    examples: ['Tapaukset'],
+    given: ['* ', 'Oletetaan '],
+    when: ['* ', 'Kun '],
+    then: ['* ', 'Niin '],
+    and: ['* ', 'Ja '],
+    but: ['* ', 'Mutta ']
+  },
+  fr: {
+    name: 'French',
+    native: 'français',
+    feature: ['Fonctionnalité'],
+    rule: ['Règle'],
+    background: ['Contexte'],
+    scenario: ['Exemple', 'Scénario'],
+    scenarioOutline: ['Plan du scénario', 'Plan du Scénario'],
+    examples: ['Exemples'],
+    given: [
+      '* ', 'Soit ', 'Sachant que ', 'Sachant qu\'', 'Sachant ',
+      'Etant donné que ', 'Etant donné qu\'', 'Etant donné ', 'Etant donnée ', 'Etant donnés ', 'Etant données ',
+      'Étant donné que ', 'Étant donné qu\'', 'Étant donné ', 'Étant donnée ', 'Étant donnés ', 'Étant données '
+    ],
+    when: ['* ', 'Quand ', 'Lorsque ', 'Lorsqu\''],
+    then: ['* ', 'Alors ', 'Donc '],
+    and: ['* ', 'Et que ', 'Et qu\'', 'Et '],
+    but: ['* ', 'Mais que ', 'Mais qu\'', 'Mais ']
+  },
+  he: {
+    name: 'Hebrew',
+    native: 'עברית',
+    feature: ['תכונה'],
+    rule: ['כלל'],
+    background: ['רקע'],
+    scenario: ['דוגמא', 'תרחיש'],
+    scenarioOutline: ['תבנית תרחיש'],
+    examples: ['דוגמאות'],
+    given: ['* ', 'בהינתן '],
+    when: ['* ', 'כאשר '],
+    then: ['* ', 'אז ', 'אזי '],
+    and: ['* ', 'וגם '],
+    but: ['* ', 'אבל ']
+  },
+  hi: {
+    name: 'Hindi',
+    native: 'हिंदी',
+    feature: ['रूप लेख'],
+    rule: ['नियम'],
+    background: ['पृष्ठभूमि'],
+    scenario: ['परिदृश्य'],
+    scenarioOutline: ['परिदृश्य रूपरेखा'],
+    examples: ['उदाहरण'],
+    given: ['* ', 'अगर ', 'यदि ', 'चूंकि '],
+    when: ['* ', 'जब ', 'कदा '],
+    then: ['* ', 'तब ', 'तदा '],
+    and: ['* ', 'और ', 'तथा '],
+    but: ['* ', 'पर ', 'परन्तु ', 'किन्तु ']
+  },
+  hr: {
+    name: 'Croatian',
+    native: 'hrvatski',
+    feature: ['Osobina', 'Mogućnost', 'Mogucnost'],
+    rule: ['Rule'],
+    background: ['Pozadina'],
+    scenario: ['Primjer', 'Scenarij'],
+    scenarioOutline: ['Skica', 'Koncept'],
+    examples: ['Primjeri', 'Scenariji'],
+    given: ['* ', 'Zadan ', 'Zadani ', 'Zadano ', 'Ukoliko '],
+    when: ['* ', 'Kada ', 'Kad '],
+    then: ['* ', 'Onda '],
+    and: ['* ', 'I '],
+    but: ['* ', 'Ali ']
+  },
+  hu: {
+    name: 'Hungarian',
+    native: 'magyar',
+    feature: ['Jellemző'],
+    rule: ['Szabály'],
+    background: ['Háttér'],
+    scenario: ['Példa', 'Forgatókönyv'],
+    scenarioOutline: ['Forgatókönyv vázlat'],
+    examples: ['Példák'],
+    given: ['* ', 'Amennyiben ', 'Adott '],
+    when: ['* ', 'Majd ', 'Ha ', 'Amikor '],
+    then: ['* ', 'Akkor '],
+    and: ['* ', 'És '],
+    but: ['* ', 'De ']
+  },
+  id: {
+    name: 'Indonesian',
+    native: 'Bahasa Indonesia',
+    feature: ['Fitur'],
+    rule: ['Rule', 'Aturan'],
+    background: ['Dasar', 'Latar Belakang'],
+    scenario: ['Skenario'],
+    scenarioOutline: ['Skenario konsep', 'Garis-Besar Skenario'],
+    examples: ['Contoh', 'Misal'],
+    given: ['* ', 'Dengan ', 'Diketahui ', 'Diasumsikan ', 'Bila ', 'Jika '],
+    when: ['* ', 'Ketika '],
+    then: ['* ', 'Maka ', 'Kemudian '],
+    and: ['* ', 'Dan '],
+    but: ['* ', 'Tapi ', 'Tetapi ']
+  },
+  it: {
+    name: 'Italian',
+    native: 'italiano',
+    feature: ['Funzionalità', 'Esigenza di Business', 'Abilità'],
+    rule: ['Regola'],
+    background: ['Contesto'],
+    scenario: ['Esempio', 'Scenario'],
+    scenarioOutline: ['Schema dello scenario'],
+    examples: ['Esempi'],
+    given: ['* ', 'Dato ', 'Data ', 'Dati ', 'Date '],
+    when: ['* ', 'Quando '],
+    then: ['* ', 'Allora '],
+    and: ['* ', 'E '],
+    but: ['* ', 'Ma ']
+  },
+  ja: {
+    name: 'Japanese',
+    native: '日本語',
+    feature: ['フィーチャ', '機能'],
+    rule: ['ルール'],
+    background: ['背景'],
+    scenario: ['シナリオ'],
+    scenarioOutline: ['シナリオアウトライン', 'シナリオテンプレート', 'テンプレ', 'シナリオテンプレ'],
+    examples: ['例', 'サンプル'],
+    given: ['* ', '前提'],
+    when: ['* ', 'もし'],
+    then: ['* ', 'ならば'],
+    and: ['* ', '且つ', 'かつ'],
+    but: ['* ', '然し', 'しかし', '但し', 'ただし']
+  },
+  ko: {
+    name: 'Korean',
+    native: '한국어',
+    feature: ['기능'],
+    rule: ['Rule'],
+    background: ['배경'],
+    scenario: ['시나리오'],
+    scenarioOutline: ['시나리오 개요'],
+    examples: ['예'],
+    given: ['* ', '조건', '먼저'],
+    when: ['* ', '만일', '만약'],
+    then: ['* ', '그러면'],
+    and: ['* ', '그리고'],
+    but: ['* ', '하지만', '단']
+  },
+  lt: {
+    name: 'Lithuanian',
+    native: 'lietuvių kalba',
+    feature: ['Savybė'],
+    rule: ['Rule'],
+    background: ['Kontekstas'],
+    scenario: ['Pavyzdys', 'Scenarijus'],
+    scenarioOutline: ['Scenarijaus šablonas'],
+    examples: ['Pavyzdžiai', 'Scenarijai', 'Variantai'],
+    given: ['* ', 'Duota '],
+    when: ['* ', 'Kai '],
+    then: ['* ', 'Tada '],
+    and: ['* ', 'Ir '],
+    but: ['* ', 'Bet ']
+  },
+  lv: {
+    name: 'Latvian',
+    native: 'latviešu',
+    feature: ['Funkcionalitāte', 'Fīča'],
+    rule: ['Rule'],
+    background: ['Konteksts', 'Situācija'],
+    scenario: ['Piemērs', 'Scenārijs'],
+    scenarioOutline: ['Scenārijs pēc parauga'],
+    examples: ['Piemēri', 'Paraugs'],
+    given: ['* ', 'Kad '],
+    when: ['* ', 'Ja '],
+    then: ['* ', 'Tad '],
+    and: ['* ', 'Un '],
+    but: ['* ', 'Bet ']
+  },
+  nl: {
+    name: 'Dutch',
+    native: 'Nederlands',
+    feature: ['Functionaliteit'],
+    rule: ['Regel'],
+    background: ['Achtergrond'],
+    scenario: ['Voorbeeld', 'Scenario'],
+    scenarioOutline: ['Abstract Scenario'],
+    examples: ['Voorbeelden'],
+    given: ['* ', 'Gegeven ', 'Stel '],
+    when: ['* ', 'Als ', 'Wanneer '],
+    then: ['* ', 'Dan '],
+    and: ['* ', 'En '],
+    but: ['* ', 'Maar ']
+  },
+  no: {
+    name: 'Norwegian',
+    native: 'norsk',
+    feature: ['Egenskap'],
+    rule: ['Regel'],
+    background: ['Bakgrunn'],
+    scenario: ['Eksempel', 'Scenario'],
+    scenarioOutline: ['Scenariomal', 'Abstrakt Scenario'],
+    examples: ['Eksempler'],
+    given: ['* ', 'Gitt '],
+    when: ['* ', 'Når '],
+    then: ['* ', 'Så '],
+    and: ['* ', 'Og '],
+    but: ['* ', 'Men ']
+  },
+  pl: {
+    name: 'Polish',
+    native: 'polski',
+    feature: ['Właściwość', 'Funkcja', 'Aspekt', 'Potrzeba biznesowa'],
+    rule: ['Zasada', 'Reguła'],
+    background: ['Założenia'],
+    scenario: ['Przykład', 'Scenariusz'],
+    scenarioOutline: ['Szablon scenariusza'],
+    examples: ['Przykłady'],
+    given: ['* ', 'Zakładając ', 'Mając ', 'Zakładając, że '],
+    when: ['* ', 'Jeżeli ', 'Jeśli ', 'Gdy ', 'Kiedy '],
+    then: ['* ', 'Wtedy '],
+    and: ['* ', 'Oraz ', 'I '],
+    but: ['* ', 'Ale ']
+  },
+  pt: {
+    name: 'Portuguese',
+    native: 'português',
+    feature: ['Funcionalidade', 'Característica', 'Caracteristica'],
+    rule: ['Regra'],
+    background: ['Contexto', 'Cenário de Fundo', 'Cenario de Fundo', 'Fundo'],
+    scenario: ['Exemplo', 'Cenário', 'Cenario'],
+    scenarioOutline: ['Esquema do Cenário', 'Esquema do Cenario', 'Delineação do Cenário', 'Delineacao do Cenario'],
+    examples: ['Exemplos', 'Cenários', 'Cenarios'],
+    given: ['* ', 'Dado ', 'Dada ', 'Dados ', 'Dadas '],
+    when: ['* ', 'Quando '],
+    then: ['* ', 'Então ', 'Entao '],
+    and: ['* ', 'E '],
+    but: ['* ', 'Mas ']
+  },
+  ro: {
+    name: 'Romanian',
+    native: 'română',
+    feature: ['Functionalitate', 'Funcționalitate', 'Funcţionalitate'],
+    rule: ['Rule'],
+    background: ['Context'],
+    scenario: ['Exemplu', 'Scenariu'],
+    scenarioOutline: ['Structura scenariu', 'Structură scenariu'],
+    examples: ['Exemple'],
+    given: ['* ', 'Date fiind ', 'Dat fiind ', 'Dată fiind ', 'Dati fiind ', 'Dați fiind ', 'Daţi fiind '],
+    when: ['* ', 'Cand ', 'Când '],
+    then: ['* ', 'Atunci '],
+    and: ['* ', 'Si ', 'Și ', 'Şi '],
+    but: ['* ', 'Dar ']
+  },
+  ru: {
+    name: 'Russian',
+    native: 'русский',
+    feature: ['Функция', 'Функциональность', 'Функционал', 'Свойство', 'Фича'],
+    rule: ['Правило'],
+    background: ['Предыстория', 'Контекст'],
+    scenario: ['Пример', 'Сценарий'],
+    scenarioOutline: ['Структура сценария', 'Шаблон сценария'],
+    examples: ['Примеры'],
+    given: ['* ', 'Допустим ', 'Дано ', 'Пусть '],
+    when: ['* ', 'Когда ', 'Если '],
+    then: ['* ', 'То ', 'Затем ', 'Тогда '],
+    and: ['* ', 'И ', 'К тому же ', 'Также '],
+    but: ['* ', 'Но ', 'А ', 'Иначе ']
+  },
+  sk: {
+    name: 'Slovak',
+    native: 'Slovensky',
+    feature: ['Požiadavka', 'Funkcia', 'Vlastnosť'],
+    rule: ['Rule'],
+    background: ['Pozadie'],
+    scenario: ['Príklad', 'Scenár'],
+    scenarioOutline: ['Náčrt Scenáru', 'Náčrt Scenára', 'Osnova Scenára'],
+    examples: ['Príklady'],
+    given: ['* ', 'Pokiaľ ', 'Za predpokladu '],
+    when: ['* ', 'Keď ', 'Ak '],
+    then: ['* ', 'Tak ', 'Potom '],
+    and: ['* ', 'A ', 'A tiež ', 'A taktiež ', 'A zároveň '],
+    but: ['* ', 'Ale ']
+  },
+  'sr-Cyrl': {
+    name: 'Serbian',
+    native: 'Српски',
+    feature: ['Функционалност', 'Могућност', 'Особина'],
+    rule: ['Правило'],
+    background: ['Контекст', 'Основа', 'Позадина'],
+    scenario: ['Пример', 'Сценарио'],
+    scenarioOutline: ['Структура сценарија', 'Скица', 'Концепт'],
+    examples: ['Примери', 'Сценарији'],
+    given: ['* ', 'За дато ', 'За дате ', 'За дати '],
+    when: ['* ', 'Када ', 'Кад '],
+    then: ['* ', 'Онда '],
+    and: ['* ', 'И '],
+    but: ['* ', 'Али ']
+  },
+  sv: {
+    name: 'Swedish',
+    native: 'Svenska',
+    feature: ['Egenskap'],
+    rule: ['Regel'],
+    background: ['Bakgrund'],
+    scenario: ['Scenario'],
+    scenarioOutline: ['Abstrakt Scenario', 'Scenariomall'],
+    examples: ['Exempel'],
+    given: ['* ', 'Givet '],
+    when: ['* ', 'När '],
+    then: ['* ', 'Så '],
+    and: ['* ', 'Och '],
+    but: ['* ', 'Men ']
+  },
+  th: {
+    name: 'Thai',
+    native: 'ไทย',
+    feature: ['โครงหลัก', 'ความต้องการทางธุรกิจ', 'ความสามารถ'],
+    rule: ['Rule'],
+    background: ['แนวคิด'],
+    scenario: ['เหตุการณ์'],
+    scenarioOutline: ['สรุปเหตุการณ์', 'โครงสร้างของเหตุการณ์'],
+    examples: ['ชุดของตัวอย่าง', 'ชุดของเหตุการณ์'],
+    given: ['* ', 'กำหนดให้ '],
+    when: ['* ', 'เมื่อ '],
+    then: ['* ', 'ดังนั้น '],
+    and: ['* ', 'และ '],
+    but: ['* ', 'แต่ ']
+  },
+  tr: {
+    name: 'Turkish',
+    native: 'Türkçe',
+    feature: ['Özellik'],
+    rule: ['Kural'],
+    background: ['Geçmiş'],
+    scenario: ['Örnek', 'Senaryo'],
+    scenarioOutline: ['Senaryo taslağı'],
+    examples: ['Örnekler'],
+    given: ['* ', 'Diyelim ki '],
+    when: ['* ', 'Eğer ki '],
+    then: ['* ', 'O zaman '],
+    and: ['* ', 'Ve '],
+    but: ['* ', 'Fakat ', 'Ama ']
+  },
+  uk: {
+    name: 'Ukrainian',
+    native: 'Українська',
+    feature: ['Функціонал'],
+    rule: ['Rule'],
+    background: ['Передумова'],
+    scenario: ['Приклад', 'Сценарій'],
+    scenarioOutline: ['Структура сценарію'],
+    examples: ['Приклади'],
+    given: ['* ', 'Припустимо ', 'Припустимо, що ', 'Нехай ', 'Дано '],
+    when: ['* ', 'Якщо ', 'Коли '],
+    then: ['* ', 'То ', 'Тоді '],
+    and: ['* ', 'І ', 'А також ', 'Та '],
+    but: ['* ', 'Але ']
+  },
+  vi: {
+    name: 'Vietnamese',
+    native: 'Tiếng Việt',
+    feature: ['Tính năng'],
+    rule: ['Rule'],
+    background: ['Bối cảnh'],
+    scenario: ['Tình huống', 'Kịch bản'],
+    scenarioOutline: ['Khung tình huống', 'Khung kịch bản'],
+    examples: ['Dữ liệu'],
+    given: ['* ', 'Biết ', 'Cho '],
+    when: ['* ', 'Khi '],
+    then: ['* ', 'Thì '],
+    and: ['* ', 'Và '],
+    but: ['* ', 'Nhưng ']
+  },
+  'zh-CN': {
+    name: 'Chinese simplified',
+    native: '简体中文',
+    feature: ['功能'],
+    rule: ['Rule', '规则'],
+    background: ['背景'],
+    scenario: ['场景', '剧本'],
+    scenarioOutline: ['场景大纲', '剧本大纲'],
+    examples: ['例子'],
+    given: ['* ', '假如', '假设', '假定'],
+    when: ['* ', '当'],
+    then: ['* ', '那么'],
+    and: ['* ', '而且', '并且', '同时'],
+    but: ['* ', '但是']
+  },
+  'zh-TW': {
+    name: 'Chinese traditional',
+    native: '繁體中文',
+    feature: ['功能'],
+    rule: ['Rule'],
+    background: ['背景'],
+    scenario: ['場景', '劇本'],
+    scenarioOutline: ['場景大綱', '劇本大綱'],
+    examples: ['例子'],
+    given: ['* ', '假如', '假設', '假定'],
+    when: ['* ', '當'],
+    then: ['* ', '那麼'],
+    and: ['* ', '而且', '並且', '同時'],
+    but: ['* ', '但是']
+  }
+};
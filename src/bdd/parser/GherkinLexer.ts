@@ -1,36 +1,20 @@
 import { Token, TokenType, ParseError } from '../types/bdd.types';
+import { GHERKIN_DIALECTS } from './GherkinDialects';
 import { Logger } from '../../core/utils/Logger';
 
 export class GherkinLexer {
-  private readonly keywords: Map<string, TokenType>;
-  private readonly languageKeywords: Map<string, Map<string, TokenType>>;
+  private keywords: Array<{ keyword: string; type: TokenType }> = [];
+  private language: string = 'en';
+  private readonly defaultLanguage: string = 'en';
   private readonly commentPrefix: string = '#';
   private readonly tagPrefix: string = '@';
   private readonly tableDelimiter: string = '|';
   private readonly docStringDelimiter: string = '"""';
   private readonly docStringDelimiterAlt: string = '```';
+  private readonly languagePattern: RegExp = /^#\s*language\s*:\s*([\w-]+)\s*$/;
   
   constructor() {
-    // Initialize English keywords
-    this.keywords = new Map([
-      ['Feature:', TokenType.FeatureLine],
-      ['Background:', TokenType.BackgroundLine],
-      ['Scenario:', TokenType.ScenarioLine],
-      ['Scenario Outline:', TokenType.ScenarioOutlineLine],
-      ['Scenario Template:', TokenType.ScenarioOutlineLine],
-      ['Examples:', TokenType.ExamplesLine],
-      ['Scenarios:', TokenType.ExamplesLine],
-      ['Given', TokenType.StepLine],
-      ['When', TokenType.StepLine],
-      ['Then', TokenType.StepLine],
-      ['And', TokenType.StepLine],
-      ['But', TokenType.StepLine],
-      ['*', TokenType.StepLine]
-    ]);
-    
-    // Initialize language support
-    this.languageKeywords = new Map();
-    this.initializeLanguages();
+    this.setLanguage(this.defaultLanguage);
   }
   
   tokenize(content: string, filePath: string): Token[] {
@@ -42,6 +26,12 @@ export class GherkinLexer {
     let docStringDelimiter = '';
     let docStringLines: string[] = [];
     let docStringStartLine = 0;
+    let inHeader = true;
+    
+    // The language directive only applies to the file it appears in
+    if (this.language !== this.defaultLanguage) {
+      this.setLanguage(this.defaultLanguage);
+    }
     
     for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
       currentLine = lineIndex + 1;
@@ -86,6 +76,28 @@ export class GherkinLexer {
         continue;
       }
       
+      // Handle language directive, only valid before the first non-comment line
+      const language = inHeader ? trimmedLine.match(this.languagePattern)?.[1] : undefined;
+      if (language) {
+        if (!GHERKIN_DIALECTS[language]) {
+          throw new ParseError(
+            `Language not supported: ${language}`,
+            currentLine,
+            1,
+            filePath
+          );
+        }
+        this.setLanguage(language);
+        tokens.push({
+          type: TokenType.Comment,
+          value: `language: ${language}`,
+          line: currentLine,
+          column: 1,
+          indent: 0
+        });
+        continue;
+      }
+      
       // Handle comments
       if (trimmedLine.startsWith(this.commentPrefix)) {
         tokens.push({
@@ -98,6 +110,8 @@ export class GherkinLexer {
         continue;
       }
       
+      inHeader = false;
+      
       // Handle tags
       if (trimmedLine.startsWith(this.tagPrefix)) {
         const tags = this.parseTags(trimmedLine);
@@ -126,20 +140,6 @@ export class GherkinLexer {
         continue;
       }
       
-      // Handle language directive
-      if (trimmedLine.startsWith('# language:')) {
-        const language = trimmedLine.substring('# language:'.length).trim();
-        this.setLanguage(language);
-        tokens.push({
-          type: TokenType.Comment,
-          value: `language: ${language}`,
-          line: currentLine,
-          column: 1,
-          indent: 0
-        });
-        continue;
-      }
-      
       // Parse keyword lines
       const keywordToken = this.parseKeywordLine(line || '', currentLine, filePath);
       if (keywordToken) {
@@ -147,7 +147,7 @@ export class GherkinLexer {
       } else if (trimmedLine !== '') {
         // Handle description lines
         tokens.push({
-          type: TokenType.Comment,
+          type: TokenType.Other,
           value: trimmedLine,
           line: currentLine,
           column: (line?.indexOf(trimmedLine.charAt(0)) ?? -1) + 1,
@@ -173,35 +173,18 @@ export class GherkinLexer {
     const trimmedLine = line.trim();
     const indent = this.getIndent(line);
     
-    // Check each keyword
-    const keywordsArray = Array.from(this.keywords.entries());
-    for (const [keyword, tokenType] of keywordsArray) {
+    // Keywords are sorted longest first, so "Scenario Outline:" wins over "Scenario:"
+    for (const { keyword, type } of this.keywords) {
       if (trimmedLine.startsWith(keyword)) {
         const value = trimmedLine.substring(keyword.length).trim();
         
         return {
-          type: tokenType,
-          value: value,
+          type,
+          value,
           line: lineNumber,
           column: line.indexOf(keyword) + 1,
-          indent: indent
-        };
-      }
-    }
-    
-    // Check for step keywords without colon
-    const stepKeywords = ['Given', 'When', 'Then', 'And', 'But', '*'];
-    for (const keyword of stepKeywords) {
-      if (trimmedLine.startsWith(keyword + ' ')) {
-        const value = trimmedLine.substring(keyword.length + 1).trim();
-        const tokenType = this.keywords.get(keyword) || TokenType.Comment;
-        
-        return {
-          type: tokenType,
-          value: value,
-          line: lineNumber,
-          column: line.indexOf(keyword) + 1,
-          indent: indent
+          indent,
+          keyword: type === TokenType.StepLine ? keyword.trim() : keyword.slice(0, -1)
         };
       }
     }
@@ -211,7 +194,8 @@ export class GherkinLexer {
   
   private parseTags(line: string): string[] {
     const tags: string[] = [];
-    const tagPattern = /@[a-zA-Z0-9_-]+/g;
+    // Parameterized tags keep their arguments, e.g. @load(users=50,duration=60s)
+    const tagPattern = /@[a-zA-Z0-9_-]+(?:\([^()]*\))?/g;
     let match;
     
     while ((match = tagPattern.exec(line)) !== null) {
@@ -243,71 +227,38 @@ export class GherkinLexer {
   }
   
   private setLanguage(language: string): void {
-    const currentLanguage = language;
-    if (this.languageKeywords.has(language)) {
-      // Update keywords with language-specific ones
-      const langKeywords = this.languageKeywords.get(language)!;
-      langKeywords.forEach((tokenType, keyword) => {
-        this.keywords.set(keyword, tokenType);
-      });
-      
-      Logger.getInstance().debug(`Lexer language set to: ${currentLanguage}`);
-    } else {
+    const dialect = GHERKIN_DIALECTS[language];
+    if (!dialect) {
       Logger.getInstance().warn(`Unsupported language: ${language}. Using English.`);
+      return;
     }
-  }
-  
-  private initializeLanguages(): void {
-    // Add support for common languages
     
-    // Spanish
-    const spanish = new Map([
-      ['Característica:', TokenType.FeatureLine],
-      ['Antecedentes:', TokenType.BackgroundLine],
-      ['Escenario:', TokenType.ScenarioLine],
-      ['Esquema del escenario:', TokenType.ScenarioOutlineLine],
-      ['Ejemplos:', TokenType.ExamplesLine],
-      ['Dado', TokenType.StepLine],
-      ['Cuando', TokenType.StepLine],
-      ['Entonces', TokenType.StepLine],
-      ['Y', TokenType.StepLine],
-      ['Pero', TokenType.StepLine]
-    ]);
-    this.languageKeywords.set('es', spanish);
+    // Block keywords end with a colon, step keywords carry their own trailing space
+    const blockKeywords: Array<[string[], TokenType]> = [
+      [dialect.feature, TokenType.FeatureLine],
+      [dialect.rule, TokenType.RuleLine],
+      [dialect.background, TokenType.BackgroundLine],
+      [dialect.scenario, TokenType.ScenarioLine],
+      [dialect.scenarioOutline, TokenType.ScenarioOutlineLine],
+      [dialect.examples, TokenType.ExamplesLine]
+    ];
+    const stepKeywords = [...dialect.given, ...dialect.when, ...dialect.then, ...dialect.and, ...dialect.but];
+    
+    const keywords = new Map<string, TokenType>();
+    blockKeywords.forEach(([words, type]) => words.forEach(word => keywords.set(`${word}:`, type)));
+    stepKeywords.forEach(word => keywords.set(word, TokenType.StepLine));
     
-    // French
-    const french = new Map([
-      ['Fonctionnalité:', TokenType.FeatureLine],
-      ['Contexte:', TokenType.BackgroundLine],
-      ['Scénario:', TokenType.ScenarioLine],
-      ['Plan du scénario:', TokenType.ScenarioOutlineLine],
-      ['Exemples:', TokenType.ExamplesLine],
-      ['Étant donné', TokenType.StepLine],
-      ['Quand', TokenType.StepLine],
-      ['Alors', TokenType.StepLine],
-      ['Et', TokenType.StepLine],
-      ['Mais', TokenType.StepLine]
-    ]);
-    this.languageKeywords.set('fr', french);
+    this.keywords = Array.from(keywords.entries())
+      .map(([keyword, type]) => ({ keyword, type }))
+      .sort((a, b) => b.keyword.length - a.keyword.length);
+    this.language = language;
     
-    // German
-    const german = new Map([
-      ['Funktionalität:', TokenType.FeatureLine],
-      ['Hintergrund:', TokenType.BackgroundLine],
-      ['Szenario:', TokenType.ScenarioLine],
-      ['Szenariogrundriss:', TokenType.ScenarioOutlineLine],
-      ['Beispiele:', TokenType.ExamplesLine],
-      ['Gegeben', TokenType.StepLine],
-      ['Wenn', TokenType.StepLine],
-      ['Dann', TokenType.StepLine],
-      ['Und', TokenType.StepLine],
-      ['Aber', TokenType.StepLine]
-    ]);
-    this.languageKeywords.set('de', german);
+    Logger.getInstance().debug(`Lexer language set to: ${language}`);
   }
   
   analyzeTokens(tokens: Token[]): {
     features: number;
+    rules: number;
     scenarios: number;
     steps: number;
     tags: Set<string>;
@@ -316,6 +267,7 @@ export class GherkinLexer {
   } {
     const analysis = {
       features: 0,
+      rules: 0,
       scenarios: 0,
       steps: 0,
       tags: new Set<string>(),
@@ -328,6 +280,9 @@ export class GherkinLexer {
         case TokenType.FeatureLine:
           analysis.features++;
           break;
+        case TokenType.RuleLine:
+          analysis.rules++;
+          break;
         case TokenType.ScenarioLine:
         case TokenType.ScenarioOutlineLine:
           analysis.scenarios++;
@@ -371,6 +326,19 @@ export class GherkinLexer {
           expectingScenario = true;
           break;
           
+        case TokenType.RuleLine:
+          if (!expectingScenario) {
+            errors.push(new ParseError(
+              'Rule must appear after Feature',
+              token.line,
+              token.column
+            ));
+          }
+          // A rule may have its own Background
+          inScenario = false;
+          inBackground = false;
+          break;
+          
         case TokenType.BackgroundLine:
           if (!expectingScenario) {
             errors.push(new ParseError(
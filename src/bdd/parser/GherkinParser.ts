@@ -1,15 +1,18 @@
-import { Token, TokenType, Feature, Scenario, Step, Examples, DataTable, DocString } from '../types/bdd.types';
+import { Token, TokenType, Feature, Rule, Scenario, Step, Examples, DataTable, DocString, GherkinDialect } from '../types/bdd.types';
 import { ParseError } from '../types/bdd.types';
+import { GHERKIN_DIALECTS } from './GherkinDialects';
 
 export class GherkinParser {
   private tokens: Token[] = [];
   private currentIndex: number = 0;
   private filePath: string = '';
+  private dialect: GherkinDialect | undefined;
   
   parse(tokens: Token[], filePath: string): Feature {
     this.tokens = tokens;
     this.currentIndex = 0;
     this.filePath = filePath;
+    this.dialect = GHERKIN_DIALECTS[this.findLanguage()];
     
     try {
       return this.parseFeature();
@@ -42,6 +45,7 @@ export class GherkinParser {
         this.filePath
       );
     }
+    this.advance(); // Consume FEATURE token
     
     const feature: Feature = {
       name: featureToken.value,
@@ -74,22 +78,30 @@ export class GherkinParser {
           break;
           
         case TokenType.ScenarioLine:
-        case TokenType.ScenarioOutlineLine:
+        case TokenType.ScenarioOutlineLine: {
           const scenario = this.parseScenario();
           feature.scenarios.push(scenario);
           break;
+        }
+          
+        case TokenType.RuleLine:
+          this.parseRule(feature);
+          break;
           
-        case TokenType.TagLine:
-          // Tags for next scenario
-          const nextToken = this.peekToken();
+        case TokenType.TagLine: {
+          // Tags for next scenario or rule
+          const nextToken = this.peekPastTags();
           if (nextToken && (nextToken.type === TokenType.ScenarioLine || nextToken.type === TokenType.ScenarioOutlineLine)) {
             // Let parseScenario handle these tags
             const scenario = this.parseScenario();
             feature.scenarios.push(scenario);
+          } else if (nextToken && nextToken.type === TokenType.RuleLine) {
+            this.parseRule(feature);
           } else {
             this.advance(); // Skip orphaned tag
           }
           break;
+        }
           
         case TokenType.Comment:
           this.advance(); // Skip comments
@@ -112,6 +124,77 @@ export class GherkinParser {
     return feature;
   }
   
+  /**
+   * Parse a Rule with its own Background and scenarios. The scenarios are added to the
+   * feature, inherit the rule tags and reference the rule.
+   */
+  private parseRule(feature: Feature): void {
+    const ruleTags = this.parseTags();
+    const ruleToken = this.advance(); // Consume RULE token
+    
+    const rule: Rule = {
+      name: ruleToken.value,
+      description: this.parseDescription(),
+      tags: ruleTags
+    };
+    
+    if (ruleToken.line !== undefined) {
+      rule.line = ruleToken.line;
+    }
+    
+    feature.rules = feature.rules ?? [];
+    feature.rules.push(rule);
+    
+    const addScenario = (scenario: Scenario): void => {
+      scenario.rule = rule;
+      scenario.tags = Array.from(new Set([...rule.tags, ...scenario.tags]));
+      feature.scenarios.push(scenario);
+    };
+    
+    while (!this.isAtEnd()) {
+      const token = this.currentToken();
+      
+      if (!token || token.type === TokenType.RuleLine) {
+        break;
+      }
+      
+      switch (token.type) {
+        case TokenType.BackgroundLine:
+          if (rule.background) {
+            throw new ParseError(
+              'Multiple Background sections are not allowed in a Rule',
+              token.line,
+              token.column,
+              this.filePath
+            );
+          }
+          rule.background = this.parseBackground();
+          break;
+          
+        case TokenType.ScenarioLine:
+        case TokenType.ScenarioOutlineLine:
+          addScenario(this.parseScenario());
+          break;
+          
+        case TokenType.TagLine: {
+          const nextToken = this.peekPastTags();
+          if (nextToken && nextToken.type === TokenType.RuleLine) {
+            return; // Tags of the next rule
+          }
+          if (nextToken && (nextToken.type === TokenType.ScenarioLine || nextToken.type === TokenType.ScenarioOutlineLine)) {
+            addScenario(this.parseScenario());
+          } else {
+            this.advance(); // Skip orphaned tag
+          }
+          break;
+        }
+          
+        default:
+          this.advance(); // Skip comments and unknown tokens
+      }
+    }
+  }
+  
   private parseBackground(): Scenario {
     const backgroundToken = this.advance(); // Consume BACKGROUND token
     
@@ -137,6 +220,7 @@ export class GherkinParser {
       
       if (token.type === TokenType.ScenarioLine || 
           token.type === TokenType.ScenarioOutlineLine ||
+          token.type === TokenType.RuleLine ||
           token.type === TokenType.TagLine) {
         break;
       }
@@ -144,7 +228,7 @@ export class GherkinParser {
       if (this.isStepToken(token.type)) {
         const step = this.parseStep();
         background.steps.push(step);
-      } else if (token.type === TokenType.Comment || token.type === TokenType.Empty) {
+      } else if (token.type === TokenType.Comment || token.type === TokenType.Other || token.type === TokenType.Empty) {
         this.advance();
       } else {
         break;
@@ -196,6 +280,7 @@ export class GherkinParser {
       
       if (token.type === TokenType.ScenarioLine || 
           token.type === TokenType.ScenarioOutlineLine ||
+          token.type === TokenType.RuleLine ||
           token.type === TokenType.TagLine ||
           token.type === TokenType.ExamplesLine) {
         break;
@@ -204,7 +289,7 @@ export class GherkinParser {
       if (this.isStepToken(token.type)) {
         const step = this.parseStep();
         scenario.steps.push(step);
-      } else if (token.type === TokenType.Comment || token.type === TokenType.Empty) {
+      } else if (token.type === TokenType.Comment || token.type === TokenType.Other || token.type === TokenType.Empty) {
         this.advance();
       } else {
         break;
@@ -351,13 +436,15 @@ export class GherkinParser {
   
   private parseExamples(): Examples {
     const examplesToken = this.advance(); // Consume EXAMPLES token
+    const rowLines: number[] = [];
     
     const examples: Examples = {
       name: examplesToken.value || 'Examples',
       description: this.parseDescription(),
       tags: this.parseTags(),
       header: [],
-      rows: []
+      rows: [],
+      rowLines
     };
     
     if (examplesToken.line !== undefined) {
@@ -395,6 +482,7 @@ export class GherkinParser {
       }
       
       examples.rows.push(cells);
+      rowLines.push(rowToken.line);
     }
     
     if (examples.rows.length === 0) {
@@ -430,8 +518,8 @@ export class GherkinParser {
         break;
       }
       
-      // Stop if we hit a keyword
-      if (this.isKeywordToken(token)) {
+      // Stop if we hit a keyword, the tags of the next element or a table
+      if (this.isKeywordToken(token) || token.type === TokenType.TagLine || token.type === TokenType.TableRow) {
         break;
       }
       
@@ -449,7 +537,7 @@ export class GherkinParser {
     // Language is typically defined in a comment at the beginning
     for (const token of this.tokens) {
       if (token.type === TokenType.Comment && token.value.includes('language:')) {
-        const match = token.value.match(/language:\s*(\w+)/i);
+        const match = token.value.match(/language:\s*([\w-]+)/i);
         if (match && match[1]) {
           return match[1];
         }
@@ -465,6 +553,7 @@ export class GherkinParser {
   private isKeywordToken(token: Token): boolean {
     return [
       TokenType.FeatureLine,
+      TokenType.RuleLine,
       TokenType.BackgroundLine,
       TokenType.ScenarioLine,
       TokenType.ScenarioOutlineLine,
@@ -474,8 +563,25 @@ export class GherkinParser {
   }
   
   private getStepKeyword(token: Token): string {
-    // Extract keyword from token if available
-    if ('keyword' in token && typeof token.keyword === 'string') {
+    // Map the keyword of the feature language to the English keyword step definitions use
+    if (token.keyword) {
+      if (token.keyword === '*') {
+        return '*';
+      }
+      
+      const dialect = this.dialect || GHERKIN_DIALECTS['en']!;
+      const keywordTypes: Array<[string[], string]> = [
+        [dialect.given, 'Given'],
+        [dialect.when, 'When'],
+        [dialect.then, 'Then'],
+        [dialect.and, 'And'],
+        [dialect.but, 'But']
+      ];
+      for (const [keywords, englishKeyword] of keywordTypes) {
+        if (keywords.some(keyword => keyword.trim() === token.keyword)) {
+          return englishKeyword;
+        }
+      }
       return token.keyword;
     }
     
@@ -490,6 +596,19 @@ export class GherkinParser {
     return 'Given'; // Default fallback
   }
   
+  /**
+   * First token after the tags at the current position
+   */
+  private peekPastTags(): Token | null {
+    let offset = 0;
+    let token = this.peekToken(offset);
+    while (token && token.type === TokenType.TagLine) {
+      offset++;
+      token = this.peekToken(offset);
+    }
+    return token;
+  }
+  
   private currentToken(): Token | null {
     if (this.currentIndex >= this.tokens.length) {
       return null;
@@ -530,8 +649,9 @@ export class GherkinParser {
         return token;
       }
       
-      // Skip comments and empty lines
+      // Skip comments, free text and empty lines
       if (token.type === TokenType.Comment || 
+          token.type === TokenType.Other ||
           token.type === TokenType.Empty) {
         this.advance();
       } else {
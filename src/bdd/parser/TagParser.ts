@@ -10,7 +10,7 @@ interface TagExpression {
 
 export class TagParser {
   private static instance: TagParser;
-  private readonly tagPattern = /^@[a-zA-Z0-9_-]+$/;
+  private readonly tagPattern = /^@[a-zA-Z0-9_-]+(\([^()]*\))?$/;
   private readonly operatorPrecedence = {
     'or': 1,
     'and': 2,
@@ -253,7 +253,7 @@ export class TagParser {
   private evaluateAST(ast: TagExpression, scenarioTags: string[]): boolean {
     switch (ast.type) {
       case 'tag':
-        return scenarioTags.includes(ast.value!);
+        return scenarioTags.some(tag => tag === ast.value || tag.startsWith(`${ast.value}(`));
         
       case 'not':
         return !this.evaluateAST(ast.operand!, scenarioTags);
@@ -1,4 +1,6 @@
 // src/bdd/runner/CSBDDRunner.ts
+import * as path from 'path';
+import { pathToFileURL } from 'url';
 import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
 import { BrowserManager } from '../../core/browser/BrowserManager';
 import { BrowserPool } from '../../core/browser/BrowserPool';
@@ -8,8 +10,14 @@ import { TestScheduler } from './TestScheduler';
 import { ExecutionMonitor } from './ExecutionMonitor';
 import { ParallelExecutor } from './ParallelExecutor';
 import { FeatureExecutor } from './FeatureExecutor';
+import { QuarantineManager } from './QuarantineManager';
+import { RerunManager } from './RerunManager';
+import { FlakyTestDetector } from './FlakyTestDetector';
 import { ReportOrchestrator } from '../../reporting/core/ReportOrchestrator';
 import { ReportConfig } from '../../reporting/core/ReportConfig';
+import { RunHistoryStore } from '../../reporting/core/RunHistoryStore';
+import { ReportMerger } from '../../reporting/core/ReportMerger';
+import { FileUtils } from '../../core/utils/FileUtils';
 import { 
     ReportData, 
     FeatureReport, 
@@ -24,24 +32,51 @@ import {
     ExecutionMetrics,
     BrowserMetrics,
     NetworkMetrics,
-    SystemMetrics
+    SystemMetrics,
+    Embedding
 } from '../../reporting/types/reporting.types';
 import { StepDefinitionLoader } from '../base/StepDefinitionLoader';
 import { HookExecutor } from '../hooks/HookExecutor';
 import { ProxyManager } from '../../core/proxy/ProxyManager';
 import { ADOIntegrationService } from '../../integrations/ado/ADOIntegrationService';
+import { AccessibilityAuditor } from '../../core/accessibility/AccessibilityAuditor';
+import { SnapshotManager } from '../../core/debugging/SnapshotManager';
+import { ContractCoverageTracker } from '../../api/contract/ContractCoverageTracker';
+import { StubServerManager } from '../../api/stub/StubServerManager';
+import { GrpcStubServerManager } from '../../api/grpc/GrpcStubServerManager';
+import { LoadTestRunner } from '../../api/load/LoadTestRunner';
+import { CSTracer } from '../../core/telemetry/CSTracer';
+import { SpanStatusCode } from '../../core/telemetry/types/telemetry.types';
+import { PerformanceBudgetManager } from '../../core/performance/PerformanceBudgetManager';
+import { FakeDataGenerator } from '../../data/generators/FakeDataGenerator';
+import { ResultPublisherRegistry } from '../../integrations/publishers/ResultPublisherRegistry';
+import { RunSummaryBuilder } from '../../integrations/publishers/RunSummaryBuilder';
+import { PublishOptions, Link, OutputFormat } from '../../core/cli/ExecutionOptions';
+import { OutputReporterManager } from '../../core/cli/reporters/OutputReporterManager';
 import { stepRegistry } from '../decorators/StepRegistry';
+import { HealingPatchGenerator } from '../../core/ai/healing/HealingPatchGenerator';
+import { stepSnippetGenerator } from '../decorators/StepSnippetGenerator';
+import { examplesParser } from '../parser/ExamplesParser';
+import { StepExecutor } from './StepExecutor';
+import { NaturalLanguageStepInterpreter } from '../../core/ai/nlp/NaturalLanguageStepInterpreter';
 import { 
     RunOptions, 
     ExecutionPlan, 
     ExecutionResult, 
     Feature,
+    Scenario,
+    ScenarioOutline,
+    Step,
+    ScenarioResult,
+    WorkerResult,
     ExecutionSummary,
     RunnerState,
     ExecutionStatus,
     ScenarioStatus,
     StepStatus,
-    FeatureStatus
+    FeatureStatus,
+    Attachment,
+    ShardFingerprint
 } from '../types/bdd.types';
 
 /**
@@ -57,6 +92,8 @@ export class CSBDDRunner {
     private runOptions!: RunOptions;
     private abortController: AbortController;
     private reportOrchestrator: ReportOrchestrator;
+    private reportFile: string | undefined;
+    private shardFingerprint: ShardFingerprint | undefined;
 
     private constructor() {
         this.executionMonitor = ExecutionMonitor.getInstance();
@@ -106,19 +143,45 @@ export class CSBDDRunner {
                 return;
             }
 
+            // Dry runs check every step for a definition instead of executing
+            if (this.isValidationRun(options)) {
+                const undefinedSteps = await this.reportUndefinedSteps(executionPlan);
+                this.state = 'stopped';
+                if (options['validateOnly'] && undefinedSteps === 0) {
+                    console.log('✓ Configuration and step definitions are valid');
+                }
+                process.exit(undefinedSteps > 0 ? 1 : 0);
+            }
+
             // Execute tests
             this.state = 'running';
             const executionResult = await this.executeTests(executionPlan);
 
+            // Print snippets for steps without a definition
+            await this.reportUndefinedSteps(executionPlan);
+
+            // Quarantined scenarios run non-blocking
+            this.applyQuarantine(executionResult);
+
             // Update execution result with start time
             executionResult.startTime = startTime;
 
             // Generate reports
             this.state = 'running';
-            await this.report(executionResult);
+            const reportData = await this.report(executionResult);
+
+            // Consolidate a rerun with its original run, then list what still fails
+            const reportFile = await this.mergeRerunReport(reportData);
+            this.writeRerunManifest(executionResult, reportData, reportFile);
+
+            // Turn healed locators into page object patches
+            await this.writeHealingPatches();
+
+            // Publish run summary to Slack, Teams, email, Jira or custom publishers
+            await this.publishResults(executionResult, reportData);
 
             // Upload to ADO if configured
-            if (options['uploadToADO']) {
+            if (options['uploadToADO'] || (options['publishResults'] && options['publishOptions']?.target === 'ado')) {
                 await this.uploadToADO(executionResult);
             }
 
@@ -128,8 +191,8 @@ export class CSBDDRunner {
             this.state = 'stopped';
             logger.info('CS BDD Runner - Test execution completed successfully');
 
-            // Exit with appropriate code
-            process.exit(executionResult.summary.failed > 0 ? 1 : 0);
+            // Exit with appropriate code (quarantined failures do not fail the build)
+            process.exit(this.countBlockingFailures(executionResult) > 0 ? 1 : 0);
 
         } catch (error) {
             this.state = 'error';
@@ -151,6 +214,20 @@ export class CSBDDRunner {
             // 1. Load configuration
             await ConfigurationManager.loadConfiguration(options.environment || 'default');
             logger.info('Configuration loaded - Environment: ' + (options.environment || 'default'));
+            QuarantineManager.getInstance().setQuarantineFile(options['quarantineFile'] || ConfigurationManager.get('QUARANTINE_FILE', 'quarantine.json'));
+            if (options['updateSnapshots']) {
+                ConfigurationManager.set('UPDATE_SNAPSHOTS', 'true');
+            }
+            if (options['snapshotPathTemplate']) {
+                ConfigurationManager.set('SNAPSHOT_PATH_TEMPLATE', options['snapshotPathTemplate']);
+            }
+            if (options['nlpSteps']) {
+                ConfigurationManager.set('NLP_STEP_FALLBACK', 'true');
+            }
+            if (options['load']) {
+                ConfigurationManager.set('LOAD_PROFILE', options['load']);
+            }
+            this.configureFakeData(options);
 
             // 2. Configure proxy if needed
             if (ConfigurationManager.getBoolean('PROXY_ENABLED', false)) {
@@ -166,6 +243,9 @@ export class CSBDDRunner {
                 logPath: ConfigurationManager.get('LOG_PATH', './logs')
             } as any);
 
+            // Export OpenTelemetry traces of the run if configured
+            CSTracer.getInstance().configure();
+
             // 4. Load step definitions
             const loader = StepDefinitionLoader.getInstance();
             await loader.loadAll();
@@ -173,6 +253,12 @@ export class CSBDDRunner {
             const stepCount = stats.totalSteps;
             logger.info('Step definitions loaded - Total steps: ' + stepCount);
 
+            // Dry runs only need configuration and step definitions
+            if (this.isValidationRun(options)) {
+                logger.info('Framework Initialization - Validation run, skipping browser and report setup');
+                return;
+            }
+
             // 5. Initialize browser manager or pool
             if (options.parallel && options.workers && options.workers > 1) {
                 await BrowserPool.getInstance().initialize(
@@ -241,6 +327,30 @@ export class CSBDDRunner {
         }
     }
 
+    /**
+     * Seed generated test data so a run can be reproduced. The seed is stored in
+     * the configuration so parallel workers generate the same data.
+     */
+    private configureFakeData(options: RunOptions): void {
+        const logger = ActionLogger.getInstance();
+        const fakeData = FakeDataGenerator.getInstance();
+
+        const seed = options['seed'] || ConfigurationManager.get('FAKE_DATA_SEED', '');
+        if (seed) {
+            fakeData.setSeed(String(seed));
+        }
+        ConfigurationManager.set('FAKE_DATA_SEED', fakeData.getSeed());
+
+        const locale = options['locale'] || ConfigurationManager.get('FAKE_DATA_LOCALE', '') || ConfigurationManager.get('LOCALE', 'en-US');
+        try {
+            fakeData.setLocale(locale);
+        } catch (error) {
+            logger.warn(`${(error as Error).message} - using ${fakeData.getLocale()}`);
+        }
+
+        logger.info(`Test data seed: ${fakeData.getSeed()} (locale ${fakeData.getLocale()}), reproduce with --seed ${fakeData.getSeed()}`);
+    }
+
     /**
      * Discover test scenarios based on options
      */
@@ -260,6 +370,7 @@ export class CSBDDRunner {
             // Create execution plan
             const scheduler = new TestScheduler();
             const executionPlan = await scheduler.createExecutionPlan(filteredFeatures, options);
+            this.shardFingerprint = executionPlan.shard;
 
             logger.info('Execution plan created: ' +
                 'totalFeatures=' + executionPlan.totalFeatures + 
@@ -289,21 +400,49 @@ export class CSBDDRunner {
         // Start execution monitoring
         this.executionMonitor.startMonitoring();
 
+        // Stream progress to the --output reporters
+        const outputReporters = this.attachOutputReporters(plan);
+
+        // Features nest under the span of the run
+        const tracer = CSTracer.getInstance();
+        const runSpan = tracer.startSpan('Test run', {
+            attributes: {
+                'test.run.features': plan.totalFeatures,
+                'test.run.scenarios': plan.totalScenarios
+            }
+        });
+
         try {
-            let result: ExecutionResult;
+            const result = await tracer.withSpan(runSpan, async () => {
+                let runResult: ExecutionResult;
+
+                if (this.runOptions.parallel && this.runOptions.workers && this.runOptions.workers > 1) {
+                    // Parallel execution
+                    logger.info('Executing tests in parallel - Workers: ' + this.runOptions.workers);
+                    runResult = await this.parallelExecutor.execute(plan);
+                } else {
+                    // Sequential execution
+                    logger.info('Executing tests sequentially');
+                    runResult = await this.executeSequential(plan);
+                }
 
-            if (this.runOptions.parallel && this.runOptions.workers && this.runOptions.workers > 1) {
-                // Parallel execution
-                logger.info('Executing tests in parallel - Workers: ' + this.runOptions.workers);
-                result = await this.parallelExecutor.execute(plan);
-            } else {
-                // Sequential execution
-                logger.info('Executing tests sequentially');
-                result = await this.executeSequential(plan);
+                runSpan.setAttributes({
+                    'test.run.passed': runResult.summary.passed,
+                    'test.run.failed': runResult.summary.failed,
+                    'test.run.skipped': runResult.summary.skipped
+                });
+                if (runResult.summary.failed > 0) {
+                    runSpan.setStatus(SpanStatusCode.ERROR, `${runResult.summary.failed} scenarios failed`);
+                }
+                return runResult;
+            });
+            if (tracer.isEnabled()) {
+                logger.info(`Trace ID of the run: ${runSpan.traceId}`);
             }
 
             // Stop monitoring
             this.executionMonitor.stopMonitoring();
+            await outputReporters?.runEnded(result);
 
             // Log execution summary
             this.logExecutionSummary(result.summary);
@@ -317,6 +456,56 @@ export class CSBDDRunner {
         }
     }
 
+    /**
+     * Configure the streaming output reporters and subscribe them to execution events
+     */
+    private attachOutputReporters(plan: ExecutionPlan): OutputReporterManager | null {
+        const formats: OutputFormat[] = this.runOptions['outputFormats'] || [];
+        if (formats.length === 0) {
+            return null;
+        }
+
+        const outputReporters = OutputReporterManager.getInstance();
+        outputReporters.configure(formats, {
+            colors: !this.runOptions['noColors'] && !!process.stdout.isTTY,
+            reportPath: this.runOptions['reportPath'] || ConfigurationManager.get('REPORT_PATH', './reports')
+        });
+
+        // Sequential runs report through the execution monitor
+        this.executionMonitor.on('featureStart', (feature: Feature) => outputReporters.featureStarted(feature));
+        this.executionMonitor.on('featureEnd', (data: { feature: Feature; status: string; duration: number }) =>
+            outputReporters.featureEnded(data.feature, data.status, data.duration));
+        this.executionMonitor.on('scenarioEnd', (data: { feature?: Feature; scenario: Scenario; result?: ScenarioResult }) => {
+            if (data.feature && data.result) {
+                outputReporters.scenarioEnded(data.feature, data.scenario, data.result);
+            }
+        });
+
+        // Parallel runs report each completed work item
+        this.parallelExecutor.on('itemComplete', (data: { workItem: { featureFile: string; scenario?: Scenario }; result: WorkerResult }) => {
+            const featureResult = data.result.featureResult;
+
+            if (featureResult) {
+                outputReporters.featureStarted(featureResult.feature);
+                for (const scenarioResult of featureResult.scenarios || []) {
+                    const scenario = featureResult.feature.scenarios.find(s => s.name === scenarioResult.scenario) || scenarioResult.scenarioRef;
+                    if (scenario) {
+                        outputReporters.scenarioEnded(featureResult.feature, scenario, scenarioResult);
+                    }
+                }
+                outputReporters.featureEnded(featureResult.feature, featureResult.status, featureResult.duration || 0);
+            } else if (data.result.scenarioResult && data.workItem.scenario) {
+                const feature = plan.features.find(f => (f.uri || f.file) === data.workItem.featureFile);
+                if (feature) {
+                    outputReporters.scenarioEnded(feature, data.workItem.scenario, data.result.scenarioResult);
+                }
+            }
+        });
+
+        outputReporters.runStarted({ totalFeatures: plan.totalFeatures, totalScenarios: plan.totalScenarios });
+        return outputReporters;
+    }
+
     /**
      * Execute tests sequentially
      */
@@ -381,16 +570,53 @@ export class CSBDDRunner {
     /**
      * Generate test reports
      */
-    private async report(result: ExecutionResult): Promise<void> {
+    private async report(result: ExecutionResult): Promise<ReportData | undefined> {
         const logger = ActionLogger.getInstance();
         logger.info('Report Generation - Starting report generation');
 
         try {
             // Convert ExecutionResult to ReportData
             const reportData = this.convertToReportData(result);
+
+            // Attach the accessibility audits run by the scenarios
+            const accessibility = AccessibilityAuditor.getInstance().getReport();
+            if (accessibility) {
+                reportData.accessibility = accessibility;
+            }
+
+            // Attach the OpenAPI contract coverage of the API responses
+            const contractCoverage = ContractCoverageTracker.getInstance().getReport();
+            if (contractCoverage) {
+                reportData.contractCoverage = contractCoverage;
+                for (const spec of contractCoverage.specs) {
+                    logger.info(`API contract coverage ${spec.title}: ${spec.coveredOperations}/${spec.totalOperations} operations, ${spec.statusCoverage}% of documented status codes`);
+                }
+            }
+
+            // Attach the load tests of scenarios run in load mode
+            const loadTests = LoadTestRunner.getInstance().getResults();
+            if (loadTests.length > 0) {
+                reportData.loadTests = loadTests;
+            }
+
+            // Attach the visual snapshot comparisons
+            const visualSnapshots = SnapshotManager.getInstance().getVisualDiffs();
+            if (visualSnapshots.length > 0) {
+                reportData.visualSnapshots = visualSnapshots;
+            }
+
+            // Record run history and attach trends
+            await this.recordRunHistory(result, reportData);
+
+            // Attach the budgeted metrics across runs when this run checked budgets
+            await this.attachPerformanceBudgets(reportData);
+
+            // Classify flaky scenarios from the recorded history
+            await this.detectFlakyScenarios(result, reportData);
             
             // Generate reports
-            await this.reportOrchestrator.generateReports(reportData);
+            const reportResult = await this.reportOrchestrator.generateReports(reportData);
+            this.reportFile = reportResult.reportPaths.find(p => p.format === ExportFormat.JSON)?.path;
 
             // Log report locations
             const reportPaths = { html: './reports/index.html', json: './reports/report.json' };
@@ -401,12 +627,347 @@ export class CSBDDRunner {
                 await this.openReport(reportPaths.html);
             }
 
+            return reportData;
+
         } catch (error) {
             logger.error('Report Generation - Report generation failed: ' + (error as Error).message);
             // Don't throw - reports are not critical
+            return undefined;
+        }
+    }
+
+    /**
+     * Record the run in the local history store and fill in report trends
+     */
+    private async recordRunHistory(result: ExecutionResult, reportData: ReportData): Promise<void> {
+        const historyStore = RunHistoryStore.getInstance();
+        if (!historyStore.isEnabled()) {
+            return;
+        }
+
+        try {
+            const entry = RunHistoryStore.createEntry(
+                reportData.metadata.executionId,
+                result.startTime,
+                result.environment || 'default',
+                result.duration || 0,
+                result.features.flatMap(f =>
+                    (f.scenarios || []).map(s => ({
+                        key: RunHistoryStore.scenarioKey(f.feature?.uri || f.uri || f.feature?.name || f.name || '', s.scenario || ''),
+                        feature: f.feature?.name || f.name || '',
+                        scenario: s.scenario || '',
+                        status: this.mapScenarioStatusToTestStatus(s.status || 'failed'),
+                        duration: s.duration || 0,
+                        retryCount: s.retries || 0,
+                        ...(s.error?.message && { error: s.error.message })
+                    }))
+                )
+            );
+
+            const performance = PerformanceBudgetManager.getInstance().getRunSummary();
+            if (Object.keys(performance).length > 0) {
+                entry.performance = performance;
+            }
+
+            reportData.summary.trends = await historyStore.calculateTrends(entry);
+            await historyStore.record(entry);
+
+        } catch (error) {
+            ActionLogger.getInstance().warn('Run history could not be recorded: ' + (error as Error).message);
+        }
+    }
+
+    /**
+     * Attach the history of the performance budgets checked in this run
+     */
+    private async attachPerformanceBudgets(reportData: ReportData): Promise<void> {
+        const budgetManager = PerformanceBudgetManager.getInstance();
+        if (Object.keys(budgetManager.getRunSummary()).length === 0 || !RunHistoryStore.getInstance().isEnabled()) {
+            return;
+        }
+
+        try {
+            const history = await budgetManager.getHistory();
+            if (history.length > 0) {
+                reportData.performanceBudgets = history;
+            }
+        } catch (error) {
+            ActionLogger.getInstance().warn('Performance budget history could not be loaded: ' + (error as Error).message);
         }
     }
 
+    /**
+     * Classify flaky scenarios and optionally quarantine them
+     */
+    private async detectFlakyScenarios(result: ExecutionResult, reportData: ReportData): Promise<void> {
+        if (!RunHistoryStore.getInstance().isEnabled()) {
+            return;
+        }
+
+        const logger = ActionLogger.getInstance();
+
+        try {
+            const keys = result.features.flatMap(f =>
+                (f.scenarios || []).map(s =>
+                    RunHistoryStore.scenarioKey(f.feature?.uri || f.uri || f.feature?.name || f.name || '', s.scenario || '')
+                )
+            );
+            const flakyScenarios = await new FlakyTestDetector().getFlakyScenarios(keys);
+            reportData.summary.statistics.flakyTests = flakyScenarios.map(score => FlakyTestDetector.toFlakyTest(score));
+
+            if (flakyScenarios.length === 0) {
+                return;
+            }
+
+            logger.warn('Flaky scenarios detected: ' + flakyScenarios.map(score => `${score.key} (${score.score.toFixed(2)})`).join(', '));
+
+            if (ConfigurationManager.getBoolean('QUARANTINE_AUTO_ADD', false)) {
+                const quarantine = QuarantineManager.getInstance();
+                for (const score of flakyScenarios) {
+                    if (quarantine.addFlaky(score)) {
+                        logger.warn('Scenario quarantined automatically: ' + score.key);
+                    }
+                }
+            }
+
+        } catch (error) {
+            logger.warn('Flaky scenario detection failed: ' + (error as Error).message);
+        }
+    }
+
+    /**
+     * Mark results of quarantined scenarios so they are reported but do not fail the build
+     */
+    private applyQuarantine(result: ExecutionResult): void {
+        const quarantine = QuarantineManager.getInstance();
+        let quarantinedFailures = 0;
+
+        for (const featureResult of result.features) {
+            const location = featureResult.feature?.uri || featureResult.uri || featureResult.feature?.name || featureResult.name || '';
+            for (const scenarioResult of featureResult.scenarios || []) {
+                const entry = quarantine.find(location, scenarioResult.scenario);
+                if (!entry) continue;
+
+                scenarioResult.metadata = { ...scenarioResult.metadata, quarantined: true, quarantineReason: entry.reason };
+                scenarioResult.tags = [...(scenarioResult.tags || []), '@quarantined'];
+                if (scenarioResult.status === 'failed') {
+                    quarantinedFailures++;
+                }
+            }
+        }
+
+        if (quarantinedFailures > 0) {
+            ActionLogger.getInstance().warn(`${quarantinedFailures} quarantined scenario(s) failed (non-blocking)`);
+        }
+    }
+
+    /**
+     * Count failed scenarios that are not quarantined
+     */
+    private countBlockingFailures(result: ExecutionResult): number {
+        return result.features.reduce((count, f) =>
+            count + (f.scenarios || []).filter(s => s.status === 'failed' && !s.metadata?.['quarantined']).length, 0);
+    }
+
+    private isValidationRun(options: RunOptions): boolean {
+        return !!(options.dryRun || options['validateOnly']);
+    }
+
+    /**
+     * Check every planned step for a step definition, then print and optionally
+     * write the snippets for undefined steps. Steps the natural language fallback
+     * interprets are not undefined. Returns the number of undefined steps.
+     */
+    private async reportUndefinedSteps(plan: ExecutionPlan): Promise<number> {
+        const logger = ActionLogger.getInstance();
+        const stepExecutor = new StepExecutor();
+        const interpreter = NaturalLanguageStepInterpreter.getInstance();
+        const isInterpreted = async (step: Step): Promise<boolean> =>
+            interpreter.isEnabled() && await interpreter.interpret(step.text) !== null;
+
+        for (const feature of plan.features) {
+            const uri = feature.uri || feature.file;
+            const scenarios: Scenario[] = feature.background ? [feature.background] : [];
+            for (const rule of feature.rules || []) {
+                if (rule.background) {
+                    scenarios.push(rule.background);
+                }
+            }
+
+            for (const scenario of feature.scenarios) {
+                const outline = scenario as ScenarioOutline;
+                if (outline.examples && outline.examples.length > 0) {
+                    try {
+                        scenarios.push(...examplesParser.expandScenarioOutline(outline));
+                        continue;
+                    } catch (error) {
+                        logger.warn(`Could not expand outline "${scenario.name}": ${(error as Error).message}`);
+                    }
+                }
+                scenarios.push(scenario);
+            }
+
+            for (const scenario of scenarios) {
+                for (const step of scenario.steps) {
+                    try {
+                        if (!await stepExecutor.findStepDefinition(step) && !await isInterpreted(step)) {
+                            stepSnippetGenerator.record(step, uri);
+                        }
+                    } catch {
+                        // Ambiguous steps are reported when they execute
+                    }
+                }
+            }
+        }
+
+        const undefinedSteps = stepSnippetGenerator.getUndefinedSteps().length;
+        if (undefinedSteps === 0) {
+            return 0;
+        }
+
+        console.log('\n' + stepSnippetGenerator.format());
+
+        const snippetsFile = this.runOptions['snippetsFile'] || ConfigurationManager.get('SNIPPETS_FILE', '');
+        if (snippetsFile) {
+            await stepSnippetGenerator.writeToFile(path.resolve(snippetsFile));
+            logger.info('Step definition snippets written to ' + snippetsFile);
+        }
+
+        return undefinedSteps;
+    }
+
+    /**
+     * Merge the results of a rerun into the report of the run it reran.
+     * Returns the JSON report a later rerun should merge into.
+     */
+    private async mergeRerunReport(reportData?: ReportData): Promise<string | undefined> {
+        const rerunFile = this.runOptions['rerun'];
+        if (!rerunFile || !reportData || !ConfigurationManager.getBoolean('RERUN_MERGE_REPORTS', true)) {
+            return this.reportFile;
+        }
+
+        const logger = ActionLogger.getInstance();
+
+        try {
+            const manifest = RerunManager.getInstance().load(rerunFile);
+            if (!manifest.report || !(await FileUtils.exists(manifest.report))) {
+                logger.warn('Report of the original run not found, rerun results are reported separately');
+                return this.reportFile;
+            }
+
+            const { report, result } = await new ReportMerger().mergeRerunReport(
+                manifest.report,
+                reportData,
+                this.runOptions['reportPath'] || ConfigurationManager.get('REPORT_PATH', './reports'),
+                this.runOptions['reportFormats'] || ['html', 'json']
+            );
+            logger.info(`Consolidated report generated: ${result.reportPath} ` +
+                `(${report.summary.passedScenarios} passed, ${report.summary.failedScenarios} failed)`);
+
+            return result.reportPaths.find(p => p.format === ExportFormat.JSON)?.path || this.reportFile;
+
+        } catch (error) {
+            logger.error('Rerun report consolidation failed: ' + (error as Error).message);
+            // Don't throw - the rerun report itself was generated
+            return this.reportFile;
+        }
+    }
+
+    /**
+     * Write the failed scenarios of this run for --rerun (RERUN_FILE)
+     */
+    private writeRerunManifest(result: ExecutionResult, reportData?: ReportData, reportFile?: string): void {
+        const rerunFile = ConfigurationManager.get('RERUN_FILE', 'rerun.json');
+        if (!rerunFile) {
+            return;
+        }
+
+        const logger = ActionLogger.getInstance();
+
+        try {
+            const rerunManager = RerunManager.getInstance();
+            const manifest = rerunManager.createManifest(result, reportData?.metadata.executionId, reportFile);
+            rerunManager.write(rerunFile, manifest);
+
+            if (manifest.scenarios.length > 0) {
+                logger.info(`${manifest.scenarios.length} failed scenario(s) written to ${rerunFile}, rerun them with --rerun=${rerunFile}`);
+            }
+        } catch (error) {
+            logger.error('Rerun file could not be written: ' + (error as Error).message);
+        }
+    }
+
+    /**
+     * Write proposed page object patches for healed locators (AI_HEALING_WRITE_BACK)
+     */
+    private async writeHealingPatches(): Promise<void> {
+        const logger = ActionLogger.getInstance();
+
+        try {
+            const patchSet = await HealingPatchGenerator.getInstance().writeBack();
+            if (patchSet && patchSet.filesChanged.length > 0) {
+                logger.info('Healed locators written to: ' + patchSet.filesChanged.join(', '));
+            }
+        } catch (error) {
+            logger.error('Healing write-back failed: ' + (error as Error).message);
+            // Don't throw - healing patches are advisory
+        }
+    }
+
+    /**
+     * Publish the run summary, to the requested target or to every enabled publisher
+     */
+    private async publishResults(result: ExecutionResult, reportData?: ReportData): Promise<void> {
+        const logger = ActionLogger.getInstance();
+        const publishOptions: PublishOptions | undefined = this.runOptions['publishOptions'];
+
+        // ADO has its own upload flow
+        const targets = this.runOptions['publishResults'] && publishOptions ? [publishOptions.target] : undefined;
+        if (targets && targets[0] === 'ado') {
+            return;
+        }
+
+        try {
+            const summary = RunSummaryBuilder.fromExecutionResult(
+                result,
+                reportData?.metadata.executionId || `exec-${Date.now()}`,
+                publishOptions?.runName || this.runOptions['reportName'] || 'Test Execution',
+                [...this.getReportLinks(), ...(publishOptions?.links || [])]
+            );
+
+            const results = await ResultPublisherRegistry.getInstance().publishAll(summary, targets);
+            const failed = results.filter(r => !r.success);
+            if (failed.length > 0) {
+                logger.warn('Result publishing failed for: ' + failed.map(r => `${r.publisher} (${r.message})`).join(', '));
+            }
+
+        } catch (error) {
+            logger.error('Result Publishing - Publishing failed: ' + (error as Error).message);
+            // Don't throw - publishing is not critical
+        }
+    }
+
+    /**
+     * Links to the generated report and build, using PUBLISH_REPORT_URL when reports are hosted
+     */
+    private getReportLinks(): Link[] {
+        const links: Link[] = [];
+        const reportUrl = ConfigurationManager.get('PUBLISH_REPORT_URL');
+
+        if (reportUrl) {
+            links.push({ name: 'HTML Report', url: `${reportUrl.replace(/\/+$/, '')}/index.html`, type: 'documentation' });
+        } else {
+            const reportPath = this.runOptions['reportPath'] || ConfigurationManager.get('REPORT_PATH', './reports');
+            links.push({ name: 'HTML Report', url: pathToFileURL(path.resolve(reportPath, 'index.html')).href, type: 'documentation' });
+        }
+
+        if (this.runOptions['buildUrl']) {
+            links.push({ name: 'Build', url: this.runOptions['buildUrl'], type: 'build' });
+        }
+
+        return links;
+    }
+
     /**
      * Upload results to ADO
      */
@@ -417,7 +978,11 @@ export class CSBDDRunner {
         try {
             const adoService = ADOIntegrationService.getInstance();
             
-            const uploadResult = await adoService.uploadTestResults(result);
+            // Results of a run selected from a test plan go back to that plan
+            const uploadResult = await adoService.uploadTestResults(result, {
+                ...(this.runOptions['adoPlan'] ? { testPlanId: this.runOptions['adoPlan'] } : {}),
+                ...(this.runOptions['adoSuite'] ? { testSuiteId: this.runOptions['adoSuite'] } : {})
+            });
 
             logger.info('ADO Upload - Upload completed: ' + JSON.stringify(uploadResult));
 
@@ -445,6 +1010,13 @@ export class CSBDDRunner {
                 await BrowserManager.getInstance().closeBrowser();
             }
 
+            // Stop stub servers still running
+            await StubServerManager.getInstance().stopAll();
+            await GrpcStubServerManager.getInstance().stopAll();
+
+            // Export the remaining spans
+            await CSTracer.getInstance().flush();
+
             // Cleanup temporary files
             await this.cleanupTempFiles();
 
@@ -494,7 +1066,14 @@ export class CSBDDRunner {
                 tags: [],
                 executionOptions: {
                     env: ConfigurationManager.getEnvironmentName()
-                }
+                },
+                ...(this.runOptions['shard'] && {
+                    shard: {
+                        current: this.runOptions['shard'].current,
+                        total: this.runOptions['shard'].total,
+                        ...(this.shardFingerprint && { fingerprint: this.shardFingerprint })
+                    }
+                })
             },
             configuration: {
                 theme: {
@@ -592,6 +1171,7 @@ export class CSBDDRunner {
                         retryCount: 0,
                         description: s.scenarioRef?.description || '',
                         tags: s.tags || [],
+                        ...(s.rule ? { rule: s.rule } : {}),
                         line: s.scenarioRef?.line || 0,
                         keyword: 'Scenario',
                         startTime: s.startTime || now,
@@ -626,6 +1206,7 @@ export class CSBDDRunner {
                         retryCount: 0,
                         description: s.scenarioRef?.description || '',
                         tags: s.tags || [],
+                        ...(s.rule ? { rule: s.rule } : {}),
                         line: s.scenarioRef?.line || 0,
                         keyword: 'Scenario',
                         startTime: s.startTime || now,
@@ -675,6 +1256,7 @@ export class CSBDDRunner {
                     retryCount: 0,
                     description: s.scenarioRef?.description || '',
                     tags: s.tags || [],
+                    ...(s.rule ? { rule: s.rule } : {}),
                     line: s.scenarioRef?.line || 0,
                     keyword: 'Scenario',
                     startTime: s.startTime || now,
@@ -735,6 +1317,8 @@ export class CSBDDRunner {
                     line: s.scenarioRef?.line || 0,
                     keyword: 'Scenario',
                     tags: s.tags || [],
+                    ...(s.rule ? { rule: s.rule } : {}),
+                    ...(s.traceId ? { traceId: s.traceId, spanId: s.spanId } : {}),
                     steps: (s.steps || []).map(st => ({
                         stepId: st.id || '',
                         keyword: st.keyword || 'Given',
@@ -770,8 +1354,9 @@ export class CSBDDRunner {
                                 severity: 'high' as any
                             } : undefined
                         },
-                        embeddings: [],
-                        actions: []
+                        embeddings: this.toEmbeddings(st.attachments),
+                        actions: [],
+                        ...(st.aiInterpretation ? { aiInterpretation: st.aiInterpretation } : {})
                     })),
                     status: this.mapScenarioStatusToTestStatus(s.status || 'failed'),
                     startTime: s.startTime || now,
@@ -930,6 +1515,9 @@ export class CSBDDRunner {
                 await BrowserManager.getInstance().closeBrowser();
             }
 
+            // Export the spans of the run so far
+            await CSTracer.getInstance().flush();
+
             // Save any pending logs
             const logger = ActionLogger.getInstance();
             logger.info('Emergency cleanup completed');
@@ -1092,6 +1680,15 @@ export class CSBDDRunner {
         return this.executionMonitor.getExecutionSnapshot();
     }
 
+    /**
+     * Text and JSON attachments of a step result, like its WebSocket frames, for the report
+     */
+    private toEmbeddings(attachments: Attachment[] = []): Embedding[] {
+        return attachments
+            .filter(a => typeof a.data === 'string' && (a.mimeType === 'application/json' || a.mimeType.startsWith('text/')))
+            .map(a => ({ name: a.name || a.mimeType, mimeType: a.mimeType, data: a.data as string }));
+    }
+
     /**
      * Map scenario status to test status
      */
@@ -1177,9 +1774,16 @@ class TagFilter {
     private evaluatePart(part: string, tags: string[]): boolean {
         if (part.startsWith('not ')) {
             const tag = part.substring(4).trim();
-            return !tags.includes(tag);
+            return !this.hasTag(tags, tag);
         } else {
-            return tags.includes(part);
+            return this.hasTag(tags, part);
         }
     }
+
+    /**
+     * A filter tag also selects the parameterized form, @load matches @load(users=50)
+     */
+    private hasTag(tags: string[], tag: string): boolean {
+        return tags.some(candidate => candidate === tag || candidate.startsWith(`${tag}(`));
+    }
 }
\ No newline at end of file
@@ -9,6 +9,9 @@ import { ExecutionMonitor } from './ExecutionMonitor';
 import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
 import { BrowserManager } from '../../core/browser/BrowserManager';
 import { ResourceManager } from '../../core/browser/ResourceManager';
+import { StubServerManager } from '../../api/stub/StubServerManager';
+import { CSTracer } from '../../core/telemetry/CSTracer';
+import { SpanStatusCode } from '../../core/telemetry/types/telemetry.types';
 import { Logger } from '../../core/utils/Logger';
 import { DateUtils } from '../../core/utils/DateUtils';
 import { 
@@ -59,6 +62,27 @@ export class FeatureExecutor {
      * Execute a feature file
      */
     public async execute(feature: Feature): Promise<FeatureResult> {
+        const tracer = CSTracer.getInstance();
+        const span = tracer.startSpan(`Feature: ${feature.name}`, {
+            attributes: {
+                'test.suite.name': feature.name,
+                'test.tags': feature.tags,
+                'code.file.path': feature.file || feature.uri
+            }
+        });
+
+        return tracer.withSpan(span, async () => {
+            const result = await this.executeFeature(feature);
+            span.setAttribute('test.suite.run.status', result.status === FeatureStatus.FAILED ? 'failure' :
+                result.status === FeatureStatus.SKIPPED ? 'skipped' : 'success');
+            if (result.status === FeatureStatus.FAILED) {
+                span.setStatus(SpanStatusCode.ERROR, `${result.scenarios.filter(s => s.status === ScenarioStatus.FAILED).length} scenarios failed`);
+            }
+            return result;
+        });
+    }
+
+    private async executeFeature(feature: Feature): Promise<FeatureResult> {
         this.currentFeature = feature;
         this.featureStartTime = new Date();
         const startTime = this.featureStartTime;
@@ -285,13 +309,13 @@ export class FeatureExecutor {
                 // Check execution conditions
                 const skipReason = this.shouldSkipScenario(scenario);
                 if (skipReason) {
-                    results.push(this.createSkippedResult(scenario, skipReason));
+                    results.push(this.notifyScenarioEnd(scenario, this.createSkippedResult(scenario, skipReason)));
                     continue;
                 }
 
                 // Check if background failed
                 if (this.isBackgroundFailed && !this.executionConfig.continueOnBackgroundFailure) {
-                    results.push(this.createSkippedResult(scenario, 'Background failed'));
+                    results.push(this.notifyScenarioEnd(scenario, this.createSkippedResult(scenario, 'Background failed')));
                     continue;
                 }
 
@@ -313,7 +337,7 @@ export class FeatureExecutor {
                     this.scenarioTimeouts.delete(scenario?.name || '');
                 }
 
-                results.push(result);
+                results.push(this.notifyScenarioEnd(scenario, result));
 
                 // Check if we should stop on failure
                 if (result.status === 'failed' && this.executionConfig.stopOnFirstFailure) {
@@ -325,24 +349,17 @@ export class FeatureExecutor {
                     for (let j = i + 1; j < scenarios.length; j++) {
                         const remainingScenario = scenarios[j];
                         if (remainingScenario) {
-                            results.push(this.createSkippedResult(remainingScenario, 'Previous scenario failed'));
+                            results.push(this.notifyScenarioEnd(remainingScenario, this.createSkippedResult(remainingScenario, 'Previous scenario failed')));
                         }
                     }
                 }
 
-                // Progress update
-                this.executionMonitor.emit('scenarioEnd', {
-                    scenario,
-                    duration: result.duration,
-                    status: result.status
-                });
-
             } catch (error) {
                 const logger = Logger.getInstance('FeatureExecutor');
                 logger.error(`Scenario execution error: ${scenario?.name}`, error as Error);
                 
                 const errorResult = this.createErrorResult(scenario, error as Error);
-                results.push(errorResult);
+                results.push(this.notifyScenarioEnd(scenario, errorResult));
 
                 // Handle timeout cleanup
                 const timeoutHandle = this.scenarioTimeouts.get(scenario?.name || '');
@@ -358,7 +375,7 @@ export class FeatureExecutor {
                     for (let j = i + 1; j < scenarios.length; j++) {
                         const remainingScenario = scenarios[j];
                         if (remainingScenario) {
-                            results.push(this.createSkippedResult(remainingScenario, 'Previous scenario error'));
+                            results.push(this.notifyScenarioEnd(remainingScenario, this.createSkippedResult(remainingScenario, 'Previous scenario error')));
                         }
                     }
                 }
@@ -396,13 +413,13 @@ export class FeatureExecutor {
                     // Check skip conditions
                     const skipReason = this.shouldSkipScenario(scenario);
                     if (skipReason) {
-                        results[index] = this.createSkippedResult(scenario, skipReason);
+                        results[index] = this.notifyScenarioEnd(scenario, this.createSkippedResult(scenario, skipReason));
                         continue;
                     }
 
                     // Check background failure
                     if (this.isBackgroundFailed && !this.executionConfig.continueOnBackgroundFailure) {
-                        results[index] = this.createSkippedResult(scenario, 'Background failed');
+                        results[index] = this.notifyScenarioEnd(scenario, this.createSkippedResult(scenario, 'Background failed'));
                         continue;
                     }
 
@@ -429,11 +446,7 @@ export class FeatureExecutor {
                 }
 
                 // Progress update
-                this.executionMonitor.emit('scenarioEnd', {
-                    scenario,
-                    duration: results[index].duration,
-                    status: results[index].status
-                });
+                this.notifyScenarioEnd(scenario, results[index]);
             }
         };
 
@@ -573,14 +586,19 @@ export class FeatureExecutor {
      * Prepare scenario with background steps
      */
     private async prepareScenarioWithBackground(scenario: Scenario): Promise<Scenario> {
-        if (this.backgroundSteps.length === 0 || this.isBackgroundFailed) {
+        const featureBackgroundSteps = this.backgroundSteps.length === 0 || this.isBackgroundFailed ?
+            [] : this.convertStepResultsToSteps(this.backgroundSteps);
+        // Rule background runs after the feature background
+        const ruleBackgroundSteps = scenario.rule?.background?.steps || [];
+
+        if (featureBackgroundSteps.length === 0 && ruleBackgroundSteps.length === 0) {
             return scenario;
         }
 
         // Clone scenario to avoid modifying original
         const scenarioWithBackground: Scenario = {
             ...scenario,
-            steps: [...this.convertStepResultsToSteps(this.backgroundSteps), ...scenario.steps]
+            steps: [...featureBackgroundSteps, ...ruleBackgroundSteps, ...scenario.steps]
         };
 
         return scenarioWithBackground;
@@ -699,6 +717,20 @@ export class FeatureExecutor {
         return null;
     }
 
+    /**
+     * Notify the execution monitor that a scenario finished, including skipped and errored ones
+     */
+    private notifyScenarioEnd(scenario: Scenario, result: ScenarioResult): ScenarioResult {
+        this.executionMonitor.emit('scenarioEnd', {
+            scenario,
+            duration: result.duration,
+            status: result.status,
+            feature: this.currentFeature,
+            result
+        });
+        return result;
+    }
+
     /**
      * Create skipped scenario result
      */
@@ -708,6 +740,7 @@ export class FeatureExecutor {
         return {
             id: `scenario-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
             scenario: scenario.name,
+            scenarioRef: scenario,
             tags: scenario.tags || [],
             startTime: now,
             endTime: now,
@@ -743,6 +776,7 @@ export class FeatureExecutor {
         return {
             id: `scenario-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
             scenario: scenario.name,
+            scenarioRef: scenario,
             tags: scenario.tags || [],
             startTime: now,
             endTime: now,
@@ -992,6 +1026,9 @@ export class FeatureExecutor {
                 this.backgroundContext = null;
             }
 
+            // Stop the stub servers started for the feature
+            await StubServerManager.getInstance().stopScope('feature');
+
             // Reset state
             this.backgroundSteps = [];
             this.isBackgroundFailed = false;
@@ -0,0 +1,107 @@
+// src/bdd/runner/FlakyTestDetector.ts
+
+import { RunHistoryStore } from '../../reporting/core/RunHistoryStore';
+import { ScenarioHistoryRecord, TestStatus, FlakyTest } from '../../reporting/types/reporting.types';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import { FlakinessScore, FlakinessOptions } from './quarantine.types';
+
+/**
+ * Classifies scenarios as flaky from their recorded run history
+ *
+ * A run counts as unstable when the scenario only passed after a retry or when
+ * its outcome differs from the previous run. The score is the share of unstable
+ * runs in the analysis window; consistently failing scenarios score low.
+ */
+export class FlakyTestDetector {
+    private historyStore: RunHistoryStore;
+    private options: FlakinessOptions;
+
+    constructor(options?: Partial<FlakinessOptions>) {
+        this.historyStore = RunHistoryStore.getInstance();
+        this.options = {
+            window: options?.window ?? ConfigurationManager.getInt('FLAKY_WINDOW', 10),
+            minRuns: options?.minRuns ?? ConfigurationManager.getInt('FLAKY_MIN_RUNS', 3),
+            threshold: options?.threshold ?? ConfigurationManager.getFloat('FLAKY_THRESHOLD', 0.2)
+        };
+    }
+
+    /**
+     * Score a scenario from its history records (oldest first)
+     */
+    public score(records: ScenarioHistoryRecord[]): FlakinessScore | null {
+        const runs = records
+            .filter(record => record.status !== TestStatus.SKIPPED)
+            .slice(-this.options.window);
+        const last = runs[runs.length - 1];
+
+        if (!last) {
+            return null;
+        }
+
+        const failures = runs.filter(run => run.status === TestStatus.FAILED).length;
+        const passedAfterRetry = runs.filter(run => run.status === TestStatus.PASSED && run.retryCount > 0).length;
+
+        let statusFlips = 0;
+        for (let i = 1; i < runs.length; i++) {
+            if (runs[i]!.status !== runs[i - 1]!.status) {
+                statusFlips++;
+            }
+        }
+
+        const score = Math.min(1, (passedAfterRetry + statusFlips) / runs.length);
+
+        return {
+            key: last.key,
+            feature: last.feature,
+            scenario: last.scenario,
+            totalRuns: runs.length,
+            failures,
+            passedAfterRetry,
+            statusFlips,
+            score,
+            flaky: runs.length >= this.options.minRuns && score >= this.options.threshold
+        };
+    }
+
+    /**
+     * Analyse the given scenarios, or every scenario in the latest recorded run
+     */
+    public async analyze(keys?: string[]): Promise<FlakinessScore[]> {
+        let scenarioKeys = keys;
+        if (!scenarioKeys) {
+            const [latest] = await this.historyStore.getRuns(1);
+            scenarioKeys = latest ? latest.scenarios.map(s => s.key) : [];
+        }
+
+        const scores: FlakinessScore[] = [];
+        for (const key of new Set(scenarioKeys)) {
+            const score = this.score(await this.historyStore.getScenarioHistory(key));
+            if (score) {
+                scores.push(score);
+            }
+        }
+
+        return scores.sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Only the scenarios classified as flaky
+     */
+    public async getFlakyScenarios(keys?: string[]): Promise<FlakinessScore[]> {
+        return (await this.analyze(keys)).filter(score => score.flaky);
+    }
+
+    /**
+     * Convert a score into the report's flaky test representation
+     */
+    public static toFlakyTest(score: FlakinessScore): FlakyTest {
+        const unstableRuns = score.failures + score.passedAfterRetry;
+        return {
+            scenarioId: score.key,
+            name: score.scenario,
+            failureRate: score.totalRuns > 0 ? (unstableRuns / score.totalRuns) * 100 : 0,
+            totalRuns: score.totalRuns,
+            failures: unstableRuns
+        };
+    }
+}
@@ -0,0 +1,168 @@
+// src/bdd/runner/QuarantineManager.ts
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RunHistoryStore } from '../../reporting/core/RunHistoryStore';
+import { QuarantineEntry, QuarantineFile, FlakinessScore } from './quarantine.types';
+
+/**
+ * Maintains the quarantine list of scenarios that run non-blocking
+ *
+ * The list is a small JSON file meant to be committed with the features, so it
+ * uses synchronous I/O and does not depend on loaded configuration; the CLI can
+ * manage it before the framework is initialized.
+ */
+export class QuarantineManager {
+    private static instance: QuarantineManager;
+    private static readonly FILE_VERSION = 1;
+    private quarantineFile: string;
+    private entries: QuarantineEntry[] | null = null;
+
+    private constructor() {
+        this.quarantineFile = path.resolve(process.cwd(), 'quarantine.json');
+    }
+
+    public static getInstance(): QuarantineManager {
+        if (!QuarantineManager.instance) {
+            QuarantineManager.instance = new QuarantineManager();
+        }
+        return QuarantineManager.instance;
+    }
+
+    /**
+     * Use a different quarantine list file
+     */
+    public setQuarantineFile(filePath: string): void {
+        this.quarantineFile = path.resolve(process.cwd(), filePath);
+        this.entries = null;
+    }
+
+    public getQuarantineFile(): string {
+        return this.quarantineFile;
+    }
+
+    /**
+     * List all quarantined scenarios
+     */
+    public list(): QuarantineEntry[] {
+        return [...this.load()];
+    }
+
+    /**
+     * Check whether a scenario is quarantined
+     */
+    public isQuarantined(feature: string, scenario: string): boolean {
+        return this.find(feature, scenario) !== undefined;
+    }
+
+    /**
+     * Find the quarantine entry matching a scenario
+     */
+    public find(feature: string, scenario: string): QuarantineEntry | undefined {
+        const key = RunHistoryStore.scenarioKey(feature, scenario);
+        return this.load().find(entry =>
+            entry.key === key || (!entry.feature && entry.scenario === scenario)
+        );
+    }
+
+    /**
+     * Quarantine a scenario, returns false if it was already quarantined
+     */
+    public add(scenario: string, feature: string = '', reason: string = 'Quarantined manually'): boolean {
+        return this.addEntry({
+            key: feature ? RunHistoryStore.scenarioKey(feature, scenario) : scenario,
+            scenario,
+            feature,
+            reason
+        });
+    }
+
+    /**
+     * Quarantine a scenario classified as flaky, returns false if it was already quarantined
+     */
+    public addFlaky(score: FlakinessScore): boolean {
+        return this.addEntry({
+            key: score.key,
+            scenario: score.scenario,
+            feature: score.feature,
+            reason: `Flaky: score ${score.score.toFixed(2)} over ${score.totalRuns} runs`,
+            score: score.score
+        });
+    }
+
+    /**
+     * Release a scenario by key or scenario name, returns the number of released entries
+     */
+    public release(keyOrScenario: string, feature?: string): number {
+        const entries = this.load();
+        const key = feature ? RunHistoryStore.scenarioKey(feature, keyOrScenario) : keyOrScenario;
+        const remaining = entries.filter(entry =>
+            entry.key !== key && (feature !== undefined || entry.scenario !== keyOrScenario)
+        );
+
+        const released = entries.length - remaining.length;
+        if (released > 0) {
+            this.save(remaining);
+        }
+        return released;
+    }
+
+    private addEntry(entry: Omit<QuarantineEntry, 'addedAt' | 'addedBy'>): boolean {
+        const entries = this.load();
+        if (entries.some(existing => existing.key === entry.key)) {
+            return false;
+        }
+
+        entries.push({
+            ...entry,
+            addedAt: new Date().toISOString(),
+            addedBy: this.getCurrentUser()
+        });
+        this.save(entries);
+        return true;
+    }
+
+    /**
+     * Load the quarantine list, an absent file means an empty list
+     */
+    private load(): QuarantineEntry[] {
+        if (this.entries) {
+            return this.entries;
+        }
+
+        if (!fs.existsSync(this.quarantineFile)) {
+            this.entries = [];
+            return this.entries;
+        }
+
+        try {
+            const content = JSON.parse(fs.readFileSync(this.quarantineFile, 'utf-8')) as QuarantineFile;
+            this.entries = Array.isArray(content.entries) ? content.entries : [];
+        } catch (error) {
+            throw new Error(`Invalid quarantine file ${this.quarantineFile}: ${(error as Error).message}`);
+        }
+
+        return this.entries;
+    }
+
+    private save(entries: QuarantineEntry[]): void {
+        const content: QuarantineFile = {
+            version: QuarantineManager.FILE_VERSION,
+            updatedAt: new Date().toISOString(),
+            entries: [...entries].sort((a, b) => a.key.localeCompare(b.key))
+        };
+
+        fs.mkdirSync(path.dirname(this.quarantineFile), { recursive: true });
+        fs.writeFileSync(this.quarantineFile, JSON.stringify(content, null, 2) + '\n', 'utf-8');
+        this.entries = content.entries;
+    }
+
+    private getCurrentUser(): string {
+        try {
+            return process.env['USER'] || process.env['USERNAME'] || os.userInfo().username;
+        } catch {
+            return 'unknown';
+        }
+    }
+}
@@ -0,0 +1,102 @@
+// src/bdd/runner/RerunManager.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExecutionResult, ScenarioStatus } from '../types/bdd.types';
+import { RerunEntry, RerunManifest } from './rerun.types';
+
+/**
+ * Writes and reads the rerun manifest listing the failed scenarios of a run
+ *
+ * Like the quarantine list it is a small JSON file handled with synchronous I/O,
+ * so the scheduler can read it while building the execution plan.
+ */
+export class RerunManager {
+    private static instance: RerunManager;
+    private static readonly FILE_VERSION = 1;
+
+    private constructor() {}
+
+    public static getInstance(): RerunManager {
+        if (!RerunManager.instance) {
+            RerunManager.instance = new RerunManager();
+        }
+        return RerunManager.instance;
+    }
+
+    /**
+     * Feature location as written in the manifest, relative with forward slashes
+     */
+    public static location(uri: string): string {
+        const location = path.isAbsolute(uri) ? path.relative(process.cwd(), uri) : uri;
+        return location.replace(/\\/g, '/').replace(/^\.\//, '');
+    }
+
+    /**
+     * Collect the failed scenarios of a run
+     */
+    public createManifest(result: ExecutionResult, executionId?: string, report?: string): RerunManifest {
+        const scenarios: RerunEntry[] = [];
+
+        for (const featureResult of result.features) {
+            const uri = featureResult.feature?.uri || featureResult.uri;
+            if (!uri) {
+                continue;
+            }
+
+            for (const scenarioResult of featureResult.scenarios || []) {
+                if (scenarioResult.status !== ScenarioStatus.FAILED && scenarioResult.status !== ScenarioStatus.ERROR) {
+                    continue;
+                }
+
+                const entry: RerunEntry = {
+                    uri: RerunManager.location(uri),
+                    line: scenarioResult.scenarioRef?.line || 0,
+                    scenario: scenarioResult.scenarioRef?.name || scenarioResult.scenario
+                };
+                const failedExampleLines = scenarioResult.metadata?.['failedExampleLines'] as number[] | undefined;
+                if (failedExampleLines && failedExampleLines.length > 0) {
+                    entry.examples = failedExampleLines;
+                }
+                scenarios.push(entry);
+            }
+        }
+
+        return {
+            version: RerunManager.FILE_VERSION,
+            generatedAt: new Date().toISOString(),
+            ...(executionId && { executionId }),
+            ...(report && { report: path.resolve(report) }),
+            scenarios
+        };
+    }
+
+    /**
+     * Write the manifest, an empty list replaces the manifest of an earlier failed run
+     */
+    public write(filePath: string, manifest: RerunManifest): void {
+        const resolved = path.resolve(process.cwd(), filePath);
+        fs.mkdirSync(path.dirname(resolved), { recursive: true });
+        fs.writeFileSync(resolved, JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+    }
+
+    /**
+     * Load a rerun manifest
+     */
+    public load(filePath: string): RerunManifest {
+        const resolved = path.resolve(process.cwd(), filePath);
+        if (!fs.existsSync(resolved)) {
+            throw new Error(`Rerun file not found: ${resolved}`);
+        }
+
+        try {
+            const manifest = JSON.parse(fs.readFileSync(resolved, 'utf-8')) as RerunManifest;
+            if (!Array.isArray(manifest.scenarios)) {
+                throw new Error('missing scenarios list');
+            }
+            return manifest;
+        } catch (error) {
+            throw new Error(`Invalid rerun file ${resolved}: ${(error as Error).message}`);
+        }
+    }
+}
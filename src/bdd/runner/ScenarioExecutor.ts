@@ -11,6 +11,17 @@ import { ScreenshotManager } from '../../core/debugging/ScreenshotManager';
 import { VideoRecorder } from '../../core/debugging/VideoRecorder';
 import { TraceRecorder } from '../../core/debugging/TraceRecorder';
 import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import { FakeDataGenerator } from '../../data/generators/FakeDataGenerator';
+import { StubServerManager } from '../../api/stub/StubServerManager';
+import { StreamConnectionManager } from '../../api/streaming/StreamConnectionManager';
+import { GrpcClientManager } from '../../api/grpc/GrpcClientManager';
+import { GrpcStubServerManager } from '../../api/grpc/GrpcStubServerManager';
+import { LoadRequestRecorder } from '../../api/load/LoadRequestRecorder';
+import { LoadTestRunner } from '../../api/load/LoadTestRunner';
+import { NetworkInterceptor } from '../../core/network/NetworkInterceptor';
+import { NetworkCollector } from '../../reporting/collectors/NetworkCollector';
+import { CSTracer } from '../../core/telemetry/CSTracer';
+import { SpanStatusCode } from '../../core/telemetry/types/telemetry.types';
 import {
     Scenario,
     ScenarioResult,
@@ -35,6 +46,8 @@ export class ScenarioExecutor {
     private screenshotManager: ScreenshotManager;
     private videoRecorder: VideoRecorder;
     private traceRecorder: TraceRecorder;
+    private loadTestRunner: LoadTestRunner;
+    private tracer: CSTracer;
     private currentContext: ExecutionContext | null = null;
 
     constructor() {
@@ -44,6 +57,8 @@ export class ScenarioExecutor {
         this.screenshotManager = ScreenshotManager.getInstance();
         this.videoRecorder = VideoRecorder.getInstance();
         this.traceRecorder = TraceRecorder.getInstance();
+        this.loadTestRunner = LoadTestRunner.getInstance();
+        this.tracer = CSTracer.getInstance();
     }
 
     /**
@@ -60,14 +75,105 @@ export class ScenarioExecutor {
             return this.executeDataDrivenScenario(scenario, featureContext);
         }
 
+        // Handle load scenarios
+        if (this.loadTestRunner.isLoadScenario(scenario)) {
+            return this.executeLoadScenario(scenario, featureContext);
+        }
+
         // Execute regular scenario
         return this.executeSingleScenario(scenario, featureContext);
     }
 
     /**
-     * Execute a single scenario instance
+     * Execute a scenario once while recording its API requests, then replay them as a load test
+     */
+    private async executeLoadScenario(scenario: Scenario, featureContext?: any): Promise<ScenarioResult> {
+        const recorder = LoadRequestRecorder.getInstance();
+        recorder.start();
+        const result = await this.executeSingleScenario(scenario, featureContext);
+        const requests = recorder.stop();
+
+        if (result.status !== ScenarioStatus.PASSED) {
+            ActionLogger.logWarn(`Load test of '${scenario.name}' skipped, the recording run did not pass`);
+            return result;
+        }
+        // UI and database scenarios selected by --load run once, as functional scenarios
+        if (requests.length === 0) {
+            ActionLogger.logInfo(`Load test of '${scenario.name}' skipped, the scenario sent no requests through the API client`);
+            return result;
+        }
+
+        try {
+            const settings = this.loadTestRunner.getSettings(scenario);
+            const loadResult = await this.loadTestRunner.run(scenario.name, requests, settings);
+            if (!loadResult.passed) {
+                const failed = loadResult.thresholds.filter(threshold => !threshold.passed);
+                result.status = ScenarioStatus.FAILED;
+                result.error = {
+                    type: 'assertion',
+                    message: `Load test thresholds failed: ${failed.map(threshold => `${threshold.expression} (actual ${threshold.actual})`).join(', ')}`,
+                    context: {
+                        scenario: scenario.name
+                    },
+                    timestamp: new Date()
+                } as ExecutionError;
+            }
+        } catch (error) {
+            const err = error as Error;
+            ActionLogger.logError('Load test error', err);
+            result.status = ScenarioStatus.FAILED;
+            result.error = {
+                type: 'execution',
+                message: err.message,
+                stack: err.stack,
+                context: {
+                    scenario: scenario.name
+                },
+                timestamp: new Date()
+            } as ExecutionError;
+        }
+
+        result.endTime = new Date();
+        result.duration = result.endTime.getTime() - result.startTime.getTime();
+        return result;
+    }
+
+    /**
+     * Execute a single scenario instance in its own span
      */
     private async executeSingleScenario(
+        scenario: Scenario,
+        featureContext?: any,
+        testData?: TestData,
+        exampleData?: any
+    ): Promise<ScenarioResult> {
+        const span = this.tracer.startSpan(`Scenario: ${scenario.name}`, {
+            attributes: {
+                'test.case.name': scenario.name,
+                'test.suite.name': featureContext?.feature?.name,
+                'test.tags': scenario.tags,
+                'code.file.path': featureContext?.feature?.uri,
+                'code.line.number': scenario.line
+            }
+        });
+
+        return this.tracer.withSpan(span, async () => {
+            const result = await this.runScenario(scenario, featureContext, testData, exampleData);
+            if (result.status === ScenarioStatus.PASSED) {
+                span.setAttribute('test.case.result.status', 'pass');
+            } else if (result.status === ScenarioStatus.FAILED || result.status === ScenarioStatus.ERROR) {
+                span.setAttribute('test.case.result.status', 'fail');
+                span.setStatus(SpanStatusCode.ERROR, result.error?.message || 'Scenario failed');
+            }
+            if (span.isRecording()) {
+                result.traceId = span.traceId;
+                result.spanId = span.spanId;
+            }
+            return result;
+        });
+    }
+
+    private async runScenario(
         scenario: Scenario, 
         featureContext?: any,
         testData?: TestData,
@@ -81,9 +187,17 @@ export class ScenarioExecutor {
             ActionLogger.logDebug('Test Data', JSON.stringify(testData));
         }
 
+        // Generated data depends only on the run seed and this scenario instance, not on execution order
+        FakeDataGenerator.getInstance().reseed(
+            `${scenario.name}:${scenario.line ?? ''}:${JSON.stringify(testData || exampleData || {})}`
+        );
+        // Feature stub servers keep their stubs, not what earlier scenarios sent them
+        StubServerManager.getInstance().clearRequests('feature');
+
         const result: ScenarioResult = {
             id: scenarioId,
             scenario: scenario.name,
+            scenarioRef: scenario,
             tags: scenario.tags,
             startTime,
             endTime: new Date(),
@@ -94,6 +208,9 @@ export class ScenarioExecutor {
             retries: 0,
             timestamp: new Date()
         };
+        if (scenario.rule) {
+            result.rule = scenario.rule.name;
+        }
 
         try {
             // Create execution context
@@ -178,9 +295,10 @@ export class ScenarioExecutor {
         ActionLogger.logInfo('Scenario Outline', `Executing outline: ${outline.name}`);
 
         const results: ScenarioResult[] = [];
+        const failedExampleLines: number[] = [];
 
         for (const example of outline.examples) {
-            for (const row of example.rows) {
+            for (const [rowIndex, row] of example.rows.entries()) {
                 // Create scenario from outline with example data
                 const scenario = this.createScenarioFromOutline(outline, example.header, row);
                 
@@ -194,6 +312,11 @@ export class ScenarioExecutor {
 
                 results.push(result);
 
+                const rowLine = example.rowLines?.[rowIndex];
+                if (rowLine !== undefined && (result.status === ScenarioStatus.FAILED || result.status === ScenarioStatus.ERROR)) {
+                    failedExampleLines.push(rowLine);
+                }
+
                 // Stop on first failure if configured
                 if (result.status === ScenarioStatus.FAILED && process.env['STOP_ON_FAILURE'] === 'true') {
                     break;
@@ -201,8 +324,12 @@ export class ScenarioExecutor {
             }
         }
 
-        // Merge results
-        return this.mergeOutlineResults(outline, results);
+        // Merge results, keeping the failed example rows for the rerun manifest
+        const merged = this.mergeOutlineResults(outline, results);
+        if (failedExampleLines.length > 0) {
+            merged.metadata = { ...merged.metadata, failedExampleLines };
+        }
+        return merged;
     }
 
     /**
@@ -249,17 +376,52 @@ export class ScenarioExecutor {
      */
     public async executeSteps(steps: Step[], context: any): Promise<StepResult[]> {
         const results: StepResult[] = [];
+        const networkCollector = NetworkCollector.getInstance();
+        const scenarioId = BDDContext.getInstance().getScenarioId();
 
         for (const step of steps) {
-            // Execute before step hooks
-            await this.executeBeforeStepHooks(step, context);
+            // WebSocket and SSE frames are recorded for the current step
+            const stepKey = `step_${steps.indexOf(step)}`;
+
+            // Hooks and calls of the step nest under its span
+            const span = this.tracer.startSpan(`${step.keyword.trim()} ${step.text}`, {
+                attributes: {
+                    'test.step.keyword': step.keyword.trim(),
+                    'test.step.text': step.text,
+                    'code.line.number': step.line
+                }
+            });
+            context.setMetadata('traceSpan', span);
+
+            const stepResult = await this.tracer.withSpan(span, async () => {
+                // Execute before step hooks
+                await this.executeBeforeStepHooks(step, context);
+
+                // Execute step
+                await networkCollector.startStep(scenarioId, stepKey);
+                const result = await this.stepExecutor.execute(step, context);
+                await networkCollector.endStep(scenarioId, stepKey);
+
+                const frames = networkCollector.getStepWebSocketFrames(scenarioId, stepKey);
+                if (frames.length > 0) {
+                    result.attachments = [...(result.attachments || []), {
+                        data: JSON.stringify({ stepId: result.id, stepText: step.text, framesCount: frames.length, frames }, null, 2),
+                        mimeType: 'application/json',
+                        name: 'WebSocket frames'
+                    }];
+                }
 
-            // Execute step
-            const stepResult = await this.stepExecutor.execute(step, context);
-            results.push(stepResult);
+                // Execute after step hooks
+                await this.executeAfterStepHooks(step, context, result);
 
-            // Execute after step hooks
-            await this.executeAfterStepHooks(step, context, stepResult);
+                span.setAttribute('test.step.status', result.status);
+                if (result.status === StepStatus.FAILED || result.status === StepStatus.UNDEFINED) {
+                    span.setStatus(SpanStatusCode.ERROR, result.error?.message || `Step ${result.status}`);
+                }
+                return result;
+            });
+            context.setMetadata('traceSpan', null);
+            results.push(stepResult);
 
             // Stop execution if step failed
             if (stepResult.status === StepStatus.FAILED) {
@@ -317,6 +479,15 @@ export class ScenarioExecutor {
         executionContext.setMetadata('bddContext', BDDContext.getInstance());
         executionContext.setMetadata('page', page);
         executionContext.setMetadata('browserContext', browserContext);
+
+        // Browser requests carry the trace context of the running step
+        if (this.tracer.isEnabled()) {
+            const scenarioSpan = this.tracer.getActiveSpan();
+            await new NetworkInterceptor(page).propagateTraceContext(
+                () => executionContext.getMetadata('traceSpan') || scenarioSpan,
+                ConfigurationManager.getArray('OTEL_PROPAGATION_URLS')
+            );
+        }
         
         return executionContext;
     }
@@ -539,8 +710,19 @@ export class ScenarioExecutor {
             const scenarioContext = this.currentContext?.getMetadata('scenarioContext') as ScenarioContext;
             scenarioContext?.clear();
 
+            // The frames of the scenario are attached to its steps
+            NetworkCollector.getInstance().clearScenarioFrames(BDDContext.getInstance().getScenarioId());
+
             // Clear BDD context
             BDDContext.getInstance().clearScenarioState();
+
+            // Close the WebSocket, server-sent event and gRPC connections of the scenario
+            await StreamConnectionManager.getInstance().closeAll();
+            GrpcClientManager.getInstance().closeAll();
+
+            // Stop the stub servers started by the scenario
+            await StubServerManager.getInstance().stopScope('scenario');
+            await GrpcStubServerManager.getInstance().stopAll();
             
             // Cleanup execution context (this handles browser resources)
             if (this.currentContext) {
@@ -749,6 +931,7 @@ export class ScenarioExecutor {
         const merged: ScenarioResult = {
             id: `scenario_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
             scenario: outline.name,
+            scenarioRef: outline,
             tags: outline.tags,
             startTime: results[0]?.startTime || new Date(),
             endTime: results[results.length - 1]?.endTime || new Date(),
@@ -760,6 +943,14 @@ export class ScenarioExecutor {
             timestamp: new Date(),
             attachments: results.flatMap(r => r.attachments || [])
         };
+        const traced = results.find(r => r.error && r.traceId) || results.find(r => r.traceId);
+        if (traced) {
+            merged.traceId = traced.traceId!;
+            merged.spanId = traced.spanId!;
+        }
+        if (outline.rule) {
+            merged.rule = outline.rule.name;
+        }
 
         return merged;
     }
@@ -768,6 +959,7 @@ export class ScenarioExecutor {
         const merged: ScenarioResult = {
             id: `scenario_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
             scenario: scenario.name,
+            scenarioRef: scenario,
             tags: scenario.tags,
             startTime: results[0]?.startTime || new Date(),
             endTime: results[results.length - 1]?.endTime || new Date(),
@@ -779,6 +971,14 @@ export class ScenarioExecutor {
             timestamp: new Date(),
             attachments: results.flatMap(r => r.attachments || [])
         };
+        const traced = results.find(r => r.error && r.traceId) || results.find(r => r.traceId);
+        if (traced) {
+            merged.traceId = traced.traceId!;
+            merged.spanId = traced.spanId!;
+        }
+        if (scenario.rule) {
+            merged.rule = scenario.rule.name;
+        }
 
         return merged;
     }
@@ -2,10 +2,12 @@
 
 import { StepRegistry } from '../decorators/StepRegistry';
 import { StepMatcher } from '../decorators/StepMatcher';
+import { stepSnippetGenerator } from '../decorators/StepSnippetGenerator';
 import { ActionLogger } from '../../core/logging/ActionLogger';
 import { DebugManager } from '../../core/debugging/DebugManager';
 import { ScreenshotManager } from '../../core/debugging/ScreenshotManager';
 import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import { NaturalLanguageStepInterpreter } from '../../core/ai/nlp/NaturalLanguageStepInterpreter';
 import { 
     Step, 
     StepResult, 
@@ -65,19 +67,33 @@ export class StepExecutor {
             // Find matching step definition
             const stepDefinition = await this.findStepDefinition(step);
             
-            if (!stepDefinition) {
-                throw new Error(`No step definition found for: ${step.keyword} ${step.text}`);
-            }
-
-            // Extract parameters
-            const parameters = this.extractParameters(step, stepDefinition);
-
-            // Prepare arguments
-            const stepArgument = step.dataTable || step.docString || undefined;
-            const args = await this.prepareArguments(parameters, stepArgument, context);
+            if (stepDefinition) {
+                // Extract parameters
+                const parameters = this.extractParameters(step, stepDefinition);
+
+                // Prepare arguments
+                const stepArgument = step.dataTable || step.docString || undefined;
+                const args = await this.prepareArguments(parameters, stepArgument, context);
+
+                // Execute step definition
+                await this.executeStepDefinition(stepDefinition, args, context);
+            } else {
+                // Opt-in natural language fallback, otherwise the step is undefined
+                const interpreter = NaturalLanguageStepInterpreter.getInstance();
+                const interpretation = interpreter.isEnabled() ? await interpreter.interpret(step.text) : null;
+
+                if (!interpretation) {
+                    const snippet = stepSnippetGenerator.record(step, this.getFeatureUri(context));
+                    throw Object.assign(
+                        new Error(`No step definition found for: ${step.keyword} ${step.text}\n\nImplement it with:\n\n${snippet.code}`),
+                        { undefinedStep: true }
+                    );
+                }
 
-            // Execute step definition
-            await this.executeStepDefinition(stepDefinition, args, context);
+                result.aiInterpretation = interpretation;
+                await interpreter.execute(interpretation, context.getPage());
+                ActionLogger.logInfo(`AI-interpreted step: ${step.keyword} ${step.text}`, interpretation);
+            }
 
             // Mark as passed
             result.status = StepStatus.PASSED;
@@ -134,10 +150,19 @@ export class StepExecutor {
         return result;
     }
 
+    /**
+     * Feature file of the step being executed, for undefined step locations
+     */
+    private getFeatureUri(context: ExecutionContext): string | undefined {
+        const featureContext = context.getMetadata('featureContext');
+        const feature = typeof featureContext?.getFeature === 'function' ? featureContext.getFeature() : featureContext?.feature;
+        return feature?.uri || feature?.file;
+    }
+
     /**
      * Find matching step definition
      */
-    private async findStepDefinition(step: Step): Promise<StepDefinition | null> {
+    public async findStepDefinition(step: Step): Promise<StepDefinition | null> {
         const stepText = `${step.keyword} ${step.text}`.trim();
         
         // Try to find matching step definition
@@ -423,6 +448,9 @@ export class StepExecutor {
      * Determine error status based on error type
      */
     private determineErrorStatus(error: any): StepStatus {
+        if (error.undefinedStep) {
+            return StepStatus.UNDEFINED;
+        }
         if (error.pending || error.constructor?.name === 'PendingError') {
             return StepStatus.PENDING;
         }
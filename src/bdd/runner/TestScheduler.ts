@@ -1,16 +1,27 @@
 // src/bdd/runner/TestScheduler.ts
 
+import * as crypto from 'crypto';
+import * as path from 'path';
 import { ActionLogger } from '../../core/logging/ActionLogger';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import { RunHistoryStore } from '../../reporting/core/RunHistoryStore';
+import { RerunManager } from './RerunManager';
+import { RerunEntry } from './rerun.types';
+import { TestPlanSelector } from '../../integrations/ado/TestPlanSelector';
+import { ShardConfig, ShardKey, ShardDistribution } from '../../core/cli/ExecutionOptions';
 import {
     Feature,
     Scenario,
+    ScenarioOutline,
     ExecutionPlan,
-    RunOptions
+    RunOptions,
+    ShardFingerprint
 } from '../types/bdd.types';
 import {
     TestGroup,
     PriorityLevel,
-    ResourceRequirement
+    ResourceRequirement,
+    ShardUnit
 } from './test-scheduler.types';
 
 /**
@@ -42,7 +53,28 @@ export class TestScheduler {
         // const startTime = Date.now();
         
         // Flatten all scenarios
-        const allScenarios = this.flattenScenarios(features);
+        let allScenarios = this.flattenScenarios(features);
+
+        // Keep only the scenarios that failed in the previous run
+        if (options['rerun']) {
+            allScenarios = this.selectRerun(allScenarios, options['rerun']);
+            features = features.filter(f => allScenarios.some(s => s.feature === f));
+        }
+
+        // Keep only the scenarios planned in the ADO test plan/suite
+        if (options['adoPlan']) {
+            allScenarios = await this.selectADOTestPlan(allScenarios, options['adoPlan'], options['adoSuite']);
+            features = features.filter(f => allScenarios.some(s => s.feature === f));
+        }
+
+        // Keep only the scenarios assigned to this shard
+        let shardFingerprint: ShardFingerprint | undefined;
+        if (options['shard']) {
+            const shard = await this.selectShard(allScenarios, options['shard']);
+            allScenarios = shard.scenarios;
+            shardFingerprint = shard.fingerprint;
+            features = features.filter(f => allScenarios.some(s => s.feature === f));
+        }
         
         // Apply scheduling strategy
         const scheduledScenarios = await this.scheduleScenarios(allScenarios, options);
@@ -62,7 +94,8 @@ export class TestScheduler {
             totalScenarios: allScenarios.length,
             executionOrder: this.createExecutionOrder(scheduledScenarios),
             parallelGroups: this.convertToScenarioGroups(groups),
-            estimatedDuration: estimates.totalDuration
+            estimatedDuration: estimates.totalDuration,
+            ...(shardFingerprint && { shard: shardFingerprint })
         };
 
         ActionLogger.logInfo('Execution plan created', JSON.stringify({
@@ -88,6 +121,237 @@ export class TestScheduler {
         return scenarios;
     }
 
+    /**
+     * Select the scenarios listed in a rerun manifest
+     *
+     * Scenarios are matched by feature path and line, falling back to the
+     * scenario name when the feature file changed since the failed run.
+     * Outlines only keep the example rows that failed.
+     */
+    private selectRerun(
+        scenarios: Array<{scenario: Scenario, feature: Feature}>,
+        rerunFile: string
+    ): Array<{scenario: Scenario, feature: Feature}> {
+        const manifest = RerunManager.getInstance().load(rerunFile);
+        const selected = new Map<Scenario, RerunEntry>();
+
+        for (const entry of manifest.scenarios) {
+            const candidates = scenarios.filter(item =>
+                item.feature.uri && RerunManager.location(item.feature.uri) === entry.uri
+            );
+            const match = candidates.find(item => item.scenario.line === entry.line && item.scenario.name === entry.scenario) ||
+                candidates.find(item => item.scenario.name === entry.scenario);
+
+            if (match) {
+                selected.set(match.scenario, entry);
+            } else {
+                ActionLogger.logWarn(`Rerun scenario not found: ${entry.uri}:${entry.line} ${entry.scenario}`);
+            }
+        }
+
+        ActionLogger.logInfo('Rerun selected', JSON.stringify({
+            file: rerunFile,
+            scenarios: selected.size,
+            listed: manifest.scenarios.length
+        }));
+
+        return scenarios
+            .filter(item => selected.has(item.scenario))
+            .map(item => ({ ...item, scenario: this.selectExampleRows(item.scenario, selected.get(item.scenario)!) }));
+    }
+
+    /**
+     * Select the scenarios whose test case has a test point in the ADO plan/suite
+     */
+    private async selectADOTestPlan(
+        scenarios: Array<{scenario: Scenario, feature: Feature}>,
+        planId: number,
+        suiteId?: number
+    ): Promise<Array<{scenario: Scenario, feature: Feature}>> {
+        const planned = await new TestPlanSelector().getPlannedTestCaseIds(planId, suiteId);
+        const matched = new Set<number>();
+
+        const selected = scenarios.filter(item => {
+            const testCaseId = TestPlanSelector.getTestCaseId(item.scenario.tags);
+            if (testCaseId !== undefined && planned.has(testCaseId)) {
+                matched.add(testCaseId);
+                return true;
+            }
+            return false;
+        });
+
+        const unmapped = [...planned].filter(id => !matched.has(id));
+        if (unmapped.length > 0) {
+            ActionLogger.logWarn(`ADO test cases without a tagged scenario: ${unmapped.join(', ')}`);
+        }
+
+        ActionLogger.logInfo('ADO test plan selected', JSON.stringify({
+            plan: planId,
+            suite: suiteId,
+            testPoints: planned.size,
+            scenarios: selected.length
+        }));
+
+        return selected;
+    }
+
+    /**
+     * Narrow an outline to the example rows listed in the rerun entry
+     */
+    private selectExampleRows(scenario: Scenario, entry: RerunEntry): Scenario {
+        const outline = scenario as ScenarioOutline;
+        if (!entry.examples || !outline.examples) {
+            return scenario;
+        }
+
+        const lines = new Set(entry.examples);
+        const examples = outline.examples
+            .map(example => {
+                const rowIndexes = example.rows
+                    .map((_row, index) => index)
+                    .filter(index => lines.has(example.rowLines?.[index] ?? -1));
+                return {
+                    ...example,
+                    rows: rowIndexes.map(index => example.rows[index]!),
+                    rowLines: rowIndexes.map(index => example.rowLines![index]!)
+                };
+            })
+            .filter(example => example.rows.length > 0);
+
+        // Rows that can no longer be found rerun the whole outline
+        return examples.length > 0 ? { ...outline, examples } : scenario;
+    }
+
+    /**
+     * Select the scenarios of the current shard
+     *
+     * Every agent computes the same partition from the feature files, the shard
+     * options and the run history, so agents must share the same history file
+     * for weighted distribution to stay disjoint. The fingerprint of the partition
+     * goes into the shard report, where the merger checks that all shards agree.
+     * Without run history, weighted distribution falls back to even.
+     */
+    private async selectShard(
+        scenarios: Array<{scenario: Scenario, feature: Feature}>,
+        shard: ShardConfig
+    ): Promise<{ scenarios: Array<{scenario: Scenario, feature: Feature}>; fingerprint: ShardFingerprint }> {
+        const key = shard.key || ConfigurationManager.get('SHARD_KEY', 'feature') as ShardKey;
+        let distribution = shard.distribution || ConfigurationManager.get('SHARD_DISTRIBUTION', 'weighted') as ShardDistribution;
+        if (distribution !== 'even' && distribution !== 'weighted') {
+            throw new Error(`Unknown shard distribution '${distribution as string}', use even or weighted`);
+        }
+
+        const durations = distribution === 'weighted' && RunHistoryStore.getInstance().isEnabled() ?
+            await RunHistoryStore.getInstance().getAverageDurations() :
+            new Map<string, number>();
+        if (distribution === 'weighted' && durations.size === 0) {
+            ActionLogger.logInfo('No run history for weighted sharding, distributing scenarios evenly');
+            distribution = 'even';
+        }
+
+        const units = this.createShardUnits(scenarios, key, distribution, durations);
+        const shards = this.partitionUnits(units, shard.total, key);
+        const selected = new Set((shards[shard.current - 1] || []).flatMap(unit => unit.scenarios));
+        const fingerprint: ShardFingerprint = {
+            partition: this.fingerprint(shards.map(units => units.map(unit => unit.id).join('\n')).join('\n\n')),
+            history: distribution === 'even' ? 'none' : this.fingerprint(
+                Array.from(durations.entries())
+                    .map(([scenarioKey, duration]) => `${scenarioKey}=${Math.round(duration)}`)
+                    .sort((a, b) => this.compareIds(a, b))
+                    .join('\n')
+            )
+        };
+
+        ActionLogger.logInfo('Shard selected', JSON.stringify({
+            shard: `${shard.current}/${shard.total}`,
+            key,
+            distribution,
+            scenarios: selected.size,
+            totalScenarios: scenarios.length,
+            weights: shards.map(units => Math.round(units.reduce((sum, unit) => sum + unit.weight, 0))),
+            fingerprint
+        }));
+
+        return { scenarios: scenarios.filter(item => selected.has(item.scenario)), fingerprint };
+    }
+
+    /**
+     * Group scenarios into units that are never split across shards
+     */
+    private createShardUnits(
+        scenarios: Array<{scenario: Scenario, feature: Feature}>,
+        key: ShardKey,
+        distribution: ShardDistribution,
+        durations: Map<string, number>
+    ): ShardUnit[] {
+        const units = new Map<string, ShardUnit>();
+
+        for (const item of scenarios) {
+            // Relative paths keep IDs stable across agents with different checkout directories
+            const featureId = item.feature.uri ?
+                path.relative(process.cwd(), item.feature.uri).replace(/\\/g, '/') :
+                item.feature.name;
+            const scenarioKey = RunHistoryStore.scenarioKey(item.feature.uri || item.feature.name, item.scenario.name);
+            const id = key === 'feature' ? featureId :
+                key === 'tag' ? (item.scenario.tags[0] || item.feature.tags[0] || 'untagged') :
+                `${scenarioKey}:${item.scenario.line || 0}`;
+
+            // Even distribution balances scenario counts, the others balance durations
+            const weight = distribution === 'even' ? 1 :
+                durations.get(scenarioKey) ?? this.estimateScenarioTime(item.scenario);
+
+            const unit = units.get(id) || { id, scenarios: [], weight: 0 };
+            unit.scenarios.push(item.scenario);
+            unit.weight += weight;
+            units.set(id, unit);
+        }
+
+        return Array.from(units.values()).sort((a, b) => this.compareIds(a.id, b.id));
+    }
+
+    /**
+     * Assign units to shards
+     */
+    private partitionUnits(units: ShardUnit[], total: number, key: ShardKey): ShardUnit[][] {
+        const shards: ShardUnit[][] = Array.from({ length: total }, () => []);
+
+        if (key === 'hash') {
+            units.forEach(unit => {
+                const hash = crypto.createHash('md5').update(unit.id).digest().readUInt32BE(0);
+                shards[hash % total]!.push(unit);
+            });
+            return shards;
+        }
+
+        if (key === 'round-robin') {
+            units.forEach((unit, index) => shards[index % total]!.push(unit));
+            return shards;
+        }
+
+        // Longest processing time first: heaviest unit goes to the lightest shard
+        const loads = new Array<number>(total).fill(0);
+        const byWeight = [...units].sort((a, b) => b.weight - a.weight || this.compareIds(a.id, b.id));
+
+        for (const unit of byWeight) {
+            const lightest = loads.indexOf(Math.min(...loads));
+            shards[lightest]!.push(unit);
+            loads[lightest]! += unit.weight;
+        }
+
+        return shards;
+    }
+
+    private fingerprint(value: string): string {
+        return crypto.createHash('sha1').update(value).digest('hex').substring(0, 12);
+    }
+
+    /**
+     * Locale independent ordering, so every agent sorts units the same way
+     */
+    private compareIds(a: string, b: string): number {
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
     /**
      * Schedule scenarios based on strategy
      */
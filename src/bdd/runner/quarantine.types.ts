@@ -0,0 +1,82 @@
+// src/bdd/runner/quarantine.types.ts
+
+/**
+ * Flakiness analysis of a single scenario across recorded runs
+ */
+export interface FlakinessScore {
+    /** Stable scenario key (feature + scenario name) */
+    key: string;
+
+    /** Feature name */
+    feature: string;
+
+    /** Scenario name */
+    scenario: string;
+
+    /** Number of analysed (non-skipped) runs */
+    totalRuns: number;
+
+    /** Runs that ended failed */
+    failures: number;
+
+    /** Runs that only passed after one or more retries */
+    passedAfterRetry: number;
+
+    /** Outcome changes between consecutive runs */
+    statusFlips: number;
+
+    /** Share of unstable runs between 0 and 1 */
+    score: number;
+
+    /** Whether the scenario is classified as flaky */
+    flaky: boolean;
+}
+
+/**
+ * Entry in the quarantine list file
+ */
+export interface QuarantineEntry {
+    /** Scenario key (feature + scenario name), or scenario name only for loose matching */
+    key: string;
+
+    /** Scenario name */
+    scenario: string;
+
+    /** Feature file path or name, empty to match the scenario in any feature */
+    feature: string;
+
+    /** Why the scenario was quarantined */
+    reason: string;
+
+    /** When the scenario was quarantined (ISO string) */
+    addedAt: string;
+
+    /** Who quarantined the scenario */
+    addedBy: string;
+
+    /** Flakiness score at the time of quarantine */
+    score?: number;
+}
+
+/**
+ * Quarantine list file structure
+ */
+export interface QuarantineFile {
+    version: number;
+    updatedAt: string;
+    entries: QuarantineEntry[];
+}
+
+/**
+ * Flakiness detection settings
+ */
+export interface FlakinessOptions {
+    /** Number of most recent runs to analyse */
+    window: number;
+
+    /** Minimum analysed runs before a scenario can be classified */
+    minRuns: number;
+
+    /** Score at or above which a scenario is flaky */
+    threshold: number;
+}
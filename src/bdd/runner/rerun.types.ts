@@ -0,0 +1,34 @@
+// src/bdd/runner/rerun.types.ts
+
+/**
+ * Failed scenario location in the rerun manifest
+ */
+export interface RerunEntry {
+    /** Feature file path relative to the working directory */
+    uri: string;
+
+    /** Line of the scenario or scenario outline */
+    line: number;
+
+    /** Scenario name, used when the line moved since the failed run */
+    scenario: string;
+
+    /** Lines of the failed example rows; all rows rerun when absent */
+    examples?: number[];
+}
+
+/**
+ * Rerun manifest written after each run
+ */
+export interface RerunManifest {
+    version: number;
+    generatedAt: string;
+
+    /** Execution the failures come from */
+    executionId?: string;
+
+    /** JSON report of that execution, a rerun is merged into it */
+    report?: string;
+
+    scenarios: RerunEntry[];
+}
@@ -67,4 +67,17 @@ export interface SchedulerExecutionPlan {
         strategy: string;
         parallelGroups: number;
     };
-}
\ No newline at end of file
+}
+/**
+ * Scenarios that are always assigned to the same shard
+ */
+export interface ShardUnit {
+    /** Stable unit ID, identical on every agent */
+    id: string;
+    
+    /** Scenarios in this unit */
+    scenarios: Scenario[];
+    
+    /** Weight used to balance shards */
+    weight: number;
+}
@@ -30,9 +30,12 @@ export interface Feature {
   /** Feature background */
   background?: Scenario;
   
-  /** Feature scenarios */
+  /** Feature scenarios, including the scenarios of its rules */
   scenarios: Scenario[];
   
+  /** Feature rules */
+  rules?: Rule[];
+  
   /** Language of feature file */
   language?: string;
   
@@ -62,6 +65,9 @@ export interface Scenario {
   /** Examples for scenario outline */
   examples?: Examples[];
   
+  /** Rule the scenario belongs to */
+  rule?: Rule;
+  
   /** Line number in feature file */
   line?: number;
   
@@ -78,6 +84,26 @@ export interface Scenario {
   metadata?: ScenarioMetadata;
 }
 
+/**
+ * Rule structure, its scenarios are listed in the feature scenarios
+ */
+export interface Rule {
+  /** Rule name */
+  name: string;
+  
+  /** Rule description */
+  description?: string;
+  
+  /** Rule tags */
+  tags: string[];
+  
+  /** Rule background, runs after the feature background */
+  background?: Scenario;
+  
+  /** Line number in feature file */
+  line?: number;
+}
+
 /**
  * Scenario outline structure
  */
@@ -137,6 +163,9 @@ export interface Examples {
   /** Examples table rows */
   rows: string[][];
   
+  /** Line number of each row in feature file */
+  rowLines?: number[];
+  
   /** Line number in feature file */
   line?: number;
 }
@@ -405,6 +434,29 @@ export interface StepResult {
   
   /** Attachments */
   attachments?: Attachment[];
+  
+  /** Set when the step had no definition and was interpreted by the NLP fallback */
+  aiInterpretation?: StepInterpretation;
+}
+
+/**
+ * Natural language interpretation of a step without a step definition
+ */
+export interface StepInterpretation {
+  /** Interpreted action (click, type, assertVisible, navigate...) */
+  action: string;
+  
+  /** Element description or URL the action targets */
+  target?: string;
+  
+  /** Value typed, selected, asserted or waited */
+  value?: string;
+  
+  /** Intent confidence, multiplied by the element match score once executed */
+  confidence: number;
+  
+  /** Closest framework step pattern for the action */
+  suggestedStep?: string;
 }
 
 /**
@@ -528,6 +580,19 @@ export interface ExecutionPlan {
   
   /** Estimated duration */
   estimatedDuration?: number;
+
+  /** Set when the plan selected one shard of the suite */
+  shard?: ShardFingerprint;
+}
+
+/**
+ * Identifies how a sharded suite was partitioned, equal on every agent of a consistent run
+ */
+export interface ShardFingerprint {
+  /** Hash of the unit IDs assigned to each shard */
+  partition: string;
+  /** Hash of the run history durations that weighted the units, 'none' without history */
+  history: string;
 }
 
 /**
@@ -707,6 +772,15 @@ export interface ScenarioResult {
   /** Combined tags from feature and scenario */
   tags?: string[];
   
+  /** Name of the rule the scenario belongs to */
+  rule?: string;
+  
+  /** OpenTelemetry trace of the run, when traces are exported */
+  traceId?: string;
+  
+  /** Span of the scenario within the trace */
+  spanId?: string;
+  
   /** Attachments */
   attachments?: Attachment[];
   
@@ -903,6 +977,7 @@ export interface StepDefinitionMetadata {
  */
 export type TokenType = 
   | 'FeatureLine'
+  | 'RuleLine'
   | 'BackgroundLine' 
   | 'ScenarioLine'
   | 'ScenarioOutlineLine'
@@ -912,6 +987,7 @@ export type TokenType =
   | 'TableRow'
   | 'TagLine'
   | 'Comment'
+  | 'Other'
   | 'Empty'
   | 'EOF';
 
@@ -920,6 +996,7 @@ export type TokenType =
  */
 export const TokenType = {
   FeatureLine: 'FeatureLine' as TokenType,
+  RuleLine: 'RuleLine' as TokenType,
   BackgroundLine: 'BackgroundLine' as TokenType,
   ScenarioLine: 'ScenarioLine' as TokenType,
   ScenarioOutlineLine: 'ScenarioOutlineLine' as TokenType,
@@ -929,6 +1006,7 @@ export const TokenType = {
   TableRow: 'TableRow' as TokenType,
   TagLine: 'TagLine' as TokenType,
   Comment: 'Comment' as TokenType,
+  Other: 'Other' as TokenType,
   Empty: 'Empty' as TokenType,
   EOF: 'EOF' as TokenType
 } as const;
@@ -951,6 +1029,28 @@ export interface Token {
   
   /** Indentation level */
   indent?: number;
+  
+  /** Keyword as written in the feature file */
+  keyword?: string;
+}
+
+/**
+ * Keywords of a Gherkin language, as in gherkin-languages.json
+ */
+export interface GherkinDialect {
+  name: string;
+  native: string;
+  feature: string[];
+  rule: string[];
+  background: string[];
+  scenario: string[];
+  scenarioOutline: string[];
+  examples: string[];
+  given: string[];
+  when: string[];
+  then: string[];
+  and: string[];
+  but: string[];
 }
 
 /**
@@ -1502,6 +1602,32 @@ export interface CodeSnippet {
   
   /** Pattern type */
   patternType: 'string' | 'regexp';
+  
+  /** Step definition pattern (Cucumber expression or regexp source) */
+  pattern: string;
+  
+  /** Suggested method name */
+  methodName: string;
+  
+  /** Extra step argument */
+  argument?: 'dataTable' | 'docString';
+}
+
+/**
+ * Step without a matching step definition
+ */
+export interface UndefinedStep {
+  /** Step keyword */
+  keyword: string;
+  
+  /** Step text */
+  text: string;
+  
+  /** Feature file path */
+  uri?: string;
+  
+  /** Line number in feature file */
+  line: number;
 }
 
 /**
@@ -0,0 +1,437 @@
+// src/core/accessibility/AccessibilityAuditor.ts
+
+import { Page } from 'playwright';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import { ActionLogger } from '../logging/ActionLogger';
+import { FileUtils } from '../utils/FileUtils';
+import { ConfigurationManager } from '../configuration/ConfigurationManager';
+import { WCAG_RULES, IMPACT_ORDER } from './WCAGRules';
+import { AccessibilityAuditOptions, AccessibilityRule, PageViolation } from './types/accessibility.types';
+import {
+    AccessibilityAudit,
+    AccessibilityImpact,
+    AccessibilityReport,
+    AccessibilityViolation
+} from '../../reporting/types/reporting.types';
+
+/**
+ * WCAG 2.1 A/AA accessibility audits run inside the page
+ *
+ * Rules can be narrowed with ACCESSIBILITY_RULES_INCLUDE and
+ * ACCESSIBILITY_RULES_EXCLUDE, or per audit through the options.
+ */
+export class AccessibilityAuditor {
+    private static instance: AccessibilityAuditor;
+    private logger: Logger;
+    private audits: AccessibilityAudit[] = [];
+
+    private constructor() {
+        this.logger = Logger.getInstance('AccessibilityAuditor');
+    }
+
+    static getInstance(): AccessibilityAuditor {
+        if (!AccessibilityAuditor.instance) {
+            AccessibilityAuditor.instance = new AccessibilityAuditor();
+        }
+        return AccessibilityAuditor.instance;
+    }
+
+    /**
+     * Rules applied for the given options
+     */
+    getRules(options: AccessibilityAuditOptions = {}): AccessibilityRule[] {
+        const include = options.include ?? ConfigurationManager.getArray('ACCESSIBILITY_RULES_INCLUDE');
+        const exclude = [...ConfigurationManager.getArray('ACCESSIBILITY_RULES_EXCLUDE'), ...(options.exclude || [])];
+
+        const unknown = [...include, ...exclude].filter(id => !WCAG_RULES.some(rule => rule.id === id));
+        if (unknown.length > 0) {
+            throw new Error(`Unknown accessibility rules: ${unknown.join(', ')}. Available: ${WCAG_RULES.map(r => r.id).join(', ')}`);
+        }
+
+        return WCAG_RULES.filter(rule =>
+            (include.length === 0 || include.includes(rule.id)) &&
+            !exclude.includes(rule.id) &&
+            !(options.scope && rule.pageLevel)
+        );
+    }
+
+    /**
+     * Audit the page, or the part of it matching options.scope
+     */
+    async audit(page: Page, options: AccessibilityAuditOptions = {}): Promise<AccessibilityAudit> {
+        const rules = this.getRules(options);
+        const found = await page.evaluate(runAccessibilityChecks, {
+            ruleIds: rules.map(rule => rule.id),
+            scope: options.scope || null
+        });
+
+        const violations: AccessibilityViolation[] = found.map(violation => {
+            const rule = rules.find(r => r.id === violation.ruleId)!;
+            return {
+                ...violation,
+                description: rule.description,
+                impact: rule.impact,
+                wcag: rule.wcag,
+                level: rule.level
+            };
+        });
+
+        if (options.screenshots ?? ConfigurationManager.getBoolean('ACCESSIBILITY_SCREENSHOTS', true)) {
+            await this.captureElements(page, violations);
+        }
+
+        const audit: AccessibilityAudit = {
+            url: page.url(),
+            title: await page.title(),
+            timestamp: new Date(),
+            rules: rules.map(rule => rule.id),
+            violations
+        };
+        if (options.scenarioId) {
+            audit.scenarioId = options.scenarioId;
+        }
+        if (options.scope) {
+            audit.scope = options.scope;
+        }
+
+        this.audits.push(audit);
+
+        ActionLogger.logInfo('Accessibility audit completed', {
+            url: audit.url,
+            rules: audit.rules.length,
+            violations: violations.length
+        });
+
+        return audit;
+    }
+
+    /**
+     * Violations with the given impact or a more severe one
+     */
+    filterByImpact(violations: AccessibilityViolation[], minImpact: AccessibilityImpact): AccessibilityViolation[] {
+        const threshold = IMPACT_ORDER.indexOf(minImpact);
+        if (threshold < 0) {
+            throw new Error(`Unknown accessibility impact "${minImpact}". Expected one of: ${IMPACT_ORDER.join(', ')}`);
+        }
+        return violations.filter(violation => IMPACT_ORDER.indexOf(violation.impact) >= threshold);
+    }
+
+    getAudits(): AccessibilityAudit[] {
+        return [...this.audits];
+    }
+
+    clearAudits(): void {
+        this.audits = [];
+    }
+
+    /**
+     * Audits of the run for the report, undefined when nothing was audited
+     */
+    getReport(): AccessibilityReport | undefined {
+        if (this.audits.length === 0) {
+            return undefined;
+        }
+
+        const violationsByImpact: Record<AccessibilityImpact, number> = { minor: 0, moderate: 0, serious: 0, critical: 0 };
+        for (const violation of this.audits.flatMap(audit => audit.violations)) {
+            violationsByImpact[violation.impact]++;
+        }
+
+        return {
+            audits: this.getAudits(),
+            totalViolations: Object.values(violationsByImpact).reduce((sum, count) => sum + count, 0),
+            violationsByImpact
+        };
+    }
+
+    private async captureElements(page: Page, violations: AccessibilityViolation[]): Promise<void> {
+        const outputDir = path.resolve(ConfigurationManager.get('ACCESSIBILITY_SCREENSHOT_DIR', './reports/accessibility'));
+        const limit = ConfigurationManager.getInt('ACCESSIBILITY_MAX_SCREENSHOTS', 20);
+
+        for (const violation of violations.filter(v => v.selector !== 'html').slice(0, limit)) {
+            try {
+                const image = await page.locator(violation.selector).first().screenshot({ timeout: 2000, animations: 'disabled' });
+                const screenshotPath = path.join(outputDir, `${violation.ruleId}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}.png`);
+                await FileUtils.writeFile(screenshotPath, image);
+                violation.screenshot = screenshotPath;
+            } catch (error) {
+                // Elements without a box (hidden, zero size) have no screenshot
+                this.logger.debug(`No screenshot for ${violation.selector}: ${(error as Error).message}`);
+            }
+        }
+    }
+}
+
+/**
+ * Rule checks, serialized into the page by page.evaluate like the DOMAnalyzer
+ * scripts, so everything it uses must be defined inside the function
+ */
+function runAccessibilityChecks({ ruleIds, scope }: { ruleIds: string[]; scope: string | null }): PageViolation[] {
+    const violations: PageViolation[] = [];
+    const root: ParentNode = scope ? document.querySelector(scope) || document.createElement('div') : document;
+    const all = (selector: string): Element[] => Array.from(root.querySelectorAll(selector));
+
+    const selectorFor = (element: Element): string => {
+        if (element.id && document.querySelectorAll(`#${CSS.escape(element.id)}`).length === 1) {
+            return `#${CSS.escape(element.id)}`;
+        }
+        const parts: string[] = [];
+        let current: Element | null = element;
+        while (current && current !== document.documentElement) {
+            const parent: Element | null = current.parentElement;
+            const tag = current.tagName.toLowerCase();
+            const siblings = parent ? Array.from(parent.children).filter(child => child.tagName === current!.tagName) : [];
+            parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(current) + 1})` : tag);
+            current = parent;
+        }
+        return parts.length > 0 ? parts.join(' > ') : 'html';
+    };
+
+    const report = (ruleId: string, element: Element, message: string): void => {
+        const html = element.outerHTML;
+        violations.push({
+            ruleId,
+            selector: selectorFor(element),
+            html: html.length > 250 ? `${html.substring(0, 250)}...` : html,
+            message
+        });
+    };
+
+    const isVisible = (element: Element): boolean => {
+        const style = window.getComputedStyle(element);
+        const rect = element.getBoundingClientRect();
+        return style.display !== 'none' && style.visibility !== 'hidden' && rect.width > 0 && rect.height > 0;
+    };
+
+    const textOf = (id: string): string => document.getElementById(id)?.textContent?.trim() || '';
+
+    const accessibleName = (element: Element): string => {
+        const labelledBy = element.getAttribute('aria-labelledby');
+        if (labelledBy) {
+            const name = labelledBy.split(/\s+/).map(textOf).join(' ').trim();
+            if (name) return name;
+        }
+        const ariaLabel = element.getAttribute('aria-label')?.trim();
+        if (ariaLabel) return ariaLabel;
+        if (element instanceof HTMLInputElement || element instanceof HTMLSelectElement || element instanceof HTMLTextAreaElement) {
+            const label = Array.from(element.labels || []).map(l => l.textContent?.trim() || '').join(' ').trim();
+            if (label) return label;
+            if (element instanceof HTMLInputElement && ['submit', 'reset', 'button'].includes(element.type)) {
+                return element.value || (element.type === 'submit' ? 'Submit' : element.type === 'reset' ? 'Reset' : '');
+            }
+            if (element instanceof HTMLInputElement && element.type === 'image') {
+                return element.alt?.trim() || '';
+            }
+        }
+        const imageNames = Array.from(element.querySelectorAll('img[alt]')).map(img => img.getAttribute('alt')!.trim());
+        const text = [(element as HTMLElement).innerText?.trim() || element.textContent?.trim() || '', ...imageNames].join(' ').trim();
+        return text || element.getAttribute('title')?.trim() || '';
+    };
+
+    const parseColor = (value: string): [number, number, number, number] | null => {
+        const match = value.match(/rgba?\(([^)]+)\)/);
+        if (!match) return null;
+        const parts = match[1]!.split(/[\s,/]+/).filter(Boolean).map(parseFloat);
+        return [parts[0] ?? 0, parts[1] ?? 0, parts[2] ?? 0, parts[3] ?? 1];
+    };
+
+    const luminance = ([r, g, b]: number[]): number => {
+        const channel = (c: number): number => {
+            const s = c / 255;
+            return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+        };
+        return 0.2126 * channel(r!) + 0.7152 * channel(g!) + 0.0722 * channel(b!);
+    };
+
+    // Background behind an element, null when an image makes it unknown
+    const backgroundOf = (element: Element): number[] | null => {
+        let current: Element | null = element;
+        let color = [255, 255, 255];
+        const layers: Array<[number, number, number, number]> = [];
+        while (current) {
+            const style = window.getComputedStyle(current);
+            if (style.backgroundImage && style.backgroundImage !== 'none') return null;
+            const background = parseColor(style.backgroundColor);
+            if (background && background[3] > 0) {
+                layers.unshift(background);
+                if (background[3] >= 1) break;
+            }
+            current = current.parentElement;
+        }
+        for (const [r, g, b, a] of layers) {
+            color = [r * a + color[0]! * (1 - a), g * a + color[1]! * (1 - a), b * a + color[2]! * (1 - a)];
+        }
+        return color;
+    };
+
+    const validRoles = new Set([
+        'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption', 'cell',
+        'checkbox', 'code', 'columnheader', 'combobox', 'complementary', 'contentinfo', 'definition', 'deletion',
+        'dialog', 'directory', 'document', 'emphasis', 'feed', 'figure', 'form', 'generic', 'grid', 'gridcell',
+        'group', 'heading', 'img', 'insertion', 'link', 'list', 'listbox', 'listitem', 'log', 'main', 'marquee',
+        'math', 'menu', 'menubar', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'meter', 'navigation', 'none',
+        'note', 'option', 'paragraph', 'presentation', 'progressbar', 'radio', 'radiogroup', 'region', 'row',
+        'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox', 'separator', 'slider', 'spinbutton', 'status',
+        'strong', 'subscript', 'superscript', 'switch', 'tab', 'table', 'tablist', 'tabpanel', 'term', 'textbox',
+        'time', 'timer', 'toolbar', 'tooltip', 'tree', 'treegrid', 'treeitem'
+    ]);
+
+    const requiredAttributes: Record<string, string[]> = {
+        checkbox: ['aria-checked'],
+        combobox: ['aria-expanded'],
+        heading: ['aria-level'],
+        menuitemcheckbox: ['aria-checked'],
+        menuitemradio: ['aria-checked'],
+        meter: ['aria-valuenow'],
+        radio: ['aria-checked'],
+        scrollbar: ['aria-controls', 'aria-valuenow'],
+        slider: ['aria-valuenow'],
+        switch: ['aria-checked']
+    };
+
+    const focusableSelector = 'a[href], button:not([disabled]), input:not([disabled]):not([type="hidden"]), ' +
+        'select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"]), [contenteditable="true"]';
+
+    const landmarkSelector = 'main, [role="main"], header, [role="banner"], footer, [role="contentinfo"], ' +
+        'nav, [role="navigation"], aside, [role="complementary"], [role="region"][aria-label], ' +
+        '[role="region"][aria-labelledby], section[aria-label], section[aria-labelledby], form[aria-label], [role="search"]';
+
+    const checks: Record<string, () => void> = {
+        'color-contrast': () => {
+            for (const element of all(scope ? '*' : 'body *')) {
+                const hasText = Array.from(element.childNodes).some(node =>
+                    node.nodeType === Node.TEXT_NODE && (node.textContent || '').trim().length > 0
+                );
+                if (!hasText || !isVisible(element)) continue;
+
+                const style = window.getComputedStyle(element);
+                const foreground = parseColor(style.color);
+                const background = backgroundOf(element);
+                if (!foreground || !background || foreground[3] === 0) continue;
+
+                const l1 = luminance(foreground.slice(0, 3));
+                const l2 = luminance(background);
+                const ratio = (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+                const fontSize = parseFloat(style.fontSize);
+                const bold = parseInt(style.fontWeight, 10) >= 700;
+                const large = fontSize >= 24 || (bold && fontSize >= 18.66);
+                const required = large ? 3 : 4.5;
+
+                if (ratio < required) {
+                    report('color-contrast', element, `Contrast ratio ${ratio.toFixed(2)}:1 is below ${required}:1`);
+                }
+            }
+        },
+        'image-alt': () => {
+            for (const element of all('img, [role="img"], input[type="image"]')) {
+                const role = element.getAttribute('role');
+                if (role === 'presentation' || role === 'none' || element.getAttribute('aria-hidden') === 'true') continue;
+                const labelledBy = (element.getAttribute('aria-labelledby') || '').split(/\s+/).map(textOf).join(' ').trim();
+                if (element.getAttribute('aria-label')?.trim() || labelledBy || element.getAttribute('title')?.trim()) continue;
+                const missing = element.tagName === 'IMG' ? !element.hasAttribute('alt') : !element.getAttribute('alt')?.trim();
+                if (missing) {
+                    report('image-alt', element, 'Image has no alternative text');
+                }
+            }
+        },
+        'label': () => {
+            for (const element of all('input, select, textarea')) {
+                const type = element.getAttribute('type')?.toLowerCase();
+                if (type && ['hidden', 'submit', 'reset', 'button', 'image'].includes(type)) continue;
+                if (!isVisible(element)) continue;
+                const hasLabel = accessibleName(element) ||
+                    element.getAttribute('title')?.trim() ||
+                    (element.getAttribute('placeholder')?.trim() && element.getAttribute('aria-describedby'));
+                if (!hasLabel) {
+                    report('label', element, 'Form field has no label');
+                }
+            }
+        },
+        'button-name': () => {
+            for (const element of all('button, [role="button"], input[type="submit"], input[type="reset"], input[type="button"]')) {
+                if (!isVisible(element)) continue;
+                if (!accessibleName(element)) {
+                    report('button-name', element, 'Button has no discernible text');
+                }
+            }
+        },
+        'link-name': () => {
+            for (const element of all('a[href], [role="link"]')) {
+                if (!isVisible(element)) continue;
+                if (!accessibleName(element)) {
+                    report('link-name', element, 'Link has no discernible text');
+                }
+            }
+        },
+        'aria-roles': () => {
+            for (const element of all('[role]')) {
+                const roles = (element.getAttribute('role') || '').trim().split(/\s+/).filter(Boolean);
+                if (roles.length === 0 || !roles.some(role => validRoles.has(role))) {
+                    report('aria-roles', element, `Invalid role "${element.getAttribute('role')}"`);
+                }
+            }
+        },
+        'aria-required-attr': () => {
+            for (const element of all('[role]')) {
+                const role = (element.getAttribute('role') || '').trim().split(/\s+/)[0] || '';
+                const required = requiredAttributes[role] || [];
+                const native = role === 'checkbox' && element instanceof HTMLInputElement && element.type === 'checkbox' ||
+                    role === 'heading' && /^H[1-6]$/.test(element.tagName);
+                const missing = native ? [] : required.filter(attribute => !element.hasAttribute(attribute));
+                if (missing.length > 0) {
+                    report('aria-required-attr', element, `Role "${role}" requires ${missing.join(', ')}`);
+                }
+            }
+        },
+        'aria-hidden-focus': () => {
+            for (const hidden of all('[aria-hidden="true"]')) {
+                const focusable = [hidden, ...Array.from(hidden.querySelectorAll(focusableSelector))]
+                    .filter(element => element.matches(focusableSelector));
+                for (const element of focusable) {
+                    report('aria-hidden-focus', element, 'Focusable element is hidden from assistive technology');
+                }
+            }
+        },
+        'landmark-one-main': () => {
+            const mains = Array.from(document.querySelectorAll('main, [role="main"]'));
+            if (mains.length !== 1) {
+                report('landmark-one-main', mains[1] || document.documentElement,
+                    mains.length === 0 ? 'Page has no main landmark' : `Page has ${mains.length} main landmarks`);
+            }
+        },
+        'region': () => {
+            for (const element of Array.from(document.body?.children || [])) {
+                if (['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE'].includes(element.tagName)) continue;
+                if (!isVisible(element) || !(element.textContent || '').trim()) continue;
+                if (!element.matches(landmarkSelector) && !element.querySelector(landmarkSelector) && !element.closest(landmarkSelector)) {
+                    report('region', element, 'Content is not contained in a landmark');
+                }
+            }
+        },
+        'tabindex': () => {
+            for (const element of all('[tabindex]')) {
+                const value = parseInt(element.getAttribute('tabindex') || '0', 10);
+                if (value > 0) {
+                    report('tabindex', element, `tabindex="${value}" changes the natural focus order`);
+                }
+            }
+        },
+        'html-lang': () => {
+            if (!document.documentElement.getAttribute('lang')?.trim()) {
+                report('html-lang', document.documentElement, 'The html element has no lang attribute');
+            }
+        },
+        'document-title': () => {
+            if (!document.title.trim()) {
+                report('document-title', document.documentElement, 'The document has no title');
+            }
+        }
+    };
+
+    for (const ruleId of ruleIds) {
+        checks[ruleId]?.();
+    }
+
+    return violations;
+}
@@ -0,0 +1,109 @@
+// src/core/accessibility/WCAGRules.ts
+
+import { AccessibilityRule } from './types/accessibility.types';
+
+/**
+ * WCAG 2.1 level A and AA rules checked in the page
+ */
+export const WCAG_RULES: AccessibilityRule[] = [
+    {
+        id: 'color-contrast',
+        description: 'Text must have a contrast ratio of at least 4.5:1, or 3:1 for large text',
+        impact: 'serious',
+        wcag: ['1.4.3'],
+        level: 'AA'
+    },
+    {
+        id: 'image-alt',
+        description: 'Images must have alternative text',
+        impact: 'critical',
+        wcag: ['1.1.1'],
+        level: 'A'
+    },
+    {
+        id: 'label',
+        description: 'Form fields must have a label',
+        impact: 'critical',
+        wcag: ['1.3.1', '4.1.2'],
+        level: 'A'
+    },
+    {
+        id: 'button-name',
+        description: 'Buttons must have discernible text',
+        impact: 'critical',
+        wcag: ['4.1.2'],
+        level: 'A'
+    },
+    {
+        id: 'link-name',
+        description: 'Links must have discernible text',
+        impact: 'serious',
+        wcag: ['2.4.4', '4.1.2'],
+        level: 'A'
+    },
+    {
+        id: 'aria-roles',
+        description: 'ARIA role attributes must use valid roles',
+        impact: 'critical',
+        wcag: ['4.1.2'],
+        level: 'A'
+    },
+    {
+        id: 'aria-required-attr',
+        description: 'Elements with an ARIA role must have the attributes the role requires',
+        impact: 'critical',
+        wcag: ['4.1.2'],
+        level: 'A'
+    },
+    {
+        id: 'aria-hidden-focus',
+        description: 'Elements hidden with aria-hidden must not be focusable',
+        impact: 'serious',
+        wcag: ['4.1.2'],
+        level: 'A'
+    },
+    {
+        id: 'landmark-one-main',
+        description: 'The page must have exactly one main landmark',
+        impact: 'moderate',
+        wcag: ['1.3.1', '2.4.1'],
+        level: 'A',
+        pageLevel: true
+    },
+    {
+        id: 'region',
+        description: 'Page content must be contained in landmarks',
+        impact: 'moderate',
+        wcag: ['1.3.1'],
+        level: 'A',
+        pageLevel: true
+    },
+    {
+        id: 'tabindex',
+        description: 'Elements must not use a positive tabindex that overrides the focus order',
+        impact: 'serious',
+        wcag: ['2.4.3'],
+        level: 'A'
+    },
+    {
+        id: 'html-lang',
+        description: 'The html element must have a lang attribute',
+        impact: 'serious',
+        wcag: ['3.1.1'],
+        level: 'A',
+        pageLevel: true
+    },
+    {
+        id: 'document-title',
+        description: 'The document must have a title',
+        impact: 'serious',
+        wcag: ['2.4.2'],
+        level: 'A',
+        pageLevel: true
+    }
+];
+
+/**
+ * Impacts ordered from least to most severe
+ */
+export const IMPACT_ORDER = ['minor', 'moderate', 'serious', 'critical'] as const;
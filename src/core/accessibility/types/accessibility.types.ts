@@ -0,0 +1,38 @@
+// src/core/accessibility/types/accessibility.types.ts
+
+import { AccessibilityImpact } from '../../../reporting/types/reporting.types';
+
+/**
+ * WCAG rule checked by the accessibility auditor
+ */
+export interface AccessibilityRule {
+    id: string;
+    description: string;
+    impact: AccessibilityImpact;
+    wcag: string[];
+    level: 'A' | 'AA';
+    /** Rule checks the whole document and is skipped for scoped audits */
+    pageLevel?: boolean;
+}
+
+export interface AccessibilityAuditOptions {
+    /** Only run these rules */
+    include?: string[];
+    /** Skip these rules */
+    exclude?: string[];
+    /** Limit element checks to this selector */
+    scope?: string;
+    /** Capture a screenshot of each violating element */
+    screenshots?: boolean;
+    scenarioId?: string;
+}
+
+/**
+ * Violation as found in the page, before rule metadata is attached
+ */
+export interface PageViolation {
+    ruleId: string;
+    selector: string;
+    html: string;
+    message: string;
+}
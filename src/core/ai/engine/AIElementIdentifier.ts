@@ -65,6 +65,18 @@ export class AIElementIdentifier {
     page: Page,
     context?: CSWebElement
   ): Promise<Locator> {
+    const { locator } = await this.identifyWithConfidence(description, page, context);
+    return locator;
+  }
+
+  /**
+   * Identify element by natural language description, with the score of the match
+   */
+  async identifyWithConfidence(
+    description: string,
+    page: Page,
+    context?: CSWebElement
+  ): Promise<{ locator: Locator; confidence: number }> {
     const startTime = Date.now();
     const cacheKey = this.generateCacheKey(description, page.url());
     
@@ -82,7 +94,7 @@ export class AIElementIdentifier {
           description,
           confidence: cached.confidence
         });
-        return cached.locator;
+        return { locator: cached.locator, confidence: cached.confidence };
       }
 
       // Process natural language description
@@ -141,7 +153,7 @@ export class AIElementIdentifier {
         duration: Date.now() - startTime
       });
 
-      return locator;
+      return { locator, confidence: bestMatch.score };
 
     } catch (error) {
       ActionLogger.logInfo('AI Operation: identification_failed', {
@@ -117,9 +117,11 @@ export class DOMAnalyzer {
             depth,
             path: getElementPath(element),
             xpath: getXPath(element),
-            children: depth < 3 ? Array.from(element.children).map(child => 
-              getElementInfo(child, depth + 1)
-            ) : []
+            shadowRoot: !!element.shadowRoot,
+            children: depth < 3 ? [
+              ...Array.from(element.children),
+              ...(element.shadowRoot ? Array.from(element.shadowRoot.children) : [])
+            ].map(child => getElementInfo(child, depth + 1)) : []
           };
 
           return info;
@@ -162,7 +164,9 @@ export class DOMAnalyzer {
             }
             
             path.unshift(selector);
-            current = current.parentElement;
+            // Step out of shadow roots onto their host
+            current = current.parentElement ||
+              (current.parentNode instanceof ShadowRoot ? current.parentNode.host : null);
           }
           
           return path;
@@ -233,9 +237,18 @@ export class DOMAnalyzer {
             }))
           }));
 
-        // Calculate metrics
-        const allElements = document.querySelectorAll('*');
-        const visibleElements = Array.from(allElements).filter(el => {
+        // Calculate metrics, including elements rendered inside open shadow roots
+        const collectAll = (root: Document | ShadowRoot, into: Element[]): Element[] => {
+          root.querySelectorAll('*').forEach(el => {
+            into.push(el);
+            if (el.shadowRoot) {
+              collectAll(el.shadowRoot, into);
+            }
+          });
+          return into;
+        };
+        const allElements = collectAll(document, []);
+        const visibleElements = allElements.filter(el => {
           const rect = el.getBoundingClientRect();
           const styles = window.getComputedStyle(el as Element);
           return rect.width > 0 && rect.height > 0 && 
@@ -251,7 +264,8 @@ export class DOMAnalyzer {
           images: document.images.length,
           links: document.links.length,
           maxDepth: this.calculateMaxDepth(document.body),
-          averageDepth: this.calculateAverageDepth(document.body)
+          averageDepth: this.calculateAverageDepth(document.body),
+          shadowRoots: allElements.filter(el => el.shadowRoot).length
         };
 
         return {
@@ -293,9 +307,26 @@ export class DOMAnalyzer {
     try {
       const candidates = await page.evaluate(
         ({ selector, keywords }) => {
-          const elements = Array.from(document.querySelectorAll(selector));
+          // Query the document and every open shadow root, remembering the host chain
+          const queryAllDeep = (
+            root: Document | ShadowRoot,
+            hosts: string[],
+            found: Array<{ element: Element; hosts: string[] }>
+          ): Array<{ element: Element; hosts: string[] }> => {
+            root.querySelectorAll(selector).forEach(element => found.push({ element, hosts }));
+            root.querySelectorAll('*').forEach(host => {
+              if (host.shadowRoot) {
+                const hostSelector = host.id ?
+                  `${host.tagName.toLowerCase()}#${host.id}` :
+                  host.tagName.toLowerCase();
+                queryAllDeep(host.shadowRoot, [...hosts, hostSelector], found);
+              }
+            });
+            return found;
+          };
+          const elements = queryAllDeep(document, [], []);
           
-          return elements.map(element => {
+          return elements.map(({ element, hosts }) => {
             const rect = element.getBoundingClientRect();
             const styles = window.getComputedStyle(element);
             
@@ -333,6 +364,9 @@ export class DOMAnalyzer {
             } else {
               selector = element.tagName.toLowerCase();
             }
+            if (hosts.length > 0) {
+              selector = [...hosts, selector].join(' >> ');
+            }
 
             const attributes: Record<string, string> = {};
             Array.from(element.attributes).forEach(attr => {
@@ -357,6 +391,7 @@ export class DOMAnalyzer {
               isInteractive: this.isInteractiveTag(element.tagName.toLowerCase()),
               relevance,
               allText,
+              shadowHostPath: hosts,
               page: null // Will be set below
             };
           })
@@ -406,7 +441,19 @@ export class DOMAnalyzer {
     try {
       const candidates = await context.evaluate(
         (contextEl: Element, selector: string) => {
-          const elements = Array.from(contextEl.querySelectorAll(selector));
+          const queryAllDeep = (root: Element | ShadowRoot, found: Element[]): Element[] => {
+            found.push(...Array.from(root.querySelectorAll(selector)));
+            root.querySelectorAll('*').forEach(host => {
+              if (host.shadowRoot) {
+                queryAllDeep(host.shadowRoot, found);
+              }
+            });
+            return found;
+          };
+          const elements = queryAllDeep(
+            contextEl,
+            contextEl.shadowRoot ? queryAllDeep(contextEl.shadowRoot, []) : []
+          );
           
           // Define isInteractiveElement locally
           const isInteractiveElement = (element: Element): boolean => {
@@ -517,8 +564,8 @@ export class DOMAnalyzer {
         }
         
         // Add index if there are siblings with same selector
-        const parent = current.parentElement;
-        if (parent) {
+        const parent = current.parentNode as Element | ShadowRoot | null;
+        if (parent && parent.nodeType !== Node.DOCUMENT_NODE) {
           const siblings = Array.from(parent.children).filter(child =>
             child.tagName === current!.tagName
           );
@@ -529,7 +576,8 @@ export class DOMAnalyzer {
         }
         
         path.unshift(selector);
-        current = current.parentElement;
+        current = current.parentElement ||
+          (current.parentNode instanceof ShadowRoot ? current.parentNode.host : null);
       }
       
       return path;
@@ -538,10 +586,24 @@ export class DOMAnalyzer {
 
   async getElementContext(element: ElementHandle<Node>): Promise<ElementContext> {
     return element.evaluate(el => {
-      const parent = el.parentElement;
-      const siblings = parent ? Array.from(parent.children) : [];
+      // Inside a shadow root the siblings live on the root and the host acts as parent
+      const root = el.parentNode;
+      const parent = el.parentElement || (root instanceof ShadowRoot ? root.host : null);
+      const siblings = parent && root ? Array.from((root as Element | ShadowRoot).children) : [];
       const index = siblings.indexOf(el as Element);
       
+      // closest() stops at the shadow boundary, so continue the search from each host
+      const closestComposed = (start: Element, selector: string): Element | null => {
+        let current: Element | null = start;
+        while (current) {
+          const match = current.closest(selector);
+          if (match) return match;
+          const currentRoot = current.getRootNode();
+          current = currentRoot instanceof ShadowRoot ? currentRoot.host : null;
+        }
+        return null;
+      };
+      
       // Get surrounding text
       const previousText = index > 0 ? 
         (siblings[index - 1] as Element)?.textContent?.trim() || '' : '';
@@ -553,7 +615,7 @@ export class DOMAnalyzer {
       const parentTag = parent?.tagName.toLowerCase() || '';
       
       // Get form context if in a form
-      const form = (el as Element).closest('form');
+      const form = closestComposed(el as Element, 'form');
       const formContext = form ? {
         id: form.id,
         name: (form as HTMLFormElement).name,
@@ -561,14 +623,14 @@ export class DOMAnalyzer {
       } : null;
       
       // Get table context if in a table
-      const table = (el as Element).closest('table');
+      const table = closestComposed(el as Element, 'table');
       const tableContext = table ? {
         id: table.id,
         className: table.className
       } : null;
       
       // Get section context
-      const section = (el as Element).closest('section, article, main, aside, nav, header, footer');
+      const section = closestComposed(el as Element, 'section, article, main, aside, nav, header, footer');
       const sectionContext = section ? {
         tag: section.tagName.toLowerCase(),
         id: section.id,
@@ -219,8 +219,23 @@ export class ElementFeatureExtractor {
       const path = this.getElementPath(el as Element);
       const depth = path.length;
       
-      // Check form relationship
-      const form = (el as Element).closest('form');
+      // Collect the shadow hosts the element is rendered under, outermost first
+      const shadowHostPath: string[] = [];
+      let rootNode = (el as Element).getRootNode();
+      while (rootNode instanceof ShadowRoot) {
+        const host = rootNode.host;
+        shadowHostPath.unshift(host.id ? `${host.tagName.toLowerCase()}#${host.id}` : host.tagName.toLowerCase());
+        rootNode = host.getRootNode();
+      }
+      
+      // Check form relationship, continuing past shadow boundaries
+      let form: Element | null = null;
+      let scope: Element | null = el as Element;
+      while (scope && !form) {
+        form = scope.closest('form');
+        const scopeRoot = scope.getRootNode();
+        scope = scopeRoot instanceof ShadowRoot ? scopeRoot.host : null;
+      }
       const formElement = !!(form && (
         (el as Element).tagName === 'INPUT' ||
         (el as Element).tagName === 'SELECT' ||
@@ -228,9 +243,9 @@ export class ElementFeatureExtractor {
         (el as Element).tagName === 'BUTTON'
       ));
       
-      // Get sibling information
-      const parent = el.parentElement;
-      const siblings = parent ? Array.from(parent.children) : [];
+      // Get sibling information, a shadow root holds the siblings of its top level children
+      const parent = el.parentNode as Element | ShadowRoot | null;
+      const siblings = parent && parent.nodeType !== Node.DOCUMENT_NODE ? Array.from(parent.children) : [];
       const siblingIndex = siblings.indexOf(el as Element);
       
       return {
@@ -255,7 +270,9 @@ export class ElementFeatureExtractor {
         siblingCount: siblings.length,
         siblingIndex,
         isFirstChild: siblingIndex === 0,
-        isLastChild: siblingIndex === siblings.length - 1
+        isLastChild: siblingIndex === siblings.length - 1,
+        inShadowRoot: shadowHostPath.length > 0,
+        shadowHostPath
       };
     });
   }
@@ -341,14 +358,16 @@ export class ElementFeatureExtractor {
 
   private async extractContextFeatures(element: ElementHandle): Promise<ContextFeatures> {
     return element.evaluate(el => {
-      const parent = el.parentElement;
+      // Top level children of a shadow root are described relative to their host
+      const shadowRoot = el.parentNode instanceof ShadowRoot ? el.parentNode : null;
+      const parent = el.parentElement || shadowRoot?.host || null;
       
       // Get parent context
       const parentTag = parent?.tagName.toLowerCase() || '';
       const parentText = parent?.textContent?.trim().substring(0, 100) || '';
       
       // Get sibling texts
-      const siblings = parent ? Array.from(parent.children) : [];
+      const siblings = shadowRoot ? Array.from(shadowRoot.children) : parent ? Array.from(parent.children) : [];
       const siblingTexts = siblings
         .filter(sibling => sibling !== el)
         .map(sibling => sibling.textContent?.trim().substring(0, 50))
@@ -363,13 +382,16 @@ export class ElementFeatureExtractor {
           nearbyHeading = heading.textContent?.trim() || '';
           break;
         }
-        currentEl = currentEl.parentElement;
+        const currentRoot: Node = currentEl.getRootNode();
+        currentEl = currentEl.parentElement ||
+          (currentEl.parentNode === currentRoot && currentRoot instanceof ShadowRoot ? currentRoot.host : null);
       }
       
-      // Get label text
+      // Get label text, ids only resolve within the element's own tree scope
       let labelText = '';
       if ((el as Element).id) {
-        const label = document.querySelector(`label[for="${(el as Element).id}"]`);
+        const scopeRoot = (el as Element).getRootNode() as Document | ShadowRoot;
+        const label = scopeRoot.querySelector(`label[for="${(el as Element).id}"]`);
         labelText = label?.textContent?.trim() || '';
       }
       if (!labelText) {
@@ -377,8 +399,14 @@ export class ElementFeatureExtractor {
         labelText = parentLabel?.textContent?.trim() || '';
       }
       
-      // Get form context
-      const form = (el as Element).closest('form');
+      // Get form context, continuing past shadow boundaries
+      let form: Element | null = null;
+      let scope: Element | null = el as Element;
+      while (scope && !form) {
+        form = scope.closest('form');
+        const scopeRoot = scope.getRootNode();
+        scope = scopeRoot instanceof ShadowRoot ? scopeRoot.host : null;
+      }
       const formId = form?.id || '';
       
       // Get table headers if in table
@@ -559,7 +587,8 @@ export class ElementFeatureExtractor {
       }
       
       path.unshift(selector);
-      current = current.parentElement;
+      current = current.parentElement ||
+        (current.parentNode instanceof ShadowRoot ? current.parentNode.host : null);
     }
     
     return path;
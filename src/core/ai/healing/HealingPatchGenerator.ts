@@ -0,0 +1,578 @@
+// src/core/ai/healing/HealingPatchGenerator.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../../utils/Logger';
+import { ActionLogger } from '../../logging/ActionLogger';
+import { FileUtils } from '../../utils/FileUtils';
+import { ConfigurationManager } from '../../configuration/ConfigurationManager';
+import { ElementMetadata } from '../../elements/decorators/ElementMetadata';
+import { CSWebElement } from '../../elements/CSWebElement';
+import {
+    HealingPatchProposal,
+    HealingPatchResult,
+    HealingPatchSet,
+    HealingWriteBackMode
+} from '../types/ai.types';
+
+/**
+ * Turns healed locators back into page object source changes
+ *
+ * Healed elements are mapped to their @CSGetElement declaration through
+ * ElementMetadata. The healed selector becomes the locatorValue and the
+ * original locator is kept as the first fallback. Changes are emitted as a
+ * unified diff, or written in place when AI_HEALING_WRITE_BACK=apply and the
+ * healing confidence reaches AI_HEALING_WRITE_BACK_CONFIDENCE.
+ */
+class HealingPatchGenerator {
+    private static instance: HealingPatchGenerator;
+    private proposals: Map<string, HealingPatchProposal> = new Map();
+    private classFiles: Map<string, string | undefined> = new Map();
+    private readonly reportPath: string;
+    private readonly contextLines = 3;
+
+    private constructor() {
+        this.reportPath = path.join(process.cwd(), 'reports', 'healing');
+    }
+
+    static getInstance(): HealingPatchGenerator {
+        if (!HealingPatchGenerator.instance) {
+            HealingPatchGenerator.instance = new HealingPatchGenerator();
+        }
+        return HealingPatchGenerator.instance;
+    }
+
+    getMode(): HealingWriteBackMode {
+        const mode = ConfigurationManager.get('AI_HEALING_WRITE_BACK', 'diff').toLowerCase();
+        return mode === 'apply' || mode === 'off' ? mode : 'diff';
+    }
+
+    getConfidenceThreshold(): number {
+        return ConfigurationManager.getFloat('AI_HEALING_WRITE_BACK_CONFIDENCE', 0.9);
+    }
+
+    /**
+     * Record a healed element, called before the element's options are updated
+     */
+    recordHealing(element: CSWebElement, healedSelector: string, strategy: string, confidence: number): void {
+        if (this.getMode() === 'off') {
+            return;
+        }
+
+        const declaration = ElementMetadata.findDeclaration(element.options) ||
+            ElementMetadata.findElementsByLocator(element.options.locatorType, element.options.locatorValue)[0];
+
+        if (!declaration) {
+            logger.debug(`No page object declaration found for healed element: ${element.description}`);
+            return;
+        }
+
+        const healed = this.toLocator(healedSelector);
+        const key = `${declaration.className}.${declaration.propertyName}`;
+        const existing = this.proposals.get(key);
+        const now = new Date();
+
+        if (existing) {
+            existing.occurrences++;
+            existing.lastHealed = now;
+            if (confidence >= existing.confidence) {
+                existing.healedLocatorType = healed.locatorType;
+                existing.healedLocatorValue = healed.locatorValue;
+                existing.strategy = strategy;
+                existing.confidence = confidence;
+            }
+            return;
+        }
+
+        const proposal: HealingPatchProposal = {
+            className: declaration.className,
+            propertyName: declaration.propertyName,
+            description: element.description,
+            originalLocatorType: element.options.locatorType,
+            originalLocatorValue: element.options.locatorValue,
+            healedLocatorType: healed.locatorType,
+            healedLocatorValue: healed.locatorValue,
+            strategy,
+            confidence,
+            occurrences: 1,
+            firstHealed: now,
+            lastHealed: now
+        };
+
+        const sourceFile = ElementMetadata.getSourceFile(declaration.className);
+        if (sourceFile) {
+            proposal.sourceFile = sourceFile;
+        }
+
+        this.proposals.set(key, proposal);
+
+        ActionLogger.logInfo('Healing patch proposed', {
+            element: key,
+            from: `${proposal.originalLocatorType}=${proposal.originalLocatorValue}`,
+            to: `${proposal.healedLocatorType}=${proposal.healedLocatorValue}`,
+            confidence,
+            type: 'ai_operation'
+        });
+    }
+
+    getProposals(): HealingPatchProposal[] {
+        return Array.from(this.proposals.values())
+            .sort((a, b) => b.confidence - a.confidence);
+    }
+
+    clear(): void {
+        this.proposals.clear();
+        this.classFiles.clear();
+    }
+
+    /**
+     * Build a unified diff for every proposal without touching the source
+     */
+    async generatePatches(): Promise<HealingPatchSet> {
+        return this.buildPatches(false);
+    }
+
+    /**
+     * Rewrite declarations in place for proposals at or above the confidence threshold
+     */
+    async applyPatches(minConfidence: number = this.getConfidenceThreshold()): Promise<HealingPatchSet> {
+        return this.buildPatches(true, minConfidence);
+    }
+
+    /**
+     * Write the patch set for this run according to AI_HEALING_WRITE_BACK
+     */
+    async writeBack(): Promise<HealingPatchSet | undefined> {
+        const mode = this.getMode();
+        if (mode === 'off' || this.proposals.size === 0) {
+            return undefined;
+        }
+
+        const patchSet = mode === 'apply' ? await this.applyPatches() : await this.generatePatches();
+
+        await FileUtils.ensureDir(this.reportPath);
+        if (patchSet.diff) {
+            await FileUtils.writeFile(path.join(this.reportPath, 'healing-patches.diff'), patchSet.diff);
+        }
+        await FileUtils.writeJSON(path.join(this.reportPath, 'healing-patches.json'), patchSet);
+
+        const applied = patchSet.patches.filter(p => p.status === 'applied').length;
+        const proposed = patchSet.patches.filter(p => p.status === 'proposed').length;
+        logger.info(`Healing write-back: ${applied} applied, ${proposed} proposed, ${patchSet.patches.length - applied - proposed} skipped`);
+
+        return patchSet;
+    }
+
+    private async buildPatches(apply: boolean, minConfidence: number = 1): Promise<HealingPatchSet> {
+        const patches: HealingPatchResult[] = [];
+        const byFile = new Map<string, HealingPatchProposal[]>();
+
+        for (const proposal of this.getProposals()) {
+            const file = await this.resolveSourceFile(proposal);
+            if (!file) {
+                patches.push({ proposal, status: 'skipped', reason: `Source file for class ${proposal.className} not found` });
+                continue;
+            }
+            proposal.sourceFile = file;
+
+            if (!byFile.has(file)) {
+                byFile.set(file, []);
+            }
+            byFile.get(file)!.push(proposal);
+        }
+
+        const diffs: string[] = [];
+        const filesChanged: string[] = [];
+
+        for (const [file, proposals] of byFile) {
+            const source = await fs.promises.readFile(file, 'utf8');
+            const regions: Array<{ start: number; end: number; text: string }> = [];
+            const applicable: Array<{ start: number; end: number; text: string }> = [];
+
+            for (const proposal of proposals) {
+                try {
+                    const region = this.rewriteDeclaration(source, proposal);
+                    regions.push(region);
+
+                    if (apply && proposal.confidence >= minConfidence) {
+                        applicable.push(region);
+                        patches.push({ proposal, status: 'applied' });
+                    } else {
+                        patches.push({
+                            proposal,
+                            status: 'proposed',
+                            ...(apply && { reason: `Confidence ${proposal.confidence.toFixed(2)} below ${minConfidence}` })
+                        });
+                    }
+                } catch (error) {
+                    patches.push({ proposal, status: 'skipped', reason: (error as Error).message });
+                }
+            }
+
+            if (regions.length === 0) {
+                continue;
+            }
+
+            diffs.push(this.createUnifiedDiff(file, source, regions));
+
+            if (applicable.length > 0) {
+                await FileUtils.writeFile(file, this.applyRegions(source, applicable));
+                filesChanged.push(file);
+                logger.info(`Healed locators written to ${file}`);
+            }
+        }
+
+        return {
+            generatedAt: new Date(),
+            diff: diffs.join(''),
+            patches,
+            filesChanged
+        };
+    }
+
+    /**
+     * Replacement text for the decorator of a declaration, as a character range of the source
+     */
+    private rewriteDeclaration(source: string, proposal: HealingPatchProposal): { start: number; end: number; text: string } {
+        const classMatch = new RegExp(`\\bclass\\s+${this.escapeRegExp(proposal.className)}\\b`).exec(source);
+        if (!classMatch) {
+            throw new Error(`Class ${proposal.className} not declared in source`);
+        }
+
+        const propertyPattern = new RegExp(
+            `(?:^|[\\s;}])(?:(?:public|private|protected|readonly|declare|override)\\s+)*` +
+            `${this.escapeRegExp(proposal.propertyName)}\\s*[!?]?\\s*[:;=]`,
+            'gm'
+        );
+        propertyPattern.lastIndex = classMatch.index;
+        const propertyMatch = propertyPattern.exec(source);
+        if (!propertyMatch) {
+            throw new Error(`Property ${proposal.propertyName} not found in class ${proposal.className}`);
+        }
+
+        // The decorator is the last one opened between the class and the property
+        const decoratorPattern = /@[A-Za-z_$][\w$]*\s*\(/g;
+        decoratorPattern.lastIndex = classMatch.index;
+        let decoratorStart = -1;
+        let openParen = -1;
+        let match: RegExpExecArray | null;
+        while ((match = decoratorPattern.exec(source)) && match.index < propertyMatch.index) {
+            decoratorStart = match.index;
+            openParen = match.index + match[0].length - 1;
+        }
+
+        const decoratorEnd = openParen >= 0 ? this.findClosing(source, openParen) : -1;
+        const between = decoratorEnd >= 0 ? source.slice(decoratorEnd + 1, propertyMatch.index) : '';
+        if (decoratorStart < 0 || decoratorEnd < 0 || decoratorEnd > propertyMatch.index ||
+            !/^\s*(?:\/\/[^\n]*\s*|\/\*[\s\S]*?\*\/\s*)*$/.test(between)) {
+            throw new Error(`No decorator found for ${proposal.className}.${proposal.propertyName}`);
+        }
+
+        const decorator = source.slice(decoratorStart, decoratorEnd + 1);
+        const objectStart = decorator.indexOf('{');
+        const edits: Array<{ start: number; end: number; text: string }> = [];
+
+        const valueMatch = this.findTopLevelProperty(decorator, objectStart, /locatorValue\s*:\s*(['"`])((?:\\.|(?!\1)[^\\])*)\1/g);
+        if (!valueMatch) {
+            throw new Error('locatorValue is not a string literal in the decorator, update it manually');
+        }
+        const quote = valueMatch[1]!;
+        const valueStart = valueMatch.index + valueMatch[0].length - valueMatch[2]!.length - 2;
+        edits.push({
+            start: valueStart,
+            end: valueMatch.index + valueMatch[0].length,
+            text: this.quote(proposal.healedLocatorValue, quote)
+        });
+
+        const typeMatch = this.findTopLevelProperty(decorator, objectStart, /locatorType\s*:\s*(['"`])(\w+)\1/g);
+        if (typeMatch && typeMatch[2] !== proposal.healedLocatorType) {
+            const typeStart = typeMatch.index + typeMatch[0].length - typeMatch[2]!.length - 2;
+            edits.push({
+                start: typeStart,
+                end: typeMatch.index + typeMatch[0].length,
+                text: this.quote(proposal.healedLocatorType, typeMatch[1]!)
+            });
+        }
+
+        const fallback = `{ locatorType: ${this.quote(proposal.originalLocatorType, quote)}, value: ${this.quote(proposal.originalLocatorValue, quote)} }`;
+        const fallbacksMatch = this.findTopLevelProperty(decorator, objectStart, /fallbacks\s*:\s*\[/g);
+
+        if (fallbacksMatch) {
+            const arrayStart = fallbacksMatch.index + fallbacksMatch[0].length;
+            const rest = decorator.slice(arrayStart);
+            if (/^\s*\]/.test(rest)) {
+                edits.push({ start: arrayStart, end: arrayStart, text: fallback });
+            } else if (/^[ \t]*\r?\n/.test(rest)) {
+                const indent = /\n([ \t]*)\S/.exec(rest)?.[1] || '';
+                edits.push({ start: arrayStart, end: arrayStart, text: `\n${indent}${fallback},` });
+            } else {
+                edits.push({ start: arrayStart, end: arrayStart, text: `${fallback}, ` });
+            }
+        } else {
+            const valueEnd = valueMatch.index + valueMatch[0].length;
+            const hasComma = /^\s*,/.test(decorator.slice(valueEnd));
+            const insertAt = hasComma ? decorator.indexOf(',', valueEnd) + 1 : valueEnd;
+            const lineStart = decorator.lastIndexOf('\n', valueMatch.index) + 1;
+            const linePrefix = decorator.slice(lineStart, valueMatch.index);
+            const separator = /^[ \t]*$/.test(linePrefix) && lineStart > 0 ? `\n${linePrefix}` : ' ';
+            edits.push({
+                start: insertAt,
+                end: insertAt,
+                text: `${hasComma ? '' : ','}${separator}fallbacks: [${fallback}]${hasComma ? ',' : ''}`
+            });
+        }
+
+        let rewritten = decorator;
+        for (const edit of edits.sort((a, b) => b.start - a.start)) {
+            rewritten = rewritten.slice(0, edit.start) + edit.text + rewritten.slice(edit.end);
+        }
+
+        return { start: decoratorStart, end: decoratorEnd + 1, text: rewritten };
+    }
+
+    /**
+     * First match of a property that sits directly in the decorator's options object
+     */
+    private findTopLevelProperty(text: string, objectStart: number, pattern: RegExp): RegExpExecArray | null {
+        if (objectStart < 0) {
+            return null;
+        }
+
+        pattern.lastIndex = objectStart;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text))) {
+            if (this.depthAt(text, objectStart, match.index) === 1) {
+                return match;
+            }
+        }
+        return null;
+    }
+
+    private depthAt(text: string, from: number, index: number): number {
+        let depth = 0;
+        let i = from;
+        while (i < index) {
+            const char = text[i]!;
+            if (char === '\'' || char === '"' || char === '`') {
+                i = this.skipString(text, i);
+                continue;
+            }
+            if (char === '{' || char === '[' || char === '(') depth++;
+            if (char === '}' || char === ']' || char === ')') depth--;
+            i++;
+        }
+        return depth;
+    }
+
+    private findClosing(text: string, open: number): number {
+        let depth = 0;
+        let i = open;
+        while (i < text.length) {
+            const char = text[i]!;
+            if (char === '\'' || char === '"' || char === '`') {
+                i = this.skipString(text, i);
+                continue;
+            }
+            if (char === '/' && text[i + 1] === '/') {
+                const lineEnd = text.indexOf('\n', i);
+                i = lineEnd < 0 ? text.length : lineEnd;
+                continue;
+            }
+            if (char === '/' && text[i + 1] === '*') {
+                const commentEnd = text.indexOf('*/', i + 2);
+                i = commentEnd < 0 ? text.length : commentEnd + 2;
+                continue;
+            }
+            if (char === '(' || char === '{' || char === '[') depth++;
+            if (char === ')' || char === '}' || char === ']') {
+                depth--;
+                if (depth === 0) {
+                    return i;
+                }
+            }
+            i++;
+        }
+        return -1;
+    }
+
+    private skipString(text: string, start: number): number {
+        const quote = text[start];
+        let i = start + 1;
+        while (i < text.length && text[i] !== quote) {
+            i += text[i] === '\\' ? 2 : 1;
+        }
+        return i + 1;
+    }
+
+    private applyRegions(source: string, regions: Array<{ start: number; end: number; text: string }>): string {
+        let result = source;
+        for (const region of [...regions].sort((a, b) => b.start - a.start)) {
+            result = result.slice(0, region.start) + region.text + result.slice(region.end);
+        }
+        return result;
+    }
+
+    /**
+     * Unified diff of the rewritten decorators, neighbouring changes share a hunk
+     */
+    private createUnifiedDiff(file: string, source: string, regions: Array<{ start: number; end: number; text: string }>): string {
+        const oldLines = source.split('\n');
+        const lastLine = source.endsWith('\n') ? oldLines.length - 2 : oldLines.length - 1;
+        const changes = [...regions]
+            .sort((a, b) => a.start - b.start)
+            .map(region => {
+                const lineStart = source.lastIndexOf('\n', region.start - 1) + 1;
+                const nextNewline = source.indexOf('\n', region.end);
+                const lineEnd = nextNewline < 0 ? source.length : nextNewline;
+                const replaced = source.slice(lineStart, region.start) + region.text + source.slice(region.end, lineEnd);
+                const original = source.slice(lineStart, lineEnd).split('\n');
+                const newLines = replaced.split('\n');
+
+                // Leave untouched lines of multi-line decorators as context
+                let head = 0;
+                while (head < original.length - 1 && head < newLines.length - 1 && original[head] === newLines[head]) {
+                    head++;
+                }
+                let tail = 0;
+                while (tail < original.length - head - 1 && tail < newLines.length - head - 1 &&
+                    original[original.length - 1 - tail] === newLines[newLines.length - 1 - tail]) {
+                    tail++;
+                }
+
+                const firstLine = source.slice(0, lineStart).split('\n').length - 1 + head;
+                return {
+                    firstLine,
+                    lastLine: firstLine + original.length - head - tail - 1,
+                    newLines: newLines.slice(head, newLines.length - tail)
+                };
+            });
+
+        const relativePath = path.relative(process.cwd(), file).split(path.sep).join('/');
+        const output = [`--- a/${relativePath}`, `+++ b/${relativePath}`];
+        let offset = 0;
+        let index = 0;
+
+        while (index < changes.length) {
+            // Group changes whose context windows touch
+            const group = [changes[index]!];
+            while (index + 1 < changes.length &&
+                changes[index + 1]!.firstLine - group[group.length - 1]!.lastLine <= this.contextLines * 2 + 1) {
+                group.push(changes[++index]!);
+            }
+            index++;
+
+            const hunkStart = Math.max(0, group[0]!.firstLine - this.contextLines);
+            const hunkEnd = Math.min(lastLine, group[group.length - 1]!.lastLine + this.contextLines);
+            const body: string[] = [];
+            let line = hunkStart;
+            let added = 0;
+            let removed = 0;
+
+            for (const change of group) {
+                for (; line < change.firstLine; line++) {
+                    body.push(` ${oldLines[line]}`);
+                }
+                for (; line <= change.lastLine; line++) {
+                    body.push(`-${oldLines[line]}`);
+                    removed++;
+                }
+                for (const newLine of change.newLines) {
+                    body.push(`+${newLine}`);
+                    added++;
+                }
+            }
+            for (; line <= hunkEnd; line++) {
+                body.push(` ${oldLines[line]}`);
+            }
+
+            const oldCount = hunkEnd - hunkStart + 1;
+            const newCount = oldCount - removed + added;
+            output.push(`@@ -${hunkStart + 1},${oldCount} +${hunkStart + 1 + offset},${newCount} @@`);
+            output.push(...body);
+            offset += added - removed;
+        }
+
+        return output.join('\n') + '\n';
+    }
+
+    /**
+     * Locate the TypeScript source declaring a page object class
+     */
+    private async resolveSourceFile(proposal: HealingPatchProposal): Promise<string | undefined> {
+        if (this.classFiles.has(proposal.className)) {
+            return this.classFiles.get(proposal.className);
+        }
+
+        const declaredIn = proposal.sourceFile;
+        const candidates = declaredIn ? [
+            declaredIn,
+            declaredIn.replace(/\.js$/, '.ts'),
+            declaredIn.replace(/([\\/])dist([\\/])/, '$1src$2').replace(/\.js$/, '.ts')
+        ] : [];
+
+        let resolved: string | undefined;
+        for (const candidate of candidates) {
+            if (candidate.endsWith('.ts') && await this.declaresClass(candidate, proposal.className)) {
+                resolved = candidate;
+                break;
+            }
+        }
+
+        if (!resolved) {
+            const sourceDirs = ConfigurationManager.getArray('AI_HEALING_SOURCE_DIRS');
+            for (const dir of sourceDirs.length > 0 ? sourceDirs : ['./src']) {
+                if (!await FileUtils.exists(dir)) {
+                    continue;
+                }
+                const files = await FileUtils.find(dir, /\.ts$/, { exclude: [/node_modules/, /\.d\.ts$/] });
+                for (const file of files) {
+                    if (await this.declaresClass(file, proposal.className)) {
+                        resolved = path.resolve(file);
+                        break;
+                    }
+                }
+                if (resolved) {
+                    break;
+                }
+            }
+        }
+
+        this.classFiles.set(proposal.className, resolved);
+        return resolved;
+    }
+
+    private async declaresClass(file: string, className: string): Promise<boolean> {
+        try {
+            const content = await fs.promises.readFile(file, 'utf8');
+            return new RegExp(`\\bclass\\s+${this.escapeRegExp(className)}\\b`).test(content);
+        } catch {
+            return false;
+        }
+    }
+
+    private toLocator(selector: string): { locatorType: string; locatorValue: string } {
+        if (selector.startsWith('xpath=')) {
+            return { locatorType: 'xpath', locatorValue: selector.substring(6) };
+        }
+        if (selector.startsWith('//') || selector.startsWith('(//')) {
+            return { locatorType: 'xpath', locatorValue: selector };
+        }
+        return { locatorType: 'css', locatorValue: selector };
+    }
+
+    private quote(value: string, quote: string): string {
+        const escaped = value
+            .replace(/\\/g, '\\\\')
+            .replace(new RegExp(quote, 'g'), `\\${quote}`)
+            .replace(/\n/g, '\\n');
+        return quote === '`' ?
+            `${quote}${escaped.replace(/\$\{/g, '\\${')}${quote}` :
+            `${quote}${escaped}${quote}`;
+    }
+
+    private escapeRegExp(value: string): string {
+        return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+}
+
+export { HealingPatchGenerator };
@@ -1,6 +1,8 @@
 // src/core/ai/healing/HealingReporter.ts
 
 import { HealingHistory, HealingReport, FragileElement, HealingRecommendation } from './HealingHistory';
+import { HealingPatchGenerator } from './HealingPatchGenerator';
+import { HealingPatchProposal } from '../types/ai.types';
 import { logger } from '../../utils/Logger';
 import { FileUtils } from '../../utils/FileUtils';
 import { DateUtils } from '../../utils/DateUtils';
@@ -31,6 +33,7 @@ interface EnhancedHealingReport extends HealingReport {
     analysis?: any;
     visualizations?: VisualizationData;
     recommendations?: HealingRecommendation[];
+    proposedPatches?: HealingPatchProposal[];
 }
 
 /**
@@ -87,6 +90,7 @@ class HealingReporter {
             healingData.analysis = this.performDetailedAnalysis(healingData);
             healingData.visualizations = this.generateVisualizationData(healingData);
             healingData.recommendations = this.healingHistory.getRecommendations();
+            healingData.proposedPatches = this.getProposedPatches();
             
             // Save report files
             await this.saveReportFiles(healingData);
@@ -140,6 +144,13 @@ class HealingReporter {
         return suggestions.sort((a, b) => b.priority - a.priority);
     }
     
+    /**
+     * Page object locator changes proposed from this run's healed elements
+     */
+    getProposedPatches(): HealingPatchProposal[] {
+        return HealingPatchGenerator.getInstance().getProposals();
+    }
+    
     /**
      * Export report to HTML format
      */
@@ -1155,6 +1166,40 @@ class HealingReporter {
             ` : '<p>No failure analysis data available.</p>'}
         </div>
         
+        <div class="section">
+            <h2>Proposed Locator Patches</h2>
+            ${(data.proposedPatches || []).length > 0 ? `
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Element</th>
+                            <th>Current Locator</th>
+                            <th>Healed Locator</th>
+                            <th>Strategy</th>
+                            <th>Confidence</th>
+                            <th>Heals</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${(data.proposedPatches || []).map(patch => `
+                            <tr>
+                                <td title="${this.escapeHtml(patch.sourceFile || '')}">${this.escapeHtml(`${patch.className}.${patch.propertyName}`)}</td>
+                                <td><code>${this.escapeHtml(`${patch.originalLocatorType}=${patch.originalLocatorValue}`)}</code></td>
+                                <td><code>${this.escapeHtml(`${patch.healedLocatorType}=${patch.healedLocatorValue}`)}</code></td>
+                                <td>${patch.strategy}</td>
+                                <td>
+                                    <span class="badge ${this.getPerformanceBadgeClass(patch.confidence)}">
+                                        ${(patch.confidence * 100).toFixed(1)}%
+                                    </span>
+                                </td>
+                                <td>${patch.occurrences}</td>
+                            </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+            ` : '<p>No healed page object locators to update.</p>'}
+        </div>
+        
         <div class="section">
             <h2>Recent Healing Activity</h2>
             <table>
@@ -1497,6 +1542,14 @@ class HealingReporter {
         }
     }
     
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+    
     private truncateElementId(elementId: string): string {
         if (elementId.length <= 30) return elementId;
         return elementId.substring(0, 27) + '...';
@@ -6,6 +6,7 @@ import { AIElementIdentifier } from '../engine/AIElementIdentifier';
 import { HealingStrategy } from './HealingStrategies';
 import { LocatorGenerator } from './LocatorGenerator';
 import { HealingHistory } from './HealingHistory';
+import { HealingPatchGenerator } from './HealingPatchGenerator';
 import { ConfigurationManager } from '../../configuration/ConfigurationManager';
 import { 
   HealingResult, 
@@ -47,6 +48,7 @@ interface HealingConfiguration {
 }
 
 interface ExtendedHealingResult extends HealingResult {
+  selector?: string;
   attempts?: number;
   duration?: number;
   snapshot?: ElementSnapshot;
@@ -151,6 +153,16 @@ export class SelfHealingEngine {
         const isValid = await this.validateHealing(element, healingResult.newLocator);
         
         if (isValid) {
+          // Propose a page object patch while the declared locator is still intact
+          if (healingResult.selector) {
+            HealingPatchGenerator.getInstance().recordHealing(
+              element,
+              healingResult.selector,
+              healingResult.strategy,
+              healingResult.confidence
+            );
+          }
+
           // Update element with new locator
           await this.updateElement(element, healingResult);
           
@@ -243,6 +255,7 @@ export class SelfHealingEngine {
             success: true,
             strategy: strategyName,
             newLocator: result.locator,
+            selector: result.selector,
             confidence: result.confidence,
             attempts,
             duration: Date.now() - context.startTime,
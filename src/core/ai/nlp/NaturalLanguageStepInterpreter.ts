@@ -0,0 +1,294 @@
+// src/core/ai/nlp/NaturalLanguageStepInterpreter.ts
+import { Page, Locator } from 'playwright';
+import { IntentClassifier } from './IntentClassifier';
+import { AIElementIdentifier } from '../engine/AIElementIdentifier';
+import { ActionLogger } from '../../logging/ActionLogger';
+import { ConfigurationManager } from '../../configuration/ConfigurationManager';
+import { ActionType, Intent } from '../types/ai.types';
+import { StepInterpretation } from '../../../bdd/types/bdd.types';
+
+// Actions the interpreter can execute, everything else stays an undefined step
+const PAGE_ACTIONS: ActionType[] = ['navigate', 'back', 'forward', 'refresh', 'waitTime'];
+const ELEMENT_ACTIONS: ActionType[] = [
+  'click', 'doubleclick', 'rightclick', 'hover', 'check', 'uncheck', 'type', 'select', 'clear',
+  'focus', 'blur', 'scroll', 'submit',
+  'assertVisible', 'assertNotVisible', 'assertEnabled', 'assertDisabled', 'assertText', 'assertContains',
+  'waitVisible', 'waitHidden', 'waitEnabled'
+];
+
+/**
+ * Interprets steps without a step definition with the NLP pipeline and executes
+ * them against the page, e.g. "I click the blue Submit button under Billing".
+ *
+ * Opt-in with NLP_STEP_FALLBACK=true. Steps below NLP_STEP_MIN_CONFIDENCE stay undefined.
+ */
+export class NaturalLanguageStepInterpreter {
+  private static instance: NaturalLanguageStepInterpreter;
+  private readonly classifier: IntentClassifier;
+
+  private constructor() {
+    this.classifier = IntentClassifier.getInstance();
+  }
+
+  public static getInstance(): NaturalLanguageStepInterpreter {
+    if (!NaturalLanguageStepInterpreter.instance) {
+      NaturalLanguageStepInterpreter.instance = new NaturalLanguageStepInterpreter();
+    }
+    return NaturalLanguageStepInterpreter.instance;
+  }
+
+  public isEnabled(): boolean {
+    return ConfigurationManager.getBoolean('NLP_STEP_FALLBACK', false);
+  }
+
+  /**
+   * Interpret step text, null when it cannot be mapped to an executable action
+   */
+  public async interpret(stepText: string): Promise<StepInterpretation | null> {
+    const text = this.toImperative(stepText);
+    const intent = await this.classifier.classifyIntent(text);
+    const minConfidence = ConfigurationManager.getFloat('NLP_STEP_MIN_CONFIDENCE', 0.7);
+
+    if (intent.confidence.overall < minConfidence) {
+      ActionLogger.logAIOperation('nlp-step low confidence', { text, confidence: intent.confidence.overall, minConfidence });
+      return null;
+    }
+
+    const interpretation = this.toInterpretation(intent, text);
+    if (!interpretation) {
+      ActionLogger.logAIOperation('nlp-step unsupported', { text, action: intent.action });
+      return null;
+    }
+
+    ActionLogger.logAIOperation('nlp-step interpreted', { text, ...interpretation });
+    return interpretation;
+  }
+
+  /**
+   * Execute an interpretation. Element actions lower the confidence to
+   * intent confidence x element match score.
+   */
+  public async execute(interpretation: StepInterpretation, page: Page): Promise<void> {
+    const action = interpretation.action as ActionType;
+    const timeout = ConfigurationManager.getInt('ELEMENT_WAIT_TIMEOUT', 10000);
+
+    if (PAGE_ACTIONS.includes(action)) {
+      await this.executePageAction(interpretation, page);
+      return;
+    }
+
+    const { locator, confidence } = await AIElementIdentifier.getInstance().identifyWithConfidence(interpretation.target!, page);
+    interpretation.confidence = Math.round(interpretation.confidence * confidence * 1000) / 1000;
+
+    switch (action) {
+      case 'click':
+      case 'submit':
+        await locator.click({ timeout });
+        break;
+      case 'doubleclick':
+        await locator.dblclick({ timeout });
+        break;
+      case 'rightclick':
+        await locator.click({ button: 'right', timeout });
+        break;
+      case 'hover':
+        await locator.hover({ timeout });
+        break;
+      case 'check':
+        await locator.check({ timeout });
+        break;
+      case 'uncheck':
+        await locator.uncheck({ timeout });
+        break;
+      case 'type':
+        await locator.fill(interpretation.value || '', { timeout });
+        break;
+      case 'select':
+        await locator.selectOption(interpretation.value || '', { timeout });
+        break;
+      case 'clear':
+        await locator.fill('', { timeout });
+        break;
+      case 'focus':
+        await locator.focus({ timeout });
+        break;
+      case 'blur':
+        await locator.blur({ timeout });
+        break;
+      case 'scroll':
+        await locator.scrollIntoViewIfNeeded({ timeout });
+        break;
+      case 'assertVisible':
+      case 'waitVisible':
+        await locator.waitFor({ state: 'visible', timeout });
+        break;
+      case 'assertNotVisible':
+      case 'waitHidden':
+        await locator.waitFor({ state: 'hidden', timeout });
+        break;
+      case 'assertEnabled':
+      case 'waitEnabled':
+        await this.waitForEnabled(locator, true, action === 'waitEnabled' ? timeout : 0, interpretation.target!);
+        break;
+      case 'assertDisabled':
+        await this.waitForEnabled(locator, false, 0, interpretation.target!);
+        break;
+      case 'assertText':
+      case 'assertContains': {
+        const actual = ((await locator.textContent({ timeout })) || (await locator.inputValue({ timeout }).catch(() => '')) || '').trim();
+        const expected = interpretation.value || '';
+        const matches = action === 'assertText' ? actual === expected : actual.includes(expected);
+        if (!matches) {
+          throw new Error(`Expected ${interpretation.target} to ${action === 'assertText' ? 'have text' : 'contain'} "${expected}" but was "${actual}"`);
+        }
+        break;
+      }
+      default:
+        throw new Error(`Interpreted action "${action}" is not supported`);
+    }
+  }
+
+  private async executePageAction(interpretation: StepInterpretation, page: Page): Promise<void> {
+    const timeout = ConfigurationManager.getInt('NAVIGATION_TIMEOUT', 30000);
+
+    switch (interpretation.action) {
+      case 'navigate': {
+        const target = interpretation.target!;
+        const url = /^https?:\/\//i.test(target)
+          ? target
+          : new URL(target, ConfigurationManager.get('BASE_URL', page.url())).toString();
+        await page.goto(url, { timeout });
+        break;
+      }
+      case 'back':
+        await page.goBack({ timeout });
+        break;
+      case 'forward':
+        await page.goForward({ timeout });
+        break;
+      case 'refresh':
+        await page.reload({ timeout });
+        break;
+      case 'waitTime':
+        await page.waitForTimeout(Number(interpretation.value));
+        break;
+    }
+  }
+
+  /**
+   * Map a classified intent onto an executable interpretation
+   */
+  private toInterpretation(intent: Intent, text: string): StepInterpretation | null {
+    const values: string[] = (intent.parameters?.['values'] || []).map((value: string) => this.unquote(value));
+    let action: ActionType = intent.action;
+    let target: string | undefined;
+    let value: string | undefined;
+
+    switch (action) {
+      case 'type':
+      case 'select':
+        // verb, value, element
+        value = values[1];
+        target = values[2];
+        break;
+      case 'assert': {
+        // "<element> should be <state>"
+        target = values[0];
+        const expected = (values[1] || '').toLowerCase();
+        if (/^(not\s+)(visible|displayed|shown)$|^hidden$/.test(expected)) {
+          action = 'assertNotVisible';
+        } else if (/^(visible|displayed|shown)$/.test(expected)) {
+          action = 'assertVisible';
+        } else if (/^(enabled|clickable)$/.test(expected)) {
+          action = 'assertEnabled';
+        } else if (/^disabled$/.test(expected)) {
+          action = 'assertDisabled';
+        } else {
+          const contains = values[1]?.match(/^(?:contain(?:ing)?|show(?:ing)?)\s+(.+)$/i);
+          action = contains ? 'assertContains' : 'assertText';
+          value = this.unquote(contains ? contains[1]! : (values[1] || '').replace(/^(?:have\s+text|equal(?:\s+to)?)\s+/i, ''));
+        }
+        break;
+      }
+      case 'assertText':
+      case 'assertContains':
+        target = values[0];
+        value = values[1];
+        break;
+      case 'navigate':
+        target = values[0];
+        // Only URLs and paths, page names have no address to go to
+        if (!target || !/^(https?:\/\/|\/)/i.test(target)) {
+          return null;
+        }
+        break;
+      case 'back':
+      case 'forward':
+      case 'refresh':
+        break;
+      case 'waitTime': {
+        const amount = Number(values[0]);
+        value = String(/\b(ms|milliseconds?)$/i.test(text) ? amount : amount * 1000);
+        break;
+      }
+      default:
+        // Element actions: first group is the verb for interactions, the element for validations and waits
+        target = intent.type === 'interaction' ? values[1] : values[0];
+    }
+
+    if (!PAGE_ACTIONS.includes(action) && !ELEMENT_ACTIONS.includes(action)) {
+      return null;
+    }
+    if (ELEMENT_ACTIONS.includes(action) && !target) {
+      return null;
+    }
+
+    const interpretation: StepInterpretation = {
+      action,
+      confidence: intent.confidence.overall
+    };
+    if (target) {
+      interpretation.target = target;
+    }
+    if (value !== undefined) {
+      interpretation.value = value;
+    }
+    const suggestedStep = this.classifier.mapToFrameworkAction({ ...intent, action });
+    if (suggestedStep !== 'unknown step') {
+      interpretation.suggestedStep = suggestedStep;
+    }
+    return interpretation;
+  }
+
+  /**
+   * Gherkin phrasing to the imperative the classifier expects:
+   * "the user clicks X" and "I click X" become "click X"
+   */
+  private toImperative(stepText: string): string {
+    const text = stepText.trim();
+    const subject = text.match(/^(?:the user|user|i|we|they|he|she)\s+(?:(?:should|can|will|must)\s+)?/i);
+    if (!subject) {
+      return text;
+    }
+
+    const rest = text.substring(subject[0].length);
+    if (!/^(?:the user|user|he|she)\s/i.test(subject[0])) {
+      return rest;
+    }
+    return rest.replace(/^(\w+?)(?:(?<=ss|sh|ch|x)es|s)\b/i, '$1');
+  }
+
+  private unquote(value: string): string {
+    return value.trim().replace(/^["']|["']$/g, '');
+  }
+
+  private async waitForEnabled(locator: Locator, enabled: boolean, timeout: number, description: string): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (await locator.isEnabled() !== enabled) {
+      if (Date.now() >= deadline) {
+        throw new Error(`Expected ${description} to be ${enabled ? 'enabled' : 'disabled'}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+}
@@ -94,6 +94,8 @@ export interface StructuralFeatures {
   siblingIndex?: number;
   isFirstChild?: boolean;
   isLastChild?: boolean;
+  inShadowRoot?: boolean;
+  shadowHostPath?: string[];
 }
 
 export interface SemanticFeatures {
@@ -176,6 +178,7 @@ export interface ElementInfo {
   depth: number;
   path: string[];
   xpath: string;
+  shadowRoot?: boolean;
   children: ElementInfo[];
 }
 
@@ -220,6 +223,7 @@ export interface DOMMetrics {
   links: number;
   maxDepth: number;
   averageDepth: number;
+  shadowRoots?: number;
 }
 
 // Element Candidates
@@ -241,6 +245,7 @@ export interface ElementCandidate {
   relevance: number;
   allText: string;
   page: Page;
+  shadowHostPath?: string[];
 }
 
 export interface ScoredElement {
@@ -424,6 +429,37 @@ export interface HealingStats {
   }>;
 }
 
+export type HealingWriteBackMode = 'off' | 'diff' | 'apply';
+
+export interface HealingPatchProposal {
+  className: string;
+  propertyName: string;
+  description: string;
+  sourceFile?: string;
+  originalLocatorType: string;
+  originalLocatorValue: string;
+  healedLocatorType: string;
+  healedLocatorValue: string;
+  strategy: string;
+  confidence: number;
+  occurrences: number;
+  firstHealed: Date;
+  lastHealed: Date;
+}
+
+export interface HealingPatchResult {
+  proposal: HealingPatchProposal;
+  status: 'proposed' | 'applied' | 'skipped';
+  reason?: string;
+}
+
+export interface HealingPatchSet {
+  generatedAt: Date;
+  diff: string;
+  patches: HealingPatchResult[];
+  filesChanged: string[];
+}
+
 // Visual Recognition Types
 export interface VisualData {
   pixels: Uint8Array;
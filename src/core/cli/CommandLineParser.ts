@@ -2,7 +2,8 @@
 
 import * as path from 'path';
 import * as fs from 'fs';
-import { ExecutionOptions, CLIArgument, CLIFlag, ParsedArguments, ValidationError } from './ExecutionOptions';
+import { ExecutionOptions, CLIArgument, CLIFlag, ParsedArguments, ValidationError, PublishTarget, ShardConfig, ShardKey, ShardDistribution } from './ExecutionOptions';
+import { QuarantineManager } from '../../bdd/runner/QuarantineManager';
 
 /**
  * Production-ready command line parser with full argument validation,
@@ -388,6 +389,18 @@ export class CommandLineParser {
       default: false,
       description: 'Update visual regression snapshots'
     }],
+    ['snapshot-path-template', {
+      name: 'snapshot-path-template',
+      type: 'string',
+      required: false,
+      description: 'Baseline path template, e.g. {snapshotDir}/{browser}/{viewport}/{name}{ext}'
+    }],
+    ['snippets-file', {
+      name: 'snippets-file',
+      type: 'string',
+      required: false,
+      description: 'Write step definition snippets for undefined steps to this file'
+    }],
     ['ci', {
       name: 'ci',
       type: 'boolean',
@@ -414,6 +427,92 @@ export class CommandLineParser {
         return true;
       }
     }],
+    ['shard-key', {
+      name: 'shard-key',
+      type: 'string',
+      required: false,
+      description: 'How scenarios are grouped into shards (default: SHARD_KEY or feature)',
+      choices: ['feature', 'scenario', 'tag', 'hash', 'round-robin'],
+      dependsOn: 'shard'
+    }],
+    ['shard-distribution', {
+      name: 'shard-distribution',
+      type: 'string',
+      required: false,
+      description: 'Balance shards by scenario count (even) or by duration from run history (weighted)',
+      choices: ['even', 'weighted'],
+      dependsOn: 'shard'
+    }],
+    ['rerun', {
+      name: 'rerun',
+      type: 'string',
+      required: false,
+      description: 'Run only the failed scenarios listed in a rerun file (written to RERUN_FILE after each run)',
+      validate: (value: string) => {
+        if (!fs.existsSync(path.resolve(process.cwd(), value))) {
+          throw new Error(`Rerun file not found: ${value}`);
+        }
+        return true;
+      }
+    }],
+    ['ado-plan', {
+      name: 'ado-plan',
+      type: 'number',
+      required: false,
+      description: 'Run the scenarios whose @TestCaseId-<id> tag has a test point in this ADO test plan',
+      examples: ['1234'],
+      validate: (value: number) => {
+        if (!Number.isInteger(value) || value < 1) {
+          throw new Error('ADO test plan ID must be a positive integer');
+        }
+        return true;
+      }
+    }],
+    ['ado-suite', {
+      name: 'ado-suite',
+      type: 'number',
+      required: false,
+      description: 'Limit --ado-plan to one test suite of the plan',
+      examples: ['5678'],
+      dependsOn: 'ado-plan',
+      validate: (value: number) => {
+        if (!Number.isInteger(value) || value < 1) {
+          throw new Error('ADO test suite ID must be a positive integer');
+        }
+        return true;
+      }
+    }],
+    ['nlp-steps', {
+      name: 'nlp-steps',
+      type: 'boolean',
+      required: false,
+      default: false,
+      description: 'Interpret steps without a step definition with the NLP engine (AI-interpreted steps)'
+    }],
+    ['load', {
+      name: 'load',
+      type: 'string',
+      required: false,
+      implicitValue: 'default',
+      description: 'Run the selected API scenarios as load tests with a profile (LOAD_PROFILE_<NAME>), "default" (a bare --load) or inline settings. ' +
+        'The requests of the recording run are replayed as sent: payloads, IDs from earlier responses and tokens are not refreshed per virtual user',
+      examples: ['default', 'smoke', 'users=50,duration=60s,rampUp=10s,p95<500']
+    }],
+    ['ado-sync', {
+      name: 'ado-sync',
+      type: 'boolean',
+      required: false,
+      default: false,
+      description: 'Create or update ADO test cases from the feature files and tag the scenarios with their IDs instead of running tests'
+    }],
+    ['merge-reports', {
+      name: 'merge-reports',
+      type: 'string',
+      required: false,
+      array: true,
+      description: 'Merge the JSON reports of all shards in these directories into one report instead of running tests',
+      examples: ['./shard-reports', './reports/shard-1,./reports/shard-2']
+    }],
     ['max-failures', {
       name: 'max-failures',
       aliases: ['mf'],
@@ -442,16 +541,29 @@ export class CommandLineParser {
         return true;
       }
     }],
+    ['seed', {
+      name: 'seed',
+      type: 'string',
+      required: false,
+      description: 'Seed for generated test data (logged on every run, reuse it to reproduce the data)'
+    }],
+    ['locale', {
+      name: 'locale',
+      type: 'string',
+      required: false,
+      description: 'Locale for generated test data (e.g., en-US, en-GB, de-DE, fr-FR)'
+    }],
     ['output', {
       name: 'output',
       aliases: ['o'],
       type: 'string',
       required: false,
       array: true,
-      description: 'Additional output formats (tap, teamcity, github)',
-      choices: ['tap', 'teamcity', 'github', 'junit', 'mocha'],
+      description: 'Streaming console reporters, combinable (tap, teamcity, github, junit, mocha, spec, json, progress, dot)',
+      choices: ['tap', 'teamcity', 'github', 'junit', 'mocha', 'spec', 'json', 'progress', 'dot'],
+      examples: ['github', 'teamcity', 'tap,junit', 'dot --output=junit'],
       validate: (value: string) => {
-        const validOutputs = ['tap', 'teamcity', 'github', 'junit', 'mocha'];
+        const validOutputs = ['tap', 'teamcity', 'github', 'junit', 'mocha', 'spec', 'json', 'progress', 'dot'];
         const outputs = value.split(',').map(o => o.trim());
         for (const output of outputs) {
           if (!validOutputs.includes(output)) {
@@ -460,6 +572,38 @@ export class CommandLineParser {
         }
         return true;
       }
+    }],
+    ['publish', {
+      name: 'publish',
+      aliases: ['pub'],
+      type: 'string',
+      required: false,
+      description: 'Publish the run summary to a target (slack, teams, email, jira, ado or a registered custom publisher)',
+      examples: ['slack', 'teams', 'email', 'jira']
+    }],
+    ['quarantine', {
+      name: 'quarantine',
+      aliases: ['qt'],
+      type: 'string',
+      required: false,
+      description: 'Manage quarantined (non-blocking) scenarios instead of running tests',
+      choices: ['list', 'add', 'release'],
+      examples: ['list', 'add --scenario="User can login" --feature=features/login.feature', 'release --scenario="User can login"']
+    }],
+    ['quarantine-file', {
+      name: 'quarantine-file',
+      aliases: ['qf'],
+      type: 'string',
+      required: false,
+      description: 'Path to the quarantine list file (default: QUARANTINE_FILE or quarantine.json)'
+    }],
+    ['quarantine-reason', {
+      name: 'quarantine-reason',
+      aliases: ['qr'],
+      type: 'string',
+      required: false,
+      description: 'Reason recorded when quarantining a scenario',
+      dependsOn: 'quarantine'
     }]
   ]);
 
@@ -493,7 +637,7 @@ export class CommandLineParser {
     ['validate-only', {
       name: 'validate-only',
       aliases: ['vo'],
-      description: 'Validate configuration without running tests'
+      description: 'Validate configuration and step definitions without running tests'
     }]
   ]);
 
@@ -615,6 +759,8 @@ export class CommandLineParser {
             if (nextArg) {
               this.processArgument(name, nextArg, parsed);
             }
+          } else if (argDef?.implicitValue !== undefined) {
+            this.processArgument(name, argDef.implicitValue, parsed);
           } else if (this.isFlag(name)) {
             parsed[name] = true;
           } else {
@@ -860,7 +1006,9 @@ export class CommandLineParser {
 
         // Check choices
         if (argDef.choices && value) {
-          const values = Array.isArray(value) ? value : [value];
+          // Array options also accept comma separated values
+          const values = (Array.isArray(value) ? value : [value])
+            .flatMap(v => argDef.array && typeof v === 'string' ? v.split(',').map(part => part.trim()) : [v]);
           for (const v of values) {
             const choicesArray = argDef.choices as Array<string | number>;
             if (!choicesArray.includes(v)) {
@@ -991,9 +1139,66 @@ export class CommandLineParser {
       process.exit(0);
     }
 
-    if (this.parsedArgs!['validate-only']) {
-      console.log('✓ Configuration is valid');
-      process.exit(0);
+    if (this.parsedArgs!['quarantine']) {
+      const success = this.manageQuarantine(this.parsedArgs!['quarantine'] as string);
+      process.exit(success ? 0 : 1);
+    }
+  }
+
+  /**
+   * List, add or release quarantined scenarios
+   */
+  private static manageQuarantine(action: string): boolean {
+    const quarantine = QuarantineManager.getInstance();
+    if (this.parsedArgs!['quarantine-file']) {
+      quarantine.setQuarantineFile(this.parsedArgs!['quarantine-file'] as string);
+    }
+
+    try {
+      if (action === 'list') {
+        const entries = quarantine.list();
+        if (entries.length === 0) {
+          console.log('No quarantined scenarios.');
+          return true;
+        }
+
+        console.log(`Quarantined scenarios (${entries.length}) in ${quarantine.getQuarantineFile()}:\n`);
+        for (const entry of entries) {
+          console.log(`  ${entry.key}`);
+          console.log(`    Reason: ${entry.reason}`);
+          console.log(`    Added: ${entry.addedAt} by ${entry.addedBy}\n`);
+        }
+        return true;
+      }
+
+      const scenarios = (this.parsedArgs!['scenario'] as string[] | undefined) || [];
+      if (scenarios.length === 0) {
+        console.error(`--quarantine ${action} requires --scenario`);
+        return false;
+      }
+
+      const features = (this.parsedArgs!['feature'] as string[] | undefined) || [];
+      if (features.length > 1) {
+        console.error(`--quarantine ${action} accepts at most one --feature`);
+        return false;
+      }
+      const feature = features[0];
+
+      for (const scenario of scenarios) {
+        if (action === 'add') {
+          const reason = (this.parsedArgs!['quarantine-reason'] as string) || 'Quarantined via CLI';
+          const added = quarantine.add(scenario, feature || '', reason);
+          console.log(added ? `✓ Quarantined: ${scenario}` : `Already quarantined: ${scenario}`);
+        } else {
+          const released = quarantine.release(scenario, feature);
+          console.log(released > 0 ? `✓ Released: ${scenario}` : `Not quarantined: ${scenario}`);
+        }
+      }
+      return true;
+
+    } catch (error) {
+      console.error(`Error managing quarantine: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
     }
   }
 
@@ -1016,6 +1221,7 @@ export class CommandLineParser {
       timeout: this.parsedArgs!['timeout'] as number || 30000,
       retry: this.parsedArgs!['retry'] as number || 0,
       dryRun: this.parsedArgs!['dry-run'] as boolean || false,
+      validateOnly: this.parsedArgs!['validate-only'] as boolean || false,
       bail: this.parsedArgs!['bail'] as boolean || false,
       maxFailures: this.parsedArgs!['max-failures'] as number || 0,
       shard: this.parseShardConfig(this.parsedArgs!['shard'] as string),
@@ -1069,6 +1275,12 @@ export class CommandLineParser {
     if (this.parsedArgs!['test-data']) {
       options.testDataPath = this.parsedArgs!['test-data'] as string;
     }
+    if (this.parsedArgs!['seed']) {
+      options.seed = this.parsedArgs!['seed'] as string;
+    }
+    if (this.parsedArgs!['locale']) {
+      options.locale = this.parsedArgs!['locale'] as string;
+    }
     if (this.parsedArgs!['api-base-url']) {
       options.apiBaseUrl = this.parsedArgs!['api-base-url'] as string;
     }
@@ -1078,6 +1290,40 @@ export class CommandLineParser {
     if (this.parsedArgs!['proxy']) {
       options.proxy = this.parsedArgs!['proxy'] as string;
     }
+    if (this.parsedArgs!['snapshot-path-template']) {
+      options.snapshotPathTemplate = this.parsedArgs!['snapshot-path-template'] as string;
+    }
+    if (this.parsedArgs!['snippets-file']) {
+      options.snippetsFile = this.parsedArgs!['snippets-file'] as string;
+    }
+    if (this.parsedArgs!['rerun']) {
+      options.rerun = this.parsedArgs!['rerun'] as string;
+    }
+    if (this.parsedArgs!['ado-plan']) {
+      options.adoPlan = this.parsedArgs!['ado-plan'] as number;
+    }
+    if (this.parsedArgs!['ado-suite']) {
+      options.adoSuite = this.parsedArgs!['ado-suite'] as number;
+    }
+    if (this.parsedArgs!['ado-sync']) {
+      options.adoSync = true;
+    }
+    if (this.parsedArgs!['nlp-steps']) {
+      options.nlpSteps = true;
+    }
+    if (this.parsedArgs!['load']) {
+      options.load = this.parsedArgs!['load'] as string;
+    }
+    if (this.parsedArgs!['quarantine-file']) {
+      options.quarantineFile = this.parsedArgs!['quarantine-file'] as string;
+    }
+    if (this.parsedArgs!['merge-reports']) {
+      options.mergeReports = this.parseFileList(this.parsedArgs!['merge-reports']);
+    }
+    if (this.parsedArgs!['publish']) {
+      options.publishResults = true;
+      options.publishOptions = { target: this.parsedArgs!['publish'] as PublishTarget };
+    }
     const proxyAuth = this.parseProxyAuth(this.parsedArgs!['proxy-auth'] as string);
     if (proxyAuth) {
       options.proxyAuth = proxyAuth;
@@ -1112,14 +1358,29 @@ export class CommandLineParser {
     return String(value).split(',').map((f: string) => f.trim());
   }
 
+  /**
+   * Parse comma separated file or directory paths
+   */
+  private static parseFileList(value: any): string[] {
+    const values: string[] = Array.isArray(value) ? value : [String(value)];
+    return values.flatMap(v => v.split(',').map(f => f.trim())).filter(f => f.length > 0);
+  }
+
   /**
    * Parse shard configuration
    */
-  private static parseShardConfig(value: string): any {
+  private static parseShardConfig(value: string): ShardConfig | undefined {
     if (!value) return undefined;
     
     const [current, total] = value.split('/').map(Number);
-    return { current, total };
+    const shard: ShardConfig = { current: current!, total: total! };
+    if (this.parsedArgs!['shard-key']) {
+      shard.key = this.parsedArgs!['shard-key'] as ShardKey;
+    }
+    if (this.parsedArgs!['shard-distribution']) {
+      shard.distribution = this.parsedArgs!['shard-distribution'] as ShardDistribution;
+    }
+    return shard;
   }
 
   /**
@@ -1160,10 +1421,12 @@ OPTIONS:`);
     // Group options by category
     const categories = {
       'Test Selection': ['env', 'tags', 'feature', 'scenario', 'grep', 'grep-invert'],
-      'Execution': ['parallel', 'workers', 'browser', 'headless', 'timeout', 'retry', 'dry-run', 'bail', 'max-failures', 'shard'],
-      'Debug & Evidence': ['debug', 'verbose', 'quiet', 'video', 'trace', 'screenshot', 'update-snapshots'],
-      'Reporting': ['report-name', 'report-path', 'report-format', 'output'],
-      'Configuration': ['config', 'profile', 'test-data', 'api-base-url', 'db-connection'],
+      'Execution': ['parallel', 'workers', 'browser', 'headless', 'timeout', 'retry', 'dry-run', 'bail', 'max-failures', 'shard', 'shard-key', 'shard-distribution', 'rerun', 'nlp-steps', 'load'],
+      'Debug & Evidence': ['debug', 'verbose', 'quiet', 'video', 'trace', 'screenshot', 'update-snapshots', 'snapshot-path-template'],
+      'Reporting': ['report-name', 'report-path', 'report-format', 'output', 'publish', 'snippets-file', 'merge-reports'],
+      'Configuration': ['config', 'profile', 'test-data', 'seed', 'locale', 'api-base-url', 'db-connection'],
+      'Quarantine': ['quarantine', 'quarantine-file', 'quarantine-reason'],
+      'Azure DevOps': ['ado-plan', 'ado-suite', 'ado-sync'],
       'Network': ['proxy', 'proxy-auth'],
       'Other': ['no-colors', 'ci']
     };
@@ -1256,7 +1519,25 @@ EXAMPLES:
   npm test -- --grep="user.*login" --env=qa
 
   # Run specific shard for distributed execution
-  npm test -- --shard=2/5
+  npm test -- --shard=2/5 --shard-key=scenario
+
+  # Rerun the scenarios that failed in the previous run
+  npm test -- --rerun=rerun.json
+
+  # Load test the orders API scenarios with 50 users for a minute
+  npm test -- --tags=@orders-api --load=users=50,duration=60s,rampUp=10s
+
+  # Merge the reports of all shards into one report
+  npm test -- --merge-reports=./shard-reports --report-format=html,excel,pdf
+
+  # Run the scenarios planned in an ADO test suite
+  npm test -- --ado-plan=1234 --ado-suite=5678
+
+  # Create or update ADO test cases from the feature files
+  npm test -- --ado-sync --feature=features/login.feature --ado-plan=1234 --ado-suite=5678
+
+  # Quarantine a flaky scenario so its failures do not fail the build
+  npm test -- --quarantine=add --scenario="User can login" --feature=features/login.feature
 
 For more information, visit: https://github.com/company/cs-test-framework`);
   }
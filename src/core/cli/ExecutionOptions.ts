@@ -45,12 +45,16 @@ export interface ExecutionOptions {
  retry: number;
  retryStrategy?: RetryStrategy;
  dryRun: boolean;
+ validateOnly?: boolean;
  bail: boolean;
  failFast?: boolean;
  maxFailures: number;
  shard?: ShardConfig;
  randomize?: boolean;
  seed?: string;
+ nlpSteps?: boolean;
+ load?: string;
+ quarantineFile?: string;
  
  // Debug Configuration
  debug: boolean;
@@ -88,6 +92,12 @@ export interface ExecutionOptions {
  outputOptions?: OutputOptions;
  publishResults?: boolean;
  publishOptions?: PublishOptions;
+ snippetsFile?: string;
+ mergeReports?: string[];
+ rerun?: string;
+ adoPlan?: number;
+ adoSuite?: number;
+ adoSync?: boolean;
  
  // Configuration Files
  configFile?: string;
@@ -194,6 +204,8 @@ export interface CLIArgument {
  type: ArgumentType;
  required?: boolean;
  default?: any;
+ /** Value of the option given without one, e.g. a bare --load */
+ implicitValue?: string;
  description: string;
  examples?: string[];
  choices?: string[] | number[];
@@ -389,7 +401,7 @@ export type ShardKey = 'feature' | 'scenario' | 'tag' | 'hash' | 'round-robin';
 /**
 * Shard distribution strategy
 */
-export type ShardDistribution = 'even' | 'weighted' | 'dynamic' | 'custom';
+export type ShardDistribution = 'even' | 'weighted';
 
 /**
 * Video recording options
@@ -0,0 +1,40 @@
+// src/core/cli/reporters/DotReporter.ts
+
+import { ExecutionResult } from '../../../bdd/types/bdd.types';
+import { BaseOutputReporter, ScenarioEndEvent } from './OutputReporter';
+
+/**
+* One character per scenario: "." passed, "F" failed, "-" skipped
+*/
+export class DotReporter extends BaseOutputReporter {
+  readonly format = 'dot' as const;
+  private static readonly LINE_WIDTH = 80;
+  private column = 0;
+  private readonly failures: ScenarioEndEvent[] = [];
+
+  override onScenarioEnd(event: ScenarioEndEvent): void {
+    if (this.isSkipped(event.result)) {
+      this.write(this.paint(36, '-'));
+    } else if (this.isFailed(event.result)) {
+      this.failures.push(event);
+      this.write(this.paint(31, 'F'));
+    } else {
+      this.write(this.paint(32, '.'));
+    }
+
+    if (++this.column >= DotReporter.LINE_WIDTH) {
+      this.writeLine();
+      this.column = 0;
+    }
+  }
+
+  override onRunEnd(result: ExecutionResult): void {
+    this.writeLine();
+    this.failures.forEach((event, index) => {
+      this.writeLine(`${index + 1}) ${this.title(event)} (${event.file}:${event.line})`);
+      this.writeLine(`   ${this.errorMessage(event.result)}`);
+    });
+    const { passed, failed, skipped } = result.summary;
+    this.writeLine(`${passed} passed, ${failed} failed, ${skipped} skipped in ${result.duration || 0}ms`);
+  }
+}
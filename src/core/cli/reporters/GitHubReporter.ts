@@ -0,0 +1,34 @@
+// src/core/cli/reporters/GitHubReporter.ts
+
+import { ExecutionResult } from '../../../bdd/types/bdd.types';
+import { BaseOutputReporter, ScenarioEndEvent } from './OutputReporter';
+
+/**
+* GitHub Actions workflow commands, failures are annotated on the feature file line
+*/
+export class GitHubReporter extends BaseOutputReporter {
+  readonly format = 'github' as const;
+
+  override onScenarioEnd(event: ScenarioEndEvent): void {
+    if (!this.isFailed(event.result)) {
+      return;
+    }
+
+    const properties = `file=${this.escapeProperty(event.file)},line=${event.line},title=${this.escapeProperty(this.title(event))}`;
+    this.writeLine(`::error ${properties}::${this.escapeData(this.errorMessage(event.result))}`);
+  }
+
+  override onRunEnd(result: ExecutionResult): void {
+    const { passed, failed, skipped } = result.summary;
+    const command = failed > 0 ? 'error' : 'notice';
+    this.writeLine(`::${command} title=Test run::${this.escapeData(`${passed} passed, ${failed} failed, ${skipped} skipped`)}`);
+  }
+
+  private escapeData(value: string): string {
+    return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+  }
+
+  private escapeProperty(value: string): string {
+    return this.escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+  }
+}
@@ -0,0 +1,78 @@
+// src/core/cli/reporters/JUnitReporter.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { BaseOutputReporter, ScenarioEndEvent } from './OutputReporter';
+
+/**
+* JUnit XML written to <report path>/junit.xml when the run ends
+*
+* Test cases are collected as scenarios finish, so results from interrupted runs
+* can still be flushed by calling onRunEnd.
+*/
+export class JUnitReporter extends BaseOutputReporter {
+  readonly format = 'junit' as const;
+  private readonly suites = new Map<string, { file: string; cases: string[]; tests: number; failures: number; skipped: number; time: number }>();
+
+  override onScenarioEnd(event: ScenarioEndEvent): void {
+    const suiteName = event.feature.name;
+    const suite = this.suites.get(suiteName) || { file: event.file, cases: [], tests: 0, failures: 0, skipped: 0, time: 0 };
+    const seconds = (event.result.duration || 0) / 1000;
+
+    let body = '';
+    if (this.isSkipped(event.result)) {
+      suite.skipped++;
+      body = '<skipped/>';
+    } else if (this.isFailed(event.result)) {
+      suite.failures++;
+      body = `<failure message="${this.escape(this.errorMessage(event.result))}" type="${this.escape(event.result.error?.type || 'failure')}">`
+        + `${this.escape(`${event.file}:${event.line}\n${this.errorStack(event.result)}`)}</failure>`;
+    }
+
+    suite.tests++;
+    suite.time += seconds;
+    suite.cases.push(
+      `    <testcase classname="${this.escape(suiteName)}" name="${this.escape(event.result.scenario || event.scenario.name)}" `
+      + `file="${this.escape(event.file)}" line="${event.line}" time="${seconds.toFixed(3)}"${body ? `>${body}</testcase>` : '/>'}`
+    );
+    this.suites.set(suiteName, suite);
+  }
+
+  override async onRunEnd(): Promise<void> {
+    const suites = Array.from(this.suites.entries());
+    const totals = suites.reduce((sum, [, suite]) => ({
+      tests: sum.tests + suite.tests,
+      failures: sum.failures + suite.failures,
+      skipped: sum.skipped + suite.skipped,
+      time: sum.time + suite.time
+    }), { tests: 0, failures: 0, skipped: 0, time: 0 });
+
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites tests="${totals.tests}" failures="${totals.failures}" skipped="${totals.skipped}" time="${totals.time.toFixed(3)}">`,
+      ...suites.map(([name, suite]) => [
+        `  <testsuite name="${this.escape(name)}" file="${this.escape(suite.file)}" hostname="${this.escape(os.hostname())}" `
+        + `tests="${suite.tests}" failures="${suite.failures}" errors="0" skipped="${suite.skipped}" time="${suite.time.toFixed(3)}">`,
+        ...suite.cases,
+        '  </testsuite>'
+      ].join('\n')),
+      '</testsuites>',
+      ''
+    ].join('\n');
+
+    const outputFile = path.resolve(this.options.reportPath, 'junit.xml');
+    await fs.promises.mkdir(path.dirname(outputFile), { recursive: true });
+    await fs.promises.writeFile(outputFile, xml, 'utf8');
+    this.writeLine(`JUnit report written to ${outputFile}`);
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
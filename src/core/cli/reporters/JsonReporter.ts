@@ -0,0 +1,45 @@
+// src/core/cli/reporters/JsonReporter.ts
+
+import { ExecutionResult, Feature } from '../../../bdd/types/bdd.types';
+import { BaseOutputReporter, FeatureEndEvent, RunStartEvent, ScenarioEndEvent } from './OutputReporter';
+
+/**
+* Newline delimited JSON events for machine consumption
+*/
+export class JsonReporter extends BaseOutputReporter {
+  readonly format = 'json' as const;
+
+  override onRunStart(event: RunStartEvent): void {
+    this.emit('runStart', { ...event });
+  }
+
+  override onFeatureStart(feature: Feature): void {
+    this.emit('featureStart', { feature: feature.name, file: feature.uri });
+  }
+
+  override onScenarioEnd(event: ScenarioEndEvent): void {
+    this.emit('scenarioEnd', {
+      feature: event.feature.name,
+      scenario: event.result.scenario || event.scenario.name,
+      file: event.file,
+      line: event.line,
+      status: event.result.status,
+      duration: event.result.duration || 0,
+      retries: event.result.retries || 0,
+      tags: event.result.tags || event.scenario.tags || [],
+      ...(this.isFailed(event.result) && { error: this.errorMessage(event.result) })
+    });
+  }
+
+  override onFeatureEnd(event: FeatureEndEvent): void {
+    this.emit('featureEnd', { feature: event.feature.name, status: event.status, duration: event.duration });
+  }
+
+  override onRunEnd(result: ExecutionResult): void {
+    this.emit('runEnd', { status: result.status, duration: result.duration, summary: result.summary });
+  }
+
+  private emit(event: string, data: Record<string, any>): void {
+    this.writeLine(JSON.stringify({ event, timestamp: new Date().toISOString(), ...data }));
+  }
+}
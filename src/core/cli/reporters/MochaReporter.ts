@@ -0,0 +1,53 @@
+// src/core/cli/reporters/MochaReporter.ts
+
+import { ExecutionResult } from '../../../bdd/types/bdd.types';
+import { BaseOutputReporter, RunStartEvent, ScenarioEndEvent } from './OutputReporter';
+
+/**
+* Mocha "json-stream" compatible output: one ["event", data] array per line
+*/
+export class MochaReporter extends BaseOutputReporter {
+  readonly format = 'mocha' as const;
+  private startTime = Date.now();
+
+  override onRunStart(event: RunStartEvent): void {
+    this.startTime = Date.now();
+    this.emit('start', { total: event.totalScenarios });
+  }
+
+  override onScenarioEnd(event: ScenarioEndEvent): void {
+    const test = {
+      title: event.result.scenario || event.scenario.name,
+      fullTitle: this.title(event),
+      file: event.file,
+      duration: event.result.duration || 0,
+      currentRetry: event.result.retries || 0
+    };
+
+    if (this.isSkipped(event.result)) {
+      this.emit('pending', test);
+    } else if (this.isFailed(event.result)) {
+      this.emit('fail', { ...test, err: this.errorMessage(event.result), stack: this.errorStack(event.result) });
+    } else {
+      this.emit('pass', test);
+    }
+  }
+
+  override onRunEnd(result: ExecutionResult): void {
+    const end = new Date();
+    this.emit('end', {
+      suites: result.features.length,
+      tests: result.summary.total || result.summary.totalScenarios,
+      passes: result.summary.passed,
+      pending: result.summary.skipped + result.summary.pending,
+      failures: result.summary.failed,
+      start: new Date(this.startTime).toISOString(),
+      end: end.toISOString(),
+      duration: end.getTime() - this.startTime
+    });
+  }
+
+  private emit(event: string, data: Record<string, any>): void {
+    this.writeLine(JSON.stringify([event, data]));
+  }
+}
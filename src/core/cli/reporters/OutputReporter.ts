@@ -0,0 +1,110 @@
+// src/core/cli/reporters/OutputReporter.ts
+
+import { Feature, Scenario, ScenarioResult, ExecutionResult } from '../../../bdd/types/bdd.types';
+import { OutputFormat } from '../ExecutionOptions';
+
+/**
+* Run information known before the first scenario starts
+*/
+export interface RunStartEvent {
+  totalFeatures: number;
+  totalScenarios: number;
+}
+
+/**
+* A finished scenario, with the location of the failing step when available
+*/
+export interface ScenarioEndEvent {
+  feature: Feature;
+  scenario: Scenario;
+  result: ScenarioResult;
+  /** Feature file relative to the working directory */
+  file: string;
+  /** Line of the failing step, or of the scenario */
+  line: number;
+}
+
+/**
+* A finished feature
+*/
+export interface FeatureEndEvent {
+  feature: Feature;
+  status: string;
+  duration: number;
+}
+
+/**
+* Settings shared by all output reporters
+*/
+export interface OutputReporterOptions {
+  stream: NodeJS.WritableStream;
+  colors: boolean;
+  reportPath: string;
+}
+
+/**
+* Streaming console reporter selected with --output
+*/
+export interface OutputReporter {
+  readonly format: OutputFormat;
+  onRunStart(event: RunStartEvent): void;
+  onFeatureStart(feature: Feature): void;
+  onScenarioEnd(event: ScenarioEndEvent): void;
+  onFeatureEnd(event: FeatureEndEvent): void;
+  onRunEnd(result: ExecutionResult): void | Promise<void>;
+}
+
+/**
+* Base class with no-op handlers and output helpers
+*/
+export abstract class BaseOutputReporter implements OutputReporter {
+  abstract readonly format: OutputFormat;
+
+  constructor(protected readonly options: OutputReporterOptions) {}
+
+  onRunStart(_event: RunStartEvent): void {}
+  onFeatureStart(_feature: Feature): void {}
+  onScenarioEnd(_event: ScenarioEndEvent): void {}
+  onFeatureEnd(_event: FeatureEndEvent): void {}
+  onRunEnd(_result: ExecutionResult): void | Promise<void> {}
+
+  protected write(text: string): void {
+    this.options.stream.write(text);
+  }
+
+  protected writeLine(text: string = ''): void {
+    this.options.stream.write(text + '\n');
+  }
+
+  protected paint(code: number, text: string): string {
+    return this.options.colors ? `\x1b[${code}m${text}\x1b[0m` : text;
+  }
+
+  /**
+   * Full scenario title used by reporters with a flat test list
+   */
+  protected title(event: ScenarioEndEvent): string {
+    return `${event.feature.name} > ${event.result.scenario || event.scenario.name}`;
+  }
+
+  /**
+   * First line of the scenario error, if any
+   */
+  protected errorMessage(result: ScenarioResult): string {
+    const failedStep = result.steps?.find(step => step.status === 'failed');
+    return (result.error?.message || failedStep?.error?.message || failedStep?.errorMessage || 'Scenario failed').split('\n')[0]!;
+  }
+
+  protected errorStack(result: ScenarioResult): string {
+    const failedStep = result.steps?.find(step => step.status === 'failed');
+    return result.error?.stack || failedStep?.error?.stack || failedStep?.stackTrace || '';
+  }
+
+  protected isFailed(result: ScenarioResult): boolean {
+    return result.status === 'failed' || result.status === 'error';
+  }
+
+  protected isSkipped(result: ScenarioResult): boolean {
+    return result.status === 'skipped' || result.status === 'pending';
+  }
+}
@@ -0,0 +1,124 @@
+// src/core/cli/reporters/OutputReporterManager.ts
+
+import * as path from 'path';
+import { Feature, Scenario, ScenarioResult, ExecutionResult } from '../../../bdd/types/bdd.types';
+import { OutputFormat } from '../ExecutionOptions';
+import { Logger } from '../../utils/Logger';
+import { OutputReporter, OutputReporterOptions, RunStartEvent } from './OutputReporter';
+import { TapReporter } from './TapReporter';
+import { TeamCityReporter } from './TeamCityReporter';
+import { GitHubReporter } from './GitHubReporter';
+import { JUnitReporter } from './JUnitReporter';
+import { MochaReporter } from './MochaReporter';
+import { SpecReporter } from './SpecReporter';
+import { JsonReporter } from './JsonReporter';
+import { ProgressReporter } from './ProgressReporter';
+import { DotReporter } from './DotReporter';
+
+/**
+* Fans execution events out to the streaming reporters selected with --output
+*
+* Reporter failures are logged and never interrupt the run.
+*/
+export class OutputReporterManager {
+  private static instance: OutputReporterManager;
+  private static readonly logger = Logger.getInstance('OutputReporterManager');
+  private static readonly FACTORIES: Record<OutputFormat, (options: OutputReporterOptions) => OutputReporter> = {
+    tap: options => new TapReporter(options),
+    teamcity: options => new TeamCityReporter(options),
+    github: options => new GitHubReporter(options),
+    junit: options => new JUnitReporter(options),
+    mocha: options => new MochaReporter(options),
+    spec: options => new SpecReporter(options),
+    json: options => new JsonReporter(options),
+    progress: options => new ProgressReporter(options),
+    dot: options => new DotReporter(options)
+  };
+
+  private reporters: OutputReporter[] = [];
+
+  private constructor() {}
+
+  public static getInstance(): OutputReporterManager {
+    if (!OutputReporterManager.instance) {
+      OutputReporterManager.instance = new OutputReporterManager();
+    }
+    return OutputReporterManager.instance;
+  }
+
+  /**
+   * Create the reporters for the given formats, replacing any configured before
+   */
+  public configure(formats: OutputFormat[], options: Partial<OutputReporterOptions> = {}): void {
+    const reporterOptions: OutputReporterOptions = {
+      stream: options.stream || process.stdout,
+      colors: options.colors ?? !!process.stdout.isTTY,
+      reportPath: options.reportPath || './reports'
+    };
+
+    this.reporters = [];
+    for (const format of new Set(formats)) {
+      const factory = OutputReporterManager.FACTORIES[format];
+      if (!factory) {
+        throw new Error(`Unknown output format: ${format}`);
+      }
+      this.reporters.push(factory(reporterOptions));
+    }
+  }
+
+  public hasReporters(): boolean {
+    return this.reporters.length > 0;
+  }
+
+  public getFormats(): OutputFormat[] {
+    return this.reporters.map(reporter => reporter.format);
+  }
+
+  public runStarted(event: RunStartEvent): void {
+    this.dispatch(reporter => reporter.onRunStart(event));
+  }
+
+  public featureStarted(feature: Feature): void {
+    this.dispatch(reporter => reporter.onFeatureStart(feature));
+  }
+
+  /**
+   * Report a finished scenario, locating the failing step line for annotations
+   */
+  public scenarioEnded(feature: Feature, scenario: Scenario, result: ScenarioResult): void {
+    const file = feature.uri || feature.file || scenario.featureFile || feature.name;
+    const failedStep = result.steps?.find(step => step.status === 'failed');
+    const event = {
+      feature,
+      scenario,
+      result,
+      file: (path.isAbsolute(file) ? path.relative(process.cwd(), file) : file).replace(/\\/g, '/'),
+      line: failedStep?.line || scenario.line || result.metadata?.['line'] || feature.line || 1
+    };
+    this.dispatch(reporter => reporter.onScenarioEnd(event));
+  }
+
+  public featureEnded(feature: Feature, status: string, duration: number): void {
+    this.dispatch(reporter => reporter.onFeatureEnd({ feature, status, duration }));
+  }
+
+  public async runEnded(result: ExecutionResult): Promise<void> {
+    for (const reporter of this.reporters) {
+      try {
+        await reporter.onRunEnd(result);
+      } catch (error) {
+        OutputReporterManager.logger.error(`Output reporter ${reporter.format} failed`, error as Error);
+      }
+    }
+  }
+
+  private dispatch(handler: (reporter: OutputReporter) => void): void {
+    for (const reporter of this.reporters) {
+      try {
+        handler(reporter);
+      } catch (error) {
+        OutputReporterManager.logger.error(`Output reporter ${reporter.format} failed`, error as Error);
+      }
+    }
+  }
+}
@@ -0,0 +1,49 @@
+// src/core/cli/reporters/ProgressReporter.ts
+
+import { ExecutionResult } from '../../../bdd/types/bdd.types';
+import { BaseOutputReporter, RunStartEvent, ScenarioEndEvent } from './OutputReporter';
+
+/**
+* Progress bar redrawn in place on terminals, one progress line per scenario otherwise
+*/
+export class ProgressReporter extends BaseOutputReporter {
+  readonly format = 'progress' as const;
+  private static readonly BAR_WIDTH = 30;
+  private total = 0;
+  private completed = 0;
+  private failed = 0;
+
+  override onRunStart(event: RunStartEvent): void {
+    this.total = event.totalScenarios;
+  }
+
+  override onScenarioEnd(event: ScenarioEndEvent): void {
+    this.completed++;
+    if (this.isFailed(event.result)) {
+      this.failed++;
+    }
+
+    const ratio = this.total > 0 ? Math.min(1, this.completed / this.total) : 1;
+    const filled = Math.round(ratio * ProgressReporter.BAR_WIDTH);
+    const bar = this.paint(this.failed > 0 ? 31 : 32, '█'.repeat(filled)) + '░'.repeat(ProgressReporter.BAR_WIDTH - filled);
+    const line = `[${bar}] ${this.completed}/${this.total} (${Math.round(ratio * 100)}%) ${this.failed} failed`;
+
+    if (this.isTTY()) {
+      this.write(`\r\x1b[2K${line}`);
+    } else {
+      this.writeLine(line);
+    }
+  }
+
+  override onRunEnd(result: ExecutionResult): void {
+    if (this.isTTY()) {
+      this.writeLine();
+    }
+    const { passed, failed, skipped } = result.summary;
+    this.writeLine(`${passed} passed, ${failed} failed, ${skipped} skipped in ${result.duration || 0}ms`);
+  }
+
+  private isTTY(): boolean {
+    return !!(this.options.stream as NodeJS.WriteStream).isTTY;
+  }
+}
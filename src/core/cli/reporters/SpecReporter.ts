@@ -0,0 +1,52 @@
+// src/core/cli/reporters/SpecReporter.ts
+
+import { ExecutionResult, Feature } from '../../../bdd/types/bdd.types';
+import { BaseOutputReporter, ScenarioEndEvent } from './OutputReporter';
+
+/**
+* Hierarchical feature/scenario listing followed by the failure details
+*/
+export class SpecReporter extends BaseOutputReporter {
+  readonly format = 'spec' as const;
+  private readonly failures: ScenarioEndEvent[] = [];
+
+  override onFeatureStart(feature: Feature): void {
+    this.writeLine();
+    this.writeLine(`  ${feature.name}`);
+  }
+
+  override onScenarioEnd(event: ScenarioEndEvent): void {
+    const name = event.result.scenario || event.scenario.name;
+    const duration = this.paint(90, `(${event.result.duration || 0}ms)`);
+
+    if (this.isSkipped(event.result)) {
+      this.writeLine(`    ${this.paint(36, `- ${name}`)}`);
+    } else if (this.isFailed(event.result)) {
+      this.failures.push(event);
+      this.writeLine(`    ${this.paint(31, `${this.failures.length}) ${name}`)} ${duration}`);
+    } else {
+      const retried = event.result.retries ? this.paint(33, ` [retried ${event.result.retries}x]`) : '';
+      this.writeLine(`    ${this.paint(32, '✓')} ${name} ${duration}${retried}`);
+    }
+  }
+
+  override onRunEnd(result: ExecutionResult): void {
+    const { passed, failed, skipped } = result.summary;
+    this.writeLine();
+    this.writeLine(`  ${this.paint(32, `${passed} passing`)} ${this.paint(90, `(${result.duration || 0}ms)`)}`);
+    if (skipped > 0) {
+      this.writeLine(`  ${this.paint(36, `${skipped} pending`)}`);
+    }
+    if (failed > 0) {
+      this.writeLine(`  ${this.paint(31, `${failed} failing`)}`);
+    }
+
+    this.failures.forEach((event, index) => {
+      this.writeLine();
+      this.writeLine(`  ${index + 1}) ${this.title(event)}`);
+      this.writeLine(`     ${this.paint(31, this.errorMessage(event.result))}`);
+      this.writeLine(`     ${this.paint(90, `at ${event.file}:${event.line}`)}`);
+    });
+    this.writeLine();
+  }
+}
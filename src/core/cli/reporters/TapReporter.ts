@@ -0,0 +1,51 @@
+// src/core/cli/reporters/TapReporter.ts
+
+import { ExecutionResult } from '../../../bdd/types/bdd.types';
+import { BaseOutputReporter, RunStartEvent, ScenarioEndEvent } from './OutputReporter';
+
+/**
+* TAP version 13 output, one test point per scenario
+*/
+export class TapReporter extends BaseOutputReporter {
+  readonly format = 'tap' as const;
+  private testNumber = 0;
+
+  override onRunStart(event: RunStartEvent): void {
+    this.writeLine('TAP version 13');
+    this.writeLine(`1..${event.totalScenarios}`);
+  }
+
+  override onScenarioEnd(event: ScenarioEndEvent): void {
+    const description = this.title(event).replace(/#/g, '\\#');
+    this.testNumber++;
+
+    if (this.isSkipped(event.result)) {
+      this.writeLine(`ok ${this.testNumber} - ${description} # SKIP ${event.result.status}`);
+      return;
+    }
+
+    if (!this.isFailed(event.result)) {
+      this.writeLine(`ok ${this.testNumber} - ${description}`);
+      return;
+    }
+
+    this.writeLine(`not ok ${this.testNumber} - ${description}`);
+    this.writeLine('  ---');
+    this.writeLine(`  message: ${JSON.stringify(this.errorMessage(event.result))}`);
+    this.writeLine(`  at: ${JSON.stringify(`${event.file}:${event.line}`)}`);
+    this.writeLine(`  duration_ms: ${event.result.duration || 0}`);
+    const stack = this.errorStack(event.result);
+    if (stack) {
+      this.writeLine('  stack: |-');
+      stack.split('\n').forEach(line => this.writeLine(`    ${line}`));
+    }
+    this.writeLine('  ...');
+  }
+
+  override onRunEnd(result: ExecutionResult): void {
+    this.writeLine(`# tests ${this.testNumber}`);
+    this.writeLine(`# pass ${result.summary.passed}`);
+    this.writeLine(`# fail ${result.summary.failed}`);
+    this.writeLine(`# skip ${result.summary.skipped}`);
+  }
+}
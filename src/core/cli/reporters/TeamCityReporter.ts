@@ -0,0 +1,69 @@
+// src/core/cli/reporters/TeamCityReporter.ts
+
+import { Feature } from '../../../bdd/types/bdd.types';
+import { BaseOutputReporter, FeatureEndEvent, ScenarioEndEvent } from './OutputReporter';
+
+/**
+* TeamCity service messages, features map to suites and scenarios to tests
+*
+* Scenarios are reported when they finish, with the measured duration, so the
+* output stays consistent when features run in parallel workers.
+*/
+export class TeamCityReporter extends BaseOutputReporter {
+  readonly format = 'teamcity' as const;
+
+  override onFeatureStart(feature: Feature): void {
+    this.message('testSuiteStarted', {
+      name: feature.name,
+      flowId: this.flowId(feature),
+      locationHint: `file://${feature.uri || ''}`
+    });
+  }
+
+  override onScenarioEnd(event: ScenarioEndEvent): void {
+    const name = event.result.scenario || event.scenario.name;
+    const base = { name, flowId: this.flowId(event.feature) };
+
+    this.message('testStarted', { ...base, locationHint: `file://${event.file}:${event.line}` });
+
+    if (this.isSkipped(event.result)) {
+      this.message('testIgnored', { ...base, message: event.result.status });
+    } else if (this.isFailed(event.result)) {
+      this.message('testFailed', {
+        ...base,
+        message: this.errorMessage(event.result),
+        details: this.errorStack(event.result)
+      });
+    }
+
+    this.message('testFinished', { ...base, duration: String(event.result.duration || 0) });
+  }
+
+  override onFeatureEnd(event: FeatureEndEvent): void {
+    this.message('testSuiteFinished', { name: event.feature.name, flowId: this.flowId(event.feature) });
+  }
+
+  /**
+   * Suite and test messages of a feature share one flow, so parallel features nest correctly
+   */
+  private flowId(feature: Feature): string {
+    return feature.uri || feature.name;
+  }
+
+  private message(type: string, attributes: Record<string, string>): void {
+    const values = Object.entries(attributes)
+      .map(([key, value]) => `${key}='${this.escape(value)}'`)
+      .join(' ');
+    this.writeLine(`##teamcity[${type} ${values}]`);
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/\|/g, '||')
+      .replace(/'/g, "|'")
+      .replace(/\n/g, '|n')
+      .replace(/\r/g, '|r')
+      .replace(/\[/g, '|[')
+      .replace(/\]/g, '|]');
+  }
+}
@@ -389,10 +389,10 @@ export class ScreenshotManager {
                 };
             }
             
-            // Get raw pixel data
+            // Get raw RGBA pixel data
             const [baselineData, currentData] = await Promise.all([
-                baselineImg.raw().toBuffer(),
-                currentImg.raw().toBuffer()
+                baselineImg.ensureAlpha().raw().toBuffer(),
+                currentImg.ensureAlpha().raw().toBuffer()
             ]);
             
             // Compare pixels
@@ -873,8 +873,25 @@ export class ScreenshotManager {
         const totalPixels = width * height;
         let diffPixels = 0;
         const diffMask = Buffer.alloc(totalPixels * 4);
+        const ignoreRegions = options.ignoreRegions || [];
         
         for (let i = 0; i < totalPixels * 4; i += 4) {
+            if (ignoreRegions.length > 0) {
+                const x = (i / 4) % width;
+                const y = Math.floor(i / 4 / width);
+                if (ignoreRegions.some(region =>
+                    x >= region.x && x < region.x + region.width &&
+                    y >= region.y && y < region.y + region.height
+                )) {
+                    // Ignored pixels are greyed out in the diff
+                    diffMask[i] = 128;
+                    diffMask[i + 1] = 128;
+                    diffMask[i + 2] = 128;
+                    diffMask[i + 3] = 255;
+                    continue;
+                }
+            }
+            
             const baseR = baseline[i] ?? 0;
             const baseG = baseline[i + 1] ?? 0;
             const baseB = baseline[i + 2] ?? 0;
@@ -909,9 +926,10 @@ export class ScreenshotManager {
         }
         
         const difference = (diffPixels / totalPixels) * 100;
+        const maxDiffPixelRatio = options.maxDiffPixelRatio ?? options.threshold;
         
         const result: ScreenshotDiff = {
-            identical: difference <= options.threshold * 100,
+            identical: difference <= maxDiffPixelRatio * 100,
             diffPercentage: difference,
             diffPixels,
             totalPixels
@@ -935,12 +953,11 @@ export class ScreenshotManager {
         _baseline: Buffer,
         _current: Buffer,
         diffMask: Buffer,
-        _width: number,
-        _height: number
+        width: number,
+        height: number
     ): Promise<Buffer> {
-        // Since we don't have sharp, return the diffMask as is
-        // In production, you would implement actual diff image generation
-        return diffMask;
+        // Encode the raw RGBA diff mask so it can be saved and shown as a PNG
+        return this.sharp(diffMask, { raw: { width, height, channels: 4 } }).png().toBuffer();
     }
     
     private sanitizeFileName(name: string): string {
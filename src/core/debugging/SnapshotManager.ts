@@ -0,0 +1,218 @@
+// src/core/debugging/SnapshotManager.ts
+
+import { Page, Locator } from 'playwright';
+import * as path from 'path';
+import * as fs from 'fs';
+import { Logger } from '../utils/Logger';
+import { ActionLogger } from '../logging/ActionLogger';
+import { FileUtils } from '../utils/FileUtils';
+import { ConfigurationManager } from '../configuration/ConfigurationManager';
+import { ScreenshotManager } from './ScreenshotManager';
+import { SnapshotOptions, SnapshotResult } from './types/debug.types';
+import { VisualDiff } from '../../reporting/types/reporting.types';
+
+/**
+ * Visual regression snapshots with per browser and per viewport baselines
+ *
+ * Baselines are stored under SNAPSHOT_PATH_TEMPLATE, which supports the
+ * {snapshotDir}, {browser}, {viewport}, {platform}, {name} and {ext} tokens.
+ * Running with --update-snapshots rewrites baselines instead of comparing.
+ */
+export class SnapshotManager {
+    private static instance: SnapshotManager;
+    private static readonly DEFAULT_PATH_TEMPLATE = '{snapshotDir}/{browser}/{viewport}/{name}{ext}';
+    private logger: Logger;
+    private results: SnapshotResult[] = [];
+
+    private constructor() {
+        this.logger = Logger.getInstance('SnapshotManager');
+    }
+
+    static getInstance(): SnapshotManager {
+        if (!SnapshotManager.instance) {
+            SnapshotManager.instance = new SnapshotManager();
+        }
+        return SnapshotManager.instance;
+    }
+
+    /**
+     * Whether baselines are being rewritten (--update-snapshots)
+     */
+    isUpdateMode(): boolean {
+        return ConfigurationManager.getBoolean('UPDATE_SNAPSHOTS', false);
+    }
+
+    /**
+     * Compare the page against its baseline
+     */
+    async matchPageSnapshot(page: Page, name: string, options: SnapshotOptions = {}): Promise<SnapshotResult> {
+        const screenshot = await page.screenshot({
+            fullPage: options.fullPage ?? ConfigurationManager.getBoolean('SNAPSHOT_FULL_PAGE', false),
+            animations: 'disabled',
+            caret: 'hide',
+            mask: this.getMaskLocators(page, options.mask),
+            maskColor: ConfigurationManager.get('SNAPSHOT_MASK_COLOR', 'magenta')
+        });
+
+        return this.matchSnapshot(page, name, screenshot, options);
+    }
+
+    /**
+     * Compare a single element against its baseline
+     */
+    async matchElementSnapshot(locator: Locator, name: string, options: SnapshotOptions = {}): Promise<SnapshotResult> {
+        const page = locator.page();
+        const screenshot = await locator.screenshot({
+            animations: 'disabled',
+            caret: 'hide',
+            mask: this.getMaskLocators(page, options.mask),
+            maskColor: ConfigurationManager.get('SNAPSHOT_MASK_COLOR', 'magenta')
+        });
+
+        return this.matchSnapshot(page, name, screenshot, options);
+    }
+
+    /**
+     * Resolve the baseline file for a snapshot
+     */
+    resolveBaselinePath(name: string, browser: string, viewport: string): string {
+        const template = ConfigurationManager.get('SNAPSHOT_PATH_TEMPLATE', SnapshotManager.DEFAULT_PATH_TEMPLATE);
+        const snapshotDir = ConfigurationManager.get('SNAPSHOT_DIR', './snapshots');
+
+        const resolved = template
+            .replace(/\{snapshotDir\}/g, snapshotDir)
+            .replace(/\{browser\}/g, browser)
+            .replace(/\{viewport\}/g, viewport)
+            .replace(/\{platform\}/g, process.platform)
+            .replace(/\{name\}/g, this.sanitizeName(name))
+            .replace(/\{ext\}/g, '.png');
+
+        return path.resolve(resolved);
+    }
+
+    getResults(): SnapshotResult[] {
+        return [...this.results];
+    }
+
+    clearResults(): void {
+        this.results = [];
+    }
+
+    /**
+     * Comparison results for the visual snapshot section of the report
+     */
+    getVisualDiffs(): VisualDiff[] {
+        return this.results.map(result => ({
+            snapshotName: result.name,
+            status: result.status,
+            baselinePath: result.baselinePath,
+            actualPath: result.actualPath,
+            browser: result.browser,
+            viewport: result.viewport,
+            ...(result.diffPath && { diffPath: result.diffPath }),
+            ...(result.diffPercentage !== undefined && { diffPercentage: result.diffPercentage }),
+            ...(result.diffPixels !== undefined && { diffPixels: result.diffPixels }),
+            ...(result.totalPixels !== undefined && { totalPixels: result.totalPixels })
+        }));
+    }
+
+    private async matchSnapshot(
+        page: Page,
+        name: string,
+        actual: Buffer,
+        options: SnapshotOptions
+    ): Promise<SnapshotResult> {
+        const browser = this.getBrowserName(page);
+        const viewport = this.getViewportName(page);
+        const baselinePath = this.resolveBaselinePath(name, browser, viewport);
+        const outputDir = path.resolve(ConfigurationManager.get('SNAPSHOT_OUTPUT_DIR', './reports/snapshots'), browser, viewport);
+        const fileName = this.sanitizeName(name);
+        const actualPath = path.join(outputDir, `${fileName}-actual.png`);
+
+        await FileUtils.writeFile(actualPath, actual);
+
+        const result: SnapshotResult = {
+            name,
+            status: 'passed',
+            browser,
+            viewport,
+            baselinePath,
+            actualPath,
+            timestamp: new Date()
+        };
+        if (options.scenarioId) {
+            result.scenarioId = options.scenarioId;
+        }
+
+        const baselineExists = await FileUtils.exists(baselinePath);
+
+        if (this.isUpdateMode() || !baselineExists) {
+            if (!this.isUpdateMode() && !ConfigurationManager.getBoolean('SNAPSHOT_CREATE_MISSING', true)) {
+                result.status = 'failed';
+                result.message = `Baseline missing: ${baselinePath}. Run with --update-snapshots to create it`;
+            } else {
+                await FileUtils.writeFile(baselinePath, actual);
+                result.status = baselineExists ? 'updated' : 'created';
+                this.logger.info(`Baseline ${result.status} for snapshot ${name}: ${baselinePath}`);
+            }
+        } else {
+            const baseline = await fs.promises.readFile(baselinePath);
+            const diff = await ScreenshotManager.getInstance().compareScreenshots(baseline, actual, {
+                threshold: options.threshold ?? ConfigurationManager.getFloat('SNAPSHOT_THRESHOLD', 0.1),
+                maxDiffPixelRatio: options.maxDiffPixelRatio ?? ConfigurationManager.getFloat('SNAPSHOT_MAX_DIFF_PIXEL_RATIO', 0),
+                generateDiff: true,
+                ...(options.ignoreRegions && { ignoreRegions: options.ignoreRegions })
+            });
+
+            result.diffPercentage = diff.diffPercentage;
+            result.diffPixels = diff.diffPixels;
+            result.totalPixels = diff.totalPixels;
+
+            if (!diff.identical) {
+                result.status = 'failed';
+                result.message = diff.diffPixels < 0 ?
+                    'Snapshot size differs from the baseline' :
+                    `${diff.diffPixels}/${diff.totalPixels} pixels differ (${diff.diffPercentage.toFixed(2)}%)`;
+
+                if (diff.diffImage) {
+                    result.diffPath = path.join(outputDir, `${fileName}-diff.png`);
+                    await FileUtils.writeFile(result.diffPath, diff.diffImage);
+                }
+            }
+        }
+
+        this.results.push(result);
+
+        ActionLogger.logInfo('Visual snapshot compared', {
+            name,
+            status: result.status,
+            browser,
+            viewport,
+            ...(result.diffPercentage !== undefined && { diffPercentage: result.diffPercentage })
+        });
+
+        return result;
+    }
+
+    private getMaskLocators(page: Page, selectors?: string[]): Locator[] {
+        const configured = ConfigurationManager.getArray('SNAPSHOT_MASK_SELECTORS');
+        return [...configured, ...(selectors || [])].map(selector => page.locator(selector));
+    }
+
+    private getBrowserName(page: Page): string {
+        return page.context().browser()?.browserType().name() ||
+            ConfigurationManager.get('DEFAULT_BROWSER', 'chromium');
+    }
+
+    private getViewportName(page: Page): string {
+        const viewport = page.viewportSize();
+        return viewport ? `${viewport.width}x${viewport.height}` : 'default';
+    }
+
+    private sanitizeName(name: string): string {
+        return name
+            .replace(/[^a-zA-Z0-9-_]/g, '-')
+            .replace(/-+/g, '-')
+            .toLowerCase();
+    }
+}
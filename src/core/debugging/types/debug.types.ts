@@ -244,7 +244,8 @@ export interface ScreenshotOptions {
 }
 
 export interface ScreenshotComparison {
-    threshold: number;
+    threshold: number;  // Per pixel color distance, 0-1
+    maxDiffPixelRatio?: number;  // Share of differing pixels still treated as identical, defaults to threshold
     includeAA?: boolean;
     generateDiff?: boolean;
     ignoreRegions?: Array<{
@@ -297,6 +298,36 @@ export interface VisualTestOptions {
     ignoreAntialiasing?: boolean;
 }
 
+export interface SnapshotOptions {
+    fullPage?: boolean;
+    threshold?: number;
+    maxDiffPixelRatio?: number;
+    mask?: string[];  // Selectors painted over before capture
+    ignoreRegions?: Array<{
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+    }>;
+    scenarioId?: string;
+}
+
+export interface SnapshotResult {
+    name: string;
+    status: 'passed' | 'failed' | 'created' | 'updated';
+    browser: string;
+    viewport: string;
+    baselinePath: string;
+    actualPath: string;
+    diffPath?: string;
+    diffPercentage?: number;
+    diffPixels?: number;
+    totalPixels?: number;
+    message?: string;
+    scenarioId?: string;
+    timestamp: Date;
+}
+
 export interface ScreenshotResult {
     path: string;
     buffer: Buffer;
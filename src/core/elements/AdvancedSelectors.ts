@@ -380,23 +380,47 @@ export class AdvancedSelectors {
 
   async resolveShadowSelector(
     page: Page,
-    selector: string
+    selector: string,
+    shadowHost?: string | string[]
   ): Promise<Locator> {
-    // Handle shadow DOM penetration
-    const parts = selector.split('>>>').map(s => s.trim());
-    
-    if (parts.length === 1) {
-      return page.locator(selector);
+    return page.locator(this.getShadowSelector({ locatorValue: selector, ...(shadowHost && { shadowHost }) }));
+  }
+
+  /**
+   * Split a shadow locator into its host chain and the selector inside the innermost host.
+   * Without an explicit shadowHost the locator value itself may carry the chain:
+   * 'app-shell >>> user-card >>> button.save'
+   */
+  parseShadowPath(options: Pick<CSGetElementOptions, 'locatorValue' | 'shadowHost'>): { hosts: string[]; selector: string } {
+    const split = (value: string) => value.split('>>>').map(part => part.trim()).filter(part => part);
+
+    if (options.shadowHost) {
+      const hosts = Array.isArray(options.shadowHost)
+        ? options.shadowHost.map(host => host.trim()).filter(host => host)
+        : split(options.shadowHost);
+      return { hosts, selector: options.locatorValue.trim() };
     }
-    
-    // Build shadow-piercing selector
-    let current = page.locator(parts[0] || '');
-    
-    for (let i = 1; i < parts.length; i++) {
-      current = current.locator(parts[i] || '');
+
+    const parts = split(options.locatorValue);
+    return { hosts: parts.slice(0, -1), selector: parts[parts.length - 1] || '' };
+  }
+
+  /**
+   * Build a Playwright selector chain that scopes each step to the previous shadow host.
+   * CSS and text engines pierce open shadow roots, so every link is searched inside the
+   * host's shadow tree. XPath does not pierce shadow roots and closed roots are unreachable.
+   */
+  getShadowSelector(options: Pick<CSGetElementOptions, 'locatorValue' | 'shadowHost'>): string {
+    const { hosts, selector } = this.parseShadowPath(options);
+
+    if (!selector) {
+      throw new Error(`Shadow locator has no inner selector: ${options.locatorValue}`);
     }
-    
-    return current;
+    if ([...hosts, selector].some(part => part.startsWith('xpath=') || part.startsWith('//'))) {
+      throw new Error(`XPath cannot pierce shadow roots, use CSS for shadow locators: ${options.locatorValue}`);
+    }
+
+    return [...hosts, selector].join(' >> ');
   }
 
   async resolveChainedSelector(
@@ -485,6 +509,8 @@ export class AdvancedSelectors {
           return page.getByAltText(options.locatorValue, { exact: options.exact });
         }
         return page.getByAltText(options.locatorValue);
+      case 'shadow':
+        return page.locator(this.getShadowSelector(options));
       default:
         throw new Error(`Unsupported locator type: ${options.locatorType}`);
     }
@@ -501,6 +527,9 @@ export class AdvancedSelectors {
         return `text="${options.locatorValue}"`;
       case 'testid':
         return `[data-testid="${options.locatorValue}"]`;
+      case 'shadow':
+        // Chained selectors cannot be part of a comma separated union
+        throw new Error('Cannot combine shadow selectors');
       default:
         return options.locatorValue;
     }
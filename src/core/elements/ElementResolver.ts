@@ -47,7 +47,7 @@ export class ElementResolver {
     }
 
     let locator: Locator | null = null;
-    let strategy: LocatorStrategy = 'direct';
+    let strategy: LocatorStrategy = options.locatorType === 'shadow' ? 'shadow' : 'direct';
     let attempts = 0;
     let fallbacksUsed = 0;
 
@@ -165,6 +165,17 @@ export class ElementResolver {
           waitFunctionOptions.timeout = options.waitTimeout;
         }
         
+        // document.querySelector cannot see into shadow roots, wait on the resolved handle instead
+        if (options.locatorType === 'shadow') {
+          const handle = await locator.first().elementHandle(waitFunctionOptions);
+          await element.page.waitForFunction(
+            (el: Element | null) => !!el && !(el as any).disabled,
+            handle,
+            waitFunctionOptions
+          );
+          return locator;
+        }
+        
         await element.page.waitForFunction(
           (selector: string) => {
             const el = document.querySelector(selector);
@@ -234,6 +245,9 @@ export class ElementResolver {
         }
         return page.getByAltText(options.locatorValue);
       
+      case 'shadow':
+        return page.locator(this.advancedSelectors.getShadowSelector(options));
+      
       default:
         throw new Error(`Unknown locator type: ${options.locatorType}`);
     }
@@ -443,6 +457,8 @@ export class ElementResolver {
         return frameLocator.locator(options.locatorValue);
       case 'xpath':
         return frameLocator.locator(`xpath=${options.locatorValue}`);
+      case 'shadow':
+        return frameLocator.locator(this.advancedSelectors.getShadowSelector(options));
       default:
         return frameLocator.locator(options.locatorValue);
     }
@@ -456,7 +472,7 @@ export class ElementResolver {
   private generateCacheKey(element: CSWebElement): string {
     const options = element.options;
     const pageUrl = element.page.url();
-    return `${pageUrl}::${options.locatorType}::${options.locatorValue}`;
+    return `${pageUrl}::${options.locatorType}::${this.getSelector(options)}`;
   }
 
   private getSelector(options: CSGetElementOptions): string {
@@ -467,6 +483,8 @@ export class ElementResolver {
         return options.locatorValue;
       case 'testid':
         return `[data-testid="${options.locatorValue}"]`;
+      case 'shadow':
+        return this.advancedSelectors.getShadowSelector(options);
       default:
         return options.locatorValue;
     }
@@ -16,7 +16,7 @@ export function CSGetElement(options: CSGetElementOptions): PropertyDecorator {
     
     // Store metadata
     const className = target.constructor.name;
-    ElementMetadata.store(className, propertyKey.toString(), options);
+    ElementMetadata.store(className, propertyKey.toString(), options, getDeclaringFile());
     
     // Define the property getter
     const getter = function(this: any) {
@@ -68,6 +68,23 @@ export function CSGetElement(options: CSGetElementOptions): PropertyDecorator {
   };
 }
 
+/**
+ * Source file of the page object applying the decorator, taken from the call stack
+ */
+function getDeclaringFile(): string | undefined {
+  const frames = (new Error().stack || '').split('\n').slice(1);
+  
+  for (const frame of frames) {
+    const match = frame.match(/\(?(?:file:\/\/)?((?:[A-Za-z]:)?[^\s()]+\.[cm]?[jt]s):\d+:\d+\)?$/);
+    const file = match?.[1];
+    if (file && !/CSGetElement|ElementMetadata|node_modules|^node:/.test(file)) {
+      return file;
+    }
+  }
+  
+  return undefined;
+}
+
 function validateOptions(options: CSGetElementOptions, propertyKey: string | symbol): void {
   if (!options) {
     throw new Error(`@CSGetElement options are required for property '${propertyKey.toString()}'`);
@@ -86,7 +103,7 @@ function validateOptions(options: CSGetElementOptions, propertyKey: string | sym
   }
   
   // Validate locator type
-  const validTypes = ['css', 'xpath', 'text', 'role', 'testid', 'label', 'placeholder', 'alt', 'title'];
+  const validTypes = ['css', 'xpath', 'text', 'role', 'testid', 'label', 'placeholder', 'alt', 'title', 'shadow'];
   if (!validTypes.includes(options.locatorType)) {
     throw new Error(
       `Invalid locatorType '${options.locatorType}' for '${propertyKey.toString()}'. ` +
@@ -94,6 +111,10 @@ function validateOptions(options: CSGetElementOptions, propertyKey: string | sym
     );
   }
   
+  if (options.shadowHost !== undefined && options.locatorType !== 'shadow') {
+    throw new Error(`shadowHost requires locatorType 'shadow' for '${propertyKey.toString()}'`);
+  }
+  
   // Validate layout selectors
   if (options.maxDistance !== undefined && options.maxDistance < 0) {
     throw new Error(`maxDistance must be positive for '${propertyKey.toString()}'`);
@@ -236,4 +257,19 @@ export function CSImage(options: Partial<CSGetElementOptions> & { alt: string })
     description: options.description || `Image: ${options.alt}`,
     ...options
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Decorator for elements inside (nested) shadow roots of web components
+ */
+export function CSShadow(options: Partial<CSGetElementOptions> & { host: string | string[]; selector: string }): PropertyDecorator {
+  const { host, selector, ...elementOptions } = options;
+  const hostPath = Array.isArray(host) ? host.join(' >>> ') : host;
+  return CSGetElement({
+    locatorType: 'shadow',
+    locatorValue: selector,
+    shadowHost: host,
+    description: options.description || `${selector} in ${hostPath}`,
+    ...elementOptions
+  });
+}
@@ -4,13 +4,18 @@ import { ActionLogger } from '../../logging/ActionLogger';
 
 export class ElementMetadata {
   private static metadata: Map<string, Map<string, CSGetElementOptions>> = new Map();
+  private static sourceFiles: Map<string, string> = new Map();
   private static readonly version = '1.0.0';
 
-  static store(className: string, propertyName: string, options: CSGetElementOptions): void {
+  static store(className: string, propertyName: string, options: CSGetElementOptions, sourceFile?: string): void {
     if (!this.metadata.has(className)) {
       this.metadata.set(className, new Map());
     }
     
+    if (sourceFile) {
+      this.sourceFiles.set(className, sourceFile);
+    }
+    
     const classMetadata = this.metadata.get(className)!;
     classMetadata.set(propertyName, options);
     
@@ -34,8 +39,35 @@ export class ElementMetadata {
     return new Map(this.metadata);
   }
 
+  /**
+   * File the page object class was declared in, as seen when its decorators ran
+   */
+  static getSourceFile(className: string): string | undefined {
+    return this.sourceFiles.get(className);
+  }
+
+  /**
+   * Find the declaration that owns an options object handed to an element
+   */
+  static findDeclaration(options: CSGetElementOptions): {
+    className: string;
+    propertyName: string;
+    options: CSGetElementOptions;
+  } | undefined {
+    for (const [className, classMetadata] of this.metadata) {
+      for (const [propertyName, declared] of classMetadata) {
+        if (declared === options) {
+          return { className, propertyName, options: declared };
+        }
+      }
+    }
+    
+    return undefined;
+  }
+
   static clear(): void {
     this.metadata.clear();
+    this.sourceFiles.clear();
     ActionLogger.logDebug('Element metadata cleared');
   }
 
@@ -11,7 +11,7 @@ export interface BoundingBox {
 
 export interface CSGetElementOptions {
   // Basic locators
-  locatorType: 'css' | 'xpath' | 'text' | 'role' | 'testid' | 'label' | 'placeholder' | 'alt' | 'title';
+  locatorType: 'css' | 'xpath' | 'text' | 'role' | 'testid' | 'label' | 'placeholder' | 'alt' | 'title' | 'shadow';
   locatorValue: string;
   description: string;
   
@@ -60,6 +60,9 @@ export interface CSGetElementOptions {
   // Frame/Shadow DOM
   iframe?: string | number;
   shadowRoot?: boolean;
+  // Shadow host chain for the 'shadow' locator type, outermost host first.
+  // Either an array or a '>>>' separated string, e.g. 'app-shell >>> user-card'
+  shadowHost?: string | string[];
   
   // Validation
   strict?: boolean;  // Fail if multiple elements match
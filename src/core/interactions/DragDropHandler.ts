@@ -1,6 +1,7 @@
 // src/core/interactions/DragDropHandler.ts
 import { Page, Locator } from 'playwright';
 import { CSWebElement } from '../elements/CSWebElement';
+import { AdvancedSelectors } from '../elements/AdvancedSelectors';
 import { 
   DragOptions, 
   DragStep, 
@@ -416,6 +417,8 @@ export class DragDropHandler {
         return page.getByText(options.locatorValue);
       case 'testid':
         return page.getByTestId(options.locatorValue);
+      case 'shadow':
+        return page.locator(AdvancedSelectors.getInstance().getShadowSelector(options));
       default:
         return page.locator(options.locatorValue);
     }
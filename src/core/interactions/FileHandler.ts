@@ -1,6 +1,7 @@
 // src/core/interactions/FileHandler.ts
 import { Page, Download } from 'playwright';
 import { CSWebElement } from '../elements/CSWebElement';
+import { AdvancedSelectors } from '../elements/AdvancedSelectors';
 import { FileUploadOptions, DownloadOptions } from './types/interaction.types';
 import { ActionLogger } from '../logging/ActionLogger';
 import { FileUtils } from '../utils/FileUtils';
@@ -549,6 +550,8 @@ export class FileHandler {
         return page.getByTitle(locatorValue);
       case 'role':
         return page.getByRole(locatorValue as any);
+      case 'shadow':
+        return page.locator(AdvancedSelectors.getInstance().getShadowSelector(element.options));
       default:
         return page.locator(locatorValue);
     }
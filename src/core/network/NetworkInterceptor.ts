@@ -1,5 +1,7 @@
 // src/core/network/NetworkInterceptor.ts
 import { Page, Route, Request, APIResponse } from 'playwright';
+import * as fs from 'fs';
+import * as path from 'path';
 import { 
   URLPattern, 
   RequestHandler, 
@@ -9,9 +11,17 @@ import {
   InterceptRule,
   RequestModification,
   NetworkThrottle,
-  ResourceType
+  ResourceType,
+  HAR,
+  HAREntry,
+  HARMatchField,
+  HARReplayOptions,
+  HARReplayStats
 } from './types/network.types';
+import { HARRecorder } from './HARRecorder';
 import { ActionLogger } from '../logging/ActionLogger';
+import { CSTracer } from '../telemetry/CSTracer';
+import { TraceSpan } from '../telemetry/TraceSpan';
 
 export class NetworkInterceptor {
   private page: Page;
@@ -23,6 +33,9 @@ export class NetworkInterceptor {
   private isOfflineMode: boolean = false;
   private throttleSettings: NetworkThrottle | null = null;
   private blockedPatterns: Set<string> = new Set();
+  private harReplayKey: string | null = null;
+  private harReplayHandler: ((route: Route, request: Request) => Promise<void>) | null = null;
+  private harReplayStats: HARReplayStats | null = null;
 
   constructor(page: Page) {
     this.page = page;
@@ -505,6 +518,9 @@ export class NetworkInterceptor {
       this.blockedPatterns.clear();
       this.isOfflineMode = false;
       this.throttleSettings = null;
+      this.harReplayKey = null;
+      this.harReplayHandler = null;
+      this.harReplayStats = null;
 
       ActionLogger.logInfo('clearInterceptors.complete');
     } catch (error) {
@@ -594,6 +610,198 @@ export class NetworkInterceptor {
     }
   }
 
+  /**
+   * Replay recorded responses from a HAR file or HAR object
+   *
+   * Requests outside the URL filter go through the other routes untouched. Requests
+   * inside it that have no recorded entry are handled by the unmatched policy.
+   */
+  async replayFromHAR(
+    har: HAR | string,
+    options: HARReplayOptions = {}
+  ): Promise<void> {
+    const harPath = typeof har === 'string' ? path.resolve(har) : null;
+    const matchOn: HARMatchField[] = options.matchOn || ['method', 'url', 'query'];
+    const ignoreQueryParams = new Set(options.ignoreQueryParams || []);
+    const unmatchedPolicy = options.unmatched || 'abort';
+    const sequential = options.sequential !== false;
+    const urlFilters = options.urlFilter === undefined ? [] :
+      Array.isArray(options.urlFilter) ? options.urlFilter : [options.urlFilter];
+
+    try {
+      ActionLogger.logInfo('replayFromHAR', {
+        har: harPath || 'inline',
+        matchOn,
+        unmatched: unmatchedPolicy
+      });
+
+      if (this.harReplayHandler) {
+        await this.stopHARReplay();
+      }
+
+      const harData = harPath ? await new HARRecorder().loadHAR(harPath) : har as HAR;
+      const harDir = harPath ? path.dirname(harPath) : process.cwd();
+
+      // Entries without a status were aborted while recording and cannot be served
+      const entries = harData.log.entries.filter(entry => entry.response && entry.response.status > 0);
+      const servedEntries = new Set<HAREntry>();
+      const stats: HARReplayStats = { entries: entries.length, served: 0, continued: 0, unmatched: [] };
+
+      const routeHandler = async (route: Route, request: Request) => {
+        const url = request.url();
+
+        if (urlFilters.length > 0 && !urlFilters.some(filter =>
+          typeof filter === 'string' ? url.includes(filter) : filter.test(url)
+        )) {
+          await route.fallback();
+          return;
+        }
+
+        const candidates = entries.filter(entry =>
+          this.matchesHAREntry(entry, request, matchOn, ignoreQueryParams)
+        );
+
+        if (candidates.length === 0) {
+          stats.unmatched.push({ method: request.method(), url });
+          ActionLogger.logWarn('replayFromHAR.unmatched', {
+            method: request.method(),
+            url,
+            policy: unmatchedPolicy
+          });
+
+          if (unmatchedPolicy === 'continue') {
+            stats.continued++;
+            await route.fallback();
+          } else if (unmatchedPolicy === 'notFound') {
+            await route.fulfill({
+              status: 404,
+              contentType: 'text/plain',
+              body: `No HAR entry recorded for ${request.method()} ${url}`
+            });
+          } else {
+            await route.abort('failed');
+          }
+          return;
+        }
+
+        // Repeated calls walk through the recorded responses, then keep serving the last one
+        const entry = sequential ?
+          candidates.find(candidate => !servedEntries.has(candidate)) || candidates[candidates.length - 1]! :
+          candidates[0]!;
+        servedEntries.add(entry);
+
+        try {
+          await this.fulfillFromHAREntry(route, entry, harDir);
+          stats.served++;
+          this.trackRequest(this.harReplayKey!, request);
+        } catch (error) {
+          ActionLogger.logError('NetworkInterceptor.replayFromHAR.handler', error as Error);
+          await route.abort('failed');
+        }
+      };
+
+      this.harReplayKey = `har:${harPath || 'inline'}`;
+      this.harReplayHandler = routeHandler;
+      this.harReplayStats = stats;
+
+      await this.page.route('**/*', routeHandler);
+
+      this.interceptRules.set(this.harReplayKey, {
+        pattern: {},
+        type: 'request',
+        handler: routeHandler,
+        enabled: true,
+        priority: 0
+      });
+      this.activeRoutes.add(this.harReplayKey);
+
+      ActionLogger.logInfo('replayFromHAR.registered', {
+        har: harPath || 'inline',
+        entries: entries.length
+      });
+    } catch (error) {
+      ActionLogger.logError('NetworkInterceptor.replayFromHAR', error as Error);
+      throw new Error(`Failed to replay HAR: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Stop serving responses from HAR, keeping the replay statistics
+   */
+  async stopHARReplay(): Promise<void> {
+    if (!this.harReplayHandler || !this.harReplayKey) {
+      return;
+    }
+
+    await this.page.unroute('**/*', this.harReplayHandler);
+
+    this.interceptRules.delete(this.harReplayKey);
+    this.activeRoutes.delete(this.harReplayKey);
+    this.harReplayHandler = null;
+
+    ActionLogger.logInfo('stopHARReplay', {
+      served: this.harReplayStats?.served || 0,
+      unmatched: this.harReplayStats?.unmatched.length || 0
+    });
+  }
+
+  /**
+   * Add the W3C traceparent header of the current span to requests
+   *
+   * The span is looked up per request, so backend spans nest under the step that
+   * caused the request. Routes registered later still handle the request first.
+   */
+  async propagateTraceContext(
+    getSpan: () => TraceSpan | null | undefined,
+    urlFilter: string | RegExp | Array<string | RegExp> = []
+  ): Promise<void> {
+    const urlFilters = Array.isArray(urlFilter) ? urlFilter : [urlFilter];
+    const patternKey = 'traceparent';
+
+    try {
+      const routeHandler = async (route: Route, request: Request) => {
+        const span = getSpan();
+        const url = request.url();
+
+        if (!span?.isRecording() || (urlFilters.length > 0 && !urlFilters.some(filter =>
+          typeof filter === 'string' ? url.includes(filter) : filter.test(url)
+        ))) {
+          await route.fallback();
+          return;
+        }
+
+        await route.fallback({
+          headers: CSTracer.getInstance().inject({ ...request.headers() }, span)
+        });
+      };
+
+      await this.page.route('**/*', routeHandler);
+
+      this.interceptRules.set(patternKey, {
+        pattern: {},
+        type: 'request',
+        handler: routeHandler,
+        enabled: true,
+        priority: 0
+      });
+      this.activeRoutes.add(patternKey);
+
+      ActionLogger.logInfo('propagateTraceContext.registered', {
+        urlFilter: urlFilters.map(filter => filter.toString())
+      });
+    } catch (error) {
+      ActionLogger.logError('NetworkInterceptor.propagateTraceContext', error as Error);
+      throw new Error(`Failed to propagate trace context: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get statistics of the current or last HAR replay
+   */
+  getHARReplayStats(): HARReplayStats | null {
+    return this.harReplayStats;
+  }
+
   /**
    * Get network statistics
    */
@@ -661,6 +869,115 @@ export class NetworkInterceptor {
     return true;
   }
 
+  private matchesHAREntry(
+    entry: HAREntry,
+    request: Request,
+    matchOn: HARMatchField[],
+    ignoreQueryParams: Set<string>
+  ): boolean {
+    let recordedUrl: URL;
+    let actualUrl: URL;
+    try {
+      recordedUrl = new URL(entry.request.url);
+      actualUrl = new URL(request.url());
+    } catch {
+      return false;
+    }
+
+    if (matchOn.includes('method') &&
+        entry.request.method.toUpperCase() !== request.method().toUpperCase()) {
+      return false;
+    }
+
+    if (matchOn.includes('url') &&
+        recordedUrl.origin + recordedUrl.pathname !== actualUrl.origin + actualUrl.pathname) {
+      return false;
+    }
+
+    if (matchOn.includes('query') &&
+        this.normalizeQuery(recordedUrl.searchParams, ignoreQueryParams) !==
+        this.normalizeQuery(actualUrl.searchParams, ignoreQueryParams)) {
+      return false;
+    }
+
+    if (matchOn.includes('body') &&
+        this.normalizeBody(entry.request.postData?.text) !== this.normalizeBody(request.postData())) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private normalizeQuery(params: URLSearchParams, ignored: Set<string>): string {
+    return Array.from(params.entries())
+      .filter(([name]) => !ignored.has(name))
+      .map(([name, value]) => `${name}=${value}`)
+      .sort()
+      .join('&');
+  }
+
+  private normalizeBody(body: string | null | undefined): string {
+    if (!body) {
+      return '';
+    }
+
+    // JSON bodies compare by content, independent of key order and whitespace
+    const sortKeys = (value: any): any => {
+      if (Array.isArray(value)) {
+        return value.map(sortKeys);
+      }
+      if (value && typeof value === 'object') {
+        return Object.keys(value).sort().reduce((sorted, key) => {
+          sorted[key] = sortKeys(value[key]);
+          return sorted;
+        }, {} as Record<string, any>);
+      }
+      return value;
+    };
+
+    try {
+      return JSON.stringify(sortKeys(JSON.parse(body)));
+    } catch {
+      return body;
+    }
+  }
+
+  private async fulfillFromHAREntry(route: Route, entry: HAREntry, harDir: string): Promise<void> {
+    const { response } = entry;
+
+    // The body is served decoded, so drop headers describing the original transfer
+    const skippedHeaders = ['content-encoding', 'content-length', 'transfer-encoding'];
+    const headers: Record<string, string> = {};
+    for (const header of response.headers) {
+      const name = header.name.toLowerCase();
+      if (name.startsWith(':') || skippedHeaders.includes(name)) {
+        continue;
+      }
+      headers[name] = name === 'set-cookie' && headers[name] !== undefined ?
+        `${headers[name]}\n${header.value}` :
+        header.value;
+    }
+
+    let body: Buffer | undefined;
+    if (response.content._file) {
+      body = await fs.promises.readFile(path.resolve(harDir, response.content._file));
+    } else if (response.content.text !== undefined) {
+      body = Buffer.from(response.content.text, response.content.encoding === 'base64' ? 'base64' : 'utf8');
+    }
+
+    ActionLogger.logInfo('replayFromHAR.fulfilling', {
+      url: entry.request.url,
+      status: response.status,
+      bodySize: body ? body.length : 0
+    });
+
+    await route.fulfill({
+      status: response.status,
+      headers,
+      ...(body && { body })
+    });
+  }
+
   private trackRequest(pattern: string, request: Request): void {
     // Track in recorded requests
     if (!this.recordedRequests.has(pattern)) {
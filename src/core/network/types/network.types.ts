@@ -237,6 +237,7 @@ export interface HAREntry {
             mimeType: string;
             text?: string;
             encoding?: string;
+            _file?: string;  // Body stored next to the HAR when recorded with content 'attach'
         };
         redirectURL: string;
         bodySize: number;
@@ -266,6 +267,29 @@ export interface HAREntry {
     connection?: string;
 }
 
+// HAR replay types
+export type HARMatchField = 'method' | 'url' | 'query' | 'body';
+
+export type HARUnmatchedPolicy = 'abort' | 'continue' | 'notFound';
+
+export interface HARReplayOptions {
+    urlFilter?: string | RegExp | Array<string | RegExp>;  // Only matching requests are replayed
+    matchOn?: HARMatchField[];
+    ignoreQueryParams?: string[];  // e.g. cache busters
+    unmatched?: HARUnmatchedPolicy;
+    sequential?: boolean;  // Serve repeated requests in recorded order
+}
+
+export interface HARReplayStats {
+    entries: number;
+    served: number;
+    continued: number;
+    unmatched: Array<{
+        method: string;
+        url: string;
+    }>;
+}
+
 // HAR analysis types
 export interface HARAnalysis {
     summary: {
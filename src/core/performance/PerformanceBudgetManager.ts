@@ -0,0 +1,508 @@
+// src/core/performance/PerformanceBudgetManager.ts
+
+import { CDPSession, Page } from 'playwright';
+import { Logger } from '../utils/Logger';
+import { ActionLogger } from '../logging/ActionLogger';
+import { ConfigurationManager } from '../configuration/ConfigurationManager';
+import { RunHistoryStore } from '../../reporting/core/RunHistoryStore';
+import { THROTTLING_PRESETS } from './ThrottlingPresets';
+import {
+    PagePerformanceMetrics,
+    PerformanceBudgetProfile,
+    PerformanceMetricName,
+    ThrottlingPreset
+} from './types/performance.types';
+import {
+    PerformanceBudgetCheck,
+    PerformanceBudgetHistory,
+    PerformanceBudgetResult,
+    PerformanceBudgetSeverity,
+    RunHistoryEntry
+} from '../../reporting/types/reporting.types';
+
+const METRIC_UNITS: Record<PerformanceMetricName, string> = {
+    FCP: 'ms',
+    LCP: 'ms',
+    CLS: '',
+    TTFB: 'ms',
+    TBT: 'ms',
+    domContentLoaded: 'ms',
+    pageLoad: 'ms',
+    transferSize: 'bytes',
+    requests: 'requests'
+};
+
+/**
+ * Web performance budgets asserted against the current page
+ *
+ * Profiles come from configuration:
+ *   PERFORMANCE_BUDGET_<NAME>=LCP:2500,CLS:0.1
+ *   PERFORMANCE_BUDGET_<NAME>_ROUTES=/checkout*,/cart
+ *   PERFORMANCE_BUDGET_<NAME>_SEVERITY=warn
+ *   PERFORMANCE_BUDGET_<NAME>_THROTTLING=mobile
+ * The DEFAULT profile applies to pages no other profile's routes match.
+ * Keys whose value is not a <metric>:<value> list are not profiles and are skipped.
+ */
+export class PerformanceBudgetManager {
+    static readonly PROFILE_PREFIX = 'PERFORMANCE_BUDGET_';
+    static readonly DEFAULT_PROFILE = 'default';
+    /** Profile name recorded for single-metric budgets asserted in steps */
+    static readonly INLINE_PROFILE = 'inline';
+
+    private static readonly PROFILE_SETTINGS = ['ROUTES', 'SEVERITY', 'THROTTLING'];
+
+    private static instance: PerformanceBudgetManager;
+    private logger: Logger;
+    private checks: PerformanceBudgetCheck[] = [];
+    private sessions: WeakMap<Page, CDPSession> = new WeakMap();
+    private activeThrottling: WeakMap<Page, string> = new WeakMap();
+
+    private constructor() {
+        this.logger = Logger.getInstance('PerformanceBudgetManager');
+    }
+
+    static getInstance(): PerformanceBudgetManager {
+        if (!PerformanceBudgetManager.instance) {
+            PerformanceBudgetManager.instance = new PerformanceBudgetManager();
+        }
+        return PerformanceBudgetManager.instance;
+    }
+
+    /**
+     * Budget profiles defined in configuration
+     */
+    getProfiles(): PerformanceBudgetProfile[] {
+        const profiles = new Map<string, PerformanceBudgetProfile>();
+
+        for (const [key, value] of Object.entries(ConfigurationManager.getByPrefix(PerformanceBudgetManager.PROFILE_PREFIX))) {
+            const rest = key.substring(PerformanceBudgetManager.PROFILE_PREFIX.length);
+            if (rest === 'SEVERITY' || rest === 'HISTORY_RUNS') {
+                continue;
+            }
+
+            const setting = PerformanceBudgetManager.PROFILE_SETTINGS.find(s => rest.endsWith(`_${s}`));
+            if (!setting && !value.includes(':')) {
+                // Single-metric keys like PERFORMANCE_BUDGET_FCP=1500 predate profiles
+                this.logger.debug(`Skipping ${key}, not a <metric>:<value> budget profile`);
+                continue;
+            }
+            const name = this.normalizeProfileName(setting ? rest.slice(0, -(setting.length + 1)) : rest);
+            const profile = profiles.get(name) || { name, budgets: {}, routes: [] };
+            profiles.set(name, profile);
+
+            if (!setting) {
+                profile.budgets = this.parseBudgets(name, value);
+            } else if (setting === 'ROUTES') {
+                profile.routes = value.split(',').map(route => route.trim()).filter(route => route.length > 0);
+            } else if (setting === 'SEVERITY') {
+                if (value.trim()) {
+                    profile.severity = this.parseSeverity(value);
+                }
+            } else if (value.trim()) {
+                profile.throttling = this.getThrottlingPreset(value.trim()).name;
+            }
+        }
+
+        return Array.from(profiles.values()).filter(profile => Object.keys(profile.budgets).length > 0);
+    }
+
+    /**
+     * Profile by name, case and `-`/`_` insensitive
+     */
+    getProfile(name: string): PerformanceBudgetProfile {
+        const normalized = this.normalizeProfileName(name);
+        const profiles = this.getProfiles();
+        const profile = profiles.find(p => p.name === normalized);
+        if (!profile) {
+            throw new Error(
+                `Unknown performance budget profile "${name}". ` +
+                `Available: ${profiles.map(p => p.name).join(', ') || 'none configured'}`
+            );
+        }
+        return profile;
+    }
+
+    /**
+     * First profile whose routes match the URL, falling back to the default profile
+     */
+    getProfileForUrl(url: string): PerformanceBudgetProfile {
+        const profiles = this.getProfiles();
+        const profile = profiles.find(p => p.routes.some(route => this.routeMatches(route, url))) ||
+            profiles.find(p => p.name === PerformanceBudgetManager.DEFAULT_PROFILE);
+        if (!profile) {
+            throw new Error(`No performance budget profile matches ${url} and no default profile is configured`);
+        }
+        return profile;
+    }
+
+    getThrottlingPreset(name: string): ThrottlingPreset {
+        const preset = THROTTLING_PRESETS.find(p => p.name === name.toLowerCase());
+        if (!preset) {
+            throw new Error(`Unknown throttling preset "${name}". Available: ${THROTTLING_PRESETS.map(p => p.name).join(', ')}`);
+        }
+        return preset;
+    }
+
+    /**
+     * Emulate CPU and network conditions for the page (Chromium only)
+     */
+    async throttle(page: Page, presetName: string): Promise<void> {
+        const preset = this.getThrottlingPreset(presetName);
+        const session = await this.getSession(page);
+
+        await session.send('Emulation.setCPUThrottlingRate', { rate: preset.cpuSlowdown });
+        await session.send('Network.emulateNetworkConditions', {
+            offline: false,
+            latency: preset.network?.latency ?? 0,
+            downloadThroughput: preset.network?.downloadThroughput ?? -1,
+            uploadThroughput: preset.network?.uploadThroughput ?? -1
+        });
+
+        if (preset.name === 'none') {
+            this.activeThrottling.delete(page);
+        } else {
+            this.activeThrottling.set(page, preset.name);
+        }
+
+        ActionLogger.logInfo('Performance throttling applied', { preset: preset.name, cpuSlowdown: preset.cpuSlowdown });
+    }
+
+    async clearThrottling(page: Page): Promise<void> {
+        if (this.activeThrottling.has(page)) {
+            await this.throttle(page, 'none');
+        }
+    }
+
+    /**
+     * Measure the loaded page
+     */
+    async measure(page: Page): Promise<PagePerformanceMetrics> {
+        const metrics = await page.evaluate(collectPagePerformance);
+        this.logger.debug(`Measured ${page.url()}: ${JSON.stringify(metrics)}`);
+        return metrics;
+    }
+
+    /**
+     * Check the page against a profile, or the profile matching its URL.
+     * Profiles with a throttling preset reload the page under that preset first.
+     */
+    async checkProfile(page: Page, profileName?: string, scenarioId?: string): Promise<PerformanceBudgetCheck> {
+        const profile = profileName ? this.getProfile(profileName) : this.getProfileForUrl(page.url());
+        const current = this.activeThrottling.get(page);
+        let metrics: PagePerformanceMetrics;
+
+        if (profile.throttling && profile.throttling !== current) {
+            await this.throttle(page, profile.throttling);
+            try {
+                await page.reload({ waitUntil: 'load' });
+                metrics = await this.measure(page);
+            } finally {
+                await this.throttle(page, current || 'none');
+            }
+        } else {
+            metrics = await this.measure(page);
+        }
+
+        return this.record(
+            page.url(),
+            profile.name,
+            profile.budgets,
+            metrics,
+            profile.severity || this.getDefaultSeverity(),
+            profile.throttling || current,
+            scenarioId
+        );
+    }
+
+    /**
+     * Check a single metric of the page against a budget
+     */
+    async checkMetric(page: Page, metric: string, budget: number, scenarioId?: string): Promise<PerformanceBudgetCheck> {
+        const name = this.resolveMetric(metric);
+        const metrics = await this.measure(page);
+
+        return this.record(
+            page.url(),
+            PerformanceBudgetManager.INLINE_PROFILE,
+            { [name]: budget },
+            metrics,
+            this.getDefaultSeverity(),
+            this.activeThrottling.get(page),
+            scenarioId
+        );
+    }
+
+    /**
+     * Fail or warn on breached budgets depending on the check severity
+     */
+    enforce(check: PerformanceBudgetCheck): void {
+        if (check.passed) {
+            ActionLogger.logInfo('Performance budget met', {
+                profile: check.profile,
+                url: check.url,
+                metrics: check.results.map(r => `${r.metric}=${this.formatValue(r.value, r.unit)}`)
+            });
+            return;
+        }
+
+        const breaches = check.results
+            .filter(result => !result.passed)
+            .map(r => `  ${r.metric} ${this.formatValue(r.value, r.unit)} exceeds budget ${this.formatValue(r.budget, r.unit)}`)
+            .join('\n');
+        const throttling = check.throttling ? ` (${check.throttling} throttling)` : '';
+        const message = `Performance budget "${check.profile}" exceeded on ${check.url}${throttling}:\n${breaches}`;
+
+        if (check.severity === 'error') {
+            ActionLogger.logError('Performance budget exceeded', new Error(message));
+            throw new Error(message);
+        }
+
+        ActionLogger.logWarn(message, { profile: check.profile, url: check.url });
+    }
+
+    getChecks(): PerformanceBudgetCheck[] {
+        return [...this.checks];
+    }
+
+    clearChecks(): void {
+        this.checks = [];
+    }
+
+    /**
+     * Average of each budgeted metric per profile for the run history
+     */
+    getRunSummary(): Record<string, Record<string, number>> {
+        const totals: Record<string, Record<string, { sum: number; count: number }>> = {};
+
+        for (const check of this.checks) {
+            const profile = totals[check.profile] = totals[check.profile] || {};
+            for (const result of check.results) {
+                const total = profile[result.metric] = profile[result.metric] || { sum: 0, count: 0 };
+                total.sum += result.value;
+                total.count++;
+            }
+        }
+
+        const summary: Record<string, Record<string, number>> = {};
+        for (const [profile, metrics] of Object.entries(totals)) {
+            summary[profile] = {};
+            for (const [metric, total] of Object.entries(metrics)) {
+                summary[profile]![metric] = total.sum / total.count;
+            }
+        }
+        return summary;
+    }
+
+    /**
+     * Budgeted metrics across the recorded runs, for the HTML report
+     */
+    async getHistory(runs?: RunHistoryEntry[]): Promise<PerformanceBudgetHistory[]> {
+        const entries = runs ?? await RunHistoryStore.getInstance().getRuns(
+            ConfigurationManager.getInt('PERFORMANCE_BUDGET_HISTORY_RUNS', 10)
+        );
+
+        // Current budgets: this run's checks first, then the configured profiles
+        const budgets = new Map<string, number>();
+        for (const check of this.checks) {
+            check.results.forEach(result => budgets.set(`${check.profile}:${result.metric}`, result.budget));
+        }
+        for (const profile of this.getProfiles()) {
+            for (const [metric, budget] of Object.entries(profile.budgets)) {
+                const key = `${profile.name}:${metric}`;
+                if (!budgets.has(key) && budget !== undefined) {
+                    budgets.set(key, budget);
+                }
+            }
+        }
+
+        const history = new Map<string, PerformanceBudgetHistory>();
+        for (const run of entries) {
+            for (const [profile, metrics] of Object.entries(run.performance || {})) {
+                for (const [metric, value] of Object.entries(metrics)) {
+                    const key = `${profile}:${metric}`;
+                    const budget = budgets.get(key);
+                    if (budget === undefined) continue;
+
+                    const item = history.get(key) || {
+                        profile,
+                        metric,
+                        budget,
+                        unit: METRIC_UNITS[metric as PerformanceMetricName] ?? '',
+                        values: [],
+                        breaches: 0
+                    };
+                    item.values.push({ executionId: run.executionId, timestamp: run.timestamp, value });
+                    if (value > budget) {
+                        item.breaches++;
+                    }
+                    history.set(key, item);
+                }
+            }
+        }
+
+        return Array.from(history.values());
+    }
+
+    /**
+     * Canonical metric name, case insensitive
+     */
+    resolveMetric(metric: string): PerformanceMetricName {
+        const name = (Object.keys(METRIC_UNITS) as PerformanceMetricName[])
+            .find(m => m.toLowerCase() === metric.trim().toLowerCase());
+        if (!name) {
+            throw new Error(`Unknown performance metric "${metric}". Available: ${Object.keys(METRIC_UNITS).join(', ')}`);
+        }
+        return name;
+    }
+
+    private record(
+        url: string,
+        profile: string,
+        budgets: Partial<Record<PerformanceMetricName, number>>,
+        metrics: PagePerformanceMetrics,
+        severity: PerformanceBudgetSeverity,
+        throttling?: string,
+        scenarioId?: string
+    ): PerformanceBudgetCheck {
+        const results: PerformanceBudgetResult[] = (Object.entries(budgets) as Array<[PerformanceMetricName, number]>)
+            .map(([metric, budget]) => ({
+                metric,
+                value: metrics[metric],
+                budget,
+                unit: METRIC_UNITS[metric],
+                passed: metrics[metric] <= budget
+            }));
+
+        const check: PerformanceBudgetCheck = {
+            profile,
+            url,
+            timestamp: new Date(),
+            severity,
+            results,
+            passed: results.every(result => result.passed)
+        };
+        if (throttling) {
+            check.throttling = throttling;
+        }
+        if (scenarioId) {
+            check.scenarioId = scenarioId;
+        }
+
+        this.checks.push(check);
+        return check;
+    }
+
+    private async getSession(page: Page): Promise<CDPSession> {
+        let session = this.sessions.get(page);
+        if (!session) {
+            const browserName = page.context().browser()?.browserType().name();
+            if (browserName && browserName !== 'chromium') {
+                throw new Error(`Performance throttling requires Chromium, current browser is ${browserName}`);
+            }
+            session = await page.context().newCDPSession(page);
+            await session.send('Network.enable');
+            this.sessions.set(page, session);
+        }
+        return session;
+    }
+
+    private parseBudgets(profile: string, value: string): Partial<Record<PerformanceMetricName, number>> {
+        const budgets: Partial<Record<PerformanceMetricName, number>> = {};
+
+        for (const entry of value.split(',').map(item => item.trim()).filter(item => item.length > 0)) {
+            const [metric, limit] = entry.split(':').map(part => part.trim());
+            const budget = Number(limit);
+            if (!metric || !limit || isNaN(budget)) {
+                throw new Error(`Invalid performance budget "${entry}" in profile ${profile}, expected <metric>:<value>`);
+            }
+            budgets[this.resolveMetric(metric)] = budget;
+        }
+
+        return budgets;
+    }
+
+    private parseSeverity(value: string): PerformanceBudgetSeverity {
+        const severity = value.trim().toLowerCase();
+        if (severity === 'error' || severity === 'fail') return 'error';
+        if (severity === 'warn' || severity === 'warning') return 'warn';
+        throw new Error(`Invalid performance budget severity "${value}", expected error or warn`);
+    }
+
+    private getDefaultSeverity(): PerformanceBudgetSeverity {
+        return this.parseSeverity(ConfigurationManager.get('PERFORMANCE_BUDGET_SEVERITY', 'error'));
+    }
+
+    private normalizeProfileName(name: string): string {
+        return name.trim().toLowerCase().replace(/_/g, '-');
+    }
+
+    /**
+     * Match a route pattern against the URL path, or the full URL for absolute patterns
+     */
+    private routeMatches(pattern: string, url: string): boolean {
+        let target = url;
+        if (!/^[a-z]+:\/\//i.test(pattern)) {
+            try {
+                target = new URL(url).pathname;
+            } catch {
+                // Not an absolute URL, match as is
+            }
+        }
+
+        const regex = new RegExp('^' + pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$');
+        return regex.test(target);
+    }
+
+    private formatValue(value: number, unit: string): string {
+        if (unit === 'ms') return `${Math.round(value)}ms`;
+        if (unit === 'bytes') return `${(value / 1024).toFixed(1)}KB`;
+        if (unit === 'requests') return `${value} requests`;
+        return value.toFixed(3);
+    }
+}
+
+/**
+ * Runs in the page: reads the buffered performance entries of the current document.
+ * Must stay self-contained since it is serialized into the browser.
+ */
+async function collectPagePerformance(): Promise<PagePerformanceMetrics> {
+    const observe = (type: string): Promise<any[]> => new Promise(resolve => {
+        try {
+            const observer = new PerformanceObserver(list => {
+                observer.disconnect();
+                resolve(list.getEntries());
+            });
+            observer.observe({ type, buffered: true } as any);
+        } catch {
+            // Entry type not supported by this browser
+            resolve([]);
+            return;
+        }
+        setTimeout(() => resolve([]), 250);
+    });
+
+    const [lcpEntries, layoutShifts, longTasks] = await Promise.all([
+        observe('largest-contentful-paint'),
+        observe('layout-shift'),
+        observe('longtask')
+    ]);
+
+    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+    const resources = performance.getEntriesByType('resource') as PerformanceResourceTiming[];
+    const fcp = performance.getEntriesByName('first-contentful-paint')[0]?.startTime || 0;
+    const lcp = lcpEntries[lcpEntries.length - 1];
+
+    return {
+        FCP: Math.round(fcp),
+        LCP: Math.round(lcp ? lcp.renderTime || lcp.loadTime || lcp.startTime : 0),
+        CLS: Math.round(layoutShifts.filter(shift => !shift.hadRecentInput).reduce((sum, shift) => sum + shift.value, 0) * 10000) / 10000,
+        TTFB: Math.round(navigation ? navigation.responseStart : 0),
+        TBT: Math.round(longTasks
+            .filter(task => task.startTime >= fcp)
+            .reduce((sum, task) => sum + Math.max(0, task.duration - 50), 0)),
+        domContentLoaded: Math.round(navigation ? navigation.domContentLoadedEventEnd : 0),
+        pageLoad: Math.round(navigation ? navigation.loadEventEnd : 0),
+        transferSize: (navigation?.transferSize || 0) + resources.reduce((sum, resource) => sum + (resource.transferSize || 0), 0),
+        requests: resources.length
+    };
+}
@@ -0,0 +1,46 @@
+// src/core/performance/ThrottlingPresets.ts
+
+import { ThrottlingPreset } from './types/performance.types';
+
+/**
+ * Throttling presets, network values match the Chrome DevTools and Lighthouse presets
+ */
+export const THROTTLING_PRESETS: ThrottlingPreset[] = [
+    {
+        name: 'none',
+        cpuSlowdown: 1
+    },
+    {
+        name: 'slow-3g',
+        cpuSlowdown: 1,
+        network: { latency: 2000, downloadThroughput: 50000, uploadThroughput: 50000 }
+    },
+    {
+        name: 'fast-3g',
+        cpuSlowdown: 1,
+        network: { latency: 562.5, downloadThroughput: 180000, uploadThroughput: 84375 }
+    },
+    {
+        name: '4g',
+        cpuSlowdown: 1,
+        network: { latency: 150, downloadThroughput: 1179648, uploadThroughput: 1179648 }
+    },
+    {
+        name: 'mobile',
+        cpuSlowdown: 4,
+        network: { latency: 150, downloadThroughput: 204800, uploadThroughput: 96000 }
+    },
+    {
+        name: 'desktop',
+        cpuSlowdown: 1,
+        network: { latency: 40, downloadThroughput: 1310720, uploadThroughput: 1310720 }
+    },
+    {
+        name: 'cpu-4x',
+        cpuSlowdown: 4
+    },
+    {
+        name: 'cpu-6x',
+        cpuSlowdown: 6
+    }
+];
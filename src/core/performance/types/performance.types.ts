@@ -0,0 +1,60 @@
+// src/core/performance/types/performance.types.ts
+
+import { PerformanceBudgetSeverity } from '../../../reporting/types/reporting.types';
+
+/**
+ * Metrics a budget can limit, as measured in the page
+ */
+export interface PagePerformanceMetrics {
+    /** First Contentful Paint (ms) */
+    FCP: number;
+    /** Largest Contentful Paint (ms) */
+    LCP: number;
+    /** Cumulative Layout Shift (unitless) */
+    CLS: number;
+    /** Time to First Byte (ms) */
+    TTFB: number;
+    /** Total Blocking Time of long tasks after FCP (ms) */
+    TBT: number;
+    /** DOMContentLoaded end (ms) */
+    domContentLoaded: number;
+    /** Load event end (ms) */
+    pageLoad: number;
+    /** Bytes transferred for the document and its resources */
+    transferSize: number;
+    /** Number of resources loaded */
+    requests: number;
+}
+
+export type PerformanceMetricName = keyof PagePerformanceMetrics;
+
+/**
+ * Named set of metric budgets, optionally bound to routes
+ */
+export interface PerformanceBudgetProfile {
+    name: string;
+    budgets: Partial<Record<PerformanceMetricName, number>>;
+    /** URL path patterns (`*` wildcard) the profile applies to */
+    routes: string[];
+    severity?: PerformanceBudgetSeverity;
+    /** Throttling preset the page is reloaded under before measuring */
+    throttling?: string;
+}
+
+/**
+ * CPU and network conditions emulated through the Chrome DevTools Protocol
+ */
+export interface ThrottlingPreset {
+    name: string;
+    /** CPU slowdown multiplier, 1 is no throttling */
+    cpuSlowdown: number;
+    /** Network conditions, omitted for CPU-only presets */
+    network?: {
+        /** Added round-trip latency (ms) */
+        latency: number;
+        /** Bytes per second */
+        downloadThroughput: number;
+        /** Bytes per second */
+        uploadThroughput: number;
+    };
+}
@@ -0,0 +1,155 @@
+// src/core/telemetry/CSTracer.ts
+
+import { AsyncLocalStorage } from 'async_hooks';
+import * as os from 'os';
+import * as path from 'path';
+import { TraceSpan } from './TraceSpan';
+import { OTLPTraceExporter } from './OTLPTraceExporter';
+import { SpanContext, SpanData, SpanOptions, TraceExporterTarget } from './types/telemetry.types';
+import { ConfigurationManager } from '../configuration/ConfigurationManager';
+import { ActionLogger } from '../logging/ActionLogger';
+
+/**
+ * OpenTelemetry tracing of test runs
+ *
+ * Spans nest run → feature → scenario → step → HTTP/DB call within one trace per run.
+ * The active span follows the async context, so calls made by a step become its
+ * children and carry it to the backend in the traceparent header. Tracing is off
+ * unless OTEL_TRACES_EXPORTER names an exporter.
+ */
+export class CSTracer {
+    private static instance: CSTracer;
+    private static readonly BATCH_SIZE = 512;
+    private readonly activeSpan = new AsyncLocalStorage<TraceSpan>();
+    private exporter: OTLPTraceExporter | null = null;
+    private remoteParent: SpanContext | null = null;
+    private pending: SpanData[] = [];
+    private exporting: Promise<void> = Promise.resolve();
+
+    private constructor() {}
+
+    static getInstance(): CSTracer {
+        if (!CSTracer.instance) {
+            CSTracer.instance = new CSTracer();
+        }
+        return CSTracer.instance;
+    }
+
+    /**
+     * Set up the exporters from the configuration. A TRACEPARENT environment
+     * variable makes the run a child of the pipeline that started it.
+     */
+    configure(): void {
+        const targets = ConfigurationManager.getArray('OTEL_TRACES_EXPORTER').filter(target => target !== 'none');
+        const unknown = targets.filter(target => target !== 'file' && target !== 'otlp');
+        if (unknown.length > 0) {
+            throw new Error(`Unknown OTEL_TRACES_EXPORTER '${unknown.join(', ')}', use none, file, otlp or file,otlp`);
+        }
+        if (targets.length === 0) {
+            this.exporter = null;
+            return;
+        }
+
+        const endpoint = ConfigurationManager.get('OTEL_EXPORTER_OTLP_ENDPOINT', 'http://localhost:4318').replace(/\/+$/, '');
+        const headers: Record<string, string> = {};
+        for (const header of ConfigurationManager.getArray('OTEL_EXPORTER_OTLP_HEADERS')) {
+            const separator = header.indexOf('=');
+            if (separator > 0) {
+                headers[header.substring(0, separator).trim()] = decodeURIComponent(header.substring(separator + 1).trim());
+            }
+        }
+
+        this.exporter = new OTLPTraceExporter({
+            targets: targets as TraceExporterTarget[],
+            resource: {
+                'service.name': ConfigurationManager.get('OTEL_SERVICE_NAME', 'cs-test-automation'),
+                'deployment.environment.name': ConfigurationManager.getEnvironmentName(),
+                'host.name': os.hostname(),
+                'process.pid': process.pid,
+                'process.runtime.name': 'nodejs',
+                'process.runtime.version': process.versions.node
+            },
+            file: ConfigurationManager.get('OTEL_TRACES_FILE', '') ||
+                path.join(ConfigurationManager.get('REPORT_PATH', './reports'), 'otel-traces.jsonl'),
+            endpoint: ConfigurationManager.get('OTEL_EXPORTER_OTLP_TRACES_ENDPOINT', '') || `${endpoint}/v1/traces`,
+            headers,
+            timeout: ConfigurationManager.getInt('OTEL_EXPORTER_OTLP_TIMEOUT', 10000)
+        });
+        this.remoteParent = TraceSpan.parseTraceparent(process.env['TRACEPARENT']);
+
+        ActionLogger.getInstance().info(`OpenTelemetry traces exported to ${this.exporter.getTargets().join(' and ')}`);
+    }
+
+    isEnabled(): boolean {
+        return this.exporter !== null;
+    }
+
+    /**
+     * Start a span, a child of the active span unless a parent is given
+     */
+    startSpan(name: string, options: SpanOptions = {}): TraceSpan {
+        if (!this.exporter) {
+            return new TraceSpan(name, null, options.kind, options.attributes);
+        }
+
+        const parent = options.parent !== undefined ? options.parent :
+            this.getActiveSpan()?.spanContext() || this.remoteParent;
+        return new TraceSpan(name, parent, options.kind, options.attributes, span => this.onEnd(span));
+    }
+
+    getActiveSpan(): TraceSpan | undefined {
+        return this.activeSpan.getStore();
+    }
+
+    /**
+     * Run with the span active and end it afterwards, an error fails the span
+     */
+    async withSpan<T>(span: TraceSpan, fn: () => Promise<T>): Promise<T> {
+        try {
+            return await this.activeSpan.run(span, fn);
+        } catch (error) {
+            span.recordException(error as Error);
+            throw error;
+        } finally {
+            span.end();
+        }
+    }
+
+    /**
+     * Add the traceparent header of the span, unless the headers already carry one
+     */
+    inject(headers: Record<string, string>, span: TraceSpan | undefined = this.getActiveSpan()): Record<string, string> {
+        if (span?.isRecording() && !Object.keys(headers).some(name => name.toLowerCase() === 'traceparent')) {
+            headers['traceparent'] = span.traceparent();
+        }
+        return headers;
+    }
+
+    /**
+     * Export the finished spans, export failures are logged and never fail the run
+     */
+    flush(): Promise<void> {
+        const exporter = this.exporter;
+        const spans = this.pending.splice(0);
+        if (!exporter || spans.length === 0) {
+            return this.exporting;
+        }
+
+        this.exporting = this.exporting.then(async () => {
+            try {
+                await exporter.export(spans);
+                ActionLogger.getInstance().debug(`Exported ${spans.length} spans to ${exporter.getTargets().join(' and ')}`);
+            } catch (error) {
+                ActionLogger.getInstance().warn((error as Error).message);
+            }
+        });
+        return this.exporting;
+    }
+
+    private onEnd(span: SpanData): void {
+        this.pending.push(span);
+        if (this.pending.length >= CSTracer.BATCH_SIZE) {
+            void this.flush();
+        }
+    }
+}
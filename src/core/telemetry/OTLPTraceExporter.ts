@@ -0,0 +1,146 @@
+// src/core/telemetry/OTLPTraceExporter.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+import * as https from 'https';
+import { SpanAttributes, SpanData, TraceExporterOptions } from './types/telemetry.types';
+
+interface OTLPAnyValue {
+    stringValue?: string;
+    intValue?: string;
+    doubleValue?: number;
+    boolValue?: boolean;
+    arrayValue?: { values: OTLPAnyValue[] };
+}
+
+interface OTLPKeyValue {
+    key: string;
+    value: OTLPAnyValue;
+}
+
+/**
+ * Exports spans as OTLP JSON (ExportTraceServiceRequest)
+ *
+ * The file target appends one request per line, the format read by the collector's
+ * otlpjsonfile receiver. The otlp target posts the request to an OTLP/HTTP collector.
+ */
+export class OTLPTraceExporter {
+    private static readonly SCOPE = { name: 'cs-test-framework', version: '1.0.0' };
+
+    constructor(private readonly options: TraceExporterOptions) {}
+
+    getTargets(): string[] {
+        return this.options.targets.map(target => target === 'file' ? this.options.file : this.options.endpoint);
+    }
+
+    async export(spans: SpanData[]): Promise<void> {
+        if (spans.length === 0) {
+            return;
+        }
+
+        const body = JSON.stringify(this.toRequest(spans));
+        const errors: string[] = [];
+        for (const target of this.options.targets) {
+            try {
+                if (target === 'file') {
+                    await this.writeFile(body);
+                } else {
+                    await this.send(body);
+                }
+            } catch (error) {
+                errors.push(`${target}: ${(error as Error).message}`);
+            }
+        }
+        if (errors.length > 0) {
+            throw new Error(`Failed to export ${spans.length} spans (${errors.join(', ')})`);
+        }
+    }
+
+    private toRequest(spans: SpanData[]): object {
+        return {
+            resourceSpans: [{
+                resource: { attributes: this.toAttributes(this.options.resource) },
+                scopeSpans: [{
+                    scope: OTLPTraceExporter.SCOPE,
+                    spans: spans.map(span => ({
+                        traceId: span.traceId,
+                        spanId: span.spanId,
+                        ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+                        name: span.name,
+                        kind: span.kind,
+                        startTimeUnixNano: this.toUnixNano(span.startTime),
+                        endTimeUnixNano: this.toUnixNano(span.endTime),
+                        attributes: this.toAttributes(span.attributes),
+                        events: span.events.map(event => ({
+                            timeUnixNano: this.toUnixNano(event.time),
+                            name: event.name,
+                            attributes: this.toAttributes(event.attributes)
+                        })),
+                        status: span.status
+                    }))
+                }]
+            }]
+        };
+    }
+
+    private toAttributes(attributes: SpanAttributes): OTLPKeyValue[] {
+        return Object.entries(attributes)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => ({ key, value: this.toAnyValue(value!) }));
+    }
+
+    private toAnyValue(value: string | number | boolean | string[]): OTLPAnyValue {
+        if (Array.isArray(value)) {
+            return { arrayValue: { values: value.map(item => ({ stringValue: item })) } };
+        }
+        if (typeof value === 'number') {
+            return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+        }
+        return typeof value === 'boolean' ? { boolValue: value } : { stringValue: value };
+    }
+
+    /**
+     * Nanoseconds since the epoch, as a string since they exceed the safe integer range
+     */
+    private toUnixNano(time: number): string {
+        return `${Math.round(time * 1000)}000`;
+    }
+
+    private async writeFile(body: string): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.options.file), { recursive: true });
+        await fs.promises.appendFile(this.options.file, body + '\n');
+    }
+
+    private send(body: string): Promise<void> {
+        const endpoint = new URL(this.options.endpoint);
+        const transport = endpoint.protocol === 'https:' ? https : http;
+
+        return new Promise((resolve, reject) => {
+            const request = transport.request(endpoint, {
+                method: 'POST',
+                headers: {
+                    ...this.options.headers,
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(body)
+                },
+                timeout: this.options.timeout
+            }, response => {
+                let responseBody = '';
+                response.setEncoding('utf8');
+                response.on('data', chunk => responseBody += chunk);
+                response.on('end', () => {
+                    const status = response.statusCode || 0;
+                    if (status >= 200 && status < 300) {
+                        resolve();
+                    } else {
+                        reject(new Error(`collector responded with ${status}${responseBody ? `: ${responseBody.substring(0, 200)}` : ''}`));
+                    }
+                });
+            });
+            request.on('timeout', () => request.destroy(new Error(`no response within ${this.options.timeout}ms`)));
+            request.on('error', reject);
+            request.end(body);
+        });
+    }
+}
@@ -0,0 +1,134 @@
+// src/core/telemetry/TraceSpan.ts
+
+import * as crypto from 'crypto';
+import { performance } from 'perf_hooks';
+import {
+    SpanAttributes,
+    SpanAttributeValue,
+    SpanContext,
+    SpanData,
+    SpanEvent,
+    SpanKind,
+    SpanStatusCode
+} from './types/telemetry.types';
+
+/**
+ * A span of a test run trace
+ *
+ * Spans created while tracing is disabled are not recording: they accept
+ * attributes and end like any span, but are never exported or propagated.
+ */
+export class TraceSpan {
+    readonly traceId: string;
+    readonly spanId: string = crypto.randomBytes(8).toString('hex');
+    readonly parentSpanId: string | undefined;
+    private readonly startTime: number = TraceSpan.now();
+    private readonly attributes: SpanAttributes = {};
+    private readonly events: SpanEvent[] = [];
+    private status: SpanData['status'] = { code: SpanStatusCode.UNSET };
+    private ended: boolean = false;
+
+    constructor(
+        readonly name: string,
+        parent: SpanContext | null,
+        private readonly kind: SpanKind = SpanKind.INTERNAL,
+        attributes: SpanAttributes = {},
+        private readonly onEnd: ((span: SpanData) => void) | null = null
+    ) {
+        this.traceId = parent ? parent.traceId : crypto.randomBytes(16).toString('hex');
+        this.parentSpanId = parent?.spanId;
+        this.setAttributes(attributes);
+    }
+
+    /**
+     * Whether the span will be exported when it ends
+     */
+    isRecording(): boolean {
+        return this.onEnd !== null && !this.ended;
+    }
+
+    spanContext(): SpanContext {
+        return { traceId: this.traceId, spanId: this.spanId };
+    }
+
+    /**
+     * W3C trace context header value, with this span as the parent
+     */
+    traceparent(): string {
+        return `00-${this.traceId}-${this.spanId}-01`;
+    }
+
+    setAttribute(key: string, value: SpanAttributeValue | undefined): this {
+        if (value !== undefined) {
+            this.attributes[key] = value;
+        }
+        return this;
+    }
+
+    setAttributes(attributes: SpanAttributes): this {
+        for (const [key, value] of Object.entries(attributes)) {
+            this.setAttribute(key, value);
+        }
+        return this;
+    }
+
+    addEvent(name: string, attributes: SpanAttributes = {}): this {
+        this.events.push({ name, time: TraceSpan.now(), attributes });
+        return this;
+    }
+
+    setStatus(code: SpanStatusCode, message?: string): this {
+        this.status = message !== undefined ? { code, message } : { code };
+        return this;
+    }
+
+    /**
+     * Record an error as an exception event and fail the span
+     */
+    recordException(error: Error): this {
+        this.addEvent('exception', {
+            'exception.type': error.name,
+            'exception.message': error.message,
+            'exception.stacktrace': error.stack
+        });
+        return this.setStatus(SpanStatusCode.ERROR, error.message);
+    }
+
+    end(): void {
+        if (this.ended) {
+            return;
+        }
+        this.ended = true;
+
+        const data: SpanData = {
+            traceId: this.traceId,
+            spanId: this.spanId,
+            name: this.name,
+            kind: this.kind,
+            startTime: this.startTime,
+            endTime: TraceSpan.now(),
+            attributes: this.attributes,
+            events: this.events,
+            status: this.status
+        };
+        if (this.parentSpanId) {
+            data.parentSpanId = this.parentSpanId;
+        }
+        this.onEnd?.(data);
+    }
+
+    /**
+     * Parse a W3C traceparent header value
+     */
+    static parseTraceparent(value: string | undefined): SpanContext | null {
+        const match = value?.trim().match(/^[0-9a-f]{2}-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/);
+        if (!match || /^0+$/.test(match[1]!) || /^0+$/.test(match[2]!)) {
+            return null;
+        }
+        return { traceId: match[1]!, spanId: match[2]! };
+    }
+
+    private static now(): number {
+        return performance.timeOrigin + performance.now();
+    }
+}
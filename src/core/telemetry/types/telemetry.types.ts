@@ -0,0 +1,87 @@
+// src/core/telemetry/types/telemetry.types.ts
+
+/**
+ * Span kinds, numbered as in OTLP
+ */
+export enum SpanKind {
+    INTERNAL = 1,
+    SERVER = 2,
+    CLIENT = 3,
+    PRODUCER = 4,
+    CONSUMER = 5
+}
+
+/**
+ * Span status codes, numbered as in OTLP
+ */
+export enum SpanStatusCode {
+    UNSET = 0,
+    OK = 1,
+    ERROR = 2
+}
+
+export type SpanAttributeValue = string | number | boolean | string[];
+
+/**
+ * Span attributes, undefined values are left out
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * Identifies a span within a trace, as carried by the W3C traceparent header
+ */
+export interface SpanContext {
+    /** 32 hex characters */
+    traceId: string;
+    /** 16 hex characters */
+    spanId: string;
+}
+
+export interface SpanOptions {
+    kind?: SpanKind;
+    attributes?: SpanAttributes;
+    /** Parent span, defaults to the active span. Null starts a new trace */
+    parent?: SpanContext | null;
+}
+
+export interface SpanEvent {
+    name: string;
+    /** Unix epoch milliseconds */
+    time: number;
+    attributes: SpanAttributes;
+}
+
+/**
+ * A finished span, ready for export
+ */
+export interface SpanData extends SpanContext {
+    parentSpanId?: string;
+    name: string;
+    kind: SpanKind;
+    /** Unix epoch milliseconds, with sub-millisecond precision */
+    startTime: number;
+    endTime: number;
+    attributes: SpanAttributes;
+    events: SpanEvent[];
+    status: {
+        code: SpanStatusCode;
+        message?: string;
+    };
+}
+
+/**
+ * Where spans are exported: an OTLP JSON lines file or an OTLP/HTTP collector
+ */
+export type TraceExporterTarget = 'file' | 'otlp';
+
+export interface TraceExporterOptions {
+    targets: TraceExporterTarget[];
+    /** Resource attributes describing the test run, including service.name */
+    resource: SpanAttributes;
+    file: string;
+    /** Traces URL of the collector, like http://localhost:4318/v1/traces */
+    endpoint: string;
+    headers: Record<string, string>;
+    /** Request timeout in milliseconds */
+    timeout: number;
+}
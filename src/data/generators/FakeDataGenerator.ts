@@ -0,0 +1,473 @@
+// src/data/generators/FakeDataGenerator.ts
+
+import { SeededRandom } from './SeededRandom';
+import { RegexGenerator } from './RegexGenerator';
+import { FAKE_LOCALES } from './FakeLocales';
+import { FakeGeneratorFunction, FakeLocale, FakeValue, IbanSpec } from './fake-data.types';
+import { logger } from '../../core/utils/Logger';
+
+const IBAN_SPECS: IbanSpec[] = [
+    { country: 'AT', bban: '16n' },
+    { country: 'BE', bban: '12n' },
+    { country: 'CH', bban: '5n12c' },
+    { country: 'DE', bban: '18n' },
+    { country: 'ES', bban: '20n' },
+    { country: 'FR', bban: '10n11c2n' },
+    { country: 'GB', bban: '4a14n' },
+    { country: 'IT', bban: '1a10n12c' },
+    { country: 'NL', bban: '4a10n' },
+    { country: 'PL', bban: '24n' }
+];
+
+const CARD_BRANDS: Record<string, { prefixes: string[]; length: number; cvvLength: number }> = {
+    visa: { prefixes: ['4'], length: 16, cvvLength: 3 },
+    mastercard: { prefixes: ['51', '52', '53', '54', '55', '2221', '2720'], length: 16, cvvLength: 3 },
+    amex: { prefixes: ['34', '37'], length: 15, cvvLength: 4 },
+    discover: { prefixes: ['6011', '65'], length: 16, cvvLength: 3 }
+};
+
+const LOREM_WORDS = [
+    'lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit', 'sed', 'do', 'eiusmod',
+    'tempor', 'incididunt', 'ut', 'labore', 'et', 'dolore', 'magna', 'aliqua', 'enim', 'ad', 'minim', 'veniam',
+    'quis', 'nostrud', 'exercitation', 'ullamco', 'laboris', 'nisi', 'aliquip', 'ex', 'ea', 'commodo',
+    'consequat', 'duis', 'aute', 'irure', 'in', 'reprehenderit', 'voluptate', 'velit', 'esse', 'cillum',
+    'fugiat', 'nulla', 'pariatur', 'excepteur', 'sint', 'occaecat', 'cupidatat', 'non', 'proident', 'sunt',
+    'culpa', 'qui', 'officia', 'deserunt', 'mollit', 'anim', 'id', 'est', 'laborum'
+];
+
+const DEPARTMENTS = [
+    'Engineering', 'Sales', 'Marketing', 'Finance', 'Human Resources', 'Operations',
+    'Customer Support', 'Legal', 'Procurement', 'Research and Development'
+];
+
+const INDUSTRIES = [
+    'Banking', 'Insurance', 'Retail', 'Healthcare', 'Manufacturing', 'Telecommunications',
+    'Logistics', 'Energy', 'Education', 'Software', 'Hospitality', 'Automotive'
+];
+
+/** Reserved test domains (RFC 2606), never deliver mail */
+const EMAIL_DOMAINS = ['example.com', 'example.org', 'example.net'];
+
+/**
+ * Seeded synthetic test data
+ *
+ * Values are generated by dotted paths such as `person.firstName` or
+ * `finance.iban`, optionally with arguments: `number.int(1, 100)`.
+ * The same seed and locale always produce the same sequence of values.
+ */
+export class FakeDataGenerator {
+    private static instance: FakeDataGenerator;
+
+    private seed: string;
+    private locale: FakeLocale;
+    private random: SeededRandom;
+    private regexGenerator: RegexGenerator;
+    private generators: Map<string, FakeGeneratorFunction> = new Map();
+
+    constructor(seed?: string, locale: string = 'en-US') {
+        this.seed = seed || String(Math.floor(Math.random() * 2147483647));
+        this.locale = FakeDataGenerator.findLocale(locale);
+        this.random = new SeededRandom(this.seed);
+        this.regexGenerator = new RegexGenerator(this.random);
+        this.registerBuiltInGenerators();
+    }
+
+    static getInstance(): FakeDataGenerator {
+        if (!FakeDataGenerator.instance) {
+            FakeDataGenerator.instance = new FakeDataGenerator();
+        }
+        return FakeDataGenerator.instance;
+    }
+
+    static getLocales(): string[] {
+        return Object.keys(FAKE_LOCALES);
+    }
+
+    /**
+     * Locale by code, accepting `de`, `de_DE` and `de-DE`
+     */
+    private static findLocale(code: string): FakeLocale {
+        const normalized = code.trim().replace('_', '-').toLowerCase();
+        const locale = Object.values(FAKE_LOCALES).find(l => l.code.toLowerCase() === normalized) ||
+            Object.values(FAKE_LOCALES).find(l => l.code.toLowerCase().split('-')[0] === normalized.split('-')[0]);
+        if (!locale) {
+            throw new Error(`Unsupported fake data locale "${code}". Available: ${FakeDataGenerator.getLocales().join(', ')}`);
+        }
+        return locale;
+    }
+
+    /**
+     * Restart the sequence from a new seed
+     */
+    setSeed(seed: string): void {
+        this.seed = seed;
+        this.reset(seed);
+        logger.debug(`Fake data seed set to ${seed}`);
+    }
+
+    getSeed(): string {
+        return this.seed;
+    }
+
+    /**
+     * Restart the sequence for a scope (e.g. a scenario) so its values
+     * do not depend on what ran before it
+     */
+    reseed(scope: string): void {
+        this.reset(`${this.seed}:${scope}`);
+    }
+
+    setLocale(code: string): void {
+        this.locale = FakeDataGenerator.findLocale(code);
+    }
+
+    getLocale(): string {
+        return this.locale.code;
+    }
+
+    /**
+     * Independent generator whose sequence is derived from this seed and the scope
+     */
+    fork(scope: string, locale?: string): FakeDataGenerator {
+        const generator = new FakeDataGenerator(this.seed, locale || this.locale.code);
+        generator.reseed(scope);
+        return generator;
+    }
+
+    registerGenerator(path: string, fn: FakeGeneratorFunction): void {
+        this.generators.set(path, fn);
+        logger.debug(`Registered fake data generator: ${path}`);
+    }
+
+    has(path: string): boolean {
+        return this.generators.has(path);
+    }
+
+    getPaths(): string[] {
+        return Array.from(this.generators.keys());
+    }
+
+    /**
+     * Generate a value by path
+     */
+    generate(path: string, ...args: string[]): FakeValue {
+        const generator = this.generators.get(path);
+        if (!generator) {
+            throw new Error(`Unknown fake data generator "${path}". Available: ${this.getPaths().join(', ')}`);
+        }
+        return generator(...args.map(arg => this.unquote(arg)));
+    }
+
+    /**
+     * Generate a value from an expression such as `person.firstName` or `number.int(1, 100)`
+     */
+    evaluate(expression: string): FakeValue {
+        const match = expression.trim().match(/^([\w.]+)\s*(?:\((.*)\))?$/s);
+        if (!match) {
+            throw new Error(`Invalid fake data expression: ${expression}`);
+        }
+        return this.generate(match[1]!, ...this.splitArguments(match[2] || ''));
+    }
+
+    /**
+     * One record with a column per generator path, named after its last segment
+     */
+    record(paths: string[]): Record<string, FakeValue> {
+        const record: Record<string, FakeValue> = {};
+        for (const path of paths) {
+            const name = path.replace(/\(.*\)$/s, '').split('.').pop() || path;
+            record[name] = this.evaluate(path);
+        }
+        return record;
+    }
+
+    private reset(seed: string): void {
+        this.random = new SeededRandom(seed);
+        this.regexGenerator = new RegexGenerator(this.random);
+    }
+
+    private registerBuiltInGenerators(): void {
+        // Person
+        this.registerGenerator('person.gender', () => this.random.pick(['male', 'female']));
+        this.registerGenerator('person.firstName', gender => this.firstName(gender));
+        this.registerGenerator('person.lastName', () => this.random.pick(this.locale.lastNames));
+        this.registerGenerator('person.fullName', gender => `${this.firstName(gender)} ${this.random.pick(this.locale.lastNames)}`);
+        this.registerGenerator('person.prefix', gender =>
+            this.random.pick(this.locale.prefixes[this.resolveGender(gender)])
+        );
+        this.registerGenerator('person.jobTitle', () => this.random.pick(this.locale.jobTitles));
+        this.registerGenerator('person.birthDate', (minAge = '18', maxAge = '80') => {
+            const age = this.random.int(Number(minAge), Number(maxAge));
+            const date = new Date();
+            date.setFullYear(date.getFullYear() - age);
+            date.setDate(date.getDate() - this.random.int(0, 364));
+            return this.formatDate(date);
+        });
+
+        // Address
+        this.registerGenerator('address.street', () => this.random.pick(this.locale.streets));
+        this.registerGenerator('address.buildingNumber', () => String(this.random.int(1, 250)));
+        this.registerGenerator('address.streetAddress', () => this.streetAddress());
+        this.registerGenerator('address.city', () => this.random.pick(this.locale.cities));
+        this.registerGenerator('address.state', () => this.random.pick(this.locale.states));
+        this.registerGenerator('address.zipCode', () => this.random.pattern(this.random.pick(this.locale.postcodePatterns)));
+        this.registerGenerator('address.postcode', () => this.generate('address.zipCode'));
+        this.registerGenerator('address.country', () => this.locale.country);
+        this.registerGenerator('address.countryCode', () => this.locale.countryCode);
+        this.registerGenerator('address.fullAddress', () =>
+            `${this.streetAddress()}, ${this.random.pattern(this.random.pick(this.locale.postcodePatterns))} ` +
+            `${this.random.pick(this.locale.cities)}, ${this.locale.country}`
+        );
+
+        // Phone
+        this.registerGenerator('phone.number', () => this.random.pattern(this.random.pick(this.locale.phonePatterns)));
+        this.registerGenerator('phone.international', () => {
+            const national = this.random.pattern(this.random.pick(this.locale.phonePatterns)).replace(/\D/g, '');
+            return `+${this.locale.callingCode}${national.replace(/^0/, '')}`;
+        });
+
+        // Internet
+        this.registerGenerator('internet.username', () =>
+            `${this.slug(this.firstName())}${this.random.pick(['.', '_', ''])}${this.slug(this.random.pick(this.locale.lastNames))}${this.random.int(1, 99)}`
+        );
+        this.registerGenerator('internet.email', (firstName, lastName) => {
+            const local = firstName || lastName
+                ? [firstName, lastName].filter(Boolean).map(name => this.slug(name!)).join('.')
+                : `${this.slug(this.firstName())}.${this.slug(this.random.pick(this.locale.lastNames))}`;
+            return `${local}${this.random.int(1, 999)}@${this.random.pick(EMAIL_DOMAINS)}`;
+        });
+        this.registerGenerator('internet.domain', () =>
+            `${this.slug(this.random.pick(this.locale.lastNames))}-${this.slug(this.random.pick(this.locale.companyNouns))}.${this.random.pick(['com', 'net', 'org', 'io'])}`
+        );
+        this.registerGenerator('internet.url', () => `https://www.${this.generate('internet.domain')}`);
+        this.registerGenerator('internet.ipv4', () =>
+            [this.random.int(1, 223), this.random.int(0, 255), this.random.int(0, 255), this.random.int(1, 254)].join('.')
+        );
+        this.registerGenerator('internet.password', (length = '12') => this.password(Number(length)));
+
+        // Company
+        this.registerGenerator('company.name', () =>
+            `${this.random.pick(this.locale.lastNames)} ${this.random.pick(this.locale.companyNouns)} ${this.random.pick(this.locale.companySuffixes)}`
+        );
+        this.registerGenerator('company.suffix', () => this.random.pick(this.locale.companySuffixes));
+        this.registerGenerator('company.department', () => this.random.pick(DEPARTMENTS));
+        this.registerGenerator('company.industry', () => this.random.pick(INDUSTRIES));
+
+        // Finance
+        this.registerGenerator('finance.iban', country => this.iban(country || this.locale.ibanCountry));
+        this.registerGenerator('finance.bic', () =>
+            `${this.random.chars(4, 'ABCDEFGHIJKLMNOPQRSTUVWXYZ')}${this.locale.ibanCountry}${this.random.chars(2, 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789')}`
+        );
+        this.registerGenerator('finance.cardBrand', () => this.random.pick(Object.keys(CARD_BRANDS)));
+        this.registerGenerator('finance.creditCard', brand => this.creditCard(brand));
+        this.registerGenerator('finance.cvv', brand => this.random.chars(this.cardBrand(brand).cvvLength, '0123456789'));
+        this.registerGenerator('finance.expiry', () => {
+            const date = new Date();
+            return `${String(this.random.int(1, 12)).padStart(2, '0')}/${String((date.getFullYear() + this.random.int(1, 5)) % 100).padStart(2, '0')}`;
+        });
+        this.registerGenerator('finance.amount', (min = '1', max = '1000', decimals = '2') =>
+            this.random.float(Number(min), Number(max), Number(decimals)).toFixed(Number(decimals))
+        );
+        this.registerGenerator('finance.currencyCode', () => this.locale.currencyCode);
+        this.registerGenerator('finance.accountNumber', (length = '10') => this.random.chars(Number(length), '0123456789'));
+
+        // Lorem
+        this.registerGenerator('lorem.word', () => this.random.pick(LOREM_WORDS));
+        this.registerGenerator('lorem.words', (count = '3') => this.words(Number(count)));
+        this.registerGenerator('lorem.sentence', words => this.sentence(words ? Number(words) : this.random.int(6, 12)));
+        this.registerGenerator('lorem.paragraph', (sentences = '3') =>
+            Array.from({ length: Number(sentences) }, () => this.sentence(this.random.int(6, 12))).join(' ')
+        );
+
+        // Strings and primitives
+        this.registerGenerator('string.alpha', (length = '10') => this.random.chars(Number(length), 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'));
+        this.registerGenerator('string.numeric', (length = '10') => this.random.chars(Number(length), '0123456789'));
+        this.registerGenerator('string.alphanumeric', (length = '10') =>
+            this.random.chars(Number(length), 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789')
+        );
+        this.registerGenerator('string.regex', pattern => {
+            if (!pattern) {
+                throw new Error('string.regex requires a pattern');
+            }
+            return this.regexGenerator.generate(pattern);
+        });
+        this.registerGenerator('string.uuid', () => this.random.uuid());
+        this.registerGenerator('datatype.uuid', () => this.random.uuid());
+        this.registerGenerator('datatype.boolean', () => this.random.boolean());
+        this.registerGenerator('number.int', (min = '0', max = '1000') => this.random.int(Number(min), Number(max)));
+        this.registerGenerator('number.float', (min = '0', max = '1000', decimals = '2') =>
+            this.random.float(Number(min), Number(max), Number(decimals))
+        );
+
+        // Dates (YYYY-MM-DD)
+        this.registerGenerator('date.past', (years = '1') => this.offsetDate(-this.random.int(1, Number(years) * 365)));
+        this.registerGenerator('date.future', (years = '1') => this.offsetDate(this.random.int(1, Number(years) * 365)));
+        this.registerGenerator('date.recent', (days = '7') => this.offsetDate(-this.random.int(0, Number(days))));
+        this.registerGenerator('date.between', (from, to) => {
+            if (!from || !to) {
+                throw new Error('date.between requires a from and to date');
+            }
+            const start = new Date(from).getTime();
+            const end = new Date(to).getTime();
+            if (isNaN(start) || isNaN(end)) {
+                throw new Error(`Invalid dates for date.between: ${from}, ${to}`);
+            }
+            return this.formatDate(new Date(start + this.random.next() * (end - start)));
+        });
+    }
+
+    private resolveGender(gender?: string): 'male' | 'female' {
+        if (gender === 'male' || gender === 'female') {
+            return gender;
+        }
+        if (gender) {
+            throw new Error(`Unknown gender "${gender}", expected male or female`);
+        }
+        return this.random.pick(['male', 'female'] as const);
+    }
+
+    private firstName(gender?: string): string {
+        return this.random.pick(this.resolveGender(gender) === 'male' ? this.locale.maleFirstNames : this.locale.femaleFirstNames);
+    }
+
+    private streetAddress(): string {
+        return this.locale.streetAddressFormat
+            .replace('{street}', this.random.pick(this.locale.streets))
+            .replace('{number}', String(this.random.int(1, 250)));
+    }
+
+    private password(length: number): string {
+        const sets = ['abcdefghijkmnopqrstuvwxyz', 'ABCDEFGHJKLMNPQRSTUVWXYZ', '23456789', '!@#$%^&*-_'];
+        // At least one character of every set, then shuffled
+        const chars = sets.map(set => this.random.chars(1, set)).concat(
+            this.random.chars(Math.max(0, length - sets.length), sets.join('')).split('')
+        );
+        for (let i = chars.length - 1; i > 0; i--) {
+            const j = this.random.int(0, i);
+            [chars[i], chars[j]] = [chars[j]!, chars[i]!];
+        }
+        return chars.slice(0, length).join('');
+    }
+
+    /**
+     * IBAN with a valid ISO 7064 mod 97-10 check digit
+     */
+    private iban(country: string): string {
+        const spec = IBAN_SPECS.find(s => s.country === country.toUpperCase());
+        if (!spec) {
+            throw new Error(`IBAN not supported for "${country}". Available: ${IBAN_SPECS.map(s => s.country).join(', ')}`);
+        }
+
+        const charsets: Record<string, string> = {
+            n: '0123456789',
+            a: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+            c: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
+        };
+        const bban = Array.from(spec.bban.matchAll(/(\d+)([nac])/g))
+            .map(([, length, type]) => this.random.chars(Number(length), charsets[type!]!))
+            .join('');
+
+        const numeric = `${bban}${spec.country}00`.replace(/[A-Z]/g, char => String(char.charCodeAt(0) - 55));
+        let remainder = 0;
+        for (const digit of numeric) {
+            remainder = (remainder * 10 + Number(digit)) % 97;
+        }
+        return `${spec.country}${String(98 - remainder).padStart(2, '0')}${bban}`;
+    }
+
+    private cardBrand(brand?: string): { prefixes: string[]; length: number; cvvLength: number } {
+        const name = (brand || this.random.pick(Object.keys(CARD_BRANDS))).toLowerCase();
+        const spec = CARD_BRANDS[name];
+        if (!spec) {
+            throw new Error(`Unknown card brand "${brand}". Available: ${Object.keys(CARD_BRANDS).join(', ')}`);
+        }
+        return spec;
+    }
+
+    /**
+     * Card number with a valid Luhn check digit
+     */
+    private creditCard(brand?: string): string {
+        const spec = this.cardBrand(brand);
+        const prefix = this.random.pick(spec.prefixes);
+        const body = prefix + this.random.chars(spec.length - prefix.length - 1, '0123456789');
+
+        let sum = 0;
+        for (let i = 0; i < body.length; i++) {
+            let digit = Number(body[body.length - 1 - i]);
+            if (i % 2 === 0) {
+                digit *= 2;
+                if (digit > 9) digit -= 9;
+            }
+            sum += digit;
+        }
+        return body + String((10 - (sum % 10)) % 10);
+    }
+
+    private words(count: number): string {
+        return Array.from({ length: count }, () => this.random.pick(LOREM_WORDS)).join(' ');
+    }
+
+    private sentence(wordCount: number): string {
+        const text = this.words(wordCount);
+        return text.charAt(0).toUpperCase() + text.slice(1) + '.';
+    }
+
+    private offsetDate(days: number): string {
+        const date = new Date();
+        date.setDate(date.getDate() + days);
+        return this.formatDate(date);
+    }
+
+    private formatDate(date: Date): string {
+        return date.toISOString().split('T')[0]!;
+    }
+
+    /**
+     * Lowercase ASCII form of a name for emails and usernames
+     */
+    private slug(value: string): string {
+        return value
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .replace(/ß/g, 'ss')
+            .toLowerCase()
+            .replace(/[^a-z0-9]/g, '');
+    }
+
+    private unquote(value: string): string {
+        const trimmed = value.trim();
+        if (trimmed.length >= 2 && (trimmed[0] === '"' || trimmed[0] === "'") && trimmed[trimmed.length - 1] === trimmed[0]) {
+            return trimmed.slice(1, -1);
+        }
+        return trimmed;
+    }
+
+    /**
+     * Split call arguments on commas outside quotes
+     */
+    private splitArguments(args: string): string[] {
+        const result: string[] = [];
+        let current = '';
+        let quote = '';
+
+        for (const char of args) {
+            if (quote) {
+                if (char === quote) quote = '';
+                current += char;
+            } else if (char === '"' || char === "'") {
+                quote = char;
+                current += char;
+            } else if (char === ',') {
+                result.push(current.trim());
+                current = '';
+            } else {
+                current += char;
+            }
+        }
+        if (current.trim()) {
+            result.push(current.trim());
+        }
+        return result;
+    }
+}
@@ -0,0 +1,179 @@
+// src/data/generators/FakeLocales.ts
+
+import { FakeLocale } from './fake-data.types';
+
+const EN_JOB_TITLES = [
+    'Software Engineer', 'Product Manager', 'Data Analyst', 'Account Executive', 'Operations Manager',
+    'QA Engineer', 'Business Analyst', 'Customer Success Manager', 'Financial Controller', 'UX Designer',
+    'HR Specialist', 'Marketing Coordinator', 'Solutions Architect', 'Project Manager', 'Support Engineer'
+];
+
+const EN_COMPANY_NOUNS = [
+    'Solutions', 'Systems', 'Technologies', 'Logistics', 'Partners', 'Dynamics', 'Analytics',
+    'Networks', 'Holdings', 'Industries', 'Ventures', 'Labs', 'Consulting', 'Services', 'Group'
+];
+
+/**
+ * Locales available to the fake data generator, keyed by BCP 47 code
+ */
+export const FAKE_LOCALES: Record<string, FakeLocale> = {
+    'en-US': {
+        code: 'en-US',
+        country: 'United States',
+        countryCode: 'US',
+        maleFirstNames: [
+            'James', 'Michael', 'Robert', 'John', 'David', 'William', 'Richard', 'Joseph', 'Thomas', 'Christopher',
+            'Daniel', 'Matthew', 'Anthony', 'Mark', 'Andrew', 'Joshua', 'Kevin', 'Brian', 'Ryan', 'Jacob'
+        ],
+        femaleFirstNames: [
+            'Mary', 'Patricia', 'Jennifer', 'Linda', 'Elizabeth', 'Barbara', 'Susan', 'Jessica', 'Sarah', 'Karen',
+            'Emily', 'Ashley', 'Michelle', 'Amanda', 'Melissa', 'Stephanie', 'Rebecca', 'Laura', 'Olivia', 'Emma'
+        ],
+        lastNames: [
+            'Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez', 'Martinez',
+            'Hernandez', 'Lopez', 'Wilson', 'Anderson', 'Thomas', 'Taylor', 'Moore', 'Jackson', 'Martin', 'Lee'
+        ],
+        prefixes: { male: ['Mr.', 'Dr.'], female: ['Mrs.', 'Ms.', 'Dr.'] },
+        streets: [
+            'Main Street', 'Oak Avenue', 'Maple Drive', 'Cedar Lane', 'Park Avenue', 'Washington Street',
+            'Lake Road', 'Hill Street', 'Pine Court', 'Elm Street', 'Sunset Boulevard', 'River Road'
+        ],
+        streetAddressFormat: '{number} {street}',
+        cities: [
+            'Springfield', 'Riverside', 'Franklin', 'Greenville', 'Bristol', 'Clinton', 'Fairview',
+            'Salem', 'Madison', 'Georgetown', 'Arlington', 'Ashland', 'Burlington', 'Manchester', 'Oxford'
+        ],
+        states: [
+            'Alabama', 'Arizona', 'California', 'Colorado', 'Florida', 'Georgia', 'Illinois', 'Michigan',
+            'New York', 'North Carolina', 'Ohio', 'Oregon', 'Pennsylvania', 'Texas', 'Virginia', 'Washington'
+        ],
+        postcodePatterns: ['#####'],
+        phonePatterns: ['(###) 555-####', '###-555-####'],
+        callingCode: '1',
+        companySuffixes: ['Inc.', 'LLC', 'Corp.', 'Co.'],
+        companyNouns: EN_COMPANY_NOUNS,
+        jobTitles: EN_JOB_TITLES,
+        ibanCountry: 'DE',
+        currencyCode: 'USD'
+    },
+    'en-GB': {
+        code: 'en-GB',
+        country: 'United Kingdom',
+        countryCode: 'GB',
+        maleFirstNames: [
+            'Oliver', 'George', 'Harry', 'Jack', 'Charlie', 'Thomas', 'James', 'William', 'Henry', 'Alfie',
+            'Oscar', 'Leo', 'Arthur', 'Freddie', 'Archie', 'Noah', 'Theo', 'Edward', 'Samuel', 'Joseph'
+        ],
+        femaleFirstNames: [
+            'Olivia', 'Amelia', 'Isla', 'Ava', 'Emily', 'Sophie', 'Grace', 'Lily', 'Freya', 'Charlotte',
+            'Poppy', 'Ella', 'Evie', 'Isabella', 'Jessica', 'Florence', 'Alice', 'Harriet', 'Ruby', 'Matilda'
+        ],
+        lastNames: [
+            'Smith', 'Jones', 'Taylor', 'Brown', 'Williams', 'Wilson', 'Johnson', 'Davies', 'Patel', 'Robinson',
+            'Wright', 'Thompson', 'Evans', 'Walker', 'White', 'Roberts', 'Green', 'Hall', 'Wood', 'Clarke'
+        ],
+        prefixes: { male: ['Mr', 'Dr'], female: ['Mrs', 'Ms', 'Miss', 'Dr'] },
+        streets: [
+            'High Street', 'Station Road', 'Church Lane', 'Victoria Road', 'Green Lane', 'Manor Road',
+            'Park Road', 'Queens Road', 'Mill Lane', 'Kings Road', 'New Road', 'London Road'
+        ],
+        streetAddressFormat: '{number} {street}',
+        cities: [
+            'London', 'Manchester', 'Birmingham', 'Leeds', 'Bristol', 'Liverpool', 'Sheffield', 'Nottingham',
+            'Leicester', 'Cardiff', 'Edinburgh', 'Glasgow', 'Brighton', 'York', 'Cambridge'
+        ],
+        states: ['England', 'Scotland', 'Wales', 'Northern Ireland'],
+        postcodePatterns: ['??# #??', '??## #??', '?# #??'],
+        phonePatterns: ['07700 900###', '01632 960###'],
+        callingCode: '44',
+        companySuffixes: ['Ltd', 'PLC', 'LLP'],
+        companyNouns: EN_COMPANY_NOUNS,
+        jobTitles: EN_JOB_TITLES,
+        ibanCountry: 'GB',
+        currencyCode: 'GBP'
+    },
+    'de-DE': {
+        code: 'de-DE',
+        country: 'Deutschland',
+        countryCode: 'DE',
+        maleFirstNames: [
+            'Lukas', 'Leon', 'Finn', 'Jonas', 'Paul', 'Felix', 'Maximilian', 'Elias', 'Noah', 'Ben',
+            'Thomas', 'Michael', 'Stefan', 'Andreas', 'Jürgen', 'Matthias', 'Tobias', 'Florian', 'Jan', 'Moritz'
+        ],
+        femaleFirstNames: [
+            'Mia', 'Emma', 'Hannah', 'Sophia', 'Lea', 'Lena', 'Anna', 'Marie', 'Laura', 'Julia',
+            'Sabine', 'Katrin', 'Claudia', 'Petra', 'Susanne', 'Jana', 'Lisa', 'Johanna', 'Charlotte', 'Greta'
+        ],
+        lastNames: [
+            'Müller', 'Schmidt', 'Schneider', 'Fischer', 'Weber', 'Meyer', 'Wagner', 'Becker', 'Schulz', 'Hoffmann',
+            'Schäfer', 'Koch', 'Bauer', 'Richter', 'Klein', 'Wolf', 'Schröder', 'Neumann', 'Schwarz', 'Zimmermann'
+        ],
+        prefixes: { male: ['Herr', 'Dr.'], female: ['Frau', 'Dr.'] },
+        streets: [
+            'Hauptstraße', 'Schulstraße', 'Gartenstraße', 'Bahnhofstraße', 'Dorfstraße', 'Bergstraße',
+            'Lindenstraße', 'Birkenweg', 'Kirchweg', 'Am Markt', 'Waldweg', 'Goethestraße'
+        ],
+        streetAddressFormat: '{street} {number}',
+        cities: [
+            'Berlin', 'Hamburg', 'München', 'Köln', 'Frankfurt am Main', 'Stuttgart', 'Düsseldorf', 'Leipzig',
+            'Dortmund', 'Essen', 'Bremen', 'Dresden', 'Hannover', 'Nürnberg', 'Freiburg'
+        ],
+        states: [
+            'Baden-Württemberg', 'Bayern', 'Berlin', 'Brandenburg', 'Bremen', 'Hamburg', 'Hessen',
+            'Niedersachsen', 'Nordrhein-Westfalen', 'Rheinland-Pfalz', 'Sachsen', 'Thüringen'
+        ],
+        postcodePatterns: ['#####'],
+        phonePatterns: ['0151 ########', '030 #######', '089 #######'],
+        callingCode: '49',
+        companySuffixes: ['GmbH', 'AG', 'KG', 'GmbH & Co. KG'],
+        companyNouns: ['Technik', 'Systeme', 'Logistik', 'Handel', 'Beratung', 'Software', 'Medien', 'Werke', 'Gruppe', 'Dienstleistungen'],
+        jobTitles: [
+            'Softwareentwickler', 'Projektleiter', 'Sachbearbeiter', 'Vertriebsleiter', 'Buchhalter',
+            'Testingenieur', 'Produktmanager', 'Teamleiter', 'Berater', 'Systemadministrator'
+        ],
+        ibanCountry: 'DE',
+        currencyCode: 'EUR'
+    },
+    'fr-FR': {
+        code: 'fr-FR',
+        country: 'France',
+        countryCode: 'FR',
+        maleFirstNames: [
+            'Gabriel', 'Louis', 'Raphaël', 'Jules', 'Adam', 'Lucas', 'Léo', 'Hugo', 'Arthur', 'Nathan',
+            'Thomas', 'Nicolas', 'Julien', 'Pierre', 'Antoine', 'Maxime', 'Alexandre', 'Guillaume', 'Mathieu', 'Paul'
+        ],
+        femaleFirstNames: [
+            'Louise', 'Emma', 'Jade', 'Alice', 'Chloé', 'Lina', 'Léa', 'Manon', 'Camille', 'Inès',
+            'Marie', 'Julie', 'Sophie', 'Claire', 'Juliette', 'Pauline', 'Sarah', 'Lucie', 'Céline', 'Anaïs'
+        ],
+        lastNames: [
+            'Martin', 'Bernard', 'Thomas', 'Petit', 'Robert', 'Richard', 'Durand', 'Dubois', 'Moreau', 'Laurent',
+            'Simon', 'Michel', 'Lefebvre', 'Leroy', 'Roux', 'David', 'Bertrand', 'Morel', 'Fournier', 'Girard'
+        ],
+        prefixes: { male: ['M.', 'Dr'], female: ['Mme', 'Mlle', 'Dr'] },
+        streets: [
+            'rue de la République', 'rue Victor Hugo', 'avenue Jean Jaurès', 'rue de la Paix', 'boulevard Voltaire',
+            'rue Pasteur', 'place de la Mairie', 'rue du Moulin', 'chemin des Vignes', 'rue de l\'Église', 'allée des Tilleuls'
+        ],
+        streetAddressFormat: '{number} {street}',
+        cities: [
+            'Paris', 'Marseille', 'Lyon', 'Toulouse', 'Nice', 'Nantes', 'Strasbourg', 'Montpellier',
+            'Bordeaux', 'Lille', 'Rennes', 'Reims', 'Grenoble', 'Dijon', 'Angers'
+        ],
+        states: [
+            'Île-de-France', 'Auvergne-Rhône-Alpes', 'Nouvelle-Aquitaine', 'Occitanie', 'Hauts-de-France',
+            'Grand Est', 'Bretagne', 'Normandie', 'Pays de la Loire', 'Provence-Alpes-Côte d\'Azur'
+        ],
+        postcodePatterns: ['#####'],
+        phonePatterns: ['06 ## ## ## ##', '01 ## ## ## ##', '07 ## ## ## ##'],
+        callingCode: '33',
+        companySuffixes: ['SA', 'SARL', 'SAS', 'EURL'],
+        companyNouns: ['Conseil', 'Technologies', 'Services', 'Logistique', 'Industries', 'Solutions', 'Systèmes', 'Groupe', 'Distribution', 'Ingénierie'],
+        jobTitles: [
+            'Ingénieur logiciel', 'Chef de projet', 'Analyste', 'Responsable commercial', 'Comptable',
+            'Ingénieur qualité', 'Chef de produit', 'Consultant', 'Administrateur système', 'Assistant de direction'
+        ],
+        ibanCountry: 'FR',
+        currencyCode: 'EUR'
+    }
+};
@@ -0,0 +1,222 @@
+// src/data/generators/RegexGenerator.ts
+
+import { SeededRandom } from './SeededRandom';
+
+type RegexNode =
+    | { type: 'sequence'; items: RegexNode[] }
+    | { type: 'alternation'; options: RegexNode[] }
+    | { type: 'charset'; chars: string }
+    | { type: 'repeat'; node: RegexNode; min: number; max: number };
+
+const DIGITS = '0123456789';
+const UPPER = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const LOWER = 'abcdefghijklmnopqrstuvwxyz';
+const WORD = UPPER + LOWER + DIGITS + '_';
+const WHITESPACE = ' ';
+const PRINTABLE = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)).join('');
+
+/** Extra repetitions allowed for open-ended quantifiers (*, +, {n,}) */
+const OPEN_REPEAT = 8;
+
+/**
+ * Generates strings matching a regular expression
+ *
+ * Supports literals, escapes (\d \w \s and their negations), character classes
+ * with ranges and negation, `.`, groups, alternation and the quantifiers
+ * `? * + {n} {n,} {n,m}`. Anchors, lookarounds and backreferences are not supported.
+ */
+export class RegexGenerator {
+    private pattern = '';
+    private position = 0;
+
+    constructor(private readonly random: SeededRandom) {}
+
+    generate(pattern: string): string {
+        this.pattern = pattern.replace(/^\^/, '').replace(/(?<!\\)\$$/, '');
+        this.position = 0;
+
+        const node = this.parseAlternation();
+        if (this.position < this.pattern.length) {
+            throw new Error(`Unsupported regex "${pattern}": unexpected "${this.pattern[this.position]}" at ${this.position}`);
+        }
+        return this.render(node);
+    }
+
+    private render(node: RegexNode): string {
+        switch (node.type) {
+            case 'sequence':
+                return node.items.map(item => this.render(item)).join('');
+            case 'alternation':
+                return this.render(this.random.pick(node.options));
+            case 'charset':
+                return this.random.chars(1, node.chars);
+            case 'repeat': {
+                let result = '';
+                const count = this.random.int(node.min, node.max);
+                for (let i = 0; i < count; i++) {
+                    result += this.render(node.node);
+                }
+                return result;
+            }
+        }
+    }
+
+    private parseAlternation(): RegexNode {
+        const options = [this.parseSequence()];
+        while (this.peek() === '|') {
+            this.position++;
+            options.push(this.parseSequence());
+        }
+        return options.length === 1 ? options[0]! : { type: 'alternation', options };
+    }
+
+    private parseSequence(): RegexNode {
+        const items: RegexNode[] = [];
+        while (this.position < this.pattern.length && this.peek() !== '|' && this.peek() !== ')') {
+            const atom = this.parseAtom();
+            if (atom) {
+                items.push(this.parseQuantifier(atom));
+            }
+        }
+        return { type: 'sequence', items };
+    }
+
+    private parseAtom(): RegexNode | null {
+        const char = this.pattern[this.position++]!;
+
+        switch (char) {
+            case '(': {
+                if (this.pattern.startsWith('?:', this.position)) {
+                    this.position += 2;
+                } else if (this.peek() === '?') {
+                    throw new Error(`Unsupported regex group "(${this.pattern.substring(this.position, this.position + 2)}" in "${this.pattern}"`);
+                }
+                const group = this.parseAlternation();
+                this.expect(')');
+                return group;
+            }
+            case '[':
+                return { type: 'charset', chars: this.parseClass() };
+            case '.':
+                return { type: 'charset', chars: UPPER + LOWER + DIGITS };
+            case '\\':
+                return this.parseEscape();
+            case '^':
+            case '$':
+                return null;
+            default:
+                return { type: 'charset', chars: char };
+        }
+    }
+
+    private parseEscape(): RegexNode | null {
+        const char = this.pattern[this.position++];
+        switch (char) {
+            case 'd': return { type: 'charset', chars: DIGITS };
+            case 'w': return { type: 'charset', chars: WORD };
+            case 's': return { type: 'charset', chars: WHITESPACE };
+            case 'D': return { type: 'charset', chars: this.exclude(PRINTABLE, DIGITS) };
+            case 'W': return { type: 'charset', chars: this.exclude(PRINTABLE, WORD) };
+            case 'S': return { type: 'charset', chars: this.exclude(PRINTABLE, WHITESPACE) };
+            case 'b':
+            case 'B': return null;
+            case 'n': return { type: 'charset', chars: '\n' };
+            case 't': return { type: 'charset', chars: '\t' };
+            case undefined: throw new Error(`Unsupported regex "${this.pattern}": trailing backslash`);
+            default: return { type: 'charset', chars: char };
+        }
+    }
+
+    /**
+     * Characters of a [...] class, the opening bracket already consumed
+     */
+    private parseClass(): string {
+        const negate = this.peek() === '^';
+        if (negate) {
+            this.position++;
+        }
+
+        let chars = '';
+        let first = true;
+        while (this.position < this.pattern.length && (this.peek() !== ']' || first)) {
+            first = false;
+            let char = this.pattern[this.position++]!;
+
+            if (char === '\\') {
+                const escaped = this.pattern[this.position++]!;
+                const shorthand: Record<string, string> = { d: DIGITS, w: WORD, s: WHITESPACE };
+                if (shorthand[escaped]) {
+                    chars += shorthand[escaped];
+                    continue;
+                }
+                char = escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+            }
+
+            if (this.peek() === '-' && this.pattern[this.position + 1] !== ']' && this.position + 1 < this.pattern.length) {
+                this.position++;
+                let end = this.pattern[this.position++]!;
+                if (end === '\\') {
+                    end = this.pattern[this.position++]!;
+                }
+                for (let code = char.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+                    chars += String.fromCharCode(code);
+                }
+            } else {
+                chars += char;
+            }
+        }
+        this.expect(']');
+
+        const result = negate ? this.exclude(PRINTABLE, chars) : chars;
+        if (!result) {
+            throw new Error(`Regex character class in "${this.pattern}" matches no characters`);
+        }
+        return result;
+    }
+
+    private parseQuantifier(node: RegexNode): RegexNode {
+        const char = this.peek();
+        let min: number;
+        let max: number;
+
+        if (char === '?') {
+            min = 0; max = 1;
+        } else if (char === '*') {
+            min = 0; max = OPEN_REPEAT;
+        } else if (char === '+') {
+            min = 1; max = 1 + OPEN_REPEAT;
+        } else if (char === '{') {
+            const match = this.pattern.substring(this.position).match(/^\{(\d+)(,(\d*))?\}/);
+            if (!match) {
+                return node;
+            }
+            min = parseInt(match[1]!, 10);
+            max = match[2] === undefined ? min : match[3] ? parseInt(match[3], 10) : min + OPEN_REPEAT;
+            this.position += match[0].length - 1;
+        } else {
+            return node;
+        }
+
+        this.position++;
+        // Lazy and possessive modifiers do not change what can be generated
+        if (this.peek() === '?' || this.peek() === '+') {
+            this.position++;
+        }
+        return { type: 'repeat', node, min, max };
+    }
+
+    private exclude(from: string, chars: string): string {
+        return from.split('').filter(char => !chars.includes(char)).join('');
+    }
+
+    private peek(): string | undefined {
+        return this.pattern[this.position];
+    }
+
+    private expect(char: string): void {
+        if (this.pattern[this.position] !== char) {
+            throw new Error(`Unsupported regex "${this.pattern}": expected "${char}" at ${this.position}`);
+        }
+        this.position++;
+    }
+}
@@ -0,0 +1,91 @@
+// src/data/generators/SeededRandom.ts
+
+/**
+ * Deterministic pseudo random numbers (mulberry32) from a string seed
+ */
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: string) {
+        this.state = SeededRandom.hash(seed);
+    }
+
+    /**
+     * 32-bit hash of a string, used to turn seeds and scopes into PRNG state
+     */
+    static hash(value: string): number {
+        let h = 1779033703 ^ value.length;
+        for (let i = 0; i < value.length; i++) {
+            h = Math.imul(h ^ value.charCodeAt(i), 3432918353);
+            h = (h << 13) | (h >>> 19);
+        }
+        h = Math.imul(h ^ (h >>> 16), 2246822507);
+        h = Math.imul(h ^ (h >>> 13), 3266489909);
+        return (h ^ (h >>> 16)) >>> 0;
+    }
+
+    /**
+     * Float in [0, 1)
+     */
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Integer in [min, max]
+     */
+    int(min: number, max: number): number {
+        return Math.floor(this.next() * (max - min + 1)) + min;
+    }
+
+    float(min: number, max: number, decimals: number = 2): number {
+        const factor = Math.pow(10, decimals);
+        return Math.round((this.next() * (max - min) + min) * factor) / factor;
+    }
+
+    boolean(probability: number = 0.5): boolean {
+        return this.next() < probability;
+    }
+
+    pick<T>(items: readonly T[]): T {
+        if (items.length === 0) {
+            throw new Error('Cannot pick from an empty list');
+        }
+        return items[Math.floor(this.next() * items.length)]!;
+    }
+
+    /**
+     * Random characters from the given set
+     */
+    chars(length: number, charset: string): string {
+        let result = '';
+        for (let i = 0; i < length; i++) {
+            result += charset.charAt(Math.floor(this.next() * charset.length));
+        }
+        return result;
+    }
+
+    /**
+     * Replace `#` with digits and `?` with uppercase letters
+     */
+    pattern(pattern: string): string {
+        return pattern.replace(/[#?]/g, char =>
+            char === '#' ? String(this.int(0, 9)) : String.fromCharCode(this.int(65, 90))
+        );
+    }
+
+    /**
+     * RFC 4122 version 4 UUID from the seeded sequence
+     */
+    uuid(): string {
+        const hex = this.chars(32, '0123456789abcdef').split('');
+        hex[12] = '4';
+        hex[16] = '89ab'.charAt(this.int(0, 3));
+        const value = hex.join('');
+        return `${value.substring(0, 8)}-${value.substring(8, 12)}-${value.substring(12, 16)}-${value.substring(16, 20)}-${value.substring(20)}`;
+    }
+}
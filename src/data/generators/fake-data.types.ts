@@ -0,0 +1,44 @@
+// src/data/generators/fake-data.types.ts
+
+/**
+ * Locale data used by the fake data generator
+ *
+ * Patterns use `#` for a digit and `?` for an uppercase letter.
+ */
+export interface FakeLocale {
+    code: string;
+    country: string;
+    countryCode: string;
+    maleFirstNames: string[];
+    femaleFirstNames: string[];
+    lastNames: string[];
+    prefixes: { male: string[]; female: string[] };
+    streets: string[];
+    /** Street address format with {street} and {number} */
+    streetAddressFormat: string;
+    cities: string[];
+    states: string[];
+    postcodePatterns: string[];
+    phonePatterns: string[];
+    /** Country calling code without + */
+    callingCode: string;
+    companySuffixes: string[];
+    companyNouns: string[];
+    jobTitles: string[];
+    /** IBAN country used for this locale */
+    ibanCountry: string;
+    currencyCode: string;
+}
+
+/**
+ * IBAN structure of a country, BBAN as `<length><type>` parts where
+ * type is n (digits), a (uppercase letters) or c (alphanumeric)
+ */
+export interface IbanSpec {
+    country: string;
+    bban: string;
+}
+
+export type FakeValue = string | number | boolean;
+
+export type FakeGeneratorFunction = (...args: string[]) => FakeValue;
@@ -160,7 +160,7 @@ export class CSDataProvider {
         // Parse tag format: @DataProvider(source="file.xlsx", sheet="TestData", filter="Status=Active")
         if (options.tagValue) {
             const parsed = this.parseTagValue(options.tagValue);
-            return { ...options, ...parsed };
+            return { ...options, ...parsed, type: parsed.type || options.type || this.detectSourceType(parsed.source || options.source) };
         }
         
         // Apply defaults
@@ -218,6 +218,15 @@ export class CSDataProvider {
                 case 'skipFlag':
                     options.skipExecutionFlag = value === 'true';
                     break;
+                case 'rows':
+                    options.rows = parseInt(value || '0', 10);
+                    break;
+                case 'seed':
+                    options.seed = value || '';
+                    break;
+                case 'locale':
+                    options.locale = value || '';
+                    break;
             }
         }
         
@@ -526,6 +535,7 @@ export class CSDataProvider {
      */
     private detectSourceType(source?: string): DataSource {
         if (!source) return 'excel';
+        if (source.startsWith('generate:')) return 'generate';
         
         const ext = path.extname(source).toLowerCase();
         switch (ext) {
@@ -563,7 +573,7 @@ export class CSDataProvider {
      * Generate cache key
      */
     private generateCacheKey(options: DataProviderOptions): string {
-        return `${options.source}_${options.type}_${JSON.stringify(options.filter || {})}`;
+        return `${options.source}_${options.type}_${JSON.stringify(options.filter || {})}_${options.rows ?? ''}_${options.seed ?? ''}_${options.locale ?? ''}`;
     }
 
     /**
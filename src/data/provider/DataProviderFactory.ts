@@ -7,6 +7,7 @@ import { JSONHandler } from '../handlers/JSONHandler';
 import { XMLHandler } from '../handlers/XMLHandler';
 import { DatabaseHandler } from '../handlers/DatabaseHandler';
 import { FileHandler } from '../handlers/FileHandler';
+import { GenerateHandler } from '../handlers/GenerateHandler';
 import { logger } from '../../core/utils/Logger';
 import { ActionLogger } from '../../core/logging/ActionLogger';
 
@@ -26,6 +27,7 @@ export class DataProviderFactory {
         this.handlers.set('xml', XMLHandler);
         this.handlers.set('database', DatabaseHandler);
         this.handlers.set('file', FileHandler);
+        this.handlers.set('generate', GenerateHandler);
         
         logger.debug('DataProviderFactory initialized with handlers:', Array.from(this.handlers.keys()));
     }
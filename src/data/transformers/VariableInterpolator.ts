@@ -2,6 +2,7 @@
 import { VariableSource, InterpolationResult } from './variable-interpolator.types';
 import { logger } from '../../core/utils/Logger';
 import { CryptoUtils } from '../../core/utils/CryptoUtils';
+import { FakeDataGenerator } from '../generators/FakeDataGenerator';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -305,9 +306,10 @@ export class VariableInterpolator {
         context: Record<string, any>,
         options: ExtendedInterpolationOptions
     ): Promise<any> {
-        // Check cache
+        // Check cache (fake data must be generated every time)
         const cacheKey = `${expression}:${JSON.stringify(context)}`;
-        if (options.cacheResults && this.cache.has(cacheKey)) {
+        const cacheable = options.cacheResults && !expression.trim().startsWith('fake.');
+        if (cacheable && this.cache.has(cacheKey)) {
             return this.cache.get(cacheKey);
         }
 
@@ -317,7 +319,9 @@ export class VariableInterpolator {
         const { variable, filters, fallback } = this.parseExpression(expression);
 
         // Try different sources
-        if (variable.startsWith('env.') && options.enableEnvironmentVars) {
+        if (variable.startsWith('fake.')) {
+            value = FakeDataGenerator.getInstance().evaluate(variable.substring(5));
+        } else if (variable.startsWith('env.') && options.enableEnvironmentVars) {
             value = await this.resolveEnvironmentVariable(variable.substring(4));
         } else if (variable.startsWith('sys.') && options.enableSystemVars) {
             value = await this.resolveSystemVariable(variable.substring(4));
@@ -359,7 +363,7 @@ export class VariableInterpolator {
         }
 
         // Cache result
-        if (options.cacheResults && value !== undefined) {
+        if (cacheable && value !== undefined) {
             this.cache.set(cacheKey, value);
         }
 
@@ -49,7 +49,7 @@ export type ExecutionFlag = 'Y' | 'N' | 'S'; // Yes, No, Skip
 /**
  * Data source types
  */
-export type DataSource = 'excel' | 'csv' | 'json' | 'xml' | 'database' | 'file';
+export type DataSource = 'excel' | 'csv' | 'json' | 'xml' | 'database' | 'file' | 'generate';
 
 /**
  * Data provider options
@@ -81,6 +81,11 @@ export interface DataProviderOptions {
     xmlPath?: string;
     namespace?: Record<string, string>;
     
+    // Generated data specific (source="generate:<preset or fields>")
+    rows?: number;
+    seed?: string;
+    locale?: string;
+    
     // Filtering
     filter?: Record<string, any>;
     where?: string;
@@ -0,0 +1,587 @@
+// src/database/adapters/SQLiteAdapter.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DatabaseConnection,
+  DatabaseConfig,
+  QueryResult,
+  QueryOptions,
+  PreparedStatement,
+  TransactionOptions,
+  DatabaseMetadata,
+  TableInfo,
+  ConstraintMetadata
+} from '../types/database.types';
+import { DatabaseAdapter } from './DatabaseAdapter';
+import { logger } from '../../core/utils/Logger';
+
+/**
+ * SQLite database adapter implementation
+ *
+ * The database is a file path (or ":memory:") given as the configured database
+ * name, so suites can run against file-based fixtures without a server.
+ * Options:
+ * - fixture: comma separated SQL files executed when the database is created
+ * - reset: delete an existing database file first so every run starts from the fixtures
+ * - readonly: open the database read only
+ * - filemustexist: fail instead of creating a missing database file
+ */
+export class SQLiteAdapter extends DatabaseAdapter {
+  private sqlite: any;
+  private statementCounter: number = 0;
+
+  constructor() {
+    super();
+  }
+
+  /**
+   * Load better-sqlite3 module dynamically
+   */
+  private async loadDriver(): Promise<void> {
+    if (!this.sqlite) {
+      try {
+        const module: any = await import('better-sqlite3');
+        this.sqlite = module.default || module;
+      } catch (error) {
+        throw new Error('SQLite driver (better-sqlite3) not installed. Run: npm install better-sqlite3');
+      }
+    }
+  }
+
+  /**
+   * Open SQLite database
+   */
+  async connect(config: DatabaseConfig): Promise<DatabaseConnection> {
+    await this.loadDriver();
+    this.config = config;
+
+    const options = { ...config.options, ...config.additionalOptions };
+    const filename = this.resolveFilename(config);
+
+    try {
+      if (filename !== ':memory:' && this.isEnabled(options['reset']) && fs.existsSync(filename)) {
+        fs.unlinkSync(filename);
+      }
+      const created = filename === ':memory:' || !fs.existsSync(filename);
+
+      const db = new this.sqlite(filename, {
+        readonly: this.isEnabled(options['readonly']),
+        fileMustExist: this.isEnabled(options['filemustexist']),
+        timeout: config.queryTimeout || 30000
+      });
+
+      db.pragma('foreign_keys = ON');
+
+      if (created && options['fixture']) {
+        this.applyFixtures(db, options['fixture']);
+      }
+
+      return db;
+    } catch (error) {
+      throw this.parseConnectionError(error);
+    }
+  }
+
+  /**
+   * Close SQLite database
+   */
+  async disconnect(connection: DatabaseConnection): Promise<void> {
+    try {
+      const db = connection as any;
+
+      if (db.open) {
+        db.close();
+      }
+    } catch (error) {
+      logger.error('SQLite disconnect error:', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Execute query
+   */
+  async query(
+    connection: DatabaseConnection,
+    sql: string,
+    params?: any[],
+    _options?: QueryOptions
+  ): Promise<QueryResult> {
+    const db = connection as any;
+
+    try {
+      const startTime = Date.now();
+      const bindings = this.normalizeParams(params);
+      let statement: any;
+
+      try {
+        statement = db.prepare(sql);
+      } catch (error: any) {
+        // Scripts with several statements cannot be prepared, run them as a batch
+        if (bindings.length === 0 && /more than one statement/i.test(error.message)) {
+          db.exec(sql);
+          return {
+            rows: [],
+            rowCount: 0,
+            affectedRows: 0,
+            fields: [],
+            command: this.getCommand(sql),
+            duration: Date.now() - startTime
+          };
+        }
+        throw error;
+      }
+
+      if (statement.reader) {
+        const rows = statement.all(...bindings);
+
+        return {
+          rows,
+          rowCount: rows.length,
+          affectedRows: 0,
+          fields: statement.columns().map((column: any) => ({
+            name: column.name,
+            dataType: column.type || 'ANY',
+            table: column.table,
+            database: column.database
+          })),
+          command: this.getCommand(sql),
+          duration: Date.now() - startTime
+        };
+      }
+
+      const info = statement.run(...bindings);
+
+      return {
+        rows: [],
+        rowCount: info.changes,
+        affectedRows: info.changes,
+        fields: [],
+        command: this.getCommand(sql),
+        lastInsertId: Number(info.lastInsertRowid),
+        duration: Date.now() - startTime
+      };
+    } catch (error: any) {
+      throw this.parseQueryError(error, sql);
+    }
+  }
+
+  /**
+   * SQLite has no stored procedures
+   */
+  async executeStoredProcedure(
+    _connection: DatabaseConnection,
+    procedureName: string,
+    _params?: any[],
+    _options?: QueryOptions
+  ): Promise<QueryResult> {
+    throw new Error(`SQLite does not support stored procedures: ${procedureName}`);
+  }
+
+  /**
+   * Execute function
+   */
+  async executeFunction(
+    connection: DatabaseConnection,
+    functionName: string,
+    params?: any[],
+    options?: QueryOptions
+  ): Promise<any> {
+    const paramPlaceholders = params ? params.map(() => '?').join(', ') : '';
+    const sql = `SELECT ${functionName}(${paramPlaceholders}) AS result`;
+
+    const result = await this.query(connection, sql, params, options);
+    return result.rows[0]?.result;
+  }
+
+  /**
+   * Begin transaction
+   *
+   * SQLite transactions are always serializable, SERIALIZABLE takes the write
+   * lock up front instead of on the first write.
+   */
+  async beginTransaction(
+    connection: DatabaseConnection,
+    options?: TransactionOptions
+  ): Promise<void> {
+    const mode = options?.isolationLevel === 'SERIALIZABLE' ? 'IMMEDIATE' : 'DEFERRED';
+    await this.query(connection, `BEGIN ${mode} TRANSACTION`);
+  }
+
+  /**
+   * Commit transaction
+   */
+  async commitTransaction(connection: DatabaseConnection): Promise<void> {
+    await this.query(connection, 'COMMIT');
+  }
+
+  /**
+   * Rollback transaction
+   */
+  async rollbackTransaction(connection: DatabaseConnection): Promise<void> {
+    await this.query(connection, 'ROLLBACK');
+  }
+
+  /**
+   * Create savepoint
+   */
+  async createSavepoint(connection: DatabaseConnection, name: string): Promise<void> {
+    await this.query(connection, `SAVEPOINT ${this.escapeIdentifier(name)}`);
+  }
+
+  /**
+   * Release savepoint
+   */
+  async releaseSavepoint(connection: DatabaseConnection, name: string): Promise<void> {
+    await this.query(connection, `RELEASE SAVEPOINT ${this.escapeIdentifier(name)}`);
+  }
+
+  /**
+   * Rollback to savepoint
+   */
+  async rollbackToSavepoint(connection: DatabaseConnection, name: string): Promise<void> {
+    await this.query(connection, `ROLLBACK TO SAVEPOINT ${this.escapeIdentifier(name)}`);
+  }
+
+  /**
+   * Prepare statement
+   */
+  async prepare(connection: DatabaseConnection, sql: string): Promise<PreparedStatement> {
+    const db = connection as any;
+
+    try {
+      // Compile once so syntax errors surface here rather than on first execution
+      db.prepare(sql);
+    } catch (error) {
+      throw this.parseQueryError(error, sql);
+    }
+
+    return {
+      id: `stmt_${++this.statementCounter}`,
+      query: sql,
+      paramCount: (sql.match(/\?/g) || []).length,
+      execute: async (params?: any[]) => this.query(connection, sql, params),
+      close: async () => {}
+    };
+  }
+
+  /**
+   * Execute prepared statement
+   */
+  async executePrepared(
+    statement: PreparedStatement,
+    params?: any[]
+  ): Promise<QueryResult> {
+    return await statement.execute(params);
+  }
+
+  /**
+   * Ping connection
+   */
+  async ping(connection: DatabaseConnection): Promise<void> {
+    await this.query(connection, 'SELECT 1');
+  }
+
+  /**
+   * Get database metadata
+   */
+  async getMetadata(connection: DatabaseConnection): Promise<DatabaseMetadata> {
+    const db = connection as any;
+    const versionResult = await this.query(connection, 'SELECT sqlite_version() AS version');
+    const databases = db.pragma('database_list') as Array<{ name: string; file: string }>;
+
+    return {
+      databaseName: db.name,
+      serverType: 'sqlite',
+      version: versionResult.rows[0].version,
+      capabilities: {
+        transactions: true,
+        preparedStatements: true,
+        storedProcedures: false,
+        bulkInsert: true,
+        streaming: true,
+        savepoints: true,
+        schemas: true,
+        json: true,
+        arrays: false
+      },
+      characterSet: db.pragma('encoding', { simple: true }),
+      currentSchema: 'main',
+      schemas: databases.map(database => database.name)
+    };
+  }
+
+  /**
+   * Get table information
+   */
+  async getTableInfo(connection: DatabaseConnection, tableName: string): Promise<TableInfo> {
+    const db = connection as any;
+
+    // Parse schema (attached database) and table name
+    const parts = tableName.split('.');
+    const schemaName = parts.length > 1 ? parts[0]! : 'main';
+    const actualTableName = parts.length > 1 ? parts[1]! : tableName;
+    const schema = this.escapeIdentifier(schemaName);
+    const table = this.escapeIdentifier(actualTableName);
+
+    const master = db
+      .prepare(`SELECT type FROM ${schema}.sqlite_master WHERE type IN ('table', 'view') AND name = ?`)
+      .get(actualTableName);
+
+    if (!master) {
+      throw new Error(`Table '${tableName}' does not exist`);
+    }
+
+    const columns: any[] = db.pragma(`${schema}.table_xinfo(${table})`);
+    const indexes: any[] = db.pragma(`${schema}.index_list(${table})`);
+    const foreignKeys: any[] = db.pragma(`${schema}.foreign_key_list(${table})`);
+
+    const indexColumns = new Map<string, string[]>();
+    for (const index of indexes) {
+      const info: any[] = db.pragma(`${schema}.index_info(${this.escapeIdentifier(index.name)})`);
+      indexColumns.set(index.name, info.map(column => column.name));
+    }
+
+    const primaryKeyColumns = columns
+      .filter(column => column.pk > 0)
+      .sort((a, b) => a.pk - b.pk)
+      .map(column => column.name);
+
+    const uniqueColumns = new Set(
+      indexes
+        .filter(index => index.unique && indexColumns.get(index.name)?.length === 1)
+        .map(index => indexColumns.get(index.name)![0])
+    );
+
+    const constraints: ConstraintMetadata[] = [];
+    if (primaryKeyColumns.length > 0) {
+      constraints.push({ name: 'PRIMARY', table: actualTableName, type: 'primary', columns: primaryKeyColumns });
+    }
+
+    indexes
+      .filter(index => index.origin === 'u')
+      .forEach(index => constraints.push({
+        name: index.name,
+        table: actualTableName,
+        type: 'unique',
+        columns: indexColumns.get(index.name) || []
+      }));
+
+    const foreignKeyGroups = new Map<number, any[]>();
+    for (const foreignKey of foreignKeys) {
+      foreignKeyGroups.set(foreignKey.id, [...(foreignKeyGroups.get(foreignKey.id) || []), foreignKey]);
+    }
+    foreignKeyGroups.forEach((group, id) => {
+      const ordered = group.sort((a, b) => a.seq - b.seq);
+      constraints.push({
+        name: `fk_${actualTableName}_${id}`,
+        table: actualTableName,
+        type: 'foreign',
+        columns: ordered.map(key => key.from),
+        definition: `ON UPDATE ${ordered[0].on_update} ON DELETE ${ordered[0].on_delete}`,
+        references: {
+          table: ordered[0].table,
+          columns: ordered.map(key => key.to).filter((column: string | null) => column !== null)
+        }
+      });
+    });
+
+    const rowCount = db.prepare(`SELECT COUNT(*) AS count FROM ${schema}.${table}`).get().count;
+
+    return {
+      name: actualTableName,
+      type: master.type === 'view' ? 'view' : 'table',
+      columns: columns.map((col, index) => {
+        const typeInfo = this.parseColumnType(col.type);
+        // A single INTEGER PRIMARY KEY column is an alias of the auto-assigned rowid
+        const isRowIdAlias = primaryKeyColumns.length === 1 &&
+          col.pk === 1 && String(col.type).toUpperCase() === 'INTEGER';
+
+        return {
+          name: col.name,
+          ordinalPosition: index + 1,
+          dataType: typeInfo.dataType,
+          nativeDataType: col.type,
+          nullable: col.notnull === 0 && col.pk === 0,
+          defaultValue: col.dflt_value,
+          ...(typeInfo.maxLength !== undefined && { maxLength: typeInfo.maxLength }),
+          ...(typeInfo.precision !== undefined && { precision: typeInfo.precision }),
+          ...(typeInfo.scale !== undefined && { scale: typeInfo.scale }),
+          isPrimaryKey: col.pk > 0,
+          isUnique: col.pk > 0 && primaryKeyColumns.length === 1 || uniqueColumns.has(col.name),
+          isAutoIncrement: isRowIdAlias,
+          isGenerated: col.hidden === 2 || col.hidden === 3
+        };
+      }),
+      ...(primaryKeyColumns.length > 0 && { primaryKey: { name: 'PRIMARY', columns: primaryKeyColumns } }),
+      constraints,
+      indexes: indexes.map(idx => ({
+        name: idx.name,
+        table: actualTableName,
+        unique: idx.unique === 1,
+        columns: indexColumns.get(idx.name) || [],
+        type: 'btree' as const
+      })),
+      rowCount,
+      schema: schemaName
+    };
+  }
+
+  /**
+   * Bulk insert in a single transaction with one prepared statement
+   */
+  async bulkInsert(
+    connection: DatabaseConnection,
+    table: string,
+    data: any[]
+  ): Promise<number> {
+    if (data.length === 0) return 0;
+
+    const db = connection as any;
+    const columns = Object.keys(data[0]);
+    const columnNames = columns.map(col => this.escapeIdentifier(col)).join(', ');
+    const placeholders = columns.map(() => '?').join(', ');
+    const sql = `INSERT INTO ${this.escapeTableName(table)} (${columnNames}) VALUES (${placeholders})`;
+
+    try {
+      const statement = db.prepare(sql);
+
+      // Nested inside an open transaction this becomes a savepoint
+      const insertAll = db.transaction((rows: any[]) => {
+        let inserted = 0;
+        for (const row of rows) {
+          inserted += statement.run(...this.normalizeParams(columns.map(col => row[col]))).changes;
+        }
+        return inserted;
+      });
+
+      return insertAll(data);
+    } catch (error) {
+      throw this.parseQueryError(error, sql);
+    }
+  }
+
+  /**
+   * Stream query results
+   */
+  override async *stream(
+    connection: DatabaseConnection,
+    sql: string,
+    params?: any[]
+  ): AsyncGenerator<any, void, unknown> {
+    const db = connection as any;
+    const statement = db.prepare(sql);
+
+    for (const row of statement.iterate(...this.normalizeParams(params))) {
+      yield row;
+    }
+  }
+
+  /**
+   * Session parameters map to pragmas
+   */
+  override async setSessionParameter(
+    connection: DatabaseConnection,
+    parameter: string,
+    value: any
+  ): Promise<void> {
+    if (!/^\w+$/.test(parameter)) {
+      throw new Error(`Invalid SQLite pragma: ${parameter}`);
+    }
+    (connection as any).pragma(`${parameter} = ${typeof value === 'string' ? this.escapeValue(value) : Number(value)}`);
+  }
+
+  /**
+   * Escape identifier
+   */
+  override escapeIdentifier(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  /**
+   * Resolve database file, relative paths are taken from the working directory
+   */
+  private resolveFilename(config: DatabaseConfig): string {
+    const database = (config.database || ':memory:').replace(/^sqlite:(\/\/)?/i, '');
+
+    if (database === ':memory:' || database === '') {
+      return ':memory:';
+    }
+
+    const filename = path.resolve(process.cwd(), database);
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+    return filename;
+  }
+
+  /**
+   * Run fixture scripts against a newly created database
+   */
+  private applyFixtures(db: any, fixture: string): void {
+    for (const fixturePath of String(fixture).split(',').map(file => file.trim()).filter(Boolean)) {
+      const resolvedPath = path.resolve(process.cwd(), fixturePath);
+      if (!fs.existsSync(resolvedPath)) {
+        throw new Error(`SQLite fixture not found: ${resolvedPath}`);
+      }
+      logger.debug(`Applying SQLite fixture ${resolvedPath}`);
+      db.exec(fs.readFileSync(resolvedPath, 'utf-8'));
+    }
+  }
+
+  /**
+   * Convert values SQLite cannot bind
+   */
+  private normalizeParams(params?: any[]): any[] {
+    return (params || []).map(value => {
+      if (value === undefined) return null;
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      if (value instanceof Date) return value.toISOString();
+      return value;
+    });
+  }
+
+  /**
+   * Split declared type like DECIMAL(10,2) into type, length, precision and scale
+   */
+  private parseColumnType(type: string): { dataType: string; maxLength?: number; precision?: number; scale?: number } {
+    const match = String(type || '').match(/^([^(]+)\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)/);
+    if (!match) {
+      return { dataType: String(type || '').toLowerCase() || 'any' };
+    }
+
+    const dataType = match[1]!.trim().toLowerCase();
+    const first = parseInt(match[2]!);
+    if (match[3] !== undefined) {
+      return { dataType, precision: first, scale: parseInt(match[3]) };
+    }
+    return /char|text|clob/.test(dataType) ? { dataType, maxLength: first } : { dataType, precision: first };
+  }
+
+  private escapeTableName(table: string): string {
+    return table.split('.').map(part => this.escapeIdentifier(part)).join('.');
+  }
+
+  private getCommand(sql: string): string {
+    return sql.trim().split(/\s+/)[0]?.toUpperCase() || '';
+  }
+
+  private isEnabled(value: any): boolean {
+    return value === true || String(value).toLowerCase() === 'true';
+  }
+
+  /**
+   * Parse query error
+   */
+  private parseQueryError(error: any, sql: string): Error {
+    const message = `SQLite Error: ${error.message}\nSQL: ${sql.substring(0, 200)}${sql.length > 200 ? '...' : ''}`;
+    const enhancedError = new Error(message);
+
+    Object.assign(enhancedError, {
+      code: error.code,
+      originalError: error,
+      sql
+    });
+
+    return enhancedError;
+  }
+}
@@ -22,6 +22,7 @@ import { PostgreSQLAdapter } from '../adapters/PostgreSQLAdapter';
 import { OracleAdapter } from '../adapters/OracleAdapter';
 import { MongoDBAdapter } from '../adapters/MongoDBAdapter';
 import { RedisAdapter } from '../adapters/RedisAdapter';
+import { SQLiteAdapter } from '../adapters/SQLiteAdapter';
 import { Logger } from '../../core/utils/Logger';
 import { ActionLogger } from '../../core/logging/ActionLogger';
 import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
@@ -715,10 +716,15 @@ export class CSDatabase {
    * Load database configuration
    */
   private static async loadDatabaseConfig(alias: string): Promise<DatabaseConfig> {
+    const type = ConfigurationManager.get(`DB_${alias.toUpperCase()}_TYPE`, 'sqlserver') as DatabaseType;
+    // SQLite is file based: no host, and a single connection so in-memory databases are shared
+    const fileBased = type === 'sqlite';
     const config: DatabaseConfig = {
-      type: ConfigurationManager.get(`DB_${alias.toUpperCase()}_TYPE`, 'sqlserver') as DatabaseType,
-      host: ConfigurationManager.getRequired(`DB_${alias.toUpperCase()}_HOST`),
-      port: ConfigurationManager.getInt(`DB_${alias.toUpperCase()}_PORT`, 1433),
+      type,
+      host: fileBased
+        ? ConfigurationManager.get(`DB_${alias.toUpperCase()}_HOST`, '')
+        : ConfigurationManager.getRequired(`DB_${alias.toUpperCase()}_HOST`),
+      port: ConfigurationManager.getInt(`DB_${alias.toUpperCase()}_PORT`, fileBased ? 0 : 1433),
       database: ConfigurationManager.getRequired(`DB_${alias.toUpperCase()}_DATABASE`),
       username: ConfigurationManager.get(`DB_${alias.toUpperCase()}_USERNAME`) || '',
       password: ConfigurationManager.get(`DB_${alias.toUpperCase()}_PASSWORD`) || '',
@@ -726,7 +732,7 @@ export class CSDatabase {
       ssl: ConfigurationManager.getBoolean(`DB_${alias.toUpperCase()}_SSL`, false),
       connectionTimeout: ConfigurationManager.getInt(`DB_${alias.toUpperCase()}_CONNECTION_TIMEOUT`, 30000),
       queryTimeout: ConfigurationManager.getInt(`DB_${alias.toUpperCase()}_REQUEST_TIMEOUT`, 30000),
-      poolSize: ConfigurationManager.getInt(`DB_${alias.toUpperCase()}_POOL_SIZE`, 10),
+      poolSize: ConfigurationManager.getInt(`DB_${alias.toUpperCase()}_POOL_SIZE`, fileBased ? 1 : 10),
       options: {},
     };
 
@@ -776,6 +782,12 @@ export class CSDatabase {
     } else if (connectionString.toLowerCase().includes('oracle:')) {
       config.type = 'oracle';
       config.port = 1521;
+    } else if (/^sqlite:/i.test(connectionString) || /\.(db|sqlite3?)$/i.test(connectionString)) {
+      config.type = 'sqlite';
+      config.port = 0;
+      config.poolSize = 1;
+      config.database = connectionString.replace(/^sqlite:(\/\/)?/i, '');
+      return config;
     }
 
     // Parse common patterns
@@ -846,6 +858,8 @@ export class CSDatabase {
         return new MongoDBAdapter();
       case 'redis':
         return new RedisAdapter();
+      case 'sqlite':
+        return new SQLiteAdapter();
       default:
         throw new Error(`Unsupported database type: ${type}`);
     }
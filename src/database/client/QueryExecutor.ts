@@ -3,6 +3,9 @@
 import { DatabaseConnection, QueryOptions, PreparedStatement, QueryResult } from '../types/database.types';
 import { DatabaseAdapter } from '../adapters/DatabaseAdapter';
 import { Logger } from '../../core/utils/Logger';
+import { CSTracer } from '../../core/telemetry/CSTracer';
+import { TraceSpan } from '../../core/telemetry/TraceSpan';
+import { SpanKind } from '../../core/telemetry/types/telemetry.types';
 // import { ActionLogger } from '../../core/logging/ActionLogger';
 
 /**
@@ -29,13 +32,18 @@ export class QueryExecutor {
   ): Promise<QueryResult> {
     const queryOptions = this.mergeOptions(options);
     const startTime = Date.now();
+    const span = this.startSpan(connection, sql);
     
     try {
-      // Execute with retry logic
-      return await this.executeWithRetry(
-        () => this.executeQuery(connection, sql, params, queryOptions),
-        queryOptions
-      );
+      return await CSTracer.getInstance().withSpan(span, async () => {
+        // Execute with retry logic
+        const result = await this.executeWithRetry(
+          () => this.executeQuery(connection, sql, params, queryOptions),
+          queryOptions
+        );
+        span.setAttribute('db.response.returned_rows', result.rowCount);
+        return result;
+      });
     } finally {
       const duration = Date.now() - startTime;
       if (duration > 5000) {
@@ -191,6 +199,26 @@ export class QueryExecutor {
     });
   }
 
+  /**
+   * Client span of a query, a child of the step running it
+   */
+  private startSpan(connection: DatabaseConnection, sql: string): TraceSpan {
+    const operation = sql.trim().split(/\s+/)[0]?.toUpperCase() || 'QUERY';
+    const database = connection.config?.database;
+
+    return CSTracer.getInstance().startSpan(database ? `${operation} ${database}` : operation, {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        'db.system': connection.type === 'sqlserver' ? 'mssql' : connection.type,
+        'db.namespace': database,
+        'db.operation.name': operation,
+        'db.query.text': sql,
+        'server.address': connection.config?.host,
+        'server.port': connection.config?.port
+      }
+    });
+  }
+
   /**
    * Execute query with timeout
    */
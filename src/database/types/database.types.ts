@@ -5,7 +5,7 @@
  */
 export interface DatabaseConnection {
     id: string;
-    type: 'sqlserver' | 'mysql' | 'postgresql' | 'oracle' | 'mongodb' | 'redis';
+    type: 'sqlserver' | 'mysql' | 'postgresql' | 'oracle' | 'mongodb' | 'redis' | 'sqlite';
     instance: any; // The actual database connection object
     config: DatabaseConfig;
     connected: boolean;
@@ -19,7 +19,7 @@ export interface DatabaseConnection {
 /**
  * Database types
  */
-export type DatabaseType = 'sqlserver' | 'mysql' | 'postgresql' | 'oracle' | 'mongodb' | 'redis';
+export type DatabaseType = 'sqlserver' | 'mysql' | 'postgresql' | 'oracle' | 'mongodb' | 'redis' | 'sqlite';
 
 /**
  * Database configuration interface
@@ -517,6 +517,22 @@ export class QueryValidator {
                 }
                 break;
 
+            case 'sqlite':
+                // SQLite specific validations
+                if (/\bTOP\s+\d+/i.test(query)) {
+                    issues.push('TOP is not supported in SQLite. Use LIMIT');
+                }
+                if (/\bAUTO_INCREMENT\b/i.test(query)) {
+                    issues.push('AUTO_INCREMENT is not supported in SQLite. Use INTEGER PRIMARY KEY AUTOINCREMENT');
+                }
+                if (/\bIDENTITY/i.test(query)) {
+                    issues.push('IDENTITY is not supported in SQLite. Use INTEGER PRIMARY KEY');
+                }
+                if (/\b(GETDATE|NOW)\s*\(\)/i.test(query)) {
+                    issues.push('GETDATE()/NOW() are not supported in SQLite. Use CURRENT_TIMESTAMP or datetime(\'now\')');
+                }
+                break;
+
             case 'mongodb':
                 // MongoDB validations (checking for SQL in NoSQL context)
                 if (/\b(SELECT|INSERT|UPDATE|DELETE|FROM|WHERE|JOIN)\b/i.test(query)) {
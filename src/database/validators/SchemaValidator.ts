@@ -673,6 +673,13 @@ export class SchemaValidator {
                     WHERE TABLE_NAME = UPPER('${tableName}')
                 `;
             
+            case 'sqlite':
+                return `
+                    SELECT name 
+                    FROM ${schema ? `"${schema}".` : ''}sqlite_master 
+                    WHERE type = 'table' AND name = '${tableName}'
+                `;
+            
             case 'mongodb':
                 return `db.getCollectionNames().filter(name => name === '${tableName}')`;
             
@@ -721,6 +728,15 @@ export class SchemaValidator {
                     AND COLUMN_NAME = UPPER('${columnName}')
                 `;
             
+            case 'sqlite':
+                return `
+                    SELECT name AS column_name, type AS data_type, 
+                           CASE WHEN "notnull" = 0 THEN 'YES' ELSE 'NO' END AS is_nullable, 
+                           dflt_value AS column_default
+                    FROM pragma_table_info('${tableName}'${schema ? `, '${schema}'` : ''}) 
+                    WHERE name = '${columnName}'
+                `;
+            
             case 'mongodb':
                 // MongoDB doesn't have fixed schema, check if field exists in any document
                 return `db.${tableName}.findOne({ "${columnName}": { $exists: true } })`;
@@ -823,6 +839,19 @@ export class SchemaValidator {
                 `;
                 break;
             
+            case 'sqlite':
+                query = `
+                    SELECT 
+                        name,
+                        type as dataType,
+                        CASE WHEN "notnull" = 0 AND pk = 0 THEN 1 ELSE 0 END as nullable,
+                        dflt_value as defaultValue,
+                        CASE WHEN pk > 0 THEN 1 ELSE 0 END as primaryKey
+                    FROM pragma_table_info('${tableName}'${schema ? `, '${schema}'` : ''})
+                    ORDER BY cid
+                `;
+                break;
+            
             default:
                 return [];
         }
@@ -933,6 +962,13 @@ export class SchemaValidator {
                     AND INDEX_NAME = UPPER('${indexName}')
                 `;
             
+            case 'sqlite':
+                return `
+                    SELECT name 
+                    FROM pragma_index_list('${tableName}'${schema ? `, '${schema}'` : ''}) 
+                    WHERE name = '${indexName}'
+                `;
+            
             default:
                 return '';
         }
@@ -981,6 +1017,14 @@ export class SchemaValidator {
                     AND CONSTRAINT_TYPE = 'R'
                 `;
             
+            case 'sqlite':
+                // SQLite foreign keys are unnamed, match on the referenced table
+                return `
+                    SELECT DISTINCT "table" 
+                    FROM pragma_foreign_key_list('${tableName}'${schema ? `, '${schema}'` : ''}) 
+                    WHERE "table" = '${foreignKeyName}'
+                `;
+            
             default:
                 return '';
         }
@@ -1058,6 +1102,23 @@ export class SchemaValidator {
                     ${oraTypeFilter}
                 `;
             
+            case 'sqlite': {
+                const sqliteTypeMap: Record<string, string> = {
+                    'PRIMARY KEY': 'pk',
+                    'UNIQUE': 'u'
+                };
+                const sqliteTypeFilter = constraintType && sqliteTypeMap[constraintType] ? 
+                    `AND origin = '${sqliteTypeMap[constraintType]}'` : `AND origin IN ('pk', 'u')`;
+                
+                return `
+                    SELECT name AS constraint_name, 
+                           CASE origin WHEN 'pk' THEN 'PRIMARY KEY' ELSE 'UNIQUE' END as constraint_type
+                    FROM pragma_index_list('${tableName}'${schema ? `, '${schema}'` : ''}) 
+                    WHERE name = '${constraintName}'
+                    ${sqliteTypeFilter}
+                `;
+            }
+            
             default:
                 return '';
         }
@@ -1096,6 +1157,13 @@ export class SchemaValidator {
                     WHERE VIEW_NAME = UPPER('${viewName}')
                 `;
             
+            case 'sqlite':
+                return `
+                    SELECT name 
+                    FROM ${schema ? `"${schema}".` : ''}sqlite_master 
+                    WHERE type = 'view' AND name = '${viewName}'
+                `;
+            
             default:
                 return '';
         }
@@ -26,7 +26,10 @@ import { ProxyManager } from './core/proxy/ProxyManager';
 // import { ActionLogger } from './core/logging/ActionLogger'; // Not used directly
 import { DebugManager } from './core/debugging/DebugManager';
 import { ReportOrchestrator } from './reporting/core/ReportOrchestrator';
+import { ReportMerger } from './reporting/core/ReportMerger';
 import { ADOIntegrationService } from './integrations/ado/ADOIntegrationService';
+import { ADOConfig } from './integrations/ado/ADOConfig';
+import { TestCaseSynchronizer } from './integrations/ado/TestCaseSynchronizer';
 
 // Framework Exports
 export { CSWebElement } from './core/elements/CSWebElement';
@@ -44,6 +47,9 @@ export { ActionLogger } from './core/logging/ActionLogger';
 export { logger } from './core/utils/Logger';
 export { AIElementIdentifier } from './core/ai/engine/AIElementIdentifier';
 export { SelfHealingEngine } from './core/ai/healing/SelfHealingEngine';
+export { HealingPatchGenerator } from './core/ai/healing/HealingPatchGenerator';
+export { ResultPublisherRegistry } from './integrations/publishers/ResultPublisherRegistry';
+export { ResultPublisher, RunSummary, PublishResult } from './integrations/publishers/publisher.types';
 
 // Type Exports - Limited to avoid conflicts
 // Export only the main types from each module
@@ -143,6 +149,18 @@ async function main(): Promise<void> {
         logger.info(`Node.js ${process.version} on ${os.platform()} ${os.arch()}`);
         logger.info(`Working directory: ${process.cwd()}`);
 
+        // Merge shard reports instead of running tests
+        if (options.mergeReports) {
+            await gracefulShutdown(await mergeShardReports(options));
+            return;
+        }
+
+        // Sync feature files to ADO test cases instead of running tests
+        if (options.adoSync) {
+            await gracefulShutdown(await syncADOTestCases(options));
+            return;
+        }
+
         // Validate environment
         await validateEnvironment();
 
@@ -326,6 +344,59 @@ async function runTests(options: ExecutionOptions): Promise<any> {
     }
 }
 
+/**
+ * Merge the reports of sharded runs into one report
+ */
+async function mergeShardReports(options: ExecutionOptions): Promise<number> {
+    try {
+        const merger = new ReportMerger();
+        const { report, result, shards } = await merger.mergeReports(
+            options.mergeReports || [],
+            options.reportPath || ConfigurationManager.get('REPORT_PATH', './reports'),
+            options.reportFormats || ['html'],
+            options.reportName
+        );
+
+        console.log(`\n✓ Merged ${shards} shard report(s): ${report.summary.totalScenarios} scenarios, ` +
+            `${report.summary.passedScenarios} passed, ${report.summary.failedScenarios} failed`);
+        result.reportPaths.forEach(reportPath => console.log(`  ${reportPath.format}: ${reportPath.path}`));
+
+        return report.summary.failedScenarios > 0 ? 1 : 0;
+
+    } catch (error) {
+        logger.error('Merging shard reports failed', error as Error);
+        console.error('\x1b[31m%s\x1b[0m', `✖ ${(error as Error).message}`);
+        return 2;
+    }
+}
+
+/**
+ * Create or update ADO test cases from the feature files
+ */
+async function syncADOTestCases(options: ExecutionOptions): Promise<number> {
+    try {
+        await ConfigurationManager.loadConfiguration(options.environment || 'dev');
+        ADOConfig.initialize();
+
+        const synchronizer = new TestCaseSynchronizer();
+        const result = await synchronizer.sync(
+            options.features && options.features.length > 0 ? options.features : ['**/*.feature'],
+            options.adoPlan && options.adoSuite ? { planId: options.adoPlan, suiteId: options.adoSuite } : undefined
+        );
+
+        console.log(`\n✓ Synced ADO test cases: ${result.created} created, ${result.updated} updated, ` +
+            `${result.failed} failed, ${result.addedToSuite} added to suite`);
+        result.updatedFiles.forEach(file => console.log(`  tagged: ${file}`));
+
+        return result.failed > 0 ? 1 : 0;
+
+    } catch (error) {
+        logger.error('ADO test case sync failed', error as Error);
+        console.error('\x1b[31m%s\x1b[0m', `✖ ${(error as Error).message}`);
+        return 2;
+    }
+}
+
 /**
  * Run tests in cluster mode for better performance
  */
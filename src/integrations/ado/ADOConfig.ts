@@ -50,6 +50,13 @@ export interface ADOBugTemplate {
   severity: string;
   tags?: string[];
   customFields?: Record<string, any>;
+  /** Reuse an open bug with the same failure signature instead of filing a new one */
+  deduplicate: boolean;
+  /** Resolve the scenario's open bugs once it passes again */
+  autoResolve: boolean;
+  resolvedState: string;
+  /** States in which a bug no longer counts as open */
+  closedStates: string[];
 }
 
 export interface ADOEndpoints {
@@ -61,6 +68,7 @@ export interface ADOEndpoints {
   testPoints: string;
   attachments: string;
   workItems: string;
+  wiql: string;
   builds: string;
   releases: string;
 }
@@ -165,8 +173,15 @@ export class ADOConfig {
         iterationPath: ConfigurationManager.get('ADO_BUG_ITERATION_PATH'),
         priority: ConfigurationManager.getInt('ADO_BUG_PRIORITY', 2),
         severity: ConfigurationManager.get('ADO_BUG_SEVERITY', 'Medium'),
-        tags: ConfigurationManager.getArray('ADO_BUG_TAGS', ',')
+        tags: ConfigurationManager.getArray('ADO_BUG_TAGS', ','),
+        deduplicate: ConfigurationManager.getBoolean('ADO_BUG_DEDUPLICATION', true),
+        autoResolve: ConfigurationManager.getBoolean('ADO_BUG_AUTO_RESOLVE', false),
+        resolvedState: ConfigurationManager.get('ADO_BUG_RESOLVED_STATE', 'Resolved'),
+        closedStates: ConfigurationManager.getArray('ADO_BUG_CLOSED_STATES', ',')
       };
+      if (config.bugTemplate.closedStates.length === 0) {
+        config.bugTemplate.closedStates = ['Resolved', 'Closed', 'Done', 'Removed'];
+      }
     }
 
     // Load custom fields
@@ -257,6 +272,7 @@ export class ADOConfig {
       testPoints: `${baseUrl}/testplan/plans/{planId}/suites/{suiteId}/testpoints`,
       attachments: `${baseUrl}/wit/attachments`,
       workItems: `${baseUrl}/wit/workitems`,
+      wiql: `${baseUrl}/wit/wiql`,
       builds: `${baseUrl}/build/builds`,
       releases: `${baseUrl}/release/releases`
     };
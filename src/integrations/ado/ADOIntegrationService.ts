@@ -1,10 +1,12 @@
 // src/integrations/ado/ADOIntegrationService.ts
 import { ADOClient } from './ADOClient';
-import { ADOConfig } from './ADOConfig';
+import { ADOConfig, ADOBugTemplate } from './ADOConfig';
 import { TestSuiteManager } from './TestSuiteManager';
 import { TestRunManager } from './TestRunManager';
 import { TestResultUploader } from './TestResultUploader';
 import { EvidenceUploader } from './EvidenceUploader';
+import { FailureSignature, ADOFailureSignature } from './FailureSignature';
+import { TestPlanSelector } from './TestPlanSelector';
 import { Logger } from '../../core/utils/Logger';
 import { FeatureResult, ScenarioResult, ExecutionResult } from '../../bdd/types/bdd.types';
 
@@ -64,6 +66,9 @@ export class ADOIntegrationService {
   private testCaseMapping = new Map<string, number>();
   private uploadQueue: Array<() => Promise<void>> = [];
   private isProcessingQueue = false;
+  private signatureBugs = new Map<string, Promise<{ id: number; created: boolean }>>();
+  private failingBugIds = new Set<number>();
+  private passedScenarioTags = new Set<string>();
 
   private constructor() {
     this.client = ADOClient.getInstance();
@@ -143,6 +148,9 @@ export class ADOIntegrationService {
       
       // Merge options with config
       const uploadOptions = this.mergeUploadOptions(options);
+      this.signatureBugs.clear();
+      this.failingBugIds.clear();
+      this.passedScenarioTags.clear();
       
       // Create test run
       this.currentTestRun = await this.createTestRun(executionResult, uploadOptions);
@@ -156,6 +164,9 @@ export class ADOIntegrationService {
       // Process upload queue
       await this.processUploadQueue();
       
+      // Resolve bugs of scenarios that pass again
+      await this.resolveFixedBugs();
+      
       // Complete test run
       await this.completeTestRun();
       
@@ -304,8 +315,10 @@ export class ADOIntegrationService {
       // Create bug if needed
       if (scenario.status === 'failed' && options.createBugsOnFailure) {
         this.queueEvidenceUpload(async () => {
-          await this.createBugForFailure(scenario, uploadedResult);
+          await this.createBugForFailure(scenario, feature, uploadedResult);
         });
+      } else if (scenario.status === 'passed' && options.createBugsOnFailure && ADOConfig.getBugTemplate()?.autoResolve) {
+        this.passedScenarioTags.add(FailureSignature.scenarioTag(this.getFeatureUri(feature), scenario.scenario));
       }
       
       ADOIntegrationService.logger.debug(`Uploaded result for scenario: ${scenario.scenario}`);
@@ -329,13 +342,10 @@ export class ADOIntegrationService {
     }
     
     // Try to find by tags
-    const testCaseTag = scenario.tags?.find(tag => tag.startsWith('@TestCase-'));
-    if (testCaseTag) {
-      const testCaseId = parseInt(testCaseTag.substring(10), 10);
-      if (!isNaN(testCaseId)) {
-        this.testCaseMapping.set(mappingKey, testCaseId);
-        return testCaseId;
-      }
+    const testCaseId = TestPlanSelector.getTestCaseId(scenario.tags);
+    if (testCaseId !== undefined) {
+      this.testCaseMapping.set(mappingKey, testCaseId);
+      return testCaseId;
     }
     
     // If update test cases is enabled, create new test case
@@ -451,114 +461,290 @@ export class ADOIntegrationService {
 
 
   /**
-   * Create bug for failure
+   * Create bug for failure, or record the failure on the open bug with the same signature
    */
   private async createBugForFailure(
     scenario: ScenarioResult,
+    feature: FeatureResult,
     testResult: ADOTestResult
   ): Promise<void> {
     try {
       const bugTemplate = ADOConfig.getBugTemplate();
       if (!bugTemplate) return;
       
-      const bugData = [
-        {
-          op: 'add',
-          path: '/fields/System.Title',
-          value: ADOConfig.formatBugTitle(scenario.scenario, scenario.error?.message)
-        },
-        {
-          op: 'add',
-          path: '/fields/System.WorkItemType',
-          value: 'Bug'
-        },
-        {
-          op: 'add',
-          path: '/fields/Microsoft.VSTS.TCM.ReproSteps',
-          value: this.generateReproSteps(scenario)
-        },
-        {
-          op: 'add',
-          path: '/fields/System.Description',
-          value: `Test Failed: ${scenario.scenario}\n\nError: ${scenario.error?.message}\n\nStack Trace:\n${scenario.error?.stack}`
-        },
-        {
-          op: 'add',
-          path: '/fields/Microsoft.VSTS.Common.Priority',
-          value: bugTemplate.priority
-        },
-        {
-          op: 'add',
-          path: '/fields/Microsoft.VSTS.Common.Severity',
-          value: bugTemplate.severity
-        }
-      ];
+      const featureUri = this.getFeatureUri(feature);
+      const signature = FailureSignature.compute(scenario, featureUri);
+      const scenarioTag = FailureSignature.scenarioTag(featureUri, scenario.scenario);
       
-      // Add optional fields
-      if (bugTemplate.assignedTo) {
-        bugData.push({
-          op: 'add',
-          path: '/fields/System.AssignedTo',
-          value: bugTemplate.assignedTo
-        });
+      // Failures of the same run share one lookup so parallel uploads cannot file duplicates
+      const pending = bugTemplate.deduplicate ? this.signatureBugs.get(signature.tag) : undefined;
+      const bugRequest = pending ?? this.findOrCreateBug(scenario, signature, scenarioTag, bugTemplate);
+      if (!pending && bugTemplate.deduplicate) {
+        this.signatureBugs.set(signature.tag, bugRequest);
+        bugRequest.catch(() => this.signatureBugs.delete(signature.tag));
       }
       
-      if (bugTemplate.areaPath) {
-        bugData.push({
-          op: 'add',
-          path: '/fields/System.AreaPath',
-          value: bugTemplate.areaPath
-        });
-      }
+      const bug = await bugRequest;
+      this.failingBugIds.add(bug.id);
       
-      if (bugTemplate.iterationPath) {
-        bugData.push({
-          op: 'add',
-          path: '/fields/System.IterationPath',
-          value: bugTemplate.iterationPath
-        });
+      if (pending || !bug.created) {
+        await this.addBugOccurrence(bug.id, scenario, signature, scenarioTag, testResult);
       }
       
-      if (bugTemplate.tags && bugTemplate.tags.length > 0) {
+      // Link bug to test result
+      await this.linkBugToTestResult(testResult.id, bug.id);
+      
+      if (bug.created && !pending) {
+        ADOIntegrationService.logger.info(`Created bug ${bug.id} for failed test: ${scenario.scenario}`);
+      } else {
+        ADOIntegrationService.logger.info(
+          `Failed test ${scenario.scenario} matches open bug ${bug.id} (signature ${signature.hash})`
+        );
+      }
+    } catch (error) {
+      ADOIntegrationService.logger.error('Failed to create bug for failure:', error as Error);
+    }
+  }
+
+  /**
+   * Find the open bug with the failure signature, or file a new one
+   */
+  private async findOrCreateBug(
+    scenario: ScenarioResult,
+    signature: ADOFailureSignature,
+    scenarioTag: string,
+    bugTemplate: ADOBugTemplate
+  ): Promise<{ id: number; created: boolean }> {
+    if (bugTemplate.deduplicate) {
+      const [existingBugId] = await this.findOpenBugs(signature.tag, bugTemplate);
+      if (existingBugId) {
+        return { id: existingBugId, created: false };
+      }
+    }
+    
+    return { id: await this.createBug(scenario, signature, scenarioTag, bugTemplate), created: true };
+  }
+
+  /**
+   * Create bug work item
+   */
+  private async createBug(
+    scenario: ScenarioResult,
+    signature: ADOFailureSignature,
+    scenarioTag: string,
+    bugTemplate: ADOBugTemplate
+  ): Promise<number> {
+    const bugData = [
+      {
+        op: 'add',
+        path: '/fields/System.Title',
+        value: ADOConfig.formatBugTitle(scenario.scenario, scenario.error?.message)
+      },
+      {
+        op: 'add',
+        path: '/fields/System.WorkItemType',
+        value: 'Bug'
+      },
+      {
+        op: 'add',
+        path: '/fields/Microsoft.VSTS.TCM.ReproSteps',
+        value: this.generateReproSteps(scenario)
+      },
+      {
+        op: 'add',
+        path: '/fields/System.Description',
+        value: `Test Failed: ${scenario.scenario}\n\nError: ${scenario.error?.message}\n\nStack Trace:\n${scenario.error?.stack}`
+      },
+      {
+        op: 'add',
+        path: '/fields/Microsoft.VSTS.Common.Priority',
+        value: bugTemplate.priority
+      },
+      {
+        op: 'add',
+        path: '/fields/Microsoft.VSTS.Common.Severity',
+        value: bugTemplate.severity
+      }
+    ];
+    
+    // Add optional fields
+    if (bugTemplate.assignedTo) {
+      bugData.push({
+        op: 'add',
+        path: '/fields/System.AssignedTo',
+        value: bugTemplate.assignedTo
+      });
+    }
+    
+    if (bugTemplate.areaPath) {
+      bugData.push({
+        op: 'add',
+        path: '/fields/System.AreaPath',
+        value: bugTemplate.areaPath
+      });
+    }
+    
+    if (bugTemplate.iterationPath) {
+      bugData.push({
+        op: 'add',
+        path: '/fields/System.IterationPath',
+        value: bugTemplate.iterationPath
+      });
+    }
+    
+    // Signature and scenario tags let later runs find this bug again
+    bugData.push({
+      op: 'add',
+      path: '/fields/System.Tags',
+      value: [...(bugTemplate.tags || []), signature.tag, scenarioTag].join('; ')
+    });
+    
+    // Add custom fields
+    if (bugTemplate.customFields) {
+      for (const [field, value] of Object.entries(bugTemplate.customFields)) {
         bugData.push({
           op: 'add',
-          path: '/fields/System.Tags',
-          value: bugTemplate.tags.join('; ')
+          path: `/fields/${field}`,
+          value
         });
       }
-      
-      // Add custom fields
-      if (bugTemplate.customFields) {
-        for (const [field, value] of Object.entries(bugTemplate.customFields)) {
-          bugData.push({
-            op: 'add',
-            path: `/fields/${field}`,
-            value
-          });
+    }
+    
+    const response = await this.client.post(
+      ADOConfig.buildUrl(ADOConfig.getEndpoints().workItems),
+      bugData,
+      {
+        headers: {
+          'Content-Type': 'application/json-patch+json'
         }
       }
-      
-      const response = await this.client.post(
-        ADOConfig.buildUrl(ADOConfig.getEndpoints().workItems),
-        bugData,
-        {
-          headers: {
-            'Content-Type': 'application/json-patch+json'
+    );
+    
+    return response.data.id;
+  }
+
+  /**
+   * Find open bugs carrying a tag, most recently changed first
+   */
+  private async findOpenBugs(tag: string, bugTemplate: ADOBugTemplate): Promise<number[]> {
+    const closedStates = bugTemplate.closedStates.map(state => `'${state.replace(/'/g, "''")}'`).join(', ');
+    const query = 'SELECT [System.Id] FROM WorkItems ' +
+      "WHERE [System.TeamProject] = @project AND [System.WorkItemType] = 'Bug' " +
+      `AND [System.Tags] CONTAINS '${tag}' ` +
+      (closedStates ? `AND [System.State] NOT IN (${closedStates}) ` : '') +
+      'ORDER BY [System.ChangedDate] DESC';
+    
+    const response = await this.client.post(
+      ADOConfig.buildUrl(ADOConfig.getEndpoints().wiql),
+      { query }
+    );
+    
+    return (response.data.workItems || []).map((workItem: { id: number }) => workItem.id);
+  }
+
+  /**
+   * Record another occurrence of a failure on an existing bug
+   */
+  private async addBugOccurrence(
+    bugId: number,
+    scenario: ScenarioResult,
+    signature: ADOFailureSignature,
+    scenarioTag: string,
+    testResult: ADOTestResult
+  ): Promise<void> {
+    const patch: Array<{ op: string; path: string; value: any }> = [
+      {
+        op: 'add',
+        path: '/fields/System.History',
+        value: `Failed again in test run ${this.currentTestRun!.name} (ID: ${this.currentTestRun!.id}), ` +
+          `result ${testResult.id}.<br/><strong>Scenario:</strong> ${scenario.scenario}` +
+          `<br/><strong>Error:</strong> ${scenario.error?.message || signature.message}`
+      }
+    ];
+    
+    // Another scenario hitting the same failure keeps the bug open until it passes too
+    const bug = await this.client.get(
+      ADOConfig.buildUrl(`${ADOConfig.getEndpoints().workItems}/${bugId}`)
+    );
+    const tags: string[] = (bug.data?.fields?.['System.Tags'] || '')
+      .split(';')
+      .map((tag: string) => tag.trim())
+      .filter((tag: string) => tag.length > 0);
+    if (!tags.includes(scenarioTag)) {
+      patch.push({
+        op: 'add',
+        path: '/fields/System.Tags',
+        value: [...tags, scenarioTag].join('; ')
+      });
+    }
+    
+    await this.client.patch(
+      ADOConfig.buildUrl(`${ADOConfig.getEndpoints().workItems}/${bugId}`),
+      patch,
+      {
+        headers: {
+          'Content-Type': 'application/json-patch+json'
+        }
+      }
+    );
+  }
+
+  /**
+   * Resolve open bugs of scenarios that passed, unless the bug still fails elsewhere in this run
+   */
+  private async resolveFixedBugs(): Promise<void> {
+    const bugTemplate = ADOConfig.getBugTemplate();
+    if (!bugTemplate?.autoResolve || this.passedScenarioTags.size === 0) {
+      return;
+    }
+    
+    const resolved = new Set<number>();
+    for (const scenarioTag of this.passedScenarioTags) {
+      try {
+        const bugIds = await this.findOpenBugs(scenarioTag, bugTemplate);
+        for (const bugId of bugIds) {
+          if (resolved.has(bugId) || this.failingBugIds.has(bugId)) {
+            continue;
           }
+          
+          await this.client.patch(
+            ADOConfig.buildUrl(`${ADOConfig.getEndpoints().workItems}/${bugId}`),
+            [
+              {
+                op: 'add',
+                path: '/fields/System.State',
+                value: bugTemplate.resolvedState
+              },
+              {
+                op: 'add',
+                path: '/fields/System.History',
+                value: `Resolved automatically: the failing test passed in test run ${this.currentTestRun!.name} ` +
+                  `(ID: ${this.currentTestRun!.id}).`
+              }
+            ],
+            {
+              headers: {
+                'Content-Type': 'application/json-patch+json'
+              }
+            }
+          );
+          
+          resolved.add(bugId);
+          ADOIntegrationService.logger.info(`Resolved bug ${bugId}, the failing test passes again`);
         }
-      );
-      
-      const bugId = response.data.id;
-      
-      // Link bug to test result
-      await this.linkBugToTestResult(testResult.id, bugId);
-      
-      ADOIntegrationService.logger.info(`Created bug ${bugId} for failed test: ${scenario.scenario}`);
-    } catch (error) {
-      ADOIntegrationService.logger.error('Failed to create bug for failure:', error as Error);
+      } catch (error) {
+        ADOIntegrationService.logger.error(`Failed to resolve bugs tagged ${scenarioTag}:`, error as Error);
+      }
     }
   }
 
+  /**
+   * Feature file location used for scenario tags
+   */
+  private getFeatureUri(feature: FeatureResult): string {
+    return feature.feature?.uri || feature.uri || feature.name || '';
+  }
+
   /**
    * Link bug to test result
    */
@@ -780,6 +966,9 @@ export class ADOIntegrationService {
     this.testCaseMapping.clear();
     this.uploadQueue = [];
     this.isProcessingQueue = false;
+    this.signatureBugs.clear();
+    this.failingBugIds.clear();
+    this.passedScenarioTags.clear();
     ADOIntegrationService.logger.info('ADO Integration Service reset');
   }
 }
\ No newline at end of file
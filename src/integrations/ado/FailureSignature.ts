@@ -0,0 +1,137 @@
+// src/integrations/ado/FailureSignature.ts
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { ScenarioResult, StepResult } from '../../bdd/types/bdd.types';
+
+export interface ADOFailureSignature {
+  /** Short hash identifying the failure */
+  hash: string;
+
+  /** Work item tag carrying the hash */
+  tag: string;
+
+  /** Normalized error message */
+  message: string;
+
+  /** Normalized text of the failing step */
+  step: string;
+
+  /** Feature file of the scenario, relative to the working directory */
+  feature: string;
+
+  /** Top stack frame without line and column numbers */
+  frame: string;
+}
+
+/**
+ * Failure signatures used to recognize the same failure across runs
+ *
+ * Volatile parts of the error (ids, numbers, timings, quoted values, paths of
+ * temporary files) are replaced by placeholders before hashing, so a nightly
+ * failure keeps its signature while the underlying defect stays the same.
+ * The feature file is part of the signature: step parameters are dropped, so
+ * generic steps failing with the same error in unrelated features stay apart.
+ */
+export class FailureSignature {
+  static readonly TAG_PREFIX = 'cs-sig-';
+  static readonly SCENARIO_TAG_PREFIX = 'cs-scn-';
+
+  private static readonly HASH_LENGTH = 12;
+
+  /**
+   * Compute the signature of a failed scenario
+   */
+  static compute(scenario: ScenarioResult, featureUri: string): ADOFailureSignature {
+    const failedStep = scenario.steps.find(s => s.status === 'failed');
+    const message = this.normalizeMessage(
+      failedStep?.error?.message || failedStep?.errorMessage || scenario.error?.message || ''
+    );
+    const step = this.normalizeStep(failedStep);
+    const frame = this.topFrame(failedStep?.error?.stack || failedStep?.stackTrace || scenario.error?.stack || '');
+    const feature = this.featureLocation(featureUri);
+    const hash = this.hash([feature, message, step, frame].join('\n'));
+
+    return {
+      hash,
+      tag: `${this.TAG_PREFIX}${hash}`,
+      message,
+      step,
+      feature,
+      frame
+    };
+  }
+
+  /**
+   * Tag identifying the scenario, used to resolve its bugs once it passes again
+   */
+  static scenarioTag(featureUri: string, scenario: string): string {
+    return `${this.SCENARIO_TAG_PREFIX}${this.hash(`${this.featureLocation(featureUri)}::${scenario}`)}`;
+  }
+
+  /**
+   * Normalize an error message
+   */
+  static normalizeMessage(message: string): string {
+    return message
+      .split('\n')[0]!
+      .replace(/\u001b\[[0-9;]*m/g, '')
+      .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>')
+      .replace(/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d+)?Z?/g, '<timestamp>')
+      .replace(/https?:\/\/[^\s'"]+/g, '<url>')
+      .replace(/(["'`]).*?\1/g, '<value>')
+      .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+      .replace(/\b[0-9a-f]{16,}\b/gi, '<hex>')
+      .replace(/\d+(\.\d+)?/g, '<n>')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .toLowerCase();
+  }
+
+  /**
+   * Normalize the failing step, parameters are not part of the signature
+   */
+  private static normalizeStep(step?: StepResult): string {
+    if (!step?.text) {
+      return '';
+    }
+
+    return step.text
+      .replace(/(["'`]).*?\1/g, '<value>')
+      .replace(/<[^>]+>/g, '<value>')
+      .replace(/\d+(\.\d+)?/g, '<n>')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .toLowerCase();
+  }
+
+  /**
+   * First stack frame outside node internals and node_modules
+   */
+  private static topFrame(stack: string): string {
+    const frames = stack
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.startsWith('at '));
+    const frame = frames.find(line => !line.includes('node_modules') && !line.includes('node:')) || frames[0];
+    if (!frame) {
+      return '';
+    }
+
+    return frame
+      .replace(/:\d+(:\d+)?(?=\)?$)/, '')
+      .replace(/\\/g, '/')
+      .replace(/\(.*\/(src|dist|test)\//, '($1/');
+  }
+
+  /**
+   * Feature file relative to the working directory, with forward slashes
+   */
+  private static featureLocation(featureUri: string): string {
+    const relative = path.isAbsolute(featureUri) ? path.relative(process.cwd(), featureUri) : featureUri;
+    return relative.replace(/\\/g, '/').replace(/^\.\//, '');
+  }
+
+  private static hash(value: string): string {
+    return crypto.createHash('sha1').update(value).digest('hex').substring(0, this.HASH_LENGTH);
+  }
+}
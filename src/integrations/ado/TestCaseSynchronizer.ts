@@ -0,0 +1,248 @@
+// src/integrations/ado/TestCaseSynchronizer.ts
+import * as fs from 'fs';
+import { ADOClient } from './ADOClient';
+import { ADOConfig } from './ADOConfig';
+import { TestSuiteManager } from './TestSuiteManager';
+import { TestPlanSelector } from './TestPlanSelector';
+import { FeatureFileParser } from '../../bdd/parser/FeatureFileParser';
+import { Feature, Scenario } from '../../bdd/types/bdd.types';
+import { Logger } from '../../core/utils/Logger';
+
+export interface TestCaseSyncTarget {
+  planId: number;
+  suiteId: number;
+}
+
+export interface TestCaseSyncResult {
+  created: number;
+  updated: number;
+  failed: number;
+  addedToSuite: number;
+  /** Feature files the assigned test case IDs were written to */
+  updatedFiles: string[];
+}
+
+/**
+ * Creates and updates ADO test cases from Gherkin scenarios
+ *
+ * Scenarios without a test case tag get a new test case, whose ID is written
+ * back to the feature file as `@TestCaseId-<id>`. Tagged scenarios update their
+ * test case. Scenario outline placeholders become test case parameters with
+ * the Examples rows as their values.
+ */
+export class TestCaseSynchronizer {
+  private readonly logger = Logger.getInstance(TestCaseSynchronizer.name);
+  private readonly testSuiteManager: TestSuiteManager;
+
+  constructor(private readonly client: ADOClient = ADOClient.getInstance()) {
+    this.testSuiteManager = new TestSuiteManager(client);
+  }
+
+  /**
+   * Sync the scenarios of the feature files matching the patterns
+   */
+  async sync(patterns: string[], target?: TestCaseSyncTarget): Promise<TestCaseSyncResult> {
+    const result: TestCaseSyncResult = { created: 0, updated: 0, failed: 0, addedToSuite: 0, updatedFiles: [] };
+    const syncedIds: number[] = [];
+    const parser = FeatureFileParser.getInstance();
+
+    for (const pattern of patterns) {
+      for (const feature of await parser.parseAll(pattern)) {
+        const assigned: Array<{ line: number; id: number }> = [];
+
+        for (const scenario of feature.scenarios) {
+          try {
+            const existingId = TestPlanSelector.getTestCaseId(scenario.tags);
+            const fields = this.buildFields(feature, scenario);
+
+            if (existingId) {
+              await this.saveTestCase(fields, existingId);
+              syncedIds.push(existingId);
+              result.updated++;
+            } else {
+              const id = await this.saveTestCase(fields);
+              syncedIds.push(id);
+              result.created++;
+              if (scenario.line) {
+                assigned.push({ line: scenario.line, id });
+              }
+            }
+          } catch (error) {
+            result.failed++;
+            this.logger.error(`Failed to sync scenario: ${scenario.name}`, error as Error);
+          }
+        }
+
+        if (assigned.length > 0 && feature.uri) {
+          this.writeTestCaseTags(feature.uri, assigned);
+          result.updatedFiles.push(feature.uri);
+        }
+      }
+    }
+
+    if (target && syncedIds.length > 0) {
+      result.addedToSuite = await this.addToSuite(target, syncedIds);
+    }
+
+    this.logger.info(
+      `Synced test cases: ${result.created} created, ${result.updated} updated, ${result.failed} failed`
+    );
+    return result;
+  }
+
+  /**
+   * Work item fields of the test case for a scenario
+   */
+  private buildFields(feature: Feature, scenario: Scenario): Record<string, string> {
+    const fields: Record<string, string> = {
+      'System.Title': scenario.name,
+      'System.Description': scenario.description || feature.description || '',
+      'Microsoft.VSTS.TCM.Steps': this.buildSteps(scenario),
+      'Microsoft.VSTS.TCM.AutomatedTestName': `${feature.name}.${scenario.name}`,
+      'Microsoft.VSTS.TCM.AutomatedTestStorage': 'CS Test Automation Framework',
+      'Microsoft.VSTS.TCM.AutomationStatus': 'Automated'
+    };
+
+    const header = scenario.examples?.[0]?.header;
+    if (header && header.length > 0) {
+      fields['Microsoft.VSTS.TCM.Parameters'] = '<parameters>' +
+        header.map(name => `<param name="${this.escapeXml(name)}" bind="default"/>`).join('') +
+        '</parameters>';
+      fields['Microsoft.VSTS.TCM.LocalDataSource'] = this.buildDataSource(scenario, header);
+    }
+
+    const customFields = ADOConfig.getConfig().customFields;
+    if (customFields) {
+      Object.assign(fields, customFields);
+    }
+
+    return fields;
+  }
+
+  /**
+   * Steps field, outline placeholders are turned into @parameters
+   */
+  private buildSteps(scenario: Scenario): string {
+    const steps = scenario.steps.map((step, index) => {
+      const action = `${step.keyword.trim()} ${step.text}`.replace(/<([^<>]+)>/g, '@$1');
+      return `<step id="${index + 2}" type="ActionStep">` +
+        `<parameterizedString isformatted="true">${this.escapeXml(this.escapeXml(action))}</parameterizedString>` +
+        '<parameterizedString isformatted="true"></parameterizedString>' +
+        '<description/></step>';
+    });
+
+    return `<steps id="0" last="${steps.length + 1}">${steps.join('')}</steps>`;
+  }
+
+  /**
+   * Parameter values from the Examples rows
+   */
+  private buildDataSource(scenario: Scenario, header: string[]): string {
+    const columns = header
+      .map(name => `<xs:element name="${this.escapeXml(name)}" type="xs:string" minOccurs="0" />`)
+      .join('');
+    const rows = (scenario.examples || [])
+      .flatMap(example => example.rows.map(row =>
+        '<Table1>' +
+        header.map(name => {
+          const value = row[example.header.indexOf(name)] ?? '';
+          return `<${this.escapeXml(name)}>${this.escapeXml(value)}</${this.escapeXml(name)}>`;
+        }).join('') +
+        '</Table1>'
+      ))
+      .join('');
+
+    return '<NewDataSet>' +
+      '<xs:schema id="NewDataSet" xmlns:xs="http://www.w3.org/2001/XMLSchema" ' +
+      'xmlns:msdata="urn:schemas-microsoft-com:xml-msdata">' +
+      '<xs:element name="NewDataSet" msdata:IsDataSet="true" msdata:Locale="">' +
+      '<xs:complexType><xs:choice minOccurs="0" maxOccurs="unbounded">' +
+      `<xs:element name="Table1"><xs:complexType><xs:sequence>${columns}</xs:sequence></xs:complexType></xs:element>` +
+      '</xs:choice></xs:complexType></xs:element></xs:schema>' +
+      rows +
+      '</NewDataSet>';
+  }
+
+  /**
+   * Create the test case, or update it when an ID is given
+   */
+  private async saveTestCase(fields: Record<string, string>, testCaseId?: number): Promise<number> {
+    const patch = Object.entries(fields).map(([field, value]) => ({
+      op: 'add',
+      path: `/fields/${field}`,
+      value
+    }));
+    const options = {
+      headers: {
+        'Content-Type': 'application/json-patch+json'
+      }
+    };
+
+    if (testCaseId) {
+      await this.client.patch(
+        ADOConfig.buildUrl(`${ADOConfig.getEndpoints().testCases}/${testCaseId}`),
+        patch,
+        options
+      );
+      this.logger.debug(`Updated test case ${testCaseId}: ${fields['System.Title']}`);
+      return testCaseId;
+    }
+
+    const response = await this.client.post(
+      ADOConfig.buildUrl(`${ADOConfig.getEndpoints().testCases}/$Test%20Case`),
+      patch,
+      options
+    );
+    this.logger.info(`Created test case ${response.data.id}: ${fields['System.Title']}`);
+    return response.data.id;
+  }
+
+  /**
+   * Add the synced test cases missing from the suite
+   */
+  private async addToSuite(target: TestCaseSyncTarget, testCaseIds: number[]): Promise<number> {
+    const existing = new Set(
+      (await this.testSuiteManager.getTestCases(target.planId, target.suiteId)).map(testCase => testCase.testCase.id)
+    );
+    const missing = [...new Set(testCaseIds)].filter(id => !existing.has(id));
+
+    if (missing.length > 0) {
+      await this.testSuiteManager.addTestCases(target.planId, target.suiteId, missing);
+    }
+    return missing.length;
+  }
+
+  /**
+   * Write the assigned test case tags above their scenarios
+   */
+  private writeTestCaseTags(filePath: string, assigned: Array<{ line: number; id: number }>): void {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const newline = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/\r?\n/);
+
+    // Bottom-up so inserted lines do not shift the remaining scenarios
+    for (const { line, id } of [...assigned].sort((a, b) => b.line - a.line)) {
+      const tag = `${TestPlanSelector.TEST_CASE_TAG}${id}`;
+      const scenarioIndex = line - 1;
+      const previous = lines[scenarioIndex - 1];
+
+      if (previous !== undefined && previous.trim().startsWith('@')) {
+        lines[scenarioIndex - 1] = `${previous.trimEnd()} ${tag}`;
+      } else {
+        const indent = lines[scenarioIndex]?.match(/^\s*/)?.[0] || '';
+        lines.splice(scenarioIndex, 0, `${indent}${tag}`);
+      }
+    }
+
+    fs.writeFileSync(filePath, lines.join(newline), 'utf-8');
+    this.logger.info(`Wrote ${assigned.length} test case IDs to ${filePath}`);
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,60 @@
+// src/integrations/ado/TestPlanSelector.ts
+import { ADOClient } from './ADOClient';
+import { TestSuiteManager, TestPoint } from './TestSuiteManager';
+import { Logger } from '../../core/utils/Logger';
+
+/**
+ * Selects the scenarios planned in an ADO test plan or suite
+ *
+ * Scenarios are linked to test cases with a `@TestCaseId-<id>` tag, the
+ * `@TestCase-<id>` form used by result uploads is accepted as well.
+ */
+export class TestPlanSelector {
+  static readonly TEST_CASE_TAG = '@TestCaseId-';
+
+  private static readonly TEST_CASE_TAG_PATTERN = /^@TestCase(?:Id)?[-_](\d+)$/i;
+
+  private readonly logger = Logger.getInstance(TestPlanSelector.name);
+  private readonly testSuiteManager: TestSuiteManager;
+
+  constructor(client: ADOClient = ADOClient.getInstance()) {
+    this.testSuiteManager = new TestSuiteManager(client);
+  }
+
+  /**
+   * Test case ID from scenario tags
+   */
+  static getTestCaseId(tags: string[] | undefined): number | undefined {
+    for (const tag of tags || []) {
+      const match = tag.match(this.TEST_CASE_TAG_PATTERN);
+      if (match) {
+        return parseInt(match[1]!, 10);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Test case IDs with a test point in the suite, or in every suite of the plan
+   */
+  async getPlannedTestCaseIds(planId: number, suiteId?: number): Promise<Set<number>> {
+    const suiteIds = suiteId
+      ? [suiteId]
+      : (await this.testSuiteManager.getTestSuites(planId)).map(suite => suite.id);
+
+    const testCaseIds = new Set<number>();
+    for (const id of suiteIds) {
+      const testPoints = await this.testSuiteManager.getTestPoints(planId, id);
+      testPoints.forEach(point => testCaseIds.add(this.getPointTestCaseId(point)));
+    }
+
+    this.logger.info(
+      `Test plan ${planId}${suiteId ? ` suite ${suiteId}` : ''} has ${testCaseIds.size} planned test cases`
+    );
+    return testCaseIds;
+  }
+
+  private getPointTestCaseId(point: TestPoint): number {
+    return point.testCaseReference?.id ?? point.testCaseId;
+  }
+}
@@ -0,0 +1,80 @@
+// src/integrations/publishers/EmailPublisher.ts
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import { SmtpClient } from './SmtpClient';
+import { RunSummaryBuilder } from './RunSummaryBuilder';
+import { ResultPublisher, RunSummary, PublishResult } from './publisher.types';
+
+/**
+ * Mails the run summary through an SMTP server
+ */
+export class EmailPublisher implements ResultPublisher {
+  readonly name = 'email';
+
+  isEnabled(): boolean {
+    return ConfigurationManager.getBoolean('REPORT_EMAIL_ENABLED', false)
+      && !!ConfigurationManager.get('SMTP_HOST')
+      && ConfigurationManager.getArray('EMAIL_TO').length > 0;
+  }
+
+  async publish(summary: RunSummary): Promise<PublishResult> {
+    const maxFailures = ConfigurationManager.getInt('PUBLISH_MAX_FAILURES', 10);
+    const username = ConfigurationManager.get('SMTP_USERNAME');
+    const password = ConfigurationManager.get('SMTP_PASSWORD');
+    const secure = ConfigurationManager.getBoolean('SMTP_SECURE', false);
+
+    const client = new SmtpClient({
+      host: ConfigurationManager.getRequired('SMTP_HOST'),
+      port: ConfigurationManager.getInt('SMTP_PORT', secure ? 465 : 25),
+      secure,
+      ...(username && { username }),
+      ...(password && { password }),
+      rejectUnauthorized: ConfigurationManager.getBoolean('SMTP_REJECT_UNAUTHORIZED', true),
+      timeout: ConfigurationManager.getInt('PUBLISH_TIMEOUT', 30000)
+    });
+
+    const to = ConfigurationManager.getArray('EMAIL_TO');
+    const reply = await client.send({
+      from: ConfigurationManager.get('EMAIL_FROM', 'cs-test-automation@localhost'),
+      to,
+      subject: `[${summary.status.toUpperCase()}] ${summary.runName} - ${summary.environment}`,
+      text: RunSummaryBuilder.toText(summary, maxFailures),
+      html: this.toHtml(summary, maxFailures)
+    });
+
+    return { publisher: this.name, success: true, message: `Summary mailed to ${to.join(', ')}`, reference: reply };
+  }
+
+  private toHtml(summary: RunSummary, maxFailures: number): string {
+    const color = summary.status === 'passed' ? '#2EB886' : '#D13438';
+    const rows = [
+      ['Environment', summary.environment],
+      ['Execution', summary.executionId],
+      ['Started', summary.startTime.toISOString()],
+      ['Duration', RunSummaryBuilder.formatDuration(summary.duration)],
+      ['Passed', `${summary.passed}/${summary.total} (${summary.passRate.toFixed(1)}%)`],
+      ['Failed', summary.failed.toString()],
+      ['Skipped', summary.skipped.toString()]
+    ].map(([name, value]) => `<tr><th align="left">${this.escape(name!)}</th><td>${this.escape(value!)}</td></tr>`).join('');
+
+    let failures = '';
+    if (summary.failures.length > 0) {
+      const items = summary.failures.slice(0, maxFailures).map(f => `<li>${this.escape(RunSummaryBuilder.describeFailure(f))}</li>`);
+      if (summary.failures.length > maxFailures) {
+        items.push(`<li>...and ${summary.failures.length - maxFailures} more</li>`);
+      }
+      failures = `<h3>Failed scenarios</h3><ul>${items.join('')}</ul>`;
+    }
+
+    const links = summary.links.length > 0
+      ? `<p>${summary.links.map(link => `<a href="${this.escape(link.url)}">${this.escape(link.name)}</a>`).join(' | ')}</p>`
+      : '';
+
+    return `<html><body style="font-family: Arial, sans-serif">`
+      + `<h2 style="color: ${color}">${this.escape(RunSummaryBuilder.headline(summary))}</h2>`
+      + `<table cellpadding="4">${rows}</table>${failures}${links}</body></html>`;
+  }
+
+  private escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
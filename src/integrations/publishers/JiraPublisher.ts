@@ -0,0 +1,64 @@
+// src/integrations/publishers/JiraPublisher.ts
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import { PublisherHttpClient } from './PublisherHttpClient';
+import { RunSummaryBuilder } from './RunSummaryBuilder';
+import { ResultPublisher, RunSummary, PublishResult } from './publisher.types';
+
+/**
+ * Publishes the run summary to Jira through the REST API (v2)
+ *
+ * With JIRA_ISSUE_KEY set every run is added as a comment to that issue,
+ * otherwise an issue is created in JIRA_PROJECT_KEY for runs with failures.
+ */
+export class JiraPublisher implements ResultPublisher {
+  readonly name = 'jira';
+
+  isEnabled(): boolean {
+    return ConfigurationManager.getBoolean('REPORT_JIRA_ENABLED', false)
+      && !!ConfigurationManager.get('JIRA_BASE_URL')
+      && !!(ConfigurationManager.get('JIRA_ISSUE_KEY') || ConfigurationManager.get('JIRA_PROJECT_KEY'));
+  }
+
+  async publish(summary: RunSummary): Promise<PublishResult> {
+    const baseUrl = ConfigurationManager.getRequired('JIRA_BASE_URL').replace(/\/+$/, '');
+    const issueKey = ConfigurationManager.get('JIRA_ISSUE_KEY');
+    const description = RunSummaryBuilder.toText(summary, ConfigurationManager.getInt('PUBLISH_MAX_FAILURES', 10));
+
+    if (issueKey) {
+      await this.post(`${baseUrl}/rest/api/2/issue/${encodeURIComponent(issueKey)}/comment`, { body: description });
+      return { publisher: this.name, success: true, message: `Comment added to ${issueKey}`, reference: issueKey };
+    }
+
+    if (summary.status === 'passed') {
+      return { publisher: this.name, success: true, message: 'No blocking failures, no issue created' };
+    }
+
+    const response = await this.post(`${baseUrl}/rest/api/2/issue`, {
+      fields: {
+        project: { key: ConfigurationManager.getRequired('JIRA_PROJECT_KEY') },
+        issuetype: { name: ConfigurationManager.get('JIRA_ISSUE_TYPE', 'Bug') },
+        summary: `${summary.runName} (${summary.environment}): ${summary.failed} failed scenario(s)`,
+        description,
+        labels: ConfigurationManager.getArray('JIRA_LABELS')
+      }
+    });
+
+    const created = JSON.parse(response || '{}');
+    return { publisher: this.name, success: true, message: `Issue ${created.key} created`, reference: created.key };
+  }
+
+  private async post(url: string, body: any): Promise<string> {
+    const username = ConfigurationManager.get('JIRA_USERNAME');
+    const token = ConfigurationManager.get('JIRA_API_TOKEN');
+    const headers: Record<string, string> = {};
+
+    if (username) {
+      headers['Authorization'] = `Basic ${Buffer.from(`${username}:${token}`).toString('base64')}`;
+    } else if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const response = await PublisherHttpClient.postJson(url, body, headers, ConfigurationManager.getInt('PUBLISH_TIMEOUT', 30000));
+    return response.body;
+  }
+}
@@ -0,0 +1,52 @@
+// src/integrations/publishers/PublisherHttpClient.ts
+import * as https from 'https';
+import * as http from 'http';
+import { URL } from 'url';
+import { PublisherHttpResponse } from './publisher.types';
+
+/**
+ * Small JSON-over-HTTP client shared by the webhook and REST publishers
+ */
+export class PublisherHttpClient {
+  /**
+   * POST a JSON body, rejecting on non-2xx responses
+   */
+  static async postJson(
+    url: string,
+    body: any,
+    headers: Record<string, string> = {},
+    timeout: number = 30000
+  ): Promise<PublisherHttpResponse> {
+    const payload = JSON.stringify(body);
+    const target = new URL(url);
+    const transport = target.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const request = transport.request(target, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'Content-Length': Buffer.byteLength(payload).toString(),
+          ...headers
+        },
+        timeout
+      }, response => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => {
+          const result = { status: response.statusCode || 0, body: Buffer.concat(chunks).toString('utf8') };
+          if (result.status >= 200 && result.status < 300) {
+            resolve(result);
+          } else {
+            reject(new Error(`POST ${target.origin}${target.pathname} failed with status ${result.status}: ${result.body}`));
+          }
+        });
+      });
+
+      request.on('timeout', () => request.destroy(new Error(`Request to ${target.origin} timed out after ${timeout}ms`)));
+      request.on('error', reject);
+      request.end(payload);
+    });
+  }
+}
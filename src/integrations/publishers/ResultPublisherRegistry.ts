@@ -0,0 +1,91 @@
+// src/integrations/publishers/ResultPublisherRegistry.ts
+import { Logger } from '../../core/utils/Logger';
+import { SlackPublisher } from './SlackPublisher';
+import { TeamsPublisher } from './TeamsPublisher';
+import { EmailPublisher } from './EmailPublisher';
+import { JiraPublisher } from './JiraPublisher';
+import { ResultPublisher, RunSummary, PublishResult } from './publisher.types';
+
+/**
+ * Registry of result publishers
+ *
+ * Slack, Teams, email and Jira are registered by default; projects can register
+ * their own publishers (or replace a built-in one) under any name.
+ */
+export class ResultPublisherRegistry {
+  private static readonly logger = Logger.getInstance(ResultPublisherRegistry.name);
+  private static instance: ResultPublisherRegistry;
+  private readonly publishers = new Map<string, ResultPublisher>();
+
+  private constructor() {
+    for (const publisher of [new SlackPublisher(), new TeamsPublisher(), new EmailPublisher(), new JiraPublisher()]) {
+      this.publishers.set(publisher.name, publisher);
+    }
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): ResultPublisherRegistry {
+    if (!this.instance) {
+      this.instance = new ResultPublisherRegistry();
+    }
+    return this.instance;
+  }
+
+  /**
+   * Register a publisher, replacing any publisher with the same name
+   */
+  register(publisher: ResultPublisher): void {
+    this.publishers.set(publisher.name, publisher);
+    ResultPublisherRegistry.logger.info(`Result publisher registered: ${publisher.name}`);
+  }
+
+  unregister(name: string): boolean {
+    return this.publishers.delete(name);
+  }
+
+  get(name: string): ResultPublisher | undefined {
+    return this.publishers.get(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.publishers.keys());
+  }
+
+  /**
+   * Publish to the named targets, or to every enabled publisher when none are given
+   *
+   * Failures are logged and reported in the results, they never throw.
+   */
+  async publishAll(summary: RunSummary, targets?: string[]): Promise<PublishResult[]> {
+    const selected: ResultPublisher[] = [];
+
+    if (targets && targets.length > 0) {
+      for (const target of new Set(targets)) {
+        const publisher = this.publishers.get(target);
+        if (publisher) {
+          selected.push(publisher);
+        } else {
+          ResultPublisherRegistry.logger.warn(`No result publisher registered for target: ${target}`);
+        }
+      }
+    } else {
+      selected.push(...Array.from(this.publishers.values()).filter(publisher => publisher.isEnabled()));
+    }
+
+    const results: PublishResult[] = [];
+    for (const publisher of selected) {
+      try {
+        const result = await publisher.publish(summary);
+        ResultPublisherRegistry.logger.info(`Results published to ${publisher.name}${result.message ? `: ${result.message}` : ''}`);
+        results.push(result);
+      } catch (error) {
+        ResultPublisherRegistry.logger.error(`Publishing results to ${publisher.name} failed`, error as Error);
+        results.push({ publisher: publisher.name, success: false, message: (error as Error).message });
+      }
+    }
+
+    return results;
+  }
+}
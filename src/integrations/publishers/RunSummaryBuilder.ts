@@ -0,0 +1,105 @@
+// src/integrations/publishers/RunSummaryBuilder.ts
+import { ExecutionResult } from '../../bdd/types/bdd.types';
+import { Link } from '../../core/cli/ExecutionOptions';
+import { RunSummary, FailedScenarioSummary } from './publisher.types';
+
+/**
+ * Builds the publisher-neutral run summary and shared text helpers
+ */
+export class RunSummaryBuilder {
+  /**
+   * Create a run summary from an execution result
+   */
+  static fromExecutionResult(
+    result: ExecutionResult,
+    executionId: string,
+    runName: string,
+    links: Link[] = []
+  ): RunSummary {
+    const scenarios = result.features.flatMap(f => (f.scenarios || []).map(s => ({ feature: f.feature?.name || f.name || '', result: s })));
+    const passed = scenarios.filter(s => s.result.status === 'passed').length;
+    const failures: FailedScenarioSummary[] = scenarios
+      .filter(s => s.result.status === 'failed' || s.result.status === 'error')
+      .map(s => ({
+        feature: s.feature,
+        scenario: s.result.scenario,
+        ...(s.result.error?.message && { error: s.result.error.message }),
+        ...(s.result.metadata?.['quarantined'] && { quarantined: true })
+      }));
+    const total = scenarios.length;
+    const startTime = result.startTime || new Date();
+    const endTime = result.endTime || new Date();
+
+    return {
+      executionId,
+      runName,
+      environment: result.environment || 'default',
+      status: failures.some(f => !f.quarantined) ? 'failed' : 'passed',
+      startTime,
+      endTime,
+      duration: result.duration || endTime.getTime() - startTime.getTime(),
+      total,
+      passed,
+      failed: failures.length,
+      skipped: total - passed - failures.length,
+      passRate: total > 0 ? (passed / total) * 100 : 0,
+      failures,
+      links
+    };
+  }
+
+  /**
+   * One line headline, e.g. "FAILED: Nightly (qa) - 40/42 passed"
+   */
+  static headline(summary: RunSummary): string {
+    return `${summary.status.toUpperCase()}: ${summary.runName} (${summary.environment}) - ${summary.passed}/${summary.total} passed`;
+  }
+
+  /**
+   * Human readable duration
+   */
+  static formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    const minutes = Math.floor(seconds / 60);
+    return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+  }
+
+  /**
+   * Describe a failure on a single line, errors are cut to their first line
+   */
+  static describeFailure(failure: FailedScenarioSummary): string {
+    const error = failure.error ? `: ${failure.error.split('\n')[0]}` : '';
+    const quarantined = failure.quarantined ? ' [quarantined]' : '';
+    return `${failure.feature} > ${failure.scenario}${quarantined}${error}`;
+  }
+
+  /**
+   * Plain text rendering used by the email and Jira publishers
+   */
+  static toText(summary: RunSummary, maxFailures: number): string {
+    const lines = [
+      RunSummaryBuilder.headline(summary),
+      '',
+      `Execution: ${summary.executionId}`,
+      `Started: ${summary.startTime.toISOString()}`,
+      `Duration: ${RunSummaryBuilder.formatDuration(summary.duration)}`,
+      `Total: ${summary.total}, Passed: ${summary.passed}, Failed: ${summary.failed}, Skipped: ${summary.skipped}`,
+      `Pass rate: ${summary.passRate.toFixed(1)}%`
+    ];
+
+    if (summary.failures.length > 0) {
+      lines.push('', 'Failed scenarios:');
+      lines.push(...summary.failures.slice(0, maxFailures).map(f => `- ${RunSummaryBuilder.describeFailure(f)}`));
+      if (summary.failures.length > maxFailures) {
+        lines.push(`...and ${summary.failures.length - maxFailures} more`);
+      }
+    }
+
+    if (summary.links.length > 0) {
+      lines.push('', 'Reports:');
+      lines.push(...summary.links.map(link => `- ${link.name}: ${link.url}`));
+    }
+
+    return lines.join('\n');
+  }
+}
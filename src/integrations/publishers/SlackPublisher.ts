@@ -0,0 +1,65 @@
+// src/integrations/publishers/SlackPublisher.ts
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import { PublisherHttpClient } from './PublisherHttpClient';
+import { RunSummaryBuilder } from './RunSummaryBuilder';
+import { ResultPublisher, RunSummary, PublishResult } from './publisher.types';
+
+/**
+ * Posts the run summary to a Slack incoming webhook
+ */
+export class SlackPublisher implements ResultPublisher {
+  readonly name = 'slack';
+
+  isEnabled(): boolean {
+    return ConfigurationManager.getBoolean('REPORT_SLACK_ENABLED', false) && !!ConfigurationManager.get('SLACK_WEBHOOK_URL');
+  }
+
+  async publish(summary: RunSummary): Promise<PublishResult> {
+    const maxFailures = ConfigurationManager.getInt('PUBLISH_MAX_FAILURES', 10);
+    const channel = ConfigurationManager.get('SLACK_CHANNEL');
+
+    const blocks: any[] = [
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: `${summary.status === 'passed' ? ':white_check_mark:' : ':x:'} ${summary.runName}`, emoji: true }
+      },
+      {
+        type: 'section',
+        fields: [
+          { type: 'mrkdwn', text: `*Environment*\n${summary.environment}` },
+          { type: 'mrkdwn', text: `*Duration*\n${RunSummaryBuilder.formatDuration(summary.duration)}` },
+          { type: 'mrkdwn', text: `*Passed*\n${summary.passed}/${summary.total} (${summary.passRate.toFixed(1)}%)` },
+          { type: 'mrkdwn', text: `*Failed / Skipped*\n${summary.failed} / ${summary.skipped}` }
+        ]
+      }
+    ];
+
+    if (summary.failures.length > 0) {
+      const shown = summary.failures.slice(0, maxFailures).map(f => `• ${this.escape(RunSummaryBuilder.describeFailure(f))}`);
+      if (summary.failures.length > maxFailures) {
+        shown.push(`_...and ${summary.failures.length - maxFailures} more_`);
+      }
+      blocks.push({ type: 'section', text: { type: 'mrkdwn', text: `*Failed scenarios*\n${shown.join('\n')}` } });
+    }
+
+    if (summary.links.length > 0) {
+      blocks.push({
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: summary.links.map(link => `<${link.url}|${this.escape(link.name)}>`).join('  |  ') }]
+      });
+    }
+
+    await PublisherHttpClient.postJson(
+      ConfigurationManager.getRequired('SLACK_WEBHOOK_URL'),
+      { text: RunSummaryBuilder.headline(summary), blocks, ...(channel && { channel }) },
+      {},
+      ConfigurationManager.getInt('PUBLISH_TIMEOUT', 30000)
+    );
+
+    return { publisher: this.name, success: true, message: 'Summary posted to Slack' };
+  }
+
+  private escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1,228 @@
+// src/integrations/publishers/SmtpClient.ts
+import * as net from 'net';
+import * as tls from 'tls';
+import * as os from 'os';
+import { SmtpOptions, EmailMessage } from './publisher.types';
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Minimal SMTP client for sending plain text/HTML mails
+ *
+ * Supports implicit TLS, STARTTLS when advertised and AUTH PLAIN/LOGIN, which is
+ * enough for relay servers and local SMTP stand-ins used in tests.
+ */
+export class SmtpClient {
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private currentLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  /**
+   * Send a message, returns the server's reply to the message data
+   */
+  async send(message: EmailMessage): Promise<string> {
+    if (message.to.length === 0) {
+      throw new Error('Email has no recipients');
+    }
+
+    await this.connect();
+
+    try {
+      await this.expect(220);
+      let capabilities = await this.command(`EHLO ${os.hostname()}`, 250);
+
+      if (!this.options.secure && capabilities.lines.some(line => /^STARTTLS\b/i.test(line))) {
+        await this.command('STARTTLS', 220);
+        await this.upgrade();
+        capabilities = await this.command(`EHLO ${os.hostname()}`, 250);
+      }
+
+      if (this.options.username) {
+        await this.authenticate(capabilities);
+      }
+
+      await this.command(`MAIL FROM:<${message.from}>`, 250);
+      for (const recipient of message.to) {
+        await this.command(`RCPT TO:<${recipient}>`, 250, 251);
+      }
+      await this.command('DATA', 354);
+      const accepted = await this.command(`${this.formatMessage(message)}\r\n.`, 250);
+
+      await this.command('QUIT', 221).catch(() => undefined);
+      return accepted.lines.join(' ');
+    } finally {
+      this.socket?.destroy();
+      this.socket = null;
+    }
+  }
+
+  private async connect(): Promise<void> {
+    const { host, port, secure, timeout } = this.options;
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host, rejectUnauthorized: this.options.rejectUnauthorized ?? true }, () => resolve())
+        : net.connect({ host, port }, () => resolve());
+      socket.once('error', reject);
+      this.attach(socket);
+    });
+
+    this.socket!.setTimeout(timeout, () => this.socket?.destroy(new Error(`SMTP connection to ${host}:${port} timed out`)));
+  }
+
+  private async upgrade(): Promise<void> {
+    const plain = this.socket!;
+    plain.removeAllListeners('data');
+
+    await new Promise<void>((resolve, reject) => {
+      const secured = tls.connect({
+        socket: plain,
+        servername: this.options.host,
+        rejectUnauthorized: this.options.rejectUnauthorized ?? true
+      }, () => resolve());
+      secured.once('error', reject);
+      this.attach(secured);
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.on('data', (data: string) => this.onData(data));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private async authenticate(capabilities: SmtpReply): Promise<void> {
+    const username = this.options.username || '';
+    const password = this.options.password || '';
+    const authLine = capabilities.lines.find(line => /^AUTH\b/i.test(line)) || '';
+
+    if (/\bPLAIN\b/i.test(authLine) || !/\bLOGIN\b/i.test(authLine)) {
+      const credentials = Buffer.from(`\0${username}\0${password}`).toString('base64');
+      await this.command(`AUTH PLAIN ${credentials}`, 235);
+      return;
+    }
+
+    await this.command('AUTH LOGIN', 334);
+    await this.command(Buffer.from(username).toString('base64'), 334);
+    await this.command(Buffer.from(password).toString('base64'), 235);
+  }
+
+  private async command(line: string, ...expected: number[]): Promise<SmtpReply> {
+    this.socket!.write(`${line}\r\n`);
+    return this.expect(...expected);
+  }
+
+  private async expect(...expected: number[]): Promise<SmtpReply> {
+    const reply = await this.nextReply();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`Unexpected SMTP reply ${reply.code}: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  private nextReply(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  /**
+   * Collect reply lines, a reply ends with a line of the form "250 text"
+   */
+  private onData(data: string): void {
+    this.buffer += data;
+
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+
+      const match = /^(\d{3})([ -]?)(.*)$/.exec(line);
+      if (!match) continue;
+
+      this.currentLines.push(match[3] || '');
+      if (match[2] !== '-') {
+        const reply = { code: parseInt(match[1]!, 10), lines: this.currentLines };
+        this.currentLines = [];
+        const waiter = this.waiters.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  /**
+   * Build the MIME message; bodies are base64 encoded so no dot-stuffing or line limits apply
+   */
+  private formatMessage(message: EmailMessage): string {
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to.join(', ')}`,
+      `Subject: ${this.encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${Date.now()}.${Math.random().toString(36).slice(2)}@${os.hostname()}>`,
+      'MIME-Version: 1.0'
+    ];
+
+    if (!message.html) {
+      return [
+        ...headers,
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        this.encodeBody(message.text)
+      ].join('\r\n');
+    }
+
+    const boundary = `----=_Part_${Date.now().toString(36)}`;
+    return [
+      ...headers,
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      this.encodeBody(message.text),
+      `--${boundary}`,
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      this.encodeBody(message.html),
+      `--${boundary}--`
+    ].join('\r\n');
+  }
+
+  private encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+  }
+
+  private encodeBody(value: string): string {
+    return (Buffer.from(value).toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+  }
+}
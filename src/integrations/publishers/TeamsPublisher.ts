@@ -0,0 +1,63 @@
+// src/integrations/publishers/TeamsPublisher.ts
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import { PublisherHttpClient } from './PublisherHttpClient';
+import { RunSummaryBuilder } from './RunSummaryBuilder';
+import { ResultPublisher, RunSummary, PublishResult } from './publisher.types';
+
+/**
+ * Posts the run summary as a message card to a Microsoft Teams incoming webhook
+ */
+export class TeamsPublisher implements ResultPublisher {
+  readonly name = 'teams';
+
+  isEnabled(): boolean {
+    return ConfigurationManager.getBoolean('REPORT_TEAMS_ENABLED', false) && !!ConfigurationManager.get('TEAMS_WEBHOOK_URL');
+  }
+
+  async publish(summary: RunSummary): Promise<PublishResult> {
+    const maxFailures = ConfigurationManager.getInt('PUBLISH_MAX_FAILURES', 10);
+
+    const sections: any[] = [
+      {
+        activityTitle: RunSummaryBuilder.headline(summary),
+        facts: [
+          { name: 'Environment', value: summary.environment },
+          { name: 'Execution', value: summary.executionId },
+          { name: 'Duration', value: RunSummaryBuilder.formatDuration(summary.duration) },
+          { name: 'Passed', value: `${summary.passed}/${summary.total} (${summary.passRate.toFixed(1)}%)` },
+          { name: 'Failed', value: summary.failed.toString() },
+          { name: 'Skipped', value: summary.skipped.toString() }
+        ]
+      }
+    ];
+
+    if (summary.failures.length > 0) {
+      const shown = summary.failures.slice(0, maxFailures).map(f => `- ${RunSummaryBuilder.describeFailure(f)}`);
+      if (summary.failures.length > maxFailures) {
+        shown.push(`- ...and ${summary.failures.length - maxFailures} more`);
+      }
+      sections.push({ activityTitle: 'Failed scenarios', text: shown.join('\n\n') });
+    }
+
+    await PublisherHttpClient.postJson(
+      ConfigurationManager.getRequired('TEAMS_WEBHOOK_URL'),
+      {
+        '@type': 'MessageCard',
+        '@context': 'https://schema.org/extensions',
+        themeColor: summary.status === 'passed' ? '2EB886' : 'D13438',
+        summary: RunSummaryBuilder.headline(summary),
+        title: summary.runName,
+        sections,
+        potentialAction: summary.links.map(link => ({
+          '@type': 'OpenUri',
+          name: link.name,
+          targets: [{ os: 'default', uri: link.url }]
+        }))
+      },
+      {},
+      ConfigurationManager.getInt('PUBLISH_TIMEOUT', 30000)
+    );
+
+    return { publisher: this.name, success: true, message: 'Summary posted to Teams' };
+  }
+}
@@ -0,0 +1,91 @@
+// src/integrations/publishers/publisher.types.ts
+import { Link } from '../../core/cli/ExecutionOptions';
+
+/**
+ * Publishes the outcome of a test run to an external system
+ */
+export interface ResultPublisher {
+  /** Unique publisher name, used as the publish target */
+  readonly name: string;
+
+  /** Whether the publisher is enabled and configured */
+  isEnabled(): boolean;
+
+  /** Send the run summary */
+  publish(summary: RunSummary): Promise<PublishResult>;
+}
+
+/**
+ * Run summary sent to every publisher
+ */
+export interface RunSummary {
+  executionId: string;
+  runName: string;
+  environment: string;
+  status: 'passed' | 'failed';
+  startTime: Date;
+  endTime: Date;
+  duration: number;
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  passRate: number;
+  failures: FailedScenarioSummary[];
+  links: Link[];
+}
+
+/**
+ * Failed scenario included in the run summary
+ */
+export interface FailedScenarioSummary {
+  feature: string;
+  scenario: string;
+  error?: string;
+  quarantined?: boolean;
+}
+
+/**
+ * Outcome of a single publish
+ */
+export interface PublishResult {
+  publisher: string;
+  success: boolean;
+  message?: string;
+  /** Identifier of the created resource (issue key, message id) */
+  reference?: string;
+}
+
+/**
+ * Minimal HTTP response returned by the publisher HTTP client
+ */
+export interface PublisherHttpResponse {
+  status: number;
+  body: string;
+}
+
+/**
+ * SMTP connection settings
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Use implicit TLS (port 465 style) */
+  secure: boolean;
+  username?: string;
+  password?: string;
+  /** Reject self-signed certificates (default true) */
+  rejectUnauthorized?: boolean;
+  timeout: number;
+}
+
+/**
+ * Email message sent through SMTP
+ */
+export interface EmailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
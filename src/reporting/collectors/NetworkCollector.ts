@@ -541,21 +541,7 @@ export class NetworkCollector {
           ...(currentStepId && { stepId: currentStepId })
         };
 
-        const frames = this.webSockets.get(scenarioId) || [];
-        frames.push(frame);
-        this.webSockets.set(scenarioId, frames);
-
-        // Add to step timing if we have a current step
-        const currentStep = this.currentSteps.get(scenarioId);
-        if (currentStep) {
-          const stepTimings = this.stepTimings.get(scenarioId);
-          if (stepTimings) {
-            const timing = stepTimings.get(currentStep);
-            if (timing) {
-              timing.webSocketFrames.push(frame.id);
-            }
-          }
-        }
+        this.recordFrame(scenarioId, frame);
       });
 
       ws.on('framesent', (event: any) => {
@@ -574,21 +560,7 @@ export class NetworkCollector {
           ...(currentStepId && { stepId: currentStepId })
         };
 
-        const frames = this.webSockets.get(scenarioId) || [];
-        frames.push(frame);
-        this.webSockets.set(scenarioId, frames);
-
-        // Add to step timing
-        const currentStep = this.currentSteps.get(scenarioId);
-        if (currentStep) {
-          const stepTimings = this.stepTimings.get(scenarioId);
-          if (stepTimings) {
-            const timing = stepTimings.get(currentStep);
-            if (timing) {
-              timing.webSocketFrames.push(frame.id);
-            }
-          }
-        }
+        this.recordFrame(scenarioId, frame);
       });
 
       ws.on('close', () => {
@@ -606,6 +578,49 @@ export class NetworkCollector {
     });
   }
 
+  /**
+   * Record a frame, also used for connections opened outside the page by the API WebSocket and SSE clients
+   */
+  recordFrame(scenarioId: string, frame: WebSocketFrame): void {
+    const currentStep = this.currentSteps.get(scenarioId);
+    if (currentStep && !frame.stepId) {
+      frame.stepId = currentStep;
+    }
+
+    const frames = this.webSockets.get(scenarioId) || [];
+    frames.push(frame);
+    this.webSockets.set(scenarioId, frames);
+
+    // Add to step timing if we have a current step
+    if (currentStep) {
+      const timing = this.stepTimings.get(scenarioId)?.get(currentStep);
+      if (timing) {
+        timing.webSocketFrames.push(frame.id);
+      }
+    }
+  }
+
+  /**
+   * Frames recorded while a step was the current step of the scenario
+   */
+  getStepWebSocketFrames(scenarioId: string, stepId: string): WebSocketFrame[] {
+    return (this.webSockets.get(scenarioId) || []).filter(frame => frame.stepId === stepId);
+  }
+
+  /**
+   * Forget the frames and step timings of a scenario once its steps have been reported
+   */
+  clearScenarioFrames(scenarioId: string): void {
+    this.webSockets.delete(scenarioId);
+    this.stepTimings.delete(scenarioId);
+    this.currentSteps.delete(scenarioId);
+    for (const key of Array.from(this.stepStartTimes.keys())) {
+      if (key.startsWith(`${scenarioId}_`)) {
+        this.stepStartTimes.delete(key);
+      }
+    }
+  }
+
   private getWebSocketFrameType(opcode: number): string {
     switch (opcode) {
       case 0x0: return 'continuation';
@@ -9,6 +9,7 @@ import {
     TestStatus
 } from '../types/reporting.types';
 import { Logger } from '../../core/utils/Logger';
+import { RunHistoryStore } from './RunHistoryStore';
 
 /**
  * Aggregates test execution results for reporting
@@ -45,6 +46,9 @@ export class ReportAggregator {
 
             // Calculate trends if historical data available
             const trends = await this.calculateTrends(executionResult);
+            if (trends) {
+                executionSummary.trends = trends;
+            }
 
             // Build aggregated data according to the interface
             const aggregatedData: AggregatedData = {
@@ -335,16 +339,22 @@ export class ReportAggregator {
     }
 
     /**
-     * Calculate trends from historical data
+     * Calculate trends of the run from the history recorded by the runner
      */
-    private async calculateTrends(_executionResult: ExecutionResult): Promise<TrendData | undefined> {
-        // TODO: Implement trend calculation from historical data
-        return {
-            passRateTrend: 0,
-            executionTimeTrend: 0,
-            failureRateTrend: 0,
-            lastExecutions: []
-        };
+    private async calculateTrends(executionResult: ExecutionResult): Promise<TrendData | undefined> {
+        const historyStore = RunHistoryStore.getInstance();
+        if (!historyStore.isEnabled()) {
+            return undefined;
+        }
+
+        try {
+            const entry = (await historyStore.getRuns()).find(run => run.executionId === executionResult.executionId);
+            return entry ? await historyStore.calculateTrends(entry) : undefined;
+
+        } catch (error: any) {
+            this.logger.warn(`Trend calculation failed: ${error?.message || error}`);
+            return undefined;
+        }
     }
 
     /**
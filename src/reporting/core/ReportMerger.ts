@@ -0,0 +1,526 @@
+import { ReportConfig } from './ReportConfig';
+import { ReportOrchestrator } from './ReportOrchestrator';
+import { ExcelExporter } from '../exporters/ExcelExporter';
+import { PDFExporter } from '../exporters/PDFExporter';
+import {
+    ReportData,
+    ReportResult,
+    FeatureReport,
+    ScenarioSummary,
+    ScenarioReport,
+    ExecutionSummary,
+    EvidenceCollection,
+    ExecutionResult,
+    ExportFormat,
+    TestStatus
+} from '../types/reporting.types';
+import { ExecutionStatus } from '../../bdd/types/bdd.types';
+import { Logger } from '../../core/utils/Logger';
+import { FileUtils } from '../../core/utils/FileUtils';
+import * as path from 'path';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Merges the JSON reports of sharded runs into one report
+ *
+ * Each shard writes its own exports/report.json. The merger collects them,
+ * checks that every shard is reported once, combines features, scenarios and
+ * evidence, recalculates the summary and renders the configured formats.
+ * A rerun of failed scenarios is merged into its original run the same way.
+ */
+export class ReportMerger {
+    private logger: Logger;
+
+    constructor() {
+        this.logger = Logger.getInstance('ReportMerger');
+    }
+
+    /**
+     * Find shard reports in the given files or directories
+     */
+    public async findReports(inputs: string[]): Promise<string[]> {
+        const files: string[] = [];
+
+        for (const input of inputs) {
+            const resolved = path.resolve(input);
+            if (!(await FileUtils.exists(resolved))) {
+                this.logger.warn(`Report input not found: ${input}`);
+                continue;
+            }
+
+            const stats = await FileUtils.getStats(resolved);
+            if (stats.isDirectory) {
+                files.push(...await FileUtils.find(resolved, /[\\/]report\.json$/));
+            } else {
+                files.push(resolved);
+            }
+        }
+
+        return [...new Set(files)].sort();
+    }
+
+    /**
+     * Load a JSON report, restoring its dates
+     */
+    public async loadReport(file: string): Promise<ReportData> {
+        const content = await FileUtils.readFile(file, 'utf8') as string;
+        return JSON.parse(content, (_key, value) =>
+            typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value
+        );
+    }
+
+    /**
+     * Load shard reports, one per shard of the same partition
+     *
+     * A missing shard, a shard reported twice or shards that partitioned the suite
+     * differently fail the merge: the merged report would not cover every scenario
+     * exactly once.
+     */
+    public async loadReports(files: string[]): Promise<ReportData[]> {
+        const byShard = new Map<number, { file: string; report: ReportData }>();
+        let expectedShards = 0;
+
+        for (const file of files) {
+            let report: ReportData;
+            try {
+                report = await this.loadReport(file);
+            } catch (error: any) {
+                this.logger.warn(`Skipping unreadable report ${file}: ${error.message}`);
+                continue;
+            }
+
+            const shard = report.metadata?.shard;
+            if (!shard) {
+                this.logger.warn(`Skipping ${file}: not a shard report`);
+                continue;
+            }
+
+            if (expectedShards && shard.total !== expectedShards) {
+                throw new Error(`Report ${file} belongs to a run with ${shard.total} shards, expected ${expectedShards}`);
+            }
+            expectedShards = shard.total;
+
+            const existing = byShard.get(shard.current);
+            if (existing) {
+                throw new Error(`Shard ${shard.current} of ${expectedShards} is reported twice: ${existing.file} and ${file}`);
+            }
+            byShard.set(shard.current, { file, report });
+        }
+
+        const missing = Array.from({ length: expectedShards }, (_, i) => i + 1).filter(i => !byShard.has(i));
+        if (missing.length > 0) {
+            throw new Error(`Missing reports for shard(s) ${missing.join(', ')} of ${expectedShards}`);
+        }
+
+        const shards = Array.from(byShard.entries()).sort(([a], [b]) => a - b);
+        this.checkFingerprints(shards.map(([current, { file, report }]) => ({ current, file, report })));
+        return shards.map(([, { report }]) => report);
+    }
+
+    /**
+     * Combine shard reports into a single report
+     */
+    public merge(reports: ReportData[], reportName?: string): ReportData {
+        const [first] = reports;
+        if (!first) {
+            throw new Error('No shard reports to merge');
+        }
+
+        const now = new Date();
+        const startTime = new Date(Math.min(...reports.map(r => new Date(r.metadata.startTime).getTime())));
+        const endTime = new Date(Math.max(...reports.map(r => new Date(r.metadata.endTime).getTime())));
+        const features = this.mergeFeatures(reports.flatMap(r => r.features));
+        const scenarios = reports.flatMap(r => r.scenarios);
+        const testDuration = reports.reduce((sum, r) => sum + (r.metadata.duration || 0), 0);
+
+        const metadata = { ...first.metadata };
+        delete metadata.shard;
+
+        return {
+            ...first,
+            metadata: {
+                ...metadata,
+                reportId: `report-${now.getTime()}`,
+                reportName: reportName || first.metadata.reportName,
+                executionId: `merged-${now.getTime()}`,
+                executionDate: startTime,
+                startTime,
+                endTime,
+                duration: endTime.getTime() - startTime.getTime(),
+                reportGeneratedAt: now,
+                tags: [...new Set(reports.flatMap(r => r.metadata.tags || []))]
+            },
+            summary: this.summarize(reports, features, startTime, endTime),
+            features,
+            scenarios,
+            evidence: this.mergeEvidence(reports.map(r => r.evidence)),
+            // Browser, network and system metrics are per agent, the first shard's are kept
+            metrics: {
+                ...first.metrics,
+                execution: {
+                    ...first.metrics.execution,
+                    totalDuration: testDuration,
+                    testDuration,
+                    avgScenarioDuration: scenarios.length > 0 ? testDuration / scenarios.length : 0,
+                    parallelWorkers: reports.length
+                }
+            },
+            tags: [...new Set(reports.flatMap(r => r.tags || []))]
+        };
+    }
+
+    /**
+     * Replace the scenarios of the original run with their rerun results
+     *
+     * Scenarios are matched by feature uri and scenario name. A rerun scenario
+     * counts as a retry, so a second-chance pass reports as a single result.
+     */
+    public mergeRerun(original: ReportData, rerun: ReportData, reportName?: string): ReportData {
+        const now = new Date();
+        const rerunFeatures = new Map(rerun.features.map(f => [f.uri || f.feature, f]));
+
+        const features = this.mergeFeatures(original.features.map(feature => {
+            const rerunFeature = rerunFeatures.get(feature.uri || feature.feature);
+            if (!rerunFeature) {
+                return feature;
+            }
+
+            return {
+                ...feature,
+                scenarios: feature.scenarios.map(scenario => {
+                    const rerunScenario = this.findRerunScenario(
+                        scenario, feature.scenarios, rerunFeature.scenarios, s => s.name
+                    );
+                    return rerunScenario ?
+                        { ...rerunScenario, retryCount: (scenario.retryCount || 0) + 1 } :
+                        scenario;
+                }),
+                endTime: rerunFeature.endTime
+            };
+        }));
+
+        const scenarios = original.scenarios.map(scenario => {
+            const rerunScenario = this.findRerunScenario(
+                scenario,
+                original.scenarios.filter(s => s.uri === scenario.uri),
+                rerun.scenarios.filter(s => s.uri === scenario.uri),
+                s => s.scenario
+            );
+            return rerunScenario ?
+                { ...rerunScenario, retryCount: (scenario.retryCount || 0) + 1 } :
+                scenario;
+        });
+
+        const startTime = new Date(original.metadata.startTime);
+        const endTime = new Date(rerun.metadata.endTime);
+
+        return {
+            ...original,
+            metadata: {
+                ...original.metadata,
+                reportId: `report-${now.getTime()}`,
+                reportName: reportName || original.metadata.reportName,
+                endTime,
+                duration: endTime.getTime() - startTime.getTime(),
+                reportGeneratedAt: now,
+                rerun: {
+                    executionId: rerun.metadata.executionId,
+                    scenarios: rerun.summary.totalScenarios
+                }
+            },
+            summary: {
+                ...this.summarize([original, rerun], features, startTime, endTime),
+                parallelWorkers: original.summary.parallelWorkers,
+                retryCount: (original.summary.retryCount || 0) + rerun.summary.totalScenarios
+            },
+            features,
+            scenarios,
+            evidence: this.mergeEvidence([original.evidence, rerun.evidence])
+        };
+    }
+
+    /**
+     * Find the rerun of a scenario of a feature by its line. Outline rows share the
+     * line of the outline, so several scenarios on a line are told apart by name.
+     */
+    private findRerunScenario<T extends { line?: number }>(
+        scenario: T,
+        originalScenarios: T[],
+        rerunScenarios: T[],
+        name: (s: T) => string
+    ): T | undefined {
+        const candidates = rerunScenarios.filter(s => s.line === scenario.line);
+        const sameLine = originalScenarios.filter(s => s.line === scenario.line).length;
+        return candidates.find(s => name(s) === name(scenario)) ??
+            (candidates.length === 1 && sameLine === 1 ? candidates[0] : undefined);
+    }
+
+    /**
+     * Merge a rerun into the report of the original run and render it
+     */
+    public async mergeRerunReport(
+        originalFile: string,
+        rerun: ReportData,
+        outputDir: string,
+        formats: string[]
+    ): Promise<{ report: ReportData; result: ReportResult }> {
+        const original = await this.loadReport(originalFile);
+        const report = this.mergeRerun(original, rerun);
+        const result = await this.generate(report, outputDir, formats);
+
+        this.logger.info(`Merged rerun of ${rerun.summary.totalScenarios} scenario(s) into ${result.reportPath}`);
+        return { report, result };
+    }
+
+    /**
+     * Render the merged report in the requested formats
+     */
+    public async generate(reportData: ReportData, outputDir: string, formats: string[]): Promise<ReportResult> {
+        const config = new ReportConfig();
+        await config.load({ reportName: reportData.metadata.reportName });
+        config.set('reportPath', outputDir);
+        config.set('generateJSON', true);
+        config.set('generateXML', formats.includes('xml'));
+        // Excel and PDF are rendered below by the real exporters
+        config.set('generateExcel', false);
+        config.set('generatePDF', false);
+
+        const orchestrator = new ReportOrchestrator();
+        await orchestrator.initialize(config);
+        const result = await orchestrator.generateReports(reportData);
+        const exportsDir = path.join(result.reportPath, 'exports');
+
+        if (formats.includes('excel')) {
+            const excelPath = path.join(exportsDir, 'report.xlsx');
+            const excel = await new ExcelExporter().export(this.toExecutionResult(reportData), excelPath, {
+                format: ExportFormat.EXCEL
+            });
+            if (excel.success) {
+                result.reportPaths.push({ format: ExportFormat.EXCEL, path: excelPath, size: excel.size || 0 });
+            } else {
+                this.logger.warn(`Excel export failed: ${excel.error}`);
+            }
+        }
+
+        if (formats.includes('pdf')) {
+            const htmlPath = result.reportPaths.find(p => p.format === ExportFormat.HTML)?.path;
+            const html = htmlPath ? await FileUtils.readFile(htmlPath, 'utf8') as string : '';
+            const pdf = await new PDFExporter().export(reportData, html, {
+                format: ExportFormat.PDF,
+                outputDir: exportsDir,
+                filename: 'report.pdf'
+            });
+            if (pdf.success && pdf.filePath) {
+                result.reportPaths.push({ format: ExportFormat.PDF, path: pdf.filePath, size: pdf.size || 0 });
+            } else {
+                this.logger.warn(`PDF export failed: ${pdf.error}`);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Find, load, merge and render shard reports
+     */
+    public async mergeReports(
+        inputs: string[],
+        outputDir: string,
+        formats: string[],
+        reportName?: string
+    ): Promise<{ report: ReportData; result: ReportResult; shards: number }> {
+        const files = await this.findReports(inputs);
+        const reports = await this.loadReports(files);
+        const report = this.merge(reports, reportName);
+        const result = await this.generate(report, outputDir, formats);
+
+        this.logger.info(`Merged ${reports.length} shard report(s) into ${result.reportPath}`);
+        return { report, result, shards: reports.length };
+    }
+
+    /**
+     * Shards computed from different feature files or run history select overlapping scenarios
+     */
+    private checkFingerprints(shards: Array<{ current: number; file: string; report: ReportData }>): void {
+        const [first] = shards;
+        const expected = first?.report.metadata.shard?.fingerprint;
+
+        for (const { current, file, report } of shards) {
+            const fingerprint = report.metadata.shard?.fingerprint;
+            if (fingerprint?.partition === expected?.partition) {
+                continue;
+            }
+            const history = fingerprint?.history !== expected?.history ? ', their run history differs' : '';
+            throw new Error(
+                `Shard ${current} (${file}) partitioned the suite differently from shard ${first!.current} ` +
+                `(partition ${fingerprint?.partition ?? 'unknown'}, expected ${expected?.partition ?? 'unknown'}${history}). ` +
+                'All agents must run the same feature files with the same run history'
+            );
+        }
+    }
+
+    /**
+     * Features split across shards are combined by uri
+     */
+    private mergeFeatures(features: FeatureReport[]): FeatureReport[] {
+        const merged = new Map<string, FeatureReport>();
+
+        for (const feature of features) {
+            const key = feature.uri || feature.feature;
+            const existing = merged.get(key);
+            if (!existing) {
+                merged.set(key, { ...feature, scenarios: [...feature.scenarios] });
+                continue;
+            }
+
+            existing.scenarios.push(...feature.scenarios);
+            existing.startTime = new Date(Math.min(new Date(existing.startTime).getTime(), new Date(feature.startTime).getTime()));
+            existing.endTime = new Date(Math.max(new Date(existing.endTime).getTime(), new Date(feature.endTime).getTime()));
+        }
+
+        return Array.from(merged.values()).map(feature => {
+            const scenarios = feature.scenarios;
+            const steps = scenarios.flatMap(s => s.steps || []);
+            const durations = scenarios.map(s => s.duration || 0);
+            const duration = durations.reduce((sum, d) => sum + d, 0);
+            const passed = scenarios.filter(s => s.status === TestStatus.PASSED).length;
+            const failed = scenarios.filter(s => s.status === TestStatus.FAILED).length;
+
+            return {
+                ...feature,
+                status: failed > 0 ? TestStatus.FAILED :
+                    passed === scenarios.length ? TestStatus.PASSED : TestStatus.SKIPPED,
+                duration,
+                statistics: {
+                    totalScenarios: scenarios.length,
+                    passedScenarios: passed,
+                    failedScenarios: failed,
+                    skippedScenarios: scenarios.filter(s => s.status === TestStatus.SKIPPED).length,
+                    totalSteps: steps.length,
+                    passedSteps: steps.filter(s => s.status === TestStatus.PASSED).length,
+                    failedSteps: steps.filter(s => s.status === TestStatus.FAILED).length,
+                    skippedSteps: steps.filter(s => s.status === TestStatus.SKIPPED).length,
+                    avgScenarioDuration: scenarios.length > 0 ? duration / scenarios.length : 0,
+                    maxScenarioDuration: Math.max(...durations, 0),
+                    minScenarioDuration: durations.length > 0 ? Math.min(...durations) : 0,
+                    passRate: scenarios.length > 0 ? (passed / scenarios.length) * 100 : 0
+                }
+            };
+        });
+    }
+
+    /**
+     * Recalculate the execution summary over all shards
+     */
+    private summarize(reports: ReportData[], features: FeatureReport[], startTime: Date, endTime: Date): ExecutionSummary {
+        const latest = reports[reports.length - 1]!;
+        const scenarios: ScenarioSummary[] = features.flatMap(f => f.scenarios);
+        const steps = scenarios.flatMap(s => s.steps || []);
+        const total = scenarios.length;
+        const passed = scenarios.filter(s => s.status === TestStatus.PASSED).length;
+        const failed = scenarios.filter(s => s.status === TestStatus.FAILED).length;
+        const skipped = total - passed - failed;
+        const byDuration = [...scenarios].sort((a, b) => a.duration - b.duration);
+        const featureOf = (scenario: ScenarioSummary | undefined): string =>
+            features.find(f => scenario && f.scenarios.includes(scenario))?.feature || '';
+        const reference = (scenario: ScenarioSummary | undefined) => ({
+            scenarioId: scenario?.scenarioId || '',
+            name: scenario?.name || '',
+            duration: scenario?.duration || 0,
+            feature: featureOf(scenario)
+        });
+        const byFailures = [...features].sort((a, b) => b.statistics.failedScenarios - a.statistics.failedScenarios);
+        const byPassRate = [...features].sort((a, b) => b.statistics.passRate - a.statistics.passRate);
+        const totalDuration = scenarios.reduce((sum, s) => sum + (s.duration || 0), 0);
+
+        return {
+            ...latest.summary,
+            totalFeatures: features.length,
+            passedFeatures: features.filter(f => f.status === TestStatus.PASSED).length,
+            failedFeatures: features.filter(f => f.status === TestStatus.FAILED).length,
+            skippedFeatures: features.filter(f => f.status === TestStatus.SKIPPED).length,
+            totalScenarios: total,
+            passedScenarios: passed,
+            failedScenarios: failed,
+            skippedScenarios: skipped,
+            totalSteps: steps.length,
+            passedSteps: steps.filter(s => s.status === TestStatus.PASSED).length,
+            failedSteps: steps.filter(s => s.status === TestStatus.FAILED).length,
+            skippedSteps: steps.filter(s => s.status === TestStatus.SKIPPED).length,
+            pendingSteps: reports.reduce((sum, r) => sum + (r.summary.pendingSteps || 0), 0),
+            executionTime: endTime.getTime() - startTime.getTime(),
+            parallelWorkers: reports.reduce((sum, r) => sum + (r.summary.parallelWorkers || 1), 0),
+            retryCount: reports.reduce((sum, r) => sum + (r.summary.retryCount || 0), 0),
+            passRate: total > 0 ? (passed / total) * 100 : 0,
+            failureRate: total > 0 ? (failed / total) * 100 : 0,
+            status: failed > 0 || reports.some(r => r.summary.status === ExecutionStatus.FAILED) ?
+                ExecutionStatus.FAILED : ExecutionStatus.PASSED,
+            statistics: {
+                ...latest.summary.statistics,
+                avgScenarioDuration: total > 0 ? totalDuration / total : 0,
+                avgStepDuration: steps.length > 0 ? steps.reduce((sum, s) => sum + (s.duration || 0), 0) / steps.length : 0,
+                fastestScenario: reference(byDuration[0]),
+                slowestScenario: reference(byDuration[byDuration.length - 1]),
+                mostFailedFeature: byFailures[0] && byFailures[0].statistics.failedScenarios > 0 ? byFailures[0].feature : '',
+                mostStableFeature: byPassRate[0]?.feature || '',
+                flakyTests: reports.flatMap(r => r.summary.statistics?.flakyTests || [])
+            },
+            scenarios,
+            features,
+            duration: endTime.getTime() - startTime.getTime(),
+            startTime,
+            endTime
+        };
+    }
+
+    /**
+     * Concatenate the evidence lists of all shards
+     */
+    private mergeEvidence(collections: EvidenceCollection[]): EvidenceCollection {
+        const merged: Record<string, any> = {};
+
+        for (const collection of collections) {
+            for (const [key, value] of Object.entries(collection || {})) {
+                if (Array.isArray(value)) {
+                    merged[key] = [...(merged[key] || []), ...value];
+                } else if (merged[key] === undefined) {
+                    merged[key] = value;
+                }
+            }
+        }
+
+        return merged as EvidenceCollection;
+    }
+
+    /**
+     * Shape the merged report for the Excel exporter
+     */
+    private toExecutionResult(reportData: ReportData): ExecutionResult {
+        const summary = reportData.summary;
+        return {
+            executionId: reportData.metadata.executionId,
+            startTime: reportData.metadata.startTime,
+            endTime: reportData.metadata.endTime,
+            status: summary.status,
+            environment: reportData.metadata.environment,
+            features: reportData.features,
+            scenarios: reportData.scenarios as ScenarioReport[],
+            totalFeatures: summary.totalFeatures,
+            totalScenarios: summary.totalScenarios,
+            totalSteps: summary.totalSteps,
+            passedFeatures: summary.passedFeatures,
+            passedScenarios: summary.passedScenarios,
+            passedSteps: summary.passedSteps,
+            failedFeatures: summary.failedFeatures,
+            failedScenarios: summary.failedScenarios,
+            failedSteps: summary.failedSteps,
+            skippedFeatures: summary.skippedFeatures,
+            skippedScenarios: summary.skippedScenarios,
+            skippedSteps: summary.skippedSteps,
+            duration: reportData.metadata.duration,
+            tags: reportData.metadata.tags,
+            metadata: { mergedShards: reportData.metrics.execution.parallelWorkers }
+        };
+    }
+}
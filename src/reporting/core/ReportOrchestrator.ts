@@ -231,7 +231,7 @@ export class ReportOrchestrator {
      */
     private async generateHTMLReport(reportData: ReportData, reportDir: string): Promise<string> {
         const htmlPath = path.join(reportDir, 'html', 'index.html');
-        const html = await this.htmlGenerator.generate(reportData);
+        const html = await this.htmlGenerator.generate(reportData, path.dirname(htmlPath));
         await FileUtils.writeFile(htmlPath, html);
         return htmlPath;
     }
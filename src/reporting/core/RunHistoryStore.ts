@@ -0,0 +1,318 @@
+import {
+    RunHistoryEntry,
+    ScenarioHistoryRecord,
+    TrendData,
+    ExecutionHistory,
+    TestStatus
+} from '../types/reporting.types';
+import { Logger } from '../../core/utils/Logger';
+import { FileUtils } from '../../core/utils/FileUtils';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import * as path from 'path';
+
+type TrendLine = { data: number[]; change: number; direction: 'up' | 'down' | 'stable' };
+
+/**
+ * Local run history store
+ *
+ * Keeps one JSON line per execution under the report path so that trends,
+ * per-scenario history and flakiness can be derived across runs without
+ * any external service.
+ */
+export class RunHistoryStore {
+    private static instance: RunHistoryStore;
+    private logger: Logger;
+    private historyFile: string | null = null;
+    private cache: RunHistoryEntry[] | null = null;
+
+    private constructor() {
+        this.logger = Logger.getInstance('RunHistoryStore');
+    }
+
+    /**
+     * Get singleton instance
+     */
+    public static getInstance(): RunHistoryStore {
+        if (!RunHistoryStore.instance) {
+            RunHistoryStore.instance = new RunHistoryStore();
+        }
+        return RunHistoryStore.instance;
+    }
+
+    /**
+     * Build a stable scenario key that survives across runs
+     */
+    public static scenarioKey(feature: string, scenario: string): string {
+        const location = path.isAbsolute(feature) ? path.relative(process.cwd(), feature) : feature;
+        return `${location.replace(/\\/g, '/').replace(/^\.\//, '')}::${scenario}`;
+    }
+
+    /**
+     * Create a history entry from per-scenario records
+     */
+    public static createEntry(
+        executionId: string,
+        startTime: Date,
+        environment: string,
+        duration: number,
+        scenarios: ScenarioHistoryRecord[]
+    ): RunHistoryEntry {
+        const total = scenarios.length;
+        const passed = scenarios.filter(s => s.status === TestStatus.PASSED).length;
+        const failed = scenarios.filter(s => s.status === TestStatus.FAILED).length;
+        const skipped = total - passed - failed;
+
+        return {
+            executionId,
+            timestamp: startTime.toISOString(),
+            environment,
+            duration,
+            totalScenarios: total,
+            passedScenarios: passed,
+            failedScenarios: failed,
+            skippedScenarios: skipped,
+            passRate: total > 0 ? (passed / total) * 100 : 0,
+            failureRate: total > 0 ? (failed / total) * 100 : 0,
+            scenarios
+        };
+    }
+
+    /**
+     * Whether history recording is enabled
+     */
+    public isEnabled(): boolean {
+        return ConfigurationManager.getBoolean('RUN_HISTORY_ENABLED', true);
+    }
+
+    /**
+     * Override the history file location
+     */
+    public setHistoryFile(filePath: string): void {
+        this.historyFile = filePath;
+        this.cache = null;
+    }
+
+    /**
+     * Get the history file location
+     */
+    public getHistoryFile(): string {
+        if (!this.historyFile) {
+            this.historyFile = ConfigurationManager.get(
+                'RUN_HISTORY_PATH',
+                path.join(ConfigurationManager.get('REPORT_PATH', './reports'), 'history', 'run-history.jsonl')
+            );
+        }
+        return this.historyFile;
+    }
+
+    /**
+     * Append a run to the history, trimming to the configured maximum
+     */
+    public async record(entry: RunHistoryEntry): Promise<void> {
+        if (!this.isEnabled()) {
+            return;
+        }
+
+        try {
+            const existing = await this.loadAll();
+            const runs = [...existing.filter(run => run.executionId !== entry.executionId), entry];
+
+            const maxRuns = ConfigurationManager.getInt('RUN_HISTORY_MAX_RUNS', 100);
+            const retained = runs.slice(Math.max(0, runs.length - maxRuns));
+
+            // Append when nothing was replaced or trimmed, otherwise rewrite the file
+            if (existing.length + 1 === retained.length) {
+                await FileUtils.appendFile(this.getHistoryFile(), JSON.stringify(entry) + '\n', 'utf8');
+            } else {
+                await FileUtils.writeFile(
+                    this.getHistoryFile(),
+                    retained.map(run => JSON.stringify(run)).join('\n') + '\n',
+                    'utf8'
+                );
+            }
+
+            this.cache = retained;
+            this.logger.info(`Recorded run ${entry.executionId} in history (${retained.length} runs retained)`);
+
+        } catch (error: any) {
+            this.logger.error('Failed to record run history', error);
+        }
+    }
+
+    /**
+     * Get the most recent runs, oldest first
+     */
+    public async getRuns(limit?: number): Promise<RunHistoryEntry[]> {
+        const runs = await this.loadAll();
+        return limit !== undefined ? runs.slice(Math.max(0, runs.length - limit)) : [...runs];
+    }
+
+    /**
+     * Get the recorded outcomes of a scenario, oldest first
+     */
+    public async getScenarioHistory(key: string, limit?: number): Promise<ScenarioHistoryRecord[]> {
+        const records: ScenarioHistoryRecord[] = [];
+        for (const run of await this.loadAll()) {
+            const record = run.scenarios.find(s => s.key === key);
+            if (record) {
+                records.push(record);
+            }
+        }
+        return limit !== undefined ? records.slice(Math.max(0, records.length - limit)) : records;
+    }
+
+    /**
+     * Average duration per scenario key over the recorded history
+     */
+    public async getAverageDurations(): Promise<Map<string, number>> {
+        const totals = new Map<string, { sum: number; count: number }>();
+        for (const run of await this.loadAll()) {
+            for (const scenario of run.scenarios) {
+                if (scenario.status === TestStatus.SKIPPED) continue;
+                const total = totals.get(scenario.key) || { sum: 0, count: 0 };
+                total.sum += scenario.duration;
+                total.count++;
+                totals.set(scenario.key, total);
+            }
+        }
+
+        const averages = new Map<string, number>();
+        totals.forEach((total, key) => averages.set(key, total.sum / total.count));
+        return averages;
+    }
+
+    /**
+     * Calculate trends for the current run against the previous runs
+     */
+    public async calculateTrends(current: RunHistoryEntry, window?: number): Promise<TrendData> {
+        const size = window ?? ConfigurationManager.getInt('RUN_HISTORY_TREND_WINDOW', 10);
+        const previous = (await this.loadAll())
+            .filter(run => run.executionId !== current.executionId)
+            .slice(-Math.max(0, size - 1));
+        const runs = [...previous, current];
+
+        const lastExecutions: ExecutionHistory[] = runs.map(run => ({
+            executionId: run.executionId,
+            date: new Date(run.timestamp),
+            passRate: run.passRate,
+            failureRate: run.failureRate,
+            duration: run.duration,
+            totalTests: run.totalScenarios
+        }));
+
+        const last = previous[previous.length - 1];
+
+        return {
+            passRateTrend: this.createTrendLine(runs.map(run => run.passRate), 'absolute'),
+            executionTimeTrend: this.createTrendLine(runs.map(run => run.duration), 'relative'),
+            failureRateTrend: this.createTrendLine(runs.map(run => run.failureRate), 'absolute'),
+            stabilityTrend: this.createTrendLine(runs.map((run, index) => this.calculateStability(run, runs[index - 1])), 'absolute'),
+            lastExecutions,
+            historicalComparison: last ? [
+                {
+                    metric: 'Pass Rate',
+                    current: `${current.passRate.toFixed(1)}%`,
+                    previous: `${last.passRate.toFixed(1)}%`,
+                    change: current.passRate - last.passRate
+                },
+                {
+                    metric: 'Duration',
+                    current: `${(current.duration / 1000).toFixed(1)}s`,
+                    previous: `${(last.duration / 1000).toFixed(1)}s`,
+                    change: this.percentChange(last.duration, current.duration)
+                },
+                {
+                    metric: 'Total Tests',
+                    current: current.totalScenarios.toString(),
+                    previous: last.totalScenarios.toString(),
+                    change: this.percentChange(last.totalScenarios, current.totalScenarios)
+                },
+                {
+                    metric: 'Failed Tests',
+                    current: current.failedScenarios.toString(),
+                    previous: last.failedScenarios.toString(),
+                    change: this.percentChange(last.failedScenarios, current.failedScenarios)
+                }
+            ] : []
+        };
+    }
+
+    /**
+     * Drop all recorded history
+     */
+    public async clear(): Promise<void> {
+        await FileUtils.remove(this.getHistoryFile());
+        this.cache = [];
+    }
+
+    /**
+     * Load and parse the history file, skipping corrupt lines
+     */
+    private async loadAll(): Promise<RunHistoryEntry[]> {
+        if (this.cache) {
+            return this.cache;
+        }
+
+        const file = this.getHistoryFile();
+        const runs: RunHistoryEntry[] = [];
+
+        if (await FileUtils.exists(file)) {
+            const lines = await FileUtils.readLines(file);
+            for (const line of lines) {
+                if (!line.trim()) continue;
+                try {
+                    runs.push(JSON.parse(line) as RunHistoryEntry);
+                } catch {
+                    this.logger.warn(`Skipping corrupt run history line in ${file}`);
+                }
+            }
+        }
+
+        runs.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+        this.cache = runs;
+        return runs;
+    }
+
+    /**
+     * Trend line where change is either percentage points (absolute) or percent (relative)
+     * between the current value and the mean of the previous values
+     */
+    private createTrendLine(data: number[], mode: 'absolute' | 'relative'): TrendLine {
+        if (data.length < 2) {
+            return { data, change: 0, direction: 'stable' };
+        }
+
+        const current = data[data.length - 1] || 0;
+        const previous = data.slice(0, -1);
+        const baseline = previous.reduce((sum, value) => sum + value, 0) / previous.length;
+        const change = mode === 'absolute' ? current - baseline : this.percentChange(baseline, current);
+
+        return {
+            data,
+            change,
+            direction: change > 1 ? 'up' : change < -1 ? 'down' : 'stable'
+        };
+    }
+
+    /**
+     * Percentage of scenarios whose outcome did not change since the previous run
+     */
+    private calculateStability(run: RunHistoryEntry, previous?: RunHistoryEntry): number {
+        if (!previous) {
+            return 100;
+        }
+
+        const previousStatus = new Map(previous.scenarios.map(s => [s.key, s.status]));
+        const comparable = run.scenarios.filter(s => previousStatus.has(s.key));
+        if (comparable.length === 0) {
+            return 100;
+        }
+
+        const unchanged = comparable.filter(s => previousStatus.get(s.key) === s.status).length;
+        return (unchanged / comparable.length) * 100;
+    }
+
+    private percentChange(from: number, to: number): number {
+        return from !== 0 ? ((to - from) / from) * 100 : 0;
+    }
+}
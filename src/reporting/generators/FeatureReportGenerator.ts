@@ -341,6 +341,12 @@ ${this.generateFeatureScripts()}`;
                     ${this.formatDuration(scenario.duration)}
                 </span>
                 
+                ${scenario.rule ? `
+                <span class="metadata-item rule">
+                    Rule: ${scenario.rule}
+                </span>
+                ` : ''}
+                
                 ${scenario.retryCount > 0 ? `
                 <span class="metadata-item retry">
                     <svg viewBox="0 0 16 16">
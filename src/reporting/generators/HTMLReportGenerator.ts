@@ -1,5 +1,6 @@
 import { ReportConfig } from '../core/ReportConfig';
-import { ReportTheme } from '../types/reporting.types';
+import { ChartType, LineChart, ReportTheme, VisualDiff } from '../types/reporting.types';
+import { ChartGenerator } from './ChartGenerator';
 import { Logger } from '../../core/utils/Logger';
 import { DateUtils } from '../../core/utils/DateUtils';
 import * as fs from 'fs';
@@ -12,6 +13,7 @@ import * as path from 'path';
 export class HTMLReportGenerator {
     private logger: Logger;
     private theme!: ReportTheme;
+    private outputDir: string | undefined;
 
     constructor() {
         this.logger = Logger.getInstance('HTMLReportGenerator');
@@ -26,12 +28,16 @@ export class HTMLReportGenerator {
     }
 
     /**
-     * Generate complete HTML report
+     * Generate complete HTML report, image paths are written relative to the output directory
      */
-    public async generate(data: any): Promise<string> {
+    public async generate(data: any, outputDir?: string): Promise<string> {
         try {
             this.logger.info('Generating HTML report');
             const startTime = Date.now();
+            this.outputDir = outputDir;
+
+            // Charts are rendered ahead of the document
+            const loadTestSection = data.loadTests ? await this.generateLoadTestSection(data.loadTests) : '';
 
             // Build complete HTML document
             const html = `<!DOCTYPE html>
@@ -94,6 +100,31 @@ ${this.generateTimelineSection(data.timeline)}
 ${this.generateGallerySection(data.gallery)}
         </section>` : ''}
         
+        <!-- Visual Snapshot Section -->
+        ${data.visualSnapshots ? `<section id="visual" class="cs-section cs-visual-section">
+${this.generateVisualSnapshotSection(data.visualSnapshots)}
+        </section>` : ''}
+        
+        <!-- Accessibility Section -->
+        ${data.accessibility ? `<section id="accessibility" class="cs-section cs-accessibility-section">
+${this.generateAccessibilitySection(data.accessibility)}
+        </section>` : ''}
+        
+        <!-- API Contract Section -->
+        ${data.contractCoverage ? `<section id="contract" class="cs-section cs-contract-section">
+${this.generateContractCoverageSection(data.contractCoverage)}
+        </section>` : ''}
+        
+        <!-- Load Test Section -->
+        ${loadTestSection ? `<section id="load" class="cs-section cs-load-section">
+${loadTestSection}
+        </section>` : ''}
+        
+        <!-- Performance Budget Section -->
+        ${data.performanceBudgets ? `<section id="budgets" class="cs-section cs-budgets-section">
+${this.generatePerformanceBudgetSection(data.performanceBudgets)}
+        </section>` : ''}
+        
         <!-- Metrics Section -->
         <section id="metrics" class="cs-section cs-metrics-section">
 ${this.generateMetricsSection(data.metrics)}
@@ -881,6 +912,209 @@ a:hover {
     font-size: 0.875rem;
 }
 
+/* Visual Snapshots */
+.cs-visual-snapshot {
+    margin-bottom: var(--cs-spacing-lg);
+    padding: var(--cs-spacing-md);
+    border: 1px solid var(--cs-border);
+    border-radius: var(--cs-radius-md);
+}
+
+.cs-visual-header {
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: var(--cs-spacing-sm);
+    margin-bottom: var(--cs-spacing-md);
+}
+
+.cs-visual-name {
+    font-weight: 600;
+}
+
+.cs-visual-meta {
+    font-size: 0.875rem;
+    color: var(--cs-text-secondary);
+}
+
+.cs-visual-images {
+    display: grid;
+    grid-template-columns: repeat(3, 1fr);
+    gap: var(--cs-spacing-md);
+}
+
+.cs-visual-image {
+    margin: 0;
+    cursor: pointer;
+}
+
+.cs-visual-image img {
+    width: 100%;
+    border: 1px solid var(--cs-border);
+}
+
+.cs-visual-image figcaption {
+    font-size: 0.875rem;
+    text-align: center;
+    color: var(--cs-text-secondary);
+}
+
+/* Accessibility */
+.cs-a11y-summary {
+    display: flex;
+    flex-wrap: wrap;
+    gap: var(--cs-spacing-sm);
+}
+
+.cs-a11y-impact {
+    display: inline-block;
+    padding: var(--cs-spacing-xs) var(--cs-spacing-sm);
+    border-radius: var(--cs-radius-full);
+    font-size: 0.875rem;
+    font-weight: 600;
+    text-transform: capitalize;
+}
+
+.cs-a11y-impact.critical {
+    background: rgba(220, 53, 69, 0.15);
+    color: var(--cs-error);
+}
+
+.cs-a11y-impact.serious {
+    background: rgba(253, 126, 20, 0.15);
+    color: #fd7e14;
+}
+
+.cs-a11y-impact.moderate {
+    background: rgba(255, 193, 7, 0.15);
+    color: var(--cs-warning);
+}
+
+.cs-a11y-impact.minor {
+    background: var(--cs-bg-secondary);
+    color: var(--cs-text);
+}
+
+.cs-a11y-url {
+    font-size: 0.875rem;
+    color: var(--cs-text-secondary);
+}
+
+.cs-a11y-html {
+    max-width: 400px;
+    margin-top: var(--cs-spacing-xs);
+    white-space: pre-wrap;
+    word-break: break-all;
+    font-size: 0.75rem;
+}
+
+.cs-a11y-screenshot {
+    max-width: 160px;
+    max-height: 120px;
+    border: 1px solid var(--cs-border);
+}
+
+.cs-a11y-pass {
+    padding: var(--cs-spacing-md);
+    color: var(--cs-success);
+}
+
+/* API Contract */
+.cs-contract-status {
+    display: inline-block;
+    margin: 0 var(--cs-spacing-xs) var(--cs-spacing-xs) 0;
+    padding: 0 var(--cs-spacing-sm);
+    border-radius: var(--cs-radius-full);
+    font-size: 0.75rem;
+    font-weight: 600;
+    background: var(--cs-bg-secondary);
+    color: var(--cs-text-secondary);
+}
+
+.cs-contract-status.covered {
+    background: rgba(40, 167, 69, 0.15);
+    color: var(--cs-success);
+}
+
+.cs-contract-status.undocumented {
+    background: rgba(220, 53, 69, 0.15);
+    color: var(--cs-error);
+}
+
+/* Load Tests */
+.cs-load-stats {
+    display: flex;
+    flex-wrap: wrap;
+    gap: var(--cs-spacing-lg);
+    padding: var(--cs-spacing-md);
+}
+
+.cs-load-stat strong {
+    display: block;
+    font-size: 1.25rem;
+}
+
+.cs-load-stat span {
+    font-size: 0.875rem;
+    color: var(--cs-text-secondary);
+}
+
+.cs-load-threshold {
+    display: inline-block;
+    margin: 0 var(--cs-spacing-xs) var(--cs-spacing-xs) 0;
+    padding: 0 var(--cs-spacing-sm);
+    border-radius: var(--cs-radius-full);
+    font-size: 0.75rem;
+    font-weight: 600;
+    background: rgba(40, 167, 69, 0.15);
+    color: var(--cs-success);
+}
+
+.cs-load-threshold.failed {
+    background: rgba(220, 53, 69, 0.15);
+    color: var(--cs-error);
+}
+
+.cs-load-charts {
+    display: flex;
+    flex-wrap: wrap;
+    gap: var(--cs-spacing-md);
+    overflow-x: auto;
+}
+
+/* Performance Budgets */
+.cs-budget-breach {
+    color: var(--cs-error);
+    font-weight: 600;
+}
+
+.cs-budget-sparkline .cs-budget-line {
+    stroke: var(--cs-text-secondary);
+    stroke-dasharray: 3 3;
+    stroke-width: 1;
+}
+
+.cs-budget-sparkline .cs-budget-values {
+    fill: none;
+    stroke: var(--cs-primary);
+    stroke-width: 1.5;
+}
+
+.cs-budget-sparkline .within {
+    fill: var(--cs-success);
+}
+
+.cs-budget-sparkline .breach {
+    fill: var(--cs-error);
+}
+
+/* Trace ID */
+.cs-scenario-trace {
+    font-family: 'Monaco', 'Consolas', monospace;
+    font-size: 12px;
+    word-break: break-all;
+}
+
 /* Lightbox */
 .cs-lightbox {
     display: none;
@@ -2374,8 +2608,8 @@ a:hover {
         const lightboxImg = document.getElementById('cs-lightbox-img');
         const lightboxClose = document.querySelector('.cs-lightbox-close');
         
-        // Gallery item clicks
-        document.querySelectorAll('.cs-gallery-item').forEach(item => {
+        // Gallery and visual snapshot image clicks
+        document.querySelectorAll('.cs-gallery-item, .cs-visual-image').forEach(item => {
             item.addEventListener('click', () => {
                 const img = item.querySelector('img');
                 lightboxImg.src = img.src;
@@ -2557,6 +2791,11 @@ a:hover {
                     <li><a href="#scenarios" class="cs-nav-link">Scenarios</a></li>
                     <li><a href="#timeline" class="cs-nav-link">Timeline</a></li>
                     <li><a href="#gallery" class="cs-nav-link">Gallery</a></li>
+                    <li><a href="#visual" class="cs-nav-link">Visual Snapshots</a></li>
+                    <li><a href="#accessibility" class="cs-nav-link">Accessibility</a></li>
+                    <li><a href="#contract" class="cs-nav-link">API Contract</a></li>
+                    <li><a href="#load" class="cs-nav-link">Load Tests</a></li>
+                    <li><a href="#budgets" class="cs-nav-link">Performance Budgets</a></li>
                     <li><a href="#metrics" class="cs-nav-link">Metrics</a></li>
                 </ul>
                 <div class="cs-nav-actions">
@@ -2869,6 +3108,9 @@ a:hover {
                         <div class="cs-scenario-meta">
                             <span class="cs-scenario-feature">${scenario.feature}</span>
                             <span class="cs-scenario-duration">${this.formatDuration(scenario.duration)}</span>
+                            ${scenario.traceId ? `
+                                <span class="cs-scenario-trace" title="Scenario span ${scenario.spanId || ''}">Trace ID ${scenario.traceId}</span>
+                            ` : ''}
                         </div>
                     </div>
                     <div class="cs-scenario-status">
@@ -2921,6 +3163,7 @@ a:hover {
                 <div class="cs-step-content">
                     <div class="cs-step-name">${step.keyword} ${step.name}</div>
                     ${step.duration ? `<div class="cs-step-duration">${step.duration}ms</div>` : ''}
+                    ${step.aiInterpretation ? `<div class="cs-step-ai" title="${this.escapeHtml(step.aiInterpretation.suggestedStep || step.aiInterpretation.action)}">AI-interpreted as ${this.escapeHtml(step.aiInterpretation.action)} (${(step.aiInterpretation.confidence * 100).toFixed(0)}% confidence)</div>` : ''}
                     ${step.error ? `
                         <div class="cs-step-error">
                             <pre>${this.escapeHtml(step.error.message)}</pre>
@@ -2939,6 +3182,12 @@ a:hover {
                             </div>
                         </details>
                     ` : ''}
+                    ${step.embeddings && step.embeddings.length > 0 ? step.embeddings.map((embedding: any) => `
+                        <details class="cs-step-logs">
+                            <summary>${this.escapeHtml(embedding.name || embedding.mimeType)}</summary>
+                            <pre>${this.escapeHtml(embedding.data)}</pre>
+                        </details>
+                    `).join('') : ''}
                 </div>
             </div>
         `;
@@ -2983,7 +3232,7 @@ a:hover {
                 <div class="cs-gallery">
                     ${gallery.data.map((item: any) => `
                         <div class="cs-gallery-item">
-                            <img src="${item.url}" alt="${item.caption}" loading="lazy" />
+                            <img src="${this.toReportPath(item.url)}" alt="${item.caption}" loading="lazy" />
                             <div class="cs-gallery-overlay">
                                 <div class="cs-gallery-caption">${item.caption}</div>
                             </div>
@@ -2994,6 +3243,370 @@ a:hover {
         `;
     }
 
+    /**
+     * Path of an image file as seen from the report, URLs are kept as they are
+     */
+    private toReportPath(file: string): string {
+        if (!this.outputDir || /^(data|https?|file):/i.test(file)) {
+            return file;
+        }
+        return path.relative(this.outputDir, path.resolve(file)).split(path.sep).join('/');
+    }
+
+    /**
+     * Generate visual snapshot section, expected, actual and diff images side by side
+     */
+    private generateVisualSnapshotSection(snapshots: VisualDiff[]): string {
+        if (!snapshots || snapshots.length === 0) return '';
+
+        const failed = snapshots.filter(snapshot => snapshot.status === 'failed').length;
+
+        return `
+            <div class="cs-section-content">
+                <div class="cs-section-header">
+                    <h2 class="cs-section-title">Visual Snapshots</h2>
+                    <p class="cs-section-subtitle">${failed} of ${snapshots.length} snapshots differ from their baseline</p>
+                </div>
+                
+                ${snapshots.map(snapshot => `
+                    <div class="cs-visual-snapshot ${snapshot.status}">
+                        <div class="cs-visual-header">
+                            <span class="cs-visual-name">${this.escapeHtml(snapshot.snapshotName)}</span>
+                            <span class="cs-table-status ${snapshot.status}">${snapshot.status}</span>
+                            <span class="cs-visual-meta">${snapshot.browser}, ${snapshot.viewport}${snapshot.diffPercentage !== undefined ? `, ${snapshot.diffPercentage.toFixed(2)}% changed` : ''}</span>
+                        </div>
+                        <div class="cs-visual-images">
+                            ${[['Expected', snapshot.baselinePath], ['Actual', snapshot.actualPath], ['Diff', snapshot.diffPath]]
+                                .filter((image): image is [string, string] => image[1] !== undefined)
+                                .map(([label, file]) => `
+                                    <figure class="cs-visual-image">
+                                        <img src="${this.toReportPath(file)}" alt="${this.escapeHtml(snapshot.snapshotName)} ${label}" loading="lazy" />
+                                        <figcaption>${label}</figcaption>
+                                    </figure>
+                                `).join('')}
+                        </div>
+                    </div>
+                `).join('')}
+            </div>
+        `;
+    }
+
+    /**
+     * Generate accessibility section
+     */
+    private generateAccessibilitySection(accessibility: any): string {
+        if (!accessibility || !accessibility.audits || accessibility.audits.length === 0) return '';
+        
+        return `
+            <div class="cs-section-content">
+                <div class="cs-section-header">
+                    <h2 class="cs-section-title">Accessibility</h2>
+                    <p class="cs-section-subtitle">${accessibility.totalViolations} WCAG violations in ${accessibility.audits.length} audits</p>
+                </div>
+                
+                <div class="cs-a11y-summary cs-mb-4">
+                    ${['critical', 'serious', 'moderate', 'minor'].map(impact => `
+                        <span class="cs-a11y-impact ${impact}">${impact}: ${accessibility.violationsByImpact[impact] || 0}</span>
+                    `).join('')}
+                </div>
+                
+                ${accessibility.audits.map((audit: any) => `
+                    <div class="cs-card cs-mb-4">
+                        <div class="cs-card-header">
+                            <h3 class="cs-card-title">${this.escapeHtml(audit.title || audit.url)}${audit.scope ? ` &ndash; <code>${this.escapeHtml(audit.scope)}</code>` : ''}</h3>
+                            <span class="cs-a11y-url">${this.escapeHtml(audit.url)}</span>
+                        </div>
+                        ${audit.violations.length === 0 ? `
+                            <p class="cs-a11y-pass">No violations for ${audit.rules.length} rules</p>
+                        ` : `
+                            <div class="cs-table-container">
+                                <table class="cs-table">
+                                    <thead>
+                                        <tr>
+                                            <th>Impact</th>
+                                            <th>Rule</th>
+                                            <th>WCAG</th>
+                                            <th>Element</th>
+                                            <th>Screenshot</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        ${audit.violations.map((violation: any) => `
+                                            <tr>
+                                                <td><span class="cs-a11y-impact ${violation.impact}">${violation.impact}</span></td>
+                                                <td>
+                                                    <strong>${this.escapeHtml(violation.ruleId)}</strong>
+                                                    <div>${this.escapeHtml(violation.message)}</div>
+                                                </td>
+                                                <td>${violation.wcag.join(', ')} (${violation.level})</td>
+                                                <td>
+                                                    <code>${this.escapeHtml(violation.selector)}</code>
+                                                    <pre class="cs-a11y-html">${this.escapeHtml(violation.html)}</pre>
+                                                </td>
+                                                <td>${violation.screenshot ? `<img class="cs-a11y-screenshot" src="${this.toReportPath(violation.screenshot)}" alt="${this.escapeHtml(violation.ruleId)}" loading="lazy" />` : ''}</td>
+                                            </tr>
+                                        `).join('')}
+                                    </tbody>
+                                </table>
+                            </div>
+                        `}
+                    </div>
+                `).join('')}
+            </div>
+        `;
+    }
+
+    /**
+     * Generate API contract coverage section
+     */
+    private generateContractCoverageSection(coverage: any): string {
+        if (!coverage || !coverage.specs || coverage.specs.length === 0) return '';
+        
+        return `
+            <div class="cs-section-content">
+                <div class="cs-section-header">
+                    <h2 class="cs-section-title">API Contract</h2>
+                    <p class="cs-section-subtitle">${coverage.totalViolations} contract violations in ${coverage.specs.length} specs</p>
+                </div>
+                
+                ${coverage.specs.map((spec: any) => `
+                    <div class="cs-card cs-mb-4">
+                        <div class="cs-card-header">
+                            <h3 class="cs-card-title">${this.escapeHtml(spec.title)} ${this.escapeHtml(spec.version)}</h3>
+                            <span class="cs-a11y-url">${spec.coveredOperations}/${spec.totalOperations} operations, ${spec.statusCoverage}% of documented status codes</span>
+                        </div>
+                        <div class="cs-table-container">
+                            <table class="cs-table">
+                                <thead>
+                                    <tr>
+                                        <th>Operation</th>
+                                        <th>Status codes</th>
+                                        <th>Responses</th>
+                                        <th>Violations</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    ${spec.operations.map((operation: any) => `
+                                        <tr>
+                                            <td>
+                                                <strong>${operation.method}</strong> <code>${this.escapeHtml(operation.path)}</code>
+                                                ${operation.operationId ? `<div>${this.escapeHtml(operation.operationId)}</div>` : ''}
+                                            </td>
+                                            <td>
+                                                ${operation.documentedStatuses.map((status: string) => `
+                                                    <span class="cs-contract-status ${operation.coveredStatuses.includes(status) ? 'covered' : ''}">${this.escapeHtml(status)}</span>
+                                                `).join('')}
+                                                ${operation.undocumentedStatuses.map((status: string) => `
+                                                    <span class="cs-contract-status undocumented" title="Not documented">${status}</span>
+                                                `).join('')}
+                                            </td>
+                                            <td>${Object.values(operation.exercisedStatuses).reduce((sum: number, count: any) => sum + count, 0)}</td>
+                                            <td>${operation.violations}</td>
+                                        </tr>
+                                    `).join('')}
+                                </tbody>
+                            </table>
+                        </div>
+                        ${spec.unmatchedRequests.length > 0 ? `
+                            <p class="cs-a11y-url">Requests without operation: ${spec.unmatchedRequests.map((request: string) => `<code>${this.escapeHtml(request)}</code>`).join(', ')}</p>
+                        ` : ''}
+                    </div>
+                `).join('')}
+            </div>
+        `;
+    }
+
+    /**
+     * Generate load test section
+     */
+    private async generateLoadTestSection(loadTests: any[]): Promise<string> {
+        if (!loadTests || loadTests.length === 0) return '';
+        
+        const passed = loadTests.filter((test: any) => test.passed).length;
+        const cards: string[] = [];
+        
+        for (const test of loadTests) {
+            cards.push(`
+                <div class="cs-card cs-mb-4">
+                    <div class="cs-card-header">
+                        <h3 class="cs-card-title">${this.escapeHtml(test.scenario)}</h3>
+                        <span class="cs-a11y-url">${test.model === 'arrival-rate' ? `${test.arrivalRate} iterations/s, at most ${test.users} users` : `${test.users} users`}, ${test.duration}s${test.rampUp ? `, ramp-up ${test.rampUp}s` : ''}</span>
+                    </div>
+                    <div class="cs-load-stats">
+                        ${[
+                            ['Requests', test.requests],
+                            ['Throughput', `${test.throughput} req/s`],
+                            ['Error rate', `${test.errorRate}%`],
+                            ['p50', `${test.latency.p50} ms`],
+                            ['p95', `${test.latency.p95} ms`],
+                            ['p99', `${test.latency.p99} ms`],
+                            ['Iterations', `${test.iterations}${test.droppedIterations ? ` (${test.droppedIterations} dropped)` : ''}`]
+                        ].map(([label, value]) => `<div class="cs-load-stat"><strong>${value}</strong><span>${label}</span></div>`).join('')}
+                    </div>
+                    <div>
+                        ${test.thresholds.map((threshold: any) => `
+                            <span class="cs-load-threshold ${threshold.passed ? '' : 'failed'}" title="Actual ${threshold.actual}">${this.escapeHtml(threshold.expression)}</span>
+                        `).join('')}
+                    </div>
+                    <div class="cs-load-charts">
+                        ${await this.generateLoadTestCharts(test.intervals)}
+                    </div>
+                    <div class="cs-table-container">
+                        <table class="cs-table">
+                            <thead>
+                                <tr>
+                                    <th>Request</th>
+                                    <th>Count</th>
+                                    <th>Errors</th>
+                                    <th>Avg</th>
+                                    <th>p50</th>
+                                    <th>p95</th>
+                                    <th>p99</th>
+                                    <th>Max</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                ${test.endpoints.map((endpoint: any) => `
+                                    <tr>
+                                        <td><code>${this.escapeHtml(endpoint.name)}</code></td>
+                                        <td>${endpoint.requests}</td>
+                                        <td>${endpoint.errors}</td>
+                                        <td>${endpoint.latency.avg} ms</td>
+                                        <td>${endpoint.latency.p50} ms</td>
+                                        <td>${endpoint.latency.p95} ms</td>
+                                        <td>${endpoint.latency.p99} ms</td>
+                                        <td>${endpoint.latency.max} ms</td>
+                                    </tr>
+                                `).join('')}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            `);
+        }
+        
+        return `
+            <div class="cs-section-content">
+                <div class="cs-section-header">
+                    <h2 class="cs-section-title">Load Tests</h2>
+                    <p class="cs-section-subtitle">${passed} of ${loadTests.length} load tests met their thresholds</p>
+                </div>
+                ${cards.join('')}
+            </div>
+        `;
+    }
+
+    /**
+     * Latency and throughput over time of a load test
+     */
+    private async generateLoadTestCharts(intervals: any[]): Promise<string> {
+        if (!intervals || intervals.length < 2) return '';
+        
+        const chartGenerator = new ChartGenerator();
+        const step = Math.ceil(intervals.length / 10);
+        const labels = intervals.map((interval: any, index: number) => index % step === 0 ? `${interval.time}s` : '');
+        const charts = [
+            {
+                title: 'Response time (ms)',
+                datasets: [
+                    { label: 'p50', data: intervals.map((interval: any) => interval.p50), fill: false },
+                    { label: 'p95', data: intervals.map((interval: any) => interval.p95), fill: false }
+                ]
+            },
+            {
+                title: 'Throughput',
+                datasets: [
+                    { label: 'Requests/s', data: intervals.map((interval: any) => interval.throughput) },
+                    { label: 'Active users', data: intervals.map((interval: any) => interval.activeUsers), fill: false },
+                    { label: 'Errors', data: intervals.map((interval: any) => interval.errors), fill: false }
+                ]
+            }
+        ];
+        
+        const rendered: string[] = [];
+        for (const chart of charts) {
+            const values = chart.datasets.flatMap(dataset => dataset.data);
+            if (Math.max(...values) === Math.min(...values)) continue;
+            
+            const options = { title: chart.title, width: 560, height: 300 };
+            const lineChart: LineChart = { type: ChartType.LINE, title: chart.title, data: {}, options, labels, datasets: chart.datasets };
+            rendered.push(await chartGenerator.generateChart(ChartType.LINE, lineChart, options, this.theme));
+        }
+        return rendered.join('');
+    }
+
+    /**
+     * Generate performance budget history section
+     */
+    private generatePerformanceBudgetSection(budgets: any[]): string {
+        if (!budgets || budgets.length === 0) return '';
+        
+        const format = (value: number, unit: string): string =>
+            unit === 'ms' ? `${Math.round(value)} ms` :
+            unit === 'bytes' ? `${(value / 1024).toFixed(1)} KB` :
+            unit === 'requests' ? `${Math.round(value)}` :
+            value.toFixed(3);
+        
+        return `
+            <div class="cs-section-content">
+                <div class="cs-section-header">
+                    <h2 class="cs-section-title">Performance Budgets</h2>
+                    <p class="cs-section-subtitle">Run averages of budgeted metrics over the last ${Math.max(...budgets.map((item: any) => item.values.length))} runs</p>
+                </div>
+                
+                <div class="cs-table-container">
+                    <table class="cs-table">
+                        <thead>
+                            <tr>
+                                <th>Profile</th>
+                                <th>Metric</th>
+                                <th>Budget</th>
+                                <th>Latest</th>
+                                <th>History</th>
+                                <th>Breaches</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            ${budgets.map((item: any) => {
+                                const latest = item.values[item.values.length - 1]?.value ?? 0;
+                                return `
+                                    <tr>
+                                        <td>${this.escapeHtml(item.profile)}</td>
+                                        <td>${item.metric}</td>
+                                        <td>${format(item.budget, item.unit)}</td>
+                                        <td class="${latest > item.budget ? 'cs-budget-breach' : ''}">${format(latest, item.unit)}</td>
+                                        <td>${this.generateBudgetSparkline(item)}</td>
+                                        <td>${item.breaches} / ${item.values.length} runs</td>
+                                    </tr>
+                                `;
+                            }).join('')}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Inline sparkline of a budgeted metric with its budget as a dashed line
+     */
+    private generateBudgetSparkline(item: any): string {
+        const width = 120;
+        const height = 28;
+        const values: number[] = item.values.map((value: any) => value.value);
+        const max = Math.max(item.budget, ...values) || 1;
+        const y = (value: number): string => (height - 2 - (value / max) * (height - 4)).toFixed(1);
+        const x = (index: number): string => (values.length > 1 ? (index / (values.length - 1)) * width : width / 2).toFixed(1);
+        
+        return `
+            <svg class="cs-budget-sparkline" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+                <line x1="0" y1="${y(item.budget)}" x2="${width}" y2="${y(item.budget)}" class="cs-budget-line" />
+                <polyline points="${values.map((value, index) => `${x(index)},${y(value)}`).join(' ')}" class="cs-budget-values" />
+                ${values.map((value, index) => `<circle cx="${x(index)}" cy="${y(value)}" r="2" class="${value <= item.budget ? 'within' : 'breach'}" />`).join('')}
+            </svg>
+        `;
+    }
+
     /**
      * Generate metrics section
      */
@@ -3112,9 +3725,12 @@ a:hover {
      * Helper method to escape HTML
      */
     private escapeHtml(text: string): string {
-        const div = document.createElement('div');
-        div.textContent = text;
-        return div.innerHTML;
+        return String(text ?? '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
     }
 
     /**
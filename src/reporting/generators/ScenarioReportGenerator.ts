@@ -288,6 +288,13 @@ ${this.generateScenarioScripts()}`;
         </div>
         ` : ''}
         
+        ${scenario.traceId ? `
+        <div class="metadata-item">
+            <span class="metadata-label">Trace ID</span>
+            <span class="metadata-value trace-id" title="Scenario span ${scenario.spanId || ''}">${scenario.traceId}</span>
+        </div>
+        ` : ''}
+        
         <div class="metadata-item">
             <span class="metadata-label">Evidence</span>
             <span class="metadata-value">
@@ -521,6 +528,12 @@ ${this.generateScenarioScripts()}`;
                     AI
                 </span>
                 ` : ''}
+                
+                ${step.aiInterpretation ? `
+                <span class="step-ai-badge" title="Interpreted as ${step.aiInterpretation.action}${step.aiInterpretation.target ? ` on ${this.escapeHtml(step.aiInterpretation.target)}` : ''}, confidence: ${(step.aiInterpretation.confidence * 100).toFixed(1)}%">
+                    AI-interpreted ${(step.aiInterpretation.confidence * 100).toFixed(0)}%
+                </span>
+                ` : ''}
             </div>
         </div>
         
@@ -2299,6 +2312,12 @@ ${this.generateScenarioScripts()}`;
     font-weight: 600;
 }
 
+.metadata-value.trace-id {
+    font-family: 'Monaco', 'Consolas', monospace;
+    font-size: 12px;
+    word-break: break-all;
+}
+
 .tag-badge {
     display: inline-block;
     padding: 4px 8px;
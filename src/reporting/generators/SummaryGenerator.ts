@@ -1366,7 +1366,12 @@ export class SummaryGenerator {
   }
 
   private identifyFlakyTests(data: ExecutionSummary): any[] {
-    // Identify tests that have inconsistent results
+    // Prefer scenarios classified from run history
+    if (data.statistics?.flakyTests?.length) {
+      return data.statistics.flakyTests.map(test => ({ name: test.name, flakyRate: test.failureRate }));
+    }
+
+    // Otherwise identify tests that needed retries in this run
     const testResults = new Map<string, number>();
     
     data.scenarios.forEach((scenario: ScenarioSummary) => {
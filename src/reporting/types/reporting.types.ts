@@ -15,7 +15,7 @@
  * @version 2.0.0
  */
 
-import { ExecutionStatus } from '../../bdd/types/bdd.types';
+import { ExecutionStatus, ShardFingerprint } from '../../bdd/types/bdd.types';
 
 // ============================================================================
 // SUMMARY GENERATOR TYPES
@@ -118,6 +118,18 @@ export interface ReportMetadata {
   buildNumber?: string;
   branchName?: string;
   commitHash?: string;
+  /** Set when the run executed one shard of the suite */
+  shard?: {
+    current: number;
+    total: number;
+    /** Shard reports with different fingerprints do not cover the suite exactly once */
+    fingerprint?: ShardFingerprint;
+  };
+  /** Set on a report consolidated with the rerun of its failed scenarios */
+  rerun?: {
+    executionId: string;
+    scenarios: number;
+  };
 }
 
 /**
@@ -260,6 +272,39 @@ export interface ExecutionHistory {
   totalTests: number;
 }
 
+/**
+ * Persisted summary of a single run, stored one per line in the run history file
+ */
+export interface RunHistoryEntry {
+  executionId: string;
+  timestamp: string;
+  environment: string;
+  duration: number;
+  totalScenarios: number;
+  passedScenarios: number;
+  failedScenarios: number;
+  skippedScenarios: number;
+  passRate: number;
+  failureRate: number;
+  scenarios: ScenarioHistoryRecord[];
+  /** Average of each budgeted metric per budget profile */
+  performance?: Record<string, Record<string, number>>;
+}
+
+/**
+ * Per-scenario outcome recorded in the run history
+ */
+export interface ScenarioHistoryRecord {
+  /** Stable key across runs: feature uri (or name) + scenario name */
+  key: string;
+  feature: string;
+  scenario: string;
+  status: TestStatus;
+  duration: number;
+  retryCount: number;
+  error?: string;
+}
+
 // ============================================================================
 // FEATURE REPORTING
 // ============================================================================
@@ -327,6 +372,7 @@ export interface ScenarioSummary {
   // Extended properties for reporting
   description?: string;
   tags?: string[];
+  rule?: string;
   line?: number;
   keyword?: string;
   startTime?: Date;
@@ -373,6 +419,7 @@ export interface ScenarioReport {
   line: number;
   keyword: string;
   tags: string[];
+  rule?: string;
   steps: StepReport[];
   status: TestStatus;
   startTime: Date;
@@ -385,6 +432,9 @@ export interface ScenarioReport {
   error?: ErrorDetails;
   aiHealing?: AIHealingAttempt[];
   context: ScenarioContext;
+  /** OpenTelemetry trace and scenario span, when traces are exported */
+  traceId?: string;
+  spanId?: string;
   // Additional properties used in ScenarioReportGenerator
   networkLogs?: NetworkLog[];
   videos?: Array<{ name?: string; path: string }>;
@@ -475,6 +525,7 @@ export interface StepReport {
   docString?: DocString;
   actions: ActionLog[];
   aiIdentification?: AIElementIdentification;
+  aiInterpretation?: AIStepInterpretation;
   subSteps?: SubStep[];
 }
 
@@ -583,6 +634,22 @@ export interface Screenshot {
   annotations?: Annotation[];
 }
 
+/**
+ * Visual snapshot comparison of a baseline and the actual image
+ */
+export interface VisualDiff {
+  snapshotName: string;
+  status: 'passed' | 'failed' | 'created' | 'updated';
+  baselinePath: string;
+  actualPath: string;
+  diffPath?: string;
+  diffPercentage?: number;
+  diffPixels?: number;
+  totalPixels?: number;
+  browser: string;
+  viewport: string;
+}
+
 /**
  * Screenshot type enumeration
  */
@@ -1390,6 +1457,17 @@ export interface AIElementIdentification {
   alternatives: AIAlternative[];
 }
 
+/**
+ * Step without a definition that was interpreted by the NLP fallback
+ */
+export interface AIStepInterpretation {
+  action: string;
+  target?: string;
+  value?: string;
+  confidence: number;
+  suggestedStep?: string;
+}
+
 /**
  * AI alternative suggestion
  */
@@ -2789,10 +2867,214 @@ export interface ReportData {
   evidence: EvidenceCollection;
   metrics: ReportMetrics;
   aggregatedData?: AggregatedData;
+  accessibility?: AccessibilityReport;
+  contractCoverage?: ContractCoverageReport;
+  loadTests?: LoadTestResult[];
+  performanceBudgets?: PerformanceBudgetHistory[];
+  visualSnapshots?: VisualDiff[];
   environment?: string;
   tags?: string[];
 }
 
+/**
+ * Impact of an accessibility violation, from least to most severe
+ */
+export type AccessibilityImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+/**
+ * Element failing a WCAG rule
+ */
+export interface AccessibilityViolation {
+  ruleId: string;
+  description: string;
+  impact: AccessibilityImpact;
+  /** WCAG success criteria, e.g. 1.4.3 */
+  wcag: string[];
+  level: 'A' | 'AA';
+  selector: string;
+  html: string;
+  message: string;
+  /** Element screenshot */
+  screenshot?: string;
+}
+
+/**
+ * Accessibility audit of one page
+ */
+export interface AccessibilityAudit {
+  url: string;
+  title: string;
+  timestamp: Date;
+  scenarioId?: string;
+  /** Selector the audit was limited to */
+  scope?: string;
+  rules: string[];
+  violations: AccessibilityViolation[];
+}
+
+/**
+ * Accessibility audits of a run
+ */
+export interface AccessibilityReport {
+  audits: AccessibilityAudit[];
+  totalViolations: number;
+  violationsByImpact: Record<AccessibilityImpact, number>;
+}
+
+/**
+ * Operation of an OpenAPI spec and the status codes the run exercised
+ */
+export interface ContractOperationCoverage {
+  method: string;
+  path: string;
+  operationId?: string;
+  documentedStatuses: string[];
+  /** Documented statuses (200, 2XX, default) a response resolved to */
+  coveredStatuses: string[];
+  /** Status code to number of responses */
+  exercisedStatuses: Record<string, number>;
+  /** Exercised status codes the spec does not document */
+  undocumentedStatuses: string[];
+  violations: number;
+}
+
+/**
+ * Coverage of one OpenAPI spec
+ */
+export interface ContractSpecCoverage {
+  spec: string;
+  title: string;
+  version: string;
+  operations: ContractOperationCoverage[];
+  coveredOperations: number;
+  totalOperations: number;
+  /** Exercised documented statuses / all documented statuses, in percent */
+  statusCoverage: number;
+  /** Requests whose path matched no operation */
+  unmatchedRequests: string[];
+}
+
+/**
+ * OpenAPI contract coverage of a run
+ */
+export interface ContractCoverageReport {
+  specs: ContractSpecCoverage[];
+  totalViolations: number;
+}
+
+/**
+ * Response time distribution in milliseconds
+ */
+export interface LoadLatencyStats {
+  avg: number;
+  min: number;
+  max: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+}
+
+/**
+ * Load test measurements of one time interval
+ */
+export interface LoadTestInterval {
+  /** Seconds since the start of the test */
+  time: number;
+  requests: number;
+  errors: number;
+  throughput: number;
+  p50: number;
+  p95: number;
+  activeUsers: number;
+}
+
+export interface LoadEndpointStats {
+  name: string;
+  requests: number;
+  errors: number;
+  latency: LoadLatencyStats;
+}
+
+export interface LoadThresholdResult {
+  expression: string;
+  actual: number;
+  passed: boolean;
+}
+
+/**
+ * Outcome of a scenario run in load mode
+ */
+export interface LoadTestResult {
+  scenario: string;
+  model: 'closed' | 'arrival-rate';
+  users: number;
+  /** Configured duration and ramp-up in seconds */
+  duration: number;
+  rampUp: number;
+  arrivalRate?: number;
+  startTime: Date;
+  endTime: Date;
+  iterations: number;
+  /** Arrival-rate iterations not started because all users were busy */
+  droppedIterations: number;
+  requests: number;
+  errors: number;
+  /** Percentage of failed requests */
+  errorRate: number;
+  /** Requests per second */
+  throughput: number;
+  latency: LoadLatencyStats;
+  endpoints: LoadEndpointStats[];
+  intervals: LoadTestInterval[];
+  thresholds: LoadThresholdResult[];
+  passed: boolean;
+}
+
+/**
+ * Whether a budget breach fails the scenario or only logs a warning
+ */
+export type PerformanceBudgetSeverity = 'error' | 'warn';
+
+/**
+ * One metric measured against its budget
+ */
+export interface PerformanceBudgetResult {
+  metric: string;
+  value: number;
+  budget: number;
+  unit: string;
+  passed: boolean;
+}
+
+/**
+ * Page measurement checked against a budget profile
+ */
+export interface PerformanceBudgetCheck {
+  profile: string;
+  url: string;
+  timestamp: Date;
+  severity: PerformanceBudgetSeverity;
+  throttling?: string;
+  scenarioId?: string;
+  results: PerformanceBudgetResult[];
+  passed: boolean;
+}
+
+/**
+ * Run-over-run values of a budgeted metric
+ */
+export interface PerformanceBudgetHistory {
+  profile: string;
+  metric: string;
+  budget: number;
+  unit: string;
+  /** Run averages, oldest first */
+  values: Array<{ executionId: string; timestamp: string; value: number }>;
+  /** Runs whose average exceeded the budget */
+  breaches: number;
+}
+
 // ============================================================================
 // NETWORK COLLECTOR TYPES
 // ============================================================================
@@ -0,0 +1,94 @@
+// src/steps/api/APIContractSteps.ts
+
+import { CSBDDStepDef } from '../../bdd/decorators/CSBDDStepDef';
+import { CSBDDBaseStepDefinition } from '../../bdd/base/CSBDDBaseStepDefinition';
+import { APIContext } from '../../api/context/APIContext';
+import { ContractValidator } from '../../api/contract/ContractValidator';
+import { Response } from '../../api/types/api.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+
+/**
+ * Step definitions for OpenAPI contract testing
+ * Validates responses against the operations of the API's OpenAPI spec
+ */
+export class APIContractSteps extends CSBDDBaseStepDefinition {
+    private contractValidator: ContractValidator;
+
+    constructor() {
+        super();
+        this.contractValidator = ContractValidator.getInstance();
+    }
+
+    /**
+     * Sets the OpenAPI spec of the current API context
+     * Example: Given user loads API contract "petstore.yaml"
+     */
+    @CSBDDStepDef("user loads API contract {string}")
+    async loadContract(spec: string): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('loadContract', { spec });
+
+        try {
+            const context = this.getAPIContext();
+            const contract = await this.contractValidator.getContract(spec);
+            context.setContract(spec);
+
+            await actionLogger.logAction('contractLoaded', {
+                spec,
+                title: contract.title,
+                version: contract.version,
+                operations: contract.operations.length
+            });
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'Failed to load API contract' });
+            throw new Error(`Failed to load API contract '${spec}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Validates the last response against the API contract
+     * Example: Then the response should conform to the API contract
+     */
+    @CSBDDStepDef("the response should conform to the API contract")
+    async validateContract(): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('validateContract', {});
+
+        try {
+            const spec = this.getAPIContext().getContract();
+            if (!spec) {
+                throw new Error('No API contract set. Please use "Given user loads API contract <spec>" or set API_CONTRACT_SPEC');
+            }
+
+            const response = this.retrieve<Response>('lastAPIResponse');
+            if (!response) {
+                throw new Error('No API response found. Please execute a request first');
+            }
+
+            const result = await this.contractValidator.validate(spec, response);
+            if (!result.valid) {
+                throw new Error(this.contractValidator.formatErrors(result));
+            }
+
+            await actionLogger.logAction('contractValidated', {
+                spec,
+                operation: result.operation,
+                status: result.matchedResponse
+            });
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'API contract validation failed' });
+            throw error;
+        }
+    }
+
+    /**
+     * Helper method to get current API context
+     */
+    private getAPIContext(): APIContext {
+        const context = this.retrieve<APIContext>('currentAPIContext');
+        if (!context) {
+            throw new Error('No API context set. Please use "Given user is working with <api> API" first');
+        }
+        return context;
+    }
+}
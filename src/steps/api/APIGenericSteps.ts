@@ -48,6 +48,14 @@ export class APIGenericSteps extends CSBDDBaseStepDefinition {
                 this.currentContext.setTimeout(apiConfig.timeout || 30000);
             }
             
+            // OpenAPI spec responses are validated against
+            const contract = apiConfig?.contract ||
+                ConfigurationManager.get(`API_${apiName.toUpperCase()}_CONTRACT`) ||
+                ConfigurationManager.get('API_CONTRACT_SPEC');
+            if (contract) {
+                this.currentContext.setContract(contract);
+            }
+            
             // Store in BDD context for other steps
             this.store('currentAPIContext', this.currentContext);
             this.store('currentAPIName', apiName);
@@ -55,7 +63,8 @@ export class APIGenericSteps extends CSBDDBaseStepDefinition {
             await actionLogger.logAction('contextSet', { 
                 apiName, 
                 baseUrl: this.currentContext.getBaseUrl(),
-                timeout: this.currentContext.getTimeout()
+                timeout: this.currentContext.getTimeout(),
+                contract: this.currentContext.getContract()
             });
         } catch (error) {
             await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'Failed to set API context' });
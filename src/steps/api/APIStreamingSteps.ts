@@ -0,0 +1,471 @@
+// src/steps/api/APIStreamingSteps.ts
+
+import { CSBDDStepDef } from '../../bdd/decorators/CSBDDStepDef';
+import { CSBDDBaseStepDefinition } from '../../bdd/base/CSBDDBaseStepDefinition';
+import { APIContext } from '../../api/context/APIContext';
+import { CSWebSocketClient } from '../../api/streaming/CSWebSocketClient';
+import { CSSSEClient } from '../../api/streaming/CSSSEClient';
+import { StreamConnectionManager } from '../../api/streaming/StreamConnectionManager';
+import { StreamConnectOptions, StreamMessage, StreamMessageMatcher } from '../../api/types/api.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+
+/**
+ * Step definitions for WebSocket and server-sent event APIs
+ * Relative URLs, headers and authentication come from the current API context
+ */
+export class APIStreamingSteps extends CSBDDBaseStepDefinition {
+    private connectionManager: StreamConnectionManager;
+
+    constructor() {
+        super();
+        this.connectionManager = StreamConnectionManager.getInstance();
+    }
+
+    /**
+     * Connects to a WebSocket
+     * Example: Given user connects to WebSocket "/ws/notifications"
+     */
+    @CSBDDStepDef("user connects to WebSocket {string}")
+    async connectWebSocket(url: string): Promise<void> {
+        await this.openWebSocket('default', url);
+    }
+
+    /**
+     * Connects to a WebSocket under a name, for scenarios with several connections
+     * Example: Given user connects to WebSocket "wss://chat.example.com/room/1" as "alice"
+     */
+    @CSBDDStepDef("user connects to WebSocket {string} as {string}")
+    async connectNamedWebSocket(url: string, name: string): Promise<void> {
+        await this.openWebSocket(name, url);
+    }
+
+    /**
+     * Connects to a WebSocket with additional handshake headers
+     * Example: Given user connects to WebSocket "/ws" with headers:
+     *   | X-Client-Id | tests |
+     */
+    @CSBDDStepDef("user connects to WebSocket {string} with headers:")
+    async connectWebSocketWithHeaders(url: string, dataTable: any): Promise<void> {
+        await this.openWebSocket('default', url, this.interpolateRecord(dataTable.rowsHash()));
+    }
+
+    /**
+     * Makes another named WebSocket the target of the WebSocket steps
+     * Example: When user switches to WebSocket "bob"
+     */
+    @CSBDDStepDef("user switches to WebSocket {string}")
+    async switchWebSocket(name: string): Promise<void> {
+        this.connectionManager.getWebSocket(name);
+        this.store('currentWebSocket', name);
+        await ActionLogger.getInstance().logAction('webSocketSwitched', { name });
+    }
+
+    /**
+     * Sends a text frame
+     * Example: When user sends WebSocket text "ping"
+     */
+    @CSBDDStepDef("user sends WebSocket text {string}")
+    async sendText(text: string): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('sendWebSocketText', { text });
+
+        try {
+            await this.getWebSocket().sendText(this.interpolateValue(text));
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'Failed to send WebSocket text' });
+            throw error;
+        }
+    }
+
+    /**
+     * Sends a JSON text frame
+     * Example: When user sends WebSocket JSON:
+     *   """
+     *   { "type": "subscribe", "channel": "orders" }
+     *   """
+     */
+    @CSBDDStepDef("user sends WebSocket JSON:")
+    async sendJSON(docString: string): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('sendWebSocketJSON', {});
+
+        try {
+            const json = this.interpolateValue(docString);
+            try {
+                JSON.parse(json);
+            } catch (error) {
+                throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+            }
+            await this.getWebSocket().sendJSON(json);
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'Failed to send WebSocket JSON' });
+            throw error;
+        }
+    }
+
+    /**
+     * Sends a binary frame given as base64
+     * Example: When user sends WebSocket binary "AAECAw=="
+     */
+    @CSBDDStepDef("user sends WebSocket binary {string}")
+    async sendBinary(base64: string): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('sendWebSocketBinary', { size: base64.length });
+
+        try {
+            await this.getWebSocket().sendBinary(Buffer.from(base64, 'base64'));
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'Failed to send WebSocket binary' });
+            throw error;
+        }
+    }
+
+    /**
+     * Waits for the next message containing text
+     * Example: Then user waits for WebSocket message containing "pong"
+     */
+    @CSBDDStepDef("user waits for WebSocket message containing {string}")
+    async waitForMessageContaining(text: string): Promise<void> {
+        await this.waitForWebSocketMessage({ contains: this.interpolateValue(text) });
+    }
+
+    /**
+     * Waits for the next message with a JSON path
+     * Example: Then user waits for WebSocket message with JSON path "$.orderId"
+     */
+    @CSBDDStepDef("user waits for WebSocket message with JSON path {string}")
+    async waitForMessageWithPath(jsonPath: string): Promise<void> {
+        await this.waitForWebSocketMessage({ jsonPath });
+    }
+
+    /**
+     * Waits for the next message whose JSON path has a value
+     * Example: Then user waits for WebSocket message with JSON path "$.type" equal to "order.created"
+     */
+    @CSBDDStepDef("user waits for WebSocket message with JSON path {string} equal to {string}")
+    async waitForMessageWithValue(jsonPath: string, value: string): Promise<void> {
+        await this.waitForWebSocketMessage({ jsonPath, value: this.interpolateValue(value) });
+    }
+
+    /**
+     * Waits with an explicit timeout for the next message whose JSON path has a value
+     * Example: Then user waits up to 30 seconds for WebSocket message with JSON path "$.status" equal to "done"
+     */
+    @CSBDDStepDef("user waits up to {int} seconds for WebSocket message with JSON path {string} equal to {string}")
+    async waitForMessageWithValueWithin(seconds: number, jsonPath: string, value: string): Promise<void> {
+        await this.waitForWebSocketMessage({ jsonPath, value: this.interpolateValue(value) }, seconds * 1000);
+    }
+
+    /**
+     * Asserts the number of messages received
+     * Example: Then WebSocket should have received 3 messages
+     */
+    @CSBDDStepDef("WebSocket should have received {int} messages")
+    assertMessageCount(count: number): void {
+        this.assertCount(this.getWebSocket().conversation.getMessages('received'), count, 'WebSocket messages', false);
+    }
+
+    /**
+     * Asserts a minimum number of messages received
+     * Example: Then WebSocket should have received at least 3 messages
+     */
+    @CSBDDStepDef("WebSocket should have received at least {int} messages")
+    assertMinMessageCount(count: number): void {
+        this.assertCount(this.getWebSocket().conversation.getMessages('received'), count, 'WebSocket messages', true);
+    }
+
+    /**
+     * Asserts that messages were received in order, other messages may come in between
+     * Example: Then WebSocket messages should be received in order:
+     *   | jsonPath | value        |
+     *   | $.type   | order.created |
+     *   | $.type   | order.paid    |
+     */
+    @CSBDDStepDef("WebSocket messages should be received in order:")
+    async assertMessageOrder(dataTable: any): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('assertWebSocketMessageOrder', {});
+
+        this.getWebSocket().conversation.assertOrder(this.parseMatchers(dataTable));
+        await actionLogger.logAction('webSocketMessageOrderValid', {});
+    }
+
+    /**
+     * Closes the WebSocket
+     * Example: When user closes WebSocket
+     */
+    @CSBDDStepDef("user closes WebSocket")
+    async closeWebSocket(): Promise<void> {
+        const name = this.retrieve<string>('currentWebSocket', 'default');
+        await this.connectionManager.closeWebSocket(name);
+        await ActionLogger.getInstance().logAction('webSocketClosed', { name });
+    }
+
+    /**
+     * Subscribes to a server-sent event stream
+     * Example: Given user subscribes to server-sent events "/events/orders"
+     */
+    @CSBDDStepDef("user subscribes to server-sent events {string}")
+    async subscribe(url: string): Promise<void> {
+        await this.openEventSource('default', url);
+    }
+
+    /**
+     * Subscribes to a server-sent event stream under a name
+     * Example: Given user subscribes to server-sent events "/events/prices" as "prices"
+     */
+    @CSBDDStepDef("user subscribes to server-sent events {string} as {string}")
+    async subscribeNamed(url: string, name: string): Promise<void> {
+        await this.openEventSource(name, url);
+    }
+
+    /**
+     * Makes another named event stream the target of the server-sent event steps
+     * Example: When user switches to server-sent events "prices"
+     */
+    @CSBDDStepDef("user switches to server-sent events {string}")
+    async switchEventSource(name: string): Promise<void> {
+        this.connectionManager.getEventSource(name);
+        this.store('currentEventSource', name);
+        await ActionLogger.getInstance().logAction('eventSourceSwitched', { name });
+    }
+
+    /**
+     * Waits for the next event of a type
+     * Example: Then user waits for server-sent event "order.created"
+     */
+    @CSBDDStepDef("user waits for server-sent event {string}")
+    async waitForEvent(event: string): Promise<void> {
+        await this.waitForServerSentEvent({ event });
+    }
+
+    /**
+     * Waits with an explicit timeout for the next event of a type
+     * Example: Then user waits up to 30 seconds for server-sent event "report.ready"
+     */
+    @CSBDDStepDef("user waits up to {int} seconds for server-sent event {string}")
+    async waitForEventWithin(seconds: number, event: string): Promise<void> {
+        await this.waitForServerSentEvent({ event }, seconds * 1000);
+    }
+
+    /**
+     * Waits for the next event of a type whose JSON path has a value
+     * Example: Then user waits for server-sent event "order.updated" with JSON path "$.status" equal to "shipped"
+     */
+    @CSBDDStepDef("user waits for server-sent event {string} with JSON path {string} equal to {string}")
+    async waitForEventWithValue(event: string, jsonPath: string, value: string): Promise<void> {
+        await this.waitForServerSentEvent({ event, jsonPath, value: this.interpolateValue(value) });
+    }
+
+    /**
+     * Asserts the number of events received
+     * Example: Then user should have received 2 server-sent events
+     */
+    @CSBDDStepDef("user should have received {int} server-sent events")
+    assertEventCount(count: number): void {
+        this.assertCount(this.getEventSource().conversation.getMessages('received'), count, 'server-sent events', false);
+    }
+
+    /**
+     * Asserts that events were received in order, other events may come in between
+     * Example: Then server-sent events should be received in order:
+     *   | event         |
+     *   | order.created |
+     *   | order.shipped |
+     */
+    @CSBDDStepDef("server-sent events should be received in order:")
+    async assertEventOrder(dataTable: any): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('assertServerSentEventOrder', {});
+
+        this.getEventSource().conversation.assertOrder(this.parseMatchers(dataTable));
+        await actionLogger.logAction('serverSentEventOrderValid', {});
+    }
+
+    /**
+     * Closes the event stream
+     * Example: When user unsubscribes from server-sent events
+     */
+    @CSBDDStepDef("user unsubscribes from server-sent events")
+    async unsubscribe(): Promise<void> {
+        const name = this.retrieve<string>('currentEventSource', 'default');
+        this.connectionManager.closeEventSource(name);
+        await ActionLogger.getInstance().logAction('eventSourceClosed', { name });
+    }
+
+    /**
+     * Helper methods
+     */
+
+    private async openWebSocket(name: string, url: string, headers: Record<string, string> = {}): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('connectWebSocket', { name, url });
+
+        try {
+            const fullUrl = this.resolveUrl(url).replace(/^http(s?):/, 'ws$1:');
+            if (!/^wss?:\/\//.test(fullUrl)) {
+                throw new Error(`Not a WebSocket URL: ${fullUrl}`);
+            }
+
+            const client = new CSWebSocketClient(fullUrl, this.getConnectOptions(headers));
+            await client.connect();
+            await this.connectionManager.addWebSocket(name, client);
+            this.store('currentWebSocket', name);
+
+            await actionLogger.logAction('webSocketConnected', { name, url: fullUrl });
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'Failed to connect WebSocket' });
+            throw new Error(`Failed to connect to WebSocket '${url}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private async openEventSource(name: string, url: string): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('subscribeServerSentEvents', { name, url });
+
+        try {
+            const fullUrl = this.resolveUrl(url);
+            const client = new CSSSEClient(fullUrl, this.getConnectOptions({}));
+            await client.connect();
+            await this.connectionManager.addEventSource(name, client);
+            this.store('currentEventSource', name);
+
+            await actionLogger.logAction('serverSentEventsSubscribed', { name, url: fullUrl });
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'Failed to subscribe to server-sent events' });
+            throw new Error(`Failed to subscribe to server-sent events '${url}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private async waitForWebSocketMessage(matcher: StreamMessageMatcher, timeout?: number): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('waitForWebSocketMessage', { ...matcher, timeout });
+
+        try {
+            const message = await this.getWebSocket().waitForMessage(matcher, timeout);
+            this.storeMessage(message);
+            await actionLogger.logAction('webSocketMessageReceived', { index: message.index, data: message.data.substring(0, 500) });
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'WebSocket message wait failed' });
+            throw error;
+        }
+    }
+
+    private async waitForServerSentEvent(matcher: StreamMessageMatcher, timeout?: number): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('waitForServerSentEvent', { ...matcher, timeout });
+
+        try {
+            const message = await this.getEventSource().waitForEvent(matcher, timeout);
+            this.storeMessage(message);
+            await actionLogger.logAction('serverSentEventReceived', { event: message.event, id: message.id, data: message.data.substring(0, 500) });
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'Server-sent event wait failed' });
+            throw error;
+        }
+    }
+
+    /**
+     * The matched message is available to later steps as {{lastStreamMessage}}
+     */
+    private storeMessage(message: StreamMessage): void {
+        this.store('lastStreamMessage', message.data);
+        if (message.json !== undefined) {
+            this.store('lastStreamMessageJson', message.json);
+        }
+    }
+
+    private assertCount(messages: StreamMessage[], count: number, what: string, atLeast: boolean): void {
+        if (atLeast ? messages.length < count : messages.length !== count) {
+            throw new Error(`Expected ${atLeast ? 'at least ' : ''}${count} ${what}, but received ${messages.length}`);
+        }
+    }
+
+    /**
+     * Matchers of a table with the columns event, contains, jsonPath and value
+     */
+    private parseMatchers(dataTable: any): StreamMessageMatcher[] {
+        const matchers: StreamMessageMatcher[] = [];
+        for (const row of dataTable.hashes() as Record<string, string>[]) {
+            const matcher: StreamMessageMatcher = {};
+            if (row['event']) matcher.event = row['event'];
+            if (row['contains']) matcher.contains = this.interpolateValue(row['contains']);
+            if (row['jsonPath']) matcher.jsonPath = row['jsonPath'];
+            if (row['value'] !== undefined && row['value'] !== '') matcher.value = this.interpolateValue(row['value']);
+            matchers.push(matcher);
+        }
+        if (matchers.length === 0) {
+            throw new Error('Expected at least one row with event, contains, jsonPath or value');
+        }
+        return matchers;
+    }
+
+    private getConnectOptions(headers: Record<string, string>): StreamConnectOptions {
+        const options: StreamConnectOptions = {
+            headers,
+            scenarioId: this.scenarioContext.getScenarioId()
+        };
+
+        const context = this.retrieve<APIContext>('currentAPIContext');
+        if (context) {
+            options.headers = { ...context.getHeaders(), ...headers };
+            options.validateSSL = context.getCurrentState().validateSSL;
+            const auth = context.getAuth();
+            if (auth) {
+                options.auth = auth;
+            }
+        }
+        return options;
+    }
+
+    /**
+     * Relative URLs are resolved against the base URL of the current API context
+     */
+    private resolveUrl(url: string): string {
+        const interpolated = this.interpolateValue(url);
+        if (/^[a-z][a-z0-9+.-]*:\/\//i.test(interpolated)) {
+            return interpolated;
+        }
+
+        const context = this.retrieve<APIContext>('currentAPIContext');
+        if (!context?.getBaseUrl()) {
+            throw new Error(`Relative URL '${interpolated}' needs an API context with a base URL. Please use "Given user is working with <api> API" first`);
+        }
+        const baseUrl = context.getBaseUrl();
+        return `${baseUrl.replace(/\/$/, '')}/${interpolated.replace(/^\//, '')}`;
+    }
+
+    private getWebSocket(): CSWebSocketClient {
+        return this.connectionManager.getWebSocket(this.retrieve<string>('currentWebSocket', 'default'));
+    }
+
+    private getEventSource(): CSSSEClient {
+        return this.connectionManager.getEventSource(this.retrieve<string>('currentEventSource', 'default'));
+    }
+
+    private interpolateValue(value: string): string {
+        if (!value.includes('{{')) {
+            return value;
+        }
+
+        let interpolated = value;
+        const regex = /{{([^}]+)}}/g;
+        let match;
+        while ((match = regex.exec(value)) !== null) {
+            const varName = match[1];
+            if (varName) {
+                const varValue = this.retrieve(varName) || '';
+                interpolated = interpolated.replace(match[0], String(varValue));
+            }
+        }
+        return interpolated;
+    }
+
+    private interpolateRecord(record: Record<string, string>): Record<string, string> {
+        const result: Record<string, string> = {};
+        for (const [key, value] of Object.entries(record)) {
+            result[key] = this.interpolateValue(value);
+        }
+        return result;
+    }
+}
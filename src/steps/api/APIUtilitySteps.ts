@@ -8,6 +8,7 @@ import { FileUtils } from '../../core/utils/FileUtils';
 import { DateUtils } from '../../core/utils/DateUtils';
 import { StringUtils } from '../../core/utils/StringUtils';
 import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import { FakeDataGenerator } from '../../data/generators/FakeDataGenerator';
 import * as path from 'path';
 
 /**
@@ -380,6 +381,7 @@ export class APIUtilitySteps extends CSBDDBaseStepDefinition {
     /**
      * Generates a random value and stores as variable
      * Example: Given user generates random "uuid" as "requestId"
+     * Example: Given user generates random "person.firstName" as "firstName"
      */
     @CSBDDStepDef("user generates random {string} as {string}")
     async generateRandomValue(type: string, variableName: string): Promise<void> {
@@ -427,8 +429,15 @@ export class APIUtilitySteps extends CSBDDBaseStepDefinition {
                     value = Math.random() < 0.5;
                     break;
                     
-                default:
-                    throw new Error(`Unknown random type: ${type}. Supported types: uuid, number, string, email, timestamp, date, datetime, boolean`);
+                default: {
+                    // Fake data generator path, e.g. "person.firstName" or "number.int(1, 10)"
+                    const fakeData = FakeDataGenerator.getInstance();
+                    const expression = type.replace(/^fake\./, '');
+                    if (!fakeData.has(expression.replace(/\(.*\)$/s, '').trim())) {
+                        throw new Error(`Unknown random type: ${type}. Supported types: uuid, number, string, email, timestamp, date, datetime, boolean, or a fake data path such as person.firstName`);
+                    }
+                    value = fakeData.evaluate(expression);
+                }
             }
             
             // Store as variable
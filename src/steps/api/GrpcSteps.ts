@@ -0,0 +1,333 @@
+// src/steps/api/GrpcSteps.ts
+
+import { CSBDDStepDef } from '../../bdd/decorators/CSBDDStepDef';
+import { CSBDDBaseStepDefinition } from '../../bdd/base/CSBDDBaseStepDefinition';
+import { APIContext } from '../../api/context/APIContext';
+import { CSGrpcClient } from '../../api/grpc/CSGrpcClient';
+import { GrpcClientManager } from '../../api/grpc/GrpcClientManager';
+import { JSONPathValidator } from '../../api/validators/JSONPathValidator';
+import { CertificateConfig, GrpcCallOptions, GrpcClientOptions, GrpcResponse } from '../../api/types/api.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+
+/**
+ * Step definitions for gRPC services
+ * Messages are JSON, authentication of the current API context is applied to the call metadata
+ */
+export class GrpcSteps extends CSBDDBaseStepDefinition {
+    private clientManager: GrpcClientManager;
+
+    constructor() {
+        super();
+        this.clientManager = GrpcClientManager.getInstance();
+    }
+
+    /**
+     * Connects to a gRPC server with service definitions from .proto files (comma separated)
+     * Example: Given user connects to gRPC server "grpc://localhost:50051" using proto "orders.proto"
+     */
+    @CSBDDStepDef("user connects to gRPC server {string} using proto {string}")
+    async connectWithProto(address: string, protoFiles: string): Promise<void> {
+        const files = protoFiles.split(',').map(file => file.trim()).filter(Boolean);
+        await this.connect(address, files);
+    }
+
+    /**
+     * Connects to a gRPC server with service definitions from server reflection
+     * Example: Given user connects to gRPC server "grpcs://orders.example.com:443" using reflection
+     */
+    @CSBDDStepDef("user connects to gRPC server {string} using reflection")
+    async connectWithReflection(address: string): Promise<void> {
+        await this.connect(address, []);
+    }
+
+    /**
+     * Sets the client certificate for mutual TLS, applies to the next connect
+     * Example: Given user sets gRPC client certificate:
+     *   | cert | certs/client.crt |
+     *   | key  | certs/client.key |
+     *   | ca   | certs/ca.crt     |
+     */
+    @CSBDDStepDef("user sets gRPC client certificate:")
+    async setClientCertificate(dataTable: any): Promise<void> {
+        const rows: Record<string, string> = dataTable.rowsHash();
+        const certificate: CertificateConfig = {};
+        if (rows['cert']) certificate.cert = rows['cert'];
+        if (rows['key']) certificate.key = rows['key'];
+        if (rows['ca']) certificate.ca = rows['ca'];
+        if (rows['passphrase']) certificate.passphrase = this.interpolateValue(rows['passphrase']);
+
+        this.store('grpcCertificate', certificate);
+        await ActionLogger.getInstance().logAction('grpcCertificateSet', { cert: rows['cert'], ca: rows['ca'] });
+    }
+
+    /**
+     * Sets a metadata entry sent with the following calls
+     * Example: Given user sets gRPC metadata "x-tenant-id" to "acme"
+     */
+    @CSBDDStepDef("user sets gRPC metadata {string} to {string}")
+    async setMetadata(key: string, value: string): Promise<void> {
+        const metadata = this.retrieve<Record<string, string>>('grpcMetadata', {});
+        metadata[key.toLowerCase()] = this.interpolateValue(value);
+        this.store('grpcMetadata', metadata);
+        await ActionLogger.getInstance().logAction('grpcMetadataSet', { key });
+    }
+
+    /**
+     * Sets the deadline of the following calls
+     * Example: Given user sets gRPC deadline to 5 seconds
+     */
+    @CSBDDStepDef("user sets gRPC deadline to {int} seconds")
+    async setDeadline(seconds: number): Promise<void> {
+        this.store('grpcTimeout', seconds * 1000);
+        await ActionLogger.getInstance().logAction('grpcDeadlineSet', { seconds });
+    }
+
+    /**
+     * Calls a method with an empty request message
+     * Example: When user calls gRPC method "shop.OrderService/ListOrders"
+     */
+    @CSBDDStepDef("user calls gRPC method {string}")
+    async callMethod(method: string): Promise<void> {
+        await this.invoke(method, [{}]);
+    }
+
+    /**
+     * Calls a method with a JSON request, a JSON array is sent as a stream of messages
+     * Example: When user calls gRPC method "OrderService/GetOrder" with:
+     *   """
+     *   { "id": "{{orderId}}" }
+     *   """
+     */
+    @CSBDDStepDef("user calls gRPC method {string} with:")
+    async callMethodWith(method: string, docString: string): Promise<void> {
+        let body: any;
+        try {
+            body = JSON.parse(this.interpolateValue(docString));
+        } catch (error) {
+            throw new Error(`Invalid JSON request for gRPC method '${method}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+        await this.invoke(method, Array.isArray(body) ? body : [body]);
+    }
+
+    /**
+     * Validates the status of the last call by name or number
+     * Example: Then the gRPC status should be "NOT_FOUND"
+     */
+    @CSBDDStepDef("the gRPC status should be {string}")
+    async validateStatus(expected: string): Promise<void> {
+        const response = this.getLastResponse();
+        const matches = /^\d+$/.test(expected)
+            ? response.status === parseInt(expected, 10)
+            : response.statusName === expected.toUpperCase();
+
+        if (!matches) {
+            throw new Error(`Expected gRPC status ${expected} but was ${response.statusName} (${response.status})${response.details ? `: ${response.details}` : ''}`);
+        }
+        await ActionLogger.getInstance().logAction('grpcStatusValidated', { expected });
+    }
+
+    /**
+     * Validates that the last call completed with status OK
+     * Example: Then the gRPC call should succeed
+     */
+    @CSBDDStepDef("the gRPC call should succeed")
+    async validateSuccess(): Promise<void> {
+        await this.validateStatus('OK');
+    }
+
+    /**
+     * Validates the status details (error message) of the last call
+     * Example: Then the gRPC status details should contain "order not found"
+     */
+    @CSBDDStepDef("the gRPC status details should contain {string}")
+    async validateStatusDetails(expected: string): Promise<void> {
+        const response = this.getLastResponse();
+        if (!response.details.includes(expected)) {
+            throw new Error(`Expected gRPC status details to contain '${expected}' but were '${response.details}'`);
+        }
+        await ActionLogger.getInstance().logAction('grpcStatusDetailsValidated', { expected });
+    }
+
+    /**
+     * Validates a value of the response, the response of a streaming method is the array of messages
+     * Example: Then the gRPC response should have JSON path "$.order.status" with value "PAID"
+     */
+    @CSBDDStepDef("the gRPC response should have JSON path {string} with value {string}")
+    async validateJSONPath(jsonPath: string, expected: string): Promise<void> {
+        this.assertJSONPath(this.getResponseBody(this.getLastResponse()), jsonPath, this.interpolateValue(expected), 'gRPC response');
+        await ActionLogger.getInstance().logAction('grpcJSONPathValidated', { jsonPath, expected });
+    }
+
+    /**
+     * Validates that a JSON path exists in the response
+     * Example: Then the gRPC response should have JSON path "$.order.id"
+     */
+    @CSBDDStepDef("the gRPC response should have JSON path {string}")
+    async validateJSONPathExists(jsonPath: string): Promise<void> {
+        if (!JSONPathValidator.getInstance().pathExists(this.getResponseBody(this.getLastResponse()), jsonPath)) {
+            throw new Error(`Expected JSON path ${jsonPath} to exist in the gRPC response`);
+        }
+        await ActionLogger.getInstance().logAction('grpcJSONPathExists', { jsonPath });
+    }
+
+    /**
+     * Validates a value of one message of a streamed response, counting from 1
+     * Example: Then gRPC response message 2 should have JSON path "$.status" with value "SHIPPED"
+     */
+    @CSBDDStepDef("gRPC response message {int} should have JSON path {string} with value {string}")
+    async validateMessageJSONPath(index: number, jsonPath: string, expected: string): Promise<void> {
+        const response = this.getLastResponse();
+        const message = response.messages[index - 1];
+        if (message === undefined) {
+            throw new Error(`gRPC response has no message ${index}, it has ${response.messages.length}`);
+        }
+        this.assertJSONPath(message, jsonPath, this.interpolateValue(expected), `gRPC response message ${index}`);
+        await ActionLogger.getInstance().logAction('grpcMessageJSONPathValidated', { index, jsonPath, expected });
+    }
+
+    /**
+     * Validates the number of response messages
+     * Example: Then the gRPC response should contain 3 messages
+     */
+    @CSBDDStepDef("the gRPC response should contain {int} messages")
+    async validateMessageCount(count: number): Promise<void> {
+        const response = this.getLastResponse();
+        if (response.messages.length !== count) {
+            throw new Error(`Expected ${count} gRPC response messages but received ${response.messages.length}`);
+        }
+        await ActionLogger.getInstance().logAction('grpcMessageCountValidated', { count });
+    }
+
+    /**
+     * Validates a response header or trailer
+     * Example: Then the gRPC response metadata "x-request-id" should be "abc"
+     */
+    @CSBDDStepDef("the gRPC response metadata {string} should be {string}")
+    async validateMetadata(key: string, expected: string): Promise<void> {
+        const response = this.getLastResponse();
+        const name = key.toLowerCase();
+        const actual = response.metadata[name] ?? response.trailers[name];
+
+        if (actual !== expected) {
+            throw new Error(`Expected gRPC response metadata ${key} to be ${expected} but was ${actual ?? 'absent'}`);
+        }
+        await ActionLogger.getInstance().logAction('grpcMetadataValidated', { key, expected });
+    }
+
+    /**
+     * Saves a value of the response for later steps
+     * Example: When user saves gRPC response JSON path "$.order.id" as "orderId"
+     */
+    @CSBDDStepDef("user saves gRPC response JSON path {string} as {string}")
+    async saveJSONPath(jsonPath: string, variableName: string): Promise<void> {
+        const value = JSONPathValidator.getInstance().extractValue(this.getResponseBody(this.getLastResponse()), jsonPath);
+        if (value === undefined) {
+            throw new Error(`JSON path ${jsonPath} not found in the gRPC response`);
+        }
+        this.store(variableName, value);
+        await ActionLogger.getInstance().logAction('grpcValueSaved', { jsonPath, variableName });
+    }
+
+    /**
+     * Helper methods
+     */
+
+    private async connect(address: string, protoFiles: string[]): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        const interpolated = this.interpolateValue(address);
+        await actionLogger.logAction('connectGrpc', { address: interpolated, protoFiles });
+
+        try {
+            const options: GrpcClientOptions = {};
+            const certificate = this.retrieve<CertificateConfig>('grpcCertificate') || this.getContextCertificate();
+            if (certificate) {
+                options.certificate = certificate;
+            }
+
+            const client = await CSGrpcClient.connect(interpolated, protoFiles, options);
+            this.clientManager.add('default', client);
+
+            await actionLogger.logAction('grpcConnected', { target: client.target, methods: client.listMethods() });
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'Failed to connect gRPC client' });
+            throw new Error(`Failed to connect to gRPC server '${interpolated}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private async invoke(method: string, messages: any[]): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('callGrpcMethod', { method, messages: messages.length });
+
+        try {
+            const options: GrpcCallOptions = { metadata: this.retrieve<Record<string, string>>('grpcMetadata', {}) };
+            const timeout = this.retrieve<number>('grpcTimeout');
+            if (timeout) {
+                options.timeout = timeout;
+            }
+            const auth = this.retrieve<APIContext>('currentAPIContext')?.getAuth();
+            if (auth) {
+                options.auth = auth;
+            }
+
+            const response = await this.clientManager.get('default').invoke(method, messages, options);
+            this.store('lastGrpcResponse', response);
+
+            await actionLogger.logAction('grpcResponse', {
+                method: response.method,
+                status: response.statusName,
+                details: response.details,
+                messages: response.messages.length,
+                duration: response.duration
+            });
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'gRPC call failed' });
+            throw new Error(`Failed to call gRPC method '${method}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Client certificate of certificate authentication on the current API context
+     */
+    private getContextCertificate(): CertificateConfig | undefined {
+        const auth = this.retrieve<APIContext>('currentAPIContext')?.getAuth();
+        return auth?.type === 'certificate' ? auth.credentials as CertificateConfig : undefined;
+    }
+
+    private getLastResponse(): GrpcResponse {
+        const response = this.retrieve<GrpcResponse>('lastGrpcResponse');
+        if (!response) {
+            throw new Error('No gRPC response available. Please call a gRPC method first');
+        }
+        return response;
+    }
+
+    private getResponseBody(response: GrpcResponse): any {
+        return response.type === 'unary' || response.type === 'client-streaming' ? response.messages[0] : response.messages;
+    }
+
+    private assertJSONPath(data: any, jsonPath: string, expected: string, subject: string): void {
+        const actual = JSONPathValidator.getInstance().extractValue(data, jsonPath);
+        const actualText = typeof actual === 'string' ? actual : JSON.stringify(actual);
+        if (actualText !== expected) {
+            throw new Error(`Expected ${jsonPath} of the ${subject} to be ${expected} but was ${actualText}`);
+        }
+    }
+
+    private interpolateValue(value: string): string {
+        if (!value.includes('{{')) {
+            return value;
+        }
+
+        let interpolated = value;
+        const regex = /{{([^}]+)}}/g;
+        let match;
+        while ((match = regex.exec(value)) !== null) {
+            const varName = match[1];
+            if (varName) {
+                const varValue = this.retrieve(varName) || '';
+                interpolated = interpolated.replace(match[0], String(varValue));
+            }
+        }
+        return interpolated;
+    }
+}
@@ -0,0 +1,147 @@
+// src/steps/api/GrpcStubServerSteps.ts
+
+import { CSBDDStepDef } from '../../bdd/decorators/CSBDDStepDef';
+import { CSBDDBaseStepDefinition } from '../../bdd/base/CSBDDBaseStepDefinition';
+import { GrpcStubServer } from '../../api/grpc/GrpcStubServer';
+import { GrpcStubServerManager } from '../../api/grpc/GrpcStubServerManager';
+import { JSONPathValidator } from '../../api/validators/JSONPathValidator';
+import { GrpcStubRequest, GrpcStubResponse } from '../../api/types/api.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+
+/**
+ * Step definitions for the gRPC stub server
+ * Serves the services of .proto files in-process, for gRPC clients under test and for the gRPC steps
+ */
+export class GrpcStubServerSteps extends CSBDDBaseStepDefinition {
+    private grpcStubServerManager: GrpcStubServerManager;
+
+    constructor() {
+        super();
+        this.grpcStubServerManager = GrpcStubServerManager.getInstance();
+    }
+
+    /**
+     * Starts a gRPC stub server on a free port for the scenario, its address is {{grpcStub.<name>.address}}
+     * Example: Given user starts gRPC stub server "greeter" using proto "greeter.proto"
+     */
+    @CSBDDStepDef("user starts gRPC stub server {string} using proto {string}")
+    async startGrpcStubServer(name: string, protoFiles: string): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        const files = protoFiles.split(',').map(file => file.trim()).filter(Boolean);
+        await actionLogger.logAction('startGrpcStubServer', { name, protoFiles: files });
+
+        try {
+            const server = await this.grpcStubServerManager.start(name, files);
+            this.store('currentGrpcStubServer', server.name);
+            this.store(`grpcStub.${server.name}.address`, server.getAddress());
+
+            await actionLogger.logAction('grpcStubServerStarted', { name, address: server.getAddress() });
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'Failed to start gRPC stub server' });
+            throw new Error(`Failed to start gRPC stub server '${name}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Stubs the response of a method, a JSON array is a stream of response messages
+     * Example: Given user stubs gRPC method "greeter.Greeter/SayHello" with:
+     *   """
+     *   { "message": "Hello Ada" }
+     *   """
+     */
+    @CSBDDStepDef("user stubs gRPC method {string} with:")
+    async stubMethod(method: string, docString: string): Promise<void> {
+        let body: any;
+        try {
+            body = JSON.parse(docString);
+        } catch (error) {
+            throw new Error(`Invalid JSON response for gRPC method '${method}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+        await this.addStub(method, { messages: Array.isArray(body) ? body : [body] });
+    }
+
+    /**
+     * Stubs a method failing with a status
+     * Example: Given user stubs gRPC method "greeter.Greeter/SayHello" with status "NOT_FOUND" and details "unknown name"
+     */
+    @CSBDDStepDef("user stubs gRPC method {string} with status {string} and details {string}")
+    async stubMethodStatus(method: string, status: string, details: string): Promise<void> {
+        await this.addStub(method, { messages: [], status, details });
+    }
+
+    /**
+     * Validates the number of calls of a method
+     * Example: Then gRPC stub method "greeter.Greeter/SayHello" should have been called 1 times
+     */
+    @CSBDDStepDef("gRPC stub method {string} should have been called {int} times")
+    async validateCallCount(method: string, expected: number): Promise<void> {
+        const actual = this.getServer().getRequests(method).length;
+        if (actual !== expected) {
+            throw new Error(`Expected gRPC stub method '${method}' to be called ${expected} times but was called ${actual} times`);
+        }
+        await ActionLogger.getInstance().logAction('grpcStubCallCountValidated', { method, expected });
+    }
+
+    /**
+     * Validates a JSONPath value of the request messages of the last call, $[0] is the first message
+     * Example: Then the last call to gRPC stub method "greeter.Greeter/SayHello" should have JSON path "$[0].name" with value "Ada"
+     */
+    @CSBDDStepDef("the last call to gRPC stub method {string} should have JSON path {string} with value {string}")
+    async validateRequestJSONPath(method: string, jsonPath: string, expected: string): Promise<void> {
+        const request = this.getLastRequest(method);
+        const actual = JSONPathValidator.getInstance().extractValue(request.messages, jsonPath);
+        const actualText = typeof actual === 'string' ? actual : JSON.stringify(actual);
+
+        if (actualText !== expected) {
+            throw new Error(`Expected ${jsonPath} of the last call to gRPC stub method '${method}' to be ${expected} but was ${actualText}`);
+        }
+        await ActionLogger.getInstance().logAction('grpcStubRequestJSONPathValidated', { method, jsonPath, expected });
+    }
+
+    /**
+     * Validates a metadata entry of the last call
+     * Example: Then the last call to gRPC stub method "greeter.Greeter/SayHello" should have metadata "x-tenant-id" with value "acme"
+     */
+    @CSBDDStepDef("the last call to gRPC stub method {string} should have metadata {string} with value {string}")
+    async validateRequestMetadata(method: string, key: string, expected: string): Promise<void> {
+        const actual = this.getLastRequest(method).metadata[key.toLowerCase()];
+        if (actual !== expected) {
+            throw new Error(`Expected metadata ${key} of the last call to gRPC stub method '${method}' to be ${expected} but was ${actual ?? 'absent'}`);
+        }
+        await ActionLogger.getInstance().logAction('grpcStubRequestMetadataValidated', { method, key, expected });
+    }
+
+    /**
+     * Helper methods
+     */
+
+    private async addStub(method: string, response: GrpcStubResponse): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('addGrpcStub', { method, messages: response.messages.length, status: response.status });
+
+        try {
+            const name = this.getServer().stub(method, response);
+            await actionLogger.logAction('grpcStubAdded', { method: name });
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'Failed to add gRPC stub' });
+            throw new Error(`Failed to stub gRPC method '${method}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private getServer(): GrpcStubServer {
+        const name = this.retrieve<string>('currentGrpcStubServer');
+        if (!name) {
+            throw new Error('No gRPC stub server started. Please use "Given user starts gRPC stub server <name> using proto <file>" first');
+        }
+        return this.grpcStubServerManager.get(name);
+    }
+
+    private getLastRequest(method: string): GrpcStubRequest {
+        const requests = this.getServer().getRequests(method);
+        const request = requests[requests.length - 1];
+        if (!request) {
+            throw new Error(`gRPC stub method '${method}' was not called`);
+        }
+        return request;
+    }
+}
@@ -499,6 +499,11 @@ export class RequestExecutionSteps extends CSBDDBaseStepDefinition {
             requestOptions.proxy = proxy;
         }
         
+        const contract = context.getContract();
+        if (contract) {
+            requestOptions.contract = contract;
+        }
+        
         // Apply retry config
         const retryConfig = context.getCurrentState().retryConfig;
         if (retryConfig && retryConfig.enabled) {
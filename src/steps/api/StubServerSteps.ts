@@ -0,0 +1,395 @@
+// src/steps/api/StubServerSteps.ts
+
+import * as path from 'path';
+import { CSBDDStepDef } from '../../bdd/decorators/CSBDDStepDef';
+import { CSBDDBaseStepDefinition } from '../../bdd/base/CSBDDBaseStepDefinition';
+import { StubServer } from '../../api/stub/StubServer';
+import { StubServerManager } from '../../api/stub/StubServerManager';
+import { JSONPathValidator } from '../../api/validators/JSONPathValidator';
+import { HttpMethod, StubFault, StubMapping, StubRequest, StubServerScope } from '../../api/types/api.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import { FileUtils } from '../../core/utils/FileUtils';
+
+/**
+ * Step definitions for the HTTP stub server
+ * Virtualizes downstream services of the system under test and verifies the calls it made
+ */
+export class StubServerSteps extends CSBDDBaseStepDefinition {
+    private stubServerManager: StubServerManager;
+
+    constructor() {
+        super();
+        this.stubServerManager = StubServerManager.getInstance();
+    }
+
+    /**
+     * Starts a stub server on a free port for the scenario
+     * Example: Given user starts stub server "payments"
+     */
+    @CSBDDStepDef("user starts stub server {string}")
+    async startStubServer(name: string): Promise<void> {
+        await this.startServer(name, 'scenario');
+    }
+
+    /**
+     * Starts a stub server on a fixed port for the scenario
+     * Example: Given user starts stub server "payments" on port 8089
+     */
+    @CSBDDStepDef("user starts stub server {string} on port {int}")
+    async startStubServerOnPort(name: string, port: number): Promise<void> {
+        await this.startServer(name, 'scenario', port);
+    }
+
+    /**
+     * Starts a stub server kept until the feature ends, e.g. from a Background
+     * Example: Given user starts stub server "payments" for the feature
+     */
+    @CSBDDStepDef("user starts stub server {string} for the feature")
+    async startFeatureStubServer(name: string): Promise<void> {
+        await this.startServer(name, 'feature');
+    }
+
+    /**
+     * Stops a stub server
+     * Example: When user stops stub server "payments"
+     */
+    @CSBDDStepDef("user stops stub server {string}")
+    async stopStubServer(name: string): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('stopStubServer', { name });
+
+        await this.stubServerManager.stop(name);
+        await actionLogger.logAction('stubServerStopped', { name });
+    }
+
+    /**
+     * Makes another running stub server the target of the stub steps
+     * Example: Given user switches to stub server "inventory"
+     */
+    @CSBDDStepDef("user switches to stub server {string}")
+    async switchStubServer(name: string): Promise<void> {
+        const server = this.stubServerManager.get(name);
+        this.storeServer(server);
+        await ActionLogger.getInstance().logAction('stubServerSwitched', { name, url: server.getUrl() });
+    }
+
+    /**
+     * Registers the stubs of a JSON mapping file or directory
+     * Example: Given user loads stub mappings from "payments"
+     */
+    @CSBDDStepDef("user loads stub mappings from {string}")
+    async loadStubMappings(mappingPath: string): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('loadStubMappings', { mappingPath });
+
+        try {
+            const resolvedPath = await this.resolveMappingPath(mappingPath);
+            const stubs = await this.getServer().loadMappings(resolvedPath);
+
+            await actionLogger.logAction('stubMappingsLoaded', { mappingPath: resolvedPath, stubs });
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'Failed to load stub mappings' });
+            throw new Error(`Failed to load stub mappings from '${mappingPath}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Stubs an endpoint, an optional DocString is the response body
+     * Example: Given user stubs "GET" "/accounts/{id}" with status 200
+     *   """
+     *   { "id": "{{request.params.id}}", "balance": 100 }
+     *   """
+     */
+    @CSBDDStepDef("user stubs {string} {string} with status {int}")
+    async stubEndpoint(method: string, stubPath: string, status: number, body?: string): Promise<void> {
+        const mapping: StubMapping = {
+            name: `${method.toUpperCase()} ${stubPath}`,
+            request: { method: method.toUpperCase() as HttpMethod, path: stubPath },
+            response: { status }
+        };
+        if (typeof body === 'string') {
+            mapping.response.body = body;
+            mapping.response.templated = body.includes('{{');
+            if (/^\s*[{[]/.test(body)) {
+                mapping.response.headers = { 'content-type': 'application/json' };
+            }
+        }
+        await this.addStub(mapping);
+    }
+
+    /**
+     * Adds a named stub from a key/value DataTable
+     * Keys: method, path, pathPattern, query.<name>, header.<name>, jsonPath.<expression>,
+     * bodyContains, priority, status, body, bodyFile, responseHeader.<name>, templated,
+     * delay, fault, scenario, requiredState, newState
+     * Example: Given user adds stub "charge" with:
+     *   | method            | POST           |
+     *   | path              | /charges       |
+     *   | jsonPath.$.amount | 100            |
+     *   | status            | 201            |
+     *   | body              | {"id": "ch_1"} |
+     */
+    @CSBDDStepDef("user adds stub {string} with:")
+    async addStubFromTable(name: string, dataTable: any): Promise<void> {
+        const rows: Record<string, string> = dataTable.rowsHash ? dataTable.rowsHash() : dataTable;
+        await this.addStub(this.toMapping(name, rows));
+    }
+
+    /**
+     * Adds a named stub from a JSON mapping DocString
+     * Example: Given user adds stub "charge" from JSON:
+     *   """
+     *   { "request": { "method": "POST", "path": "/charges" }, "response": { "status": 201 } }
+     *   """
+     */
+    @CSBDDStepDef("user adds stub {string} from JSON:")
+    async addStubFromJSON(name: string, json: string): Promise<void> {
+        let mapping: StubMapping;
+        try {
+            mapping = JSON.parse(json);
+        } catch (error) {
+            throw new Error(`Invalid stub mapping JSON: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        await this.addStub({ ...mapping, name });
+    }
+
+    /**
+     * Removes all stubs, recorded requests and scenario states
+     * Example: Given user resets stub server
+     */
+    @CSBDDStepDef("user resets stub server")
+    async resetStubServer(): Promise<void> {
+        const server = this.getServer();
+        server.reset();
+        await ActionLogger.getInstance().logAction('stubServerReset', { name: server.name });
+    }
+
+    /**
+     * Moves a stub scenario to a state
+     * Example: Given stub scenario "order" is in state "Paid"
+     */
+    @CSBDDStepDef("stub scenario {string} is in state {string}")
+    async setStubScenarioState(scenario: string, state: string): Promise<void> {
+        this.getServer().setScenarioState(scenario, state);
+        await ActionLogger.getInstance().logAction('stubScenarioStateSet', { scenario, state });
+    }
+
+    /**
+     * Validates how often a stub was called
+     * Example: Then stub "charge" should have been called 1 times
+     */
+    @CSBDDStepDef("stub {string} should have been called {int} times")
+    async validateStubCallCount(name: string, expected: number): Promise<void> {
+        const actual = this.getStubRequests(name).length;
+        if (actual !== expected) {
+            throw new Error(`Expected stub '${name}' to be called ${expected} times but was called ${actual} times${this.describeUnmatched()}`);
+        }
+        await ActionLogger.getInstance().logAction('stubCallCountValidated', { name, expected });
+    }
+
+    /**
+     * Validates that a stub was not called
+     * Example: Then stub "refund" should not have been called
+     */
+    @CSBDDStepDef("stub {string} should not have been called")
+    async validateStubNotCalled(name: string): Promise<void> {
+        await this.validateStubCallCount(name, 0);
+    }
+
+    /**
+     * Validates a JSONPath value of the last request body a stub received
+     * Example: Then the last request to stub "charge" should have JSON path "$.amount" with value "100"
+     */
+    @CSBDDStepDef("the last request to stub {string} should have JSON path {string} with value {string}")
+    async validateStubRequestJSONPath(name: string, jsonPath: string, expected: string): Promise<void> {
+        const request = this.getLastRequest(name);
+        const actual = JSONPathValidator.getInstance().extractValue(request.body, jsonPath);
+        const actualText = typeof actual === 'string' ? actual : JSON.stringify(actual);
+
+        if (actualText !== expected) {
+            throw new Error(`Expected ${jsonPath} of the last request to stub '${name}' to be ${expected} but was ${actualText}`);
+        }
+        await ActionLogger.getInstance().logAction('stubRequestJSONPathValidated', { name, jsonPath, expected });
+    }
+
+    /**
+     * Validates a header of the last request a stub received
+     * Example: Then the last request to stub "charge" should have header "Idempotency-Key" with value "order-42"
+     */
+    @CSBDDStepDef("the last request to stub {string} should have header {string} with value {string}")
+    async validateStubRequestHeader(name: string, header: string, expected: string): Promise<void> {
+        const request = this.getLastRequest(name);
+        const actual = request.headers[header.toLowerCase()];
+
+        if (actual !== expected) {
+            throw new Error(`Expected header ${header} of the last request to stub '${name}' to be ${expected} but was ${actual ?? 'absent'}`);
+        }
+        await ActionLogger.getInstance().logAction('stubRequestHeaderValidated', { name, header, expected });
+    }
+
+    /**
+     * Validates the state of a stub scenario
+     * Example: Then stub scenario "order" should be in state "Shipped"
+     */
+    @CSBDDStepDef("stub scenario {string} should be in state {string}")
+    async validateStubScenarioState(scenario: string, expected: string): Promise<void> {
+        const actual = this.getServer().getScenarioState(scenario);
+        if (actual !== expected) {
+            throw new Error(`Expected stub scenario '${scenario}' to be in state '${expected}' but was '${actual}'`);
+        }
+        await ActionLogger.getInstance().logAction('stubScenarioStateValidated', { scenario, expected });
+    }
+
+    private async startServer(name: string, scope: StubServerScope, port?: number): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('startStubServer', { name, scope, port });
+
+        try {
+            const options: { port?: number; scope: StubServerScope } = { scope };
+            if (port !== undefined) {
+                options.port = port;
+            }
+            const server = await this.stubServerManager.start(name, options);
+            this.storeServer(server);
+
+            await actionLogger.logAction('stubServerStarted', { name, url: server.getUrl(), scope: server.scope });
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'Failed to start stub server' });
+            throw new Error(`Failed to start stub server '${name}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Make a server current, its URL is available as {{stub.<name>.url}}
+     * A feature server stays current in the following scenarios of the feature
+     */
+    private storeServer(server: StubServer): void {
+        this.store('currentStubServer', server.name);
+        this.store(`stub.${server.name}.url`, server.getUrl());
+        if (server.scope === 'feature') {
+            this.context.store('currentStubServer', server.name, 'feature');
+            this.context.store(`stub.${server.name}.url`, server.getUrl(), 'feature');
+        }
+    }
+
+    private async addStub(mapping: StubMapping): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('addStub', { name: mapping.name, request: mapping.request });
+
+        try {
+            const server = this.getServer();
+            const name = server.addStub(mapping);
+            await actionLogger.logAction('stubAdded', { name, server: server.name });
+        } catch (error) {
+            await actionLogger.logError(error instanceof Error ? error : new Error(String(error)), { context: 'Failed to add stub' });
+            throw new Error(`Failed to add stub '${mapping.name}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Build a mapping from DataTable rows
+     */
+    private toMapping(name: string, rows: Record<string, string>): StubMapping {
+        const mapping: StubMapping = { name, request: {}, response: {} };
+        const { request, response } = mapping;
+
+        for (const [key, value] of Object.entries(rows)) {
+            const [prefix, ...rest] = key.split('.');
+            const field = rest.join('.');
+
+            switch (prefix) {
+                case 'method': request.method = value.toUpperCase() as HttpMethod; break;
+                case 'path': request.path = value; break;
+                case 'pathPattern': request.pathPattern = value; break;
+                case 'query': request.query = { ...request.query, [field]: value }; break;
+                case 'header': request.headers = { ...request.headers, [field]: value }; break;
+                case 'jsonPath': request.bodyJsonPath = { ...request.bodyJsonPath, [field]: this.parseValue(value) }; break;
+                case 'bodyContains': request.bodyContains = value; break;
+                case 'priority': mapping.priority = Number(value); break;
+                case 'status': response.status = Number(value); break;
+                case 'body': response.body = value; break;
+                case 'bodyFile': response.bodyFile = value; break;
+                case 'responseHeader': response.headers = { ...response.headers, [field]: value }; break;
+                case 'templated': response.templated = value.toLowerCase() === 'true'; break;
+                case 'delay': response.delay = Number(value); break;
+                case 'fault': response.fault = value as StubFault; break;
+                case 'scenario': mapping.scenario = value; break;
+                case 'requiredState': mapping.requiredState = value; break;
+                case 'newState': mapping.newState = value; break;
+                default:
+                    throw new Error(`Unknown stub field '${key}'`);
+            }
+        }
+
+        if (typeof response.body === 'string') {
+            if (response.templated === undefined && response.body.includes('{{')) {
+                response.templated = true;
+            }
+            if (/^\s*[{[]/.test(response.body) && !Object.keys(response.headers || {}).some(h => h.toLowerCase() === 'content-type')) {
+                response.headers = { ...response.headers, 'content-type': 'application/json' };
+            }
+        }
+        return mapping;
+    }
+
+    /**
+     * DataTable values are JSON when they parse, strings otherwise
+     */
+    private parseValue(value: string): any {
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value;
+        }
+    }
+
+    private getServer(): StubServer {
+        const name = this.retrieve<string>('currentStubServer');
+        if (!name) {
+            throw new Error('No stub server started. Please use "Given user starts stub server <name>" first');
+        }
+        return this.stubServerManager.get(name);
+    }
+
+    private getStubRequests(name: string): StubRequest[] {
+        const server = this.getServer();
+        if (!server.getStubNames().includes(name)) {
+            throw new Error(`Stub '${name}' is not registered on stub server '${server.name}' (stubs: ${server.getStubNames().join(', ') || 'none'})`);
+        }
+        return server.getRequests(name);
+    }
+
+    private getLastRequest(name: string): StubRequest {
+        const requests = this.getStubRequests(name);
+        const request = requests[requests.length - 1];
+        if (!request) {
+            throw new Error(`Stub '${name}' has not been called${this.describeUnmatched()}`);
+        }
+        return request;
+    }
+
+    private describeUnmatched(): string {
+        const unmatched = this.getServer().getUnmatchedRequests();
+        return unmatched.length > 0
+            ? `. Unmatched requests: ${unmatched.map(request => `${request.method} ${request.path}`).join(', ')}`
+            : '';
+    }
+
+    /**
+     * Resolve a mapping path against STUB_MAPPINGS_PATH, then the working directory
+     */
+    private async resolveMappingPath(mappingPath: string): Promise<string> {
+        if (path.isAbsolute(mappingPath)) {
+            return mappingPath;
+        }
+        const stubPath = path.join(ConfigurationManager.get('STUB_MAPPINGS_PATH', './test-data/stubs'), mappingPath);
+        if (await FileUtils.exists(stubPath)) {
+            return stubPath;
+        }
+        if (await FileUtils.exists(`${stubPath}.json`)) {
+            return `${stubPath}.json`;
+        }
+        return mappingPath;
+    }
+}
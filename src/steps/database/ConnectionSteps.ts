@@ -268,6 +268,8 @@ export class ConnectionSteps extends CSBDDBaseStepDefinition {
             return this.parseOracleConnectionString(connectionString);
         } else if (connectionString.startsWith('redis://')) {
             return this.parseRedisConnectionString(connectionString);
+        } else if (connectionString.startsWith('sqlite:') || /\.(db|sqlite3?)$/i.test(connectionString)) {
+            return this.parseSqliteConnectionString(connectionString);
         }
 
         throw new Error(`Unsupported connection string format: ${connectionString}`);
@@ -403,6 +405,20 @@ export class ConnectionSteps extends CSBDDBaseStepDefinition {
         };
     }
 
+    /**
+     * Parse SQLite connection string (sqlite://path/to/file.db, sqlite::memory: or a plain file path)
+     */
+    private parseSqliteConnectionString(connectionString: string): DatabaseConfig {
+        return {
+            type: 'sqlite',
+            host: '',
+            port: 0,
+            database: connectionString.replace(/^sqlite:(\/\/)?/, '') || ':memory:',
+            poolSize: 1,
+            options: {}
+        };
+    }
+
     /**
      * Build database config from data table
      */
@@ -423,7 +439,7 @@ export class ConnectionSteps extends CSBDDBaseStepDefinition {
             ssl: options['ssl'] === 'true' || options['use_ssl'] === 'true',
             connectionTimeout: parseInt(options['timeout'] || options['connection_timeout'] || '30000'),
             queryTimeout: parseInt(options['query_timeout'] || '60000'),
-            poolSize: parseInt(options['pool_size'] || '10'),
+            poolSize: parseInt(options['pool_size'] || (type === 'sqlite' ? '1' : '10')),
             options: {}
         };
 
@@ -450,7 +466,7 @@ export class ConnectionSteps extends CSBDDBaseStepDefinition {
      * Validate database type
      */
     private validateDatabaseType(type: string): DatabaseType {
-        const validTypes: DatabaseType[] = ['sqlserver', 'mysql', 'postgresql', 'oracle', 'mongodb', 'redis'];
+        const validTypes: DatabaseType[] = ['sqlserver', 'mysql', 'postgresql', 'oracle', 'mongodb', 'redis', 'sqlite'];
         const normalizedType = type.toLowerCase().replace(/\s+/g, '') as DatabaseType;
         
         if (!validTypes.includes(normalizedType)) {
@@ -470,7 +486,8 @@ export class ConnectionSteps extends CSBDDBaseStepDefinition {
             'postgresql': '5432',
             'oracle': '1521',
             'mongodb': '27017',
-            'redis': '6379'
+            'redis': '6379',
+            'sqlite': '0'
         };
         
         return defaultPorts[type] || '0';
@@ -526,7 +543,8 @@ export class ConnectionSteps extends CSBDDBaseStepDefinition {
             'postgresql': 'SELECT 1 AS test',
             'oracle': 'SELECT 1 AS test FROM DUAL',
             'mongodb': '{ "ping": 1 }',
-            'redis': 'PING'
+            'redis': 'PING',
+            'sqlite': 'SELECT 1 AS test'
         };
         
         return testQueries[type] || 'SELECT 1';
@@ -332,6 +332,17 @@ export class DatabaseGenericSteps extends CSBDDBaseStepDefinition {
         // Check for predefined database configs
         const type = ConfigurationManager.get(`${envPrefix}TYPE`) || 
                     ConfigurationManager.get('DB_TYPE', 'sqlserver');
+
+        // File-based SQLite needs neither server nor credentials
+        if (type.toLowerCase() === 'sqlite') {
+            return {
+                type: 'sqlite',
+                host: '',
+                port: 0,
+                database: ConfigurationManager.getRequired(`${envPrefix}DATABASE`),
+                poolSize: 1
+            };
+        }
         
         const config: DatabaseConfig = {
             type: type as any,
@@ -363,9 +374,10 @@ export class DatabaseGenericSteps extends CSBDDBaseStepDefinition {
             'postgresql': 5432,
             'oracle': 1521,
             'mongodb': 27017,
-            'redis': 6379
+            'redis': 6379,
+            'sqlite': 0
         };
-        return ports[type.toLowerCase()] || 1433;
+        return ports[type.toLowerCase()] ?? 1433;
     }
 
     private getCurrentDatabase(): CSDatabase {
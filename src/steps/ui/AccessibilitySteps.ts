@@ -0,0 +1,120 @@
+// src/steps/ui/AccessibilitySteps.ts
+import { CSBDDStepDef } from '../../bdd/decorators/CSBDDStepDef';
+import { CSBDDBaseStepDefinition } from '../../bdd/base/CSBDDBaseStepDefinition';
+import { AccessibilityAuditor } from '../../core/accessibility/AccessibilityAuditor';
+import { AccessibilityAuditOptions } from '../../core/accessibility/types/accessibility.types';
+import { AccessibilityAudit, AccessibilityImpact, AccessibilityViolation } from '../../reporting/types/reporting.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+
+export class AccessibilitySteps extends CSBDDBaseStepDefinition {
+    private auditor: AccessibilityAuditor;
+
+    constructor() {
+        super();
+        this.auditor = AccessibilityAuditor.getInstance();
+    }
+
+    @CSBDDStepDef('the page should have no accessibility violations')
+    @CSBDDStepDef('I verify the page has no accessibility violations')
+    async assertNoViolations(): Promise<void> {
+        ActionLogger.logInfo('Assert no accessibility violations', { type: 'accessibility_step' });
+
+        const audit = await this.auditor.audit(this.page, this.getAuditOptions());
+        this.verifyViolations(audit, audit.violations);
+    }
+
+    @CSBDDStepDef('the page should have no accessibility violations of impact {string}')
+    @CSBDDStepDef('I verify the page has no accessibility violations of impact {string}')
+    async assertNoViolationsOfImpact(impact: string): Promise<void> {
+        ActionLogger.logInfo('Assert no accessibility violations of impact', { impact, type: 'accessibility_step' });
+
+        const audit = await this.auditor.audit(this.page, this.getAuditOptions());
+        this.verifyViolations(audit, this.auditor.filterByImpact(audit.violations, impact.toLowerCase() as AccessibilityImpact));
+    }
+
+    @CSBDDStepDef('{string} should have no accessibility violations')
+    @CSBDDStepDef('I verify {string} has no accessibility violations')
+    async assertNoViolationsIn(selector: string): Promise<void> {
+        ActionLogger.logInfo('Assert no accessibility violations in element', { selector, type: 'accessibility_step' });
+
+        const audit = await this.auditor.audit(this.page, { ...this.getAuditOptions(), scope: selector });
+        this.verifyViolations(audit, audit.violations);
+    }
+
+    @CSBDDStepDef('I run an accessibility audit')
+    @CSBDDStepDef('user runs accessibility audit')
+    async runAudit(): Promise<void> {
+        const audit = await this.auditor.audit(this.page, this.getAuditOptions());
+        this.context.store('lastAccessibilityAudit', audit, 'scenario');
+
+        ActionLogger.logInfo('Accessibility audit recorded', {
+            url: audit.url,
+            violations: audit.violations.length,
+            type: 'accessibility_success'
+        });
+    }
+
+    @CSBDDStepDef('I include accessibility rules {string}')
+    @CSBDDStepDef('user includes accessibility rules {string}')
+    async includeRules(rules: string): Promise<void> {
+        const include = this.parseRules(rules);
+        this.auditor.getRules({ include });
+        this.context.store('accessibilityInclude', include, 'scenario');
+
+        ActionLogger.logInfo('Accessibility rules included', { rules: include, type: 'accessibility_success' });
+    }
+
+    @CSBDDStepDef('I exclude accessibility rules {string}')
+    @CSBDDStepDef('user excludes accessibility rules {string}')
+    async excludeRules(rules: string): Promise<void> {
+        const exclude = [...(this.context.retrieve<string[]>('accessibilityExclude') || []), ...this.parseRules(rules)];
+        this.auditor.getRules({ exclude });
+        this.context.store('accessibilityExclude', exclude, 'scenario');
+
+        ActionLogger.logInfo('Accessibility rules excluded', { rules: exclude, type: 'accessibility_success' });
+    }
+
+    private getAuditOptions(): AccessibilityAuditOptions {
+        const options: AccessibilityAuditOptions = {};
+
+        const include = this.context.retrieve<string[]>('accessibilityInclude');
+        if (include && include.length > 0) {
+            options.include = include;
+        }
+        const exclude = this.context.retrieve<string[]>('accessibilityExclude');
+        if (exclude && exclude.length > 0) {
+            options.exclude = exclude;
+        }
+
+        try {
+            options.scenarioId = this.scenarioContext.getScenarioId();
+        } catch {
+            // Audit run outside a scenario
+        }
+
+        return options;
+    }
+
+    private verifyViolations(audit: AccessibilityAudit, violations: AccessibilityViolation[]): void {
+        if (violations.length > 0) {
+            const details = violations
+                .slice(0, 10)
+                .map(v => `  [${v.impact}] ${v.ruleId} (WCAG ${v.wcag.join(', ')}): ${v.message}\n    ${v.selector}`)
+                .join('\n');
+            const more = violations.length > 10 ? `\n  ... and ${violations.length - 10} more` : '';
+
+            ActionLogger.logError('Accessibility violations found', new Error(`${violations.length} violations on ${audit.url}`));
+            throw new Error(`${violations.length} accessibility violation(s) on ${audit.url}:\n${details}${more}`);
+        }
+
+        ActionLogger.logInfo('No accessibility violations', {
+            url: audit.url,
+            rules: audit.rules.length,
+            type: 'accessibility_success'
+        });
+    }
+
+    private parseRules(rules: string): string[] {
+        return rules.split(',').map(rule => rule.trim()).filter(rule => rule.length > 0);
+    }
+}
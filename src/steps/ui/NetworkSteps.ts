@@ -7,7 +7,7 @@ import { ResponseModifier } from '../../core/network/ResponseModifier';
 import { HARRecorder } from '../../core/network/HARRecorder';
 import { ActionLogger } from '../../core/logging/ActionLogger';
 import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
-import { MockResponse, URLPattern } from '../../core/network/types/network.types';
+import { MockResponse, URLPattern, HARMatchField, HARReplayOptions, HARUnmatchedPolicy } from '../../core/network/types/network.types';
 import { DataTable } from '../../bdd/types/bdd.types';
 
 export class NetworkSteps extends CSBDDBaseStepDefinition {
@@ -300,6 +300,82 @@ export class NetworkSteps extends CSBDDBaseStepDefinition {
         }
     }
 
+    @CSBDDStepDef('user replays network from {string}')
+    @CSBDDStepDef('I replay HAR {string}')
+    async replayNetworkFromHAR(fileName: string): Promise<void> {
+        await this.startHARReplay(fileName, this.getHARReplayOptions());
+    }
+
+    @CSBDDStepDef('user replays network from {string} for {string}')
+    @CSBDDStepDef('I replay HAR {string} for {string}')
+    async replayNetworkFromHARForUrl(fileName: string, urlFilter: string): Promise<void> {
+        await this.startHARReplay(fileName, {
+            ...this.getHARReplayOptions(),
+            urlFilter: this.resolveEndpoint(urlFilter)
+        });
+    }
+
+    @CSBDDStepDef('user replays network from {string} with options:')
+    @CSBDDStepDef('I replay HAR {string} with options:')
+    async replayNetworkFromHARWithOptions(fileName: string, dataTable: DataTable): Promise<void> {
+        const settings = dataTable.rowsHash();
+        const options = this.getHARReplayOptions();
+
+        if (settings['urlFilter']) {
+            options.urlFilter = settings['urlFilter'].split(',').map(filter => this.resolveEndpoint(filter.trim()));
+        }
+        if (settings['matchOn']) {
+            options.matchOn = this.parseHARMatchFields(settings['matchOn']);
+        }
+        if (settings['ignoreQueryParams']) {
+            options.ignoreQueryParams = settings['ignoreQueryParams'].split(',').map(param => param.trim());
+        }
+        if (settings['unmatched']) {
+            options.unmatched = this.parseHARUnmatchedPolicy(settings['unmatched']);
+        }
+        if (settings['sequential']) {
+            options.sequential = settings['sequential'].toLowerCase() === 'true';
+        }
+
+        await this.startHARReplay(fileName, options);
+    }
+
+    @CSBDDStepDef('user stops replaying network')
+    @CSBDDStepDef('I stop HAR replay')
+    async stopHARReplay(): Promise<void> {
+        ActionLogger.logInfo('Stop HAR replay', { type: 'network_step' });
+        
+        try {
+            await this.getNetworkInterceptor().stopHARReplay();
+            
+            ActionLogger.logInfo('HAR replay stopped', {
+                stats: this.getNetworkInterceptor().getHARReplayStats(),
+                type: 'network_success'
+            });
+        } catch (error) {
+            ActionLogger.logError('Stop HAR replay failed', error as Error);
+            throw new Error(`Failed to stop HAR replay: ${(error as Error).message}`);
+        }
+    }
+
+    @CSBDDStepDef('all requests should be served from the recorded network')
+    @CSBDDStepDef('there should be no unmatched HAR requests')
+    async verifyNoUnmatchedHARRequests(): Promise<void> {
+        ActionLogger.logInfo('Verify HAR replay coverage', { type: 'network_step' });
+        
+        const stats = this.getNetworkInterceptor().getHARReplayStats();
+        if (!stats) {
+            throw new Error('No HAR replay has been started');
+        }
+        
+        if (stats.unmatched.length > 0) {
+            const requests = stats.unmatched.map(request => `${request.method} ${request.url}`).join('\n  ');
+            throw new Error(`${stats.unmatched.length} request(s) had no recorded response:\n  ${requests}`);
+        }
+        
+        ActionLogger.logInfo('All requests served from HAR', { served: stats.served, type: 'network_success' });
+    }
+
     @CSBDDStepDef('user analyzes network performance')
     @CSBDDStepDef('I analyze HAR performance')
     async analyzeNetworkPerformance(): Promise<void> {
@@ -416,6 +492,59 @@ export class NetworkSteps extends CSBDDBaseStepDefinition {
         }
     }
 
+    private async startHARReplay(fileName: string, options: HARReplayOptions): Promise<void> {
+        ActionLogger.logInfo('Replay network from HAR', { fileName, type: 'network_step' });
+        
+        try {
+            const harPath = this.resolveReplayHARPath(fileName);
+            await this.getNetworkInterceptor().replayFromHAR(harPath, options);
+            
+            ActionLogger.logInfo('HAR replay started', { path: harPath, type: 'network_success' });
+        } catch (error) {
+            ActionLogger.logError('HAR replay failed', error as Error);
+            throw new Error(`Failed to replay network from "${fileName}": ${(error as Error).message}`);
+        }
+    }
+
+    private getHARReplayOptions(): HARReplayOptions {
+        const options: HARReplayOptions = {
+            matchOn: this.parseHARMatchFields(ConfigurationManager.get('HAR_REPLAY_MATCH_ON', 'method,url,query')),
+            unmatched: this.parseHARUnmatchedPolicy(ConfigurationManager.get('HAR_REPLAY_UNMATCHED', 'abort')),
+            sequential: ConfigurationManager.getBoolean('HAR_REPLAY_SEQUENTIAL', true)
+        };
+        
+        const ignoreQueryParams = ConfigurationManager.getArray('HAR_REPLAY_IGNORE_QUERY_PARAMS');
+        if (ignoreQueryParams.length > 0) {
+            options.ignoreQueryParams = ignoreQueryParams;
+        }
+        
+        return options;
+    }
+
+    private parseHARMatchFields(value: string): HARMatchField[] {
+        const validFields: HARMatchField[] = ['method', 'url', 'query', 'body'];
+        const fields = value.split(',').map(field => field.trim().toLowerCase()).filter(field => field);
+        
+        for (const field of fields) {
+            if (!validFields.includes(field as HARMatchField)) {
+                throw new Error(`Invalid HAR match field "${field}". Valid fields: ${validFields.join(', ')}`);
+            }
+        }
+        
+        return fields as HARMatchField[];
+    }
+
+    private parseHARUnmatchedPolicy(value: string): HARUnmatchedPolicy {
+        const validPolicies: HARUnmatchedPolicy[] = ['abort', 'continue', 'notFound'];
+        const policy = validPolicies.find(candidate => candidate.toLowerCase() === value.trim().toLowerCase());
+        
+        if (!policy) {
+            throw new Error(`Invalid HAR unmatched policy "${value}". Valid policies: ${validPolicies.join(', ')}`);
+        }
+        
+        return policy;
+    }
+
     private resolveEndpoint(endpoint: string): string {
         if (endpoint.startsWith('http://') || endpoint.startsWith('https://')) {
             return endpoint;
@@ -468,6 +597,18 @@ export class NetworkSteps extends CSBDDBaseStepDefinition {
         return path.resolve(harDir, fileName);
     }
 
+    private resolveReplayHARPath(fileName: string): string {
+        const path = require('path');
+        const fs = require('fs');
+        
+        // Accept paths relative to the project before falling back to the HAR directory
+        if (path.isAbsolute(fileName) || fs.existsSync(path.resolve(fileName))) {
+            return path.resolve(fileName);
+        }
+        
+        return this.resolveHARPath(fileName);
+    }
+
     private parseValue(value: string): any {
         // Try to parse as JSON
         try {
@@ -0,0 +1,72 @@
+// src/steps/ui/PerformanceSteps.ts
+import { CSBDDStepDef } from '../../bdd/decorators/CSBDDStepDef';
+import { CSBDDBaseStepDefinition } from '../../bdd/base/CSBDDBaseStepDefinition';
+import { PerformanceBudgetManager } from '../../core/performance/PerformanceBudgetManager';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+
+export class PerformanceSteps extends CSBDDBaseStepDefinition {
+    private budgetManager: PerformanceBudgetManager;
+
+    constructor() {
+        super();
+        this.budgetManager = PerformanceBudgetManager.getInstance();
+    }
+
+    @CSBDDStepDef('the page {word} should be below {int} ms')
+    @CSBDDStepDef('I verify the page {word} is below {int} ms')
+    async assertMetricBelowMs(metric: string, budget: number): Promise<void> {
+        ActionLogger.logInfo('Assert page performance metric', { metric, budget, type: 'performance_step' });
+
+        const check = await this.budgetManager.checkMetric(this.page, metric, budget, this.getScenarioId());
+        this.budgetManager.enforce(check);
+    }
+
+    @CSBDDStepDef('the page {word} should be below {float}')
+    @CSBDDStepDef('I verify the page {word} is below {float}')
+    async assertMetricBelow(metric: string, budget: number): Promise<void> {
+        ActionLogger.logInfo('Assert page performance metric', { metric, budget, type: 'performance_step' });
+
+        const check = await this.budgetManager.checkMetric(this.page, metric, budget, this.getScenarioId());
+        this.budgetManager.enforce(check);
+    }
+
+    @CSBDDStepDef('the page should meet performance budget {string}')
+    @CSBDDStepDef('I verify the page meets performance budget {string}')
+    async assertBudget(profile: string): Promise<void> {
+        ActionLogger.logInfo('Assert performance budget', { profile, type: 'performance_step' });
+
+        const check = await this.budgetManager.checkProfile(this.page, profile, this.getScenarioId());
+        this.budgetManager.enforce(check);
+    }
+
+    @CSBDDStepDef('the page should meet its performance budget')
+    @CSBDDStepDef('I verify the page meets its performance budget')
+    async assertRouteBudget(): Promise<void> {
+        ActionLogger.logInfo('Assert performance budget for route', { url: this.page.url(), type: 'performance_step' });
+
+        const check = await this.budgetManager.checkProfile(this.page, undefined, this.getScenarioId());
+        this.budgetManager.enforce(check);
+    }
+
+    @CSBDDStepDef('I apply {string} performance throttling')
+    @CSBDDStepDef('user applies {string} performance throttling')
+    async applyThrottling(preset: string): Promise<void> {
+        await this.budgetManager.throttle(this.page, preset);
+    }
+
+    @CSBDDStepDef('I disable performance throttling')
+    @CSBDDStepDef('user disables performance throttling')
+    async disableThrottling(): Promise<void> {
+        await this.budgetManager.clearThrottling(this.page);
+        ActionLogger.logInfo('Performance throttling disabled', { type: 'performance_success' });
+    }
+
+    private getScenarioId(): string | undefined {
+        try {
+            return this.scenarioContext.getScenarioId();
+        } catch {
+            // Check run outside a scenario
+            return undefined;
+        }
+    }
+}
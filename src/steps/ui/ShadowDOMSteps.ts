@@ -0,0 +1,146 @@
+// src/steps/ui/ShadowDOMSteps.ts
+import { CSBDDStepDef } from '../../bdd/decorators/CSBDDStepDef';
+import { CSBDDBaseStepDefinition } from '../../bdd/base/CSBDDBaseStepDefinition';
+import { CSWebElement } from '../../core/elements/CSWebElement';
+import { CSGetElementOptions } from '../../core/elements/types/element.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+
+/**
+ * Steps for elements rendered inside web components.
+ *
+ * Host paths are one or more host selectors separated by '>>>', outermost first,
+ * e.g. "app-shell >>> user-card". Elements defined here are stored like page
+ * object elements, so the regular interaction and validation steps can use them.
+ */
+export class ShadowDOMSteps extends CSBDDBaseStepDefinition {
+
+    @CSBDDStepDef('user defines shadow element {string} as {string} inside {string}')
+    @CSBDDStepDef('I define shadow element {string} as {string} inside {string}')
+    async defineShadowElement(name: string, selector: string, hostPath: string): Promise<void> {
+        ActionLogger.logInfo('Define shadow element', { name, selector, hostPath, type: 'shadow_dom_step' });
+
+        const element = this.createShadowElement(selector, hostPath, name);
+        this.context.store(`element_${name}`, element);
+
+        ActionLogger.logInfo('Shadow element defined', { name, type: 'shadow_dom_success' });
+    }
+
+    @CSBDDStepDef('user clicks {string} inside shadow host {string}')
+    @CSBDDStepDef('I click {string} inside shadow host {string}')
+    async clickShadowElement(selector: string, hostPath: string): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('click_shadow_element', { selector, hostPath });
+
+        try {
+            const element = this.createShadowElement(selector, hostPath);
+            await element.click();
+
+            await actionLogger.logAction('shadow_element_clicked', { selector, hostPath, success: true });
+        } catch (error) {
+            await actionLogger.logError(error as Error, { action: 'click', selector, hostPath });
+            throw new Error(`Failed to click "${selector}" inside "${hostPath}": ${(error as Error).message}`);
+        }
+    }
+
+    @CSBDDStepDef('user fills {string} inside shadow host {string} with {string}')
+    @CSBDDStepDef('I fill {string} inside shadow host {string} with {string}')
+    async fillShadowElement(selector: string, hostPath: string, value: string): Promise<void> {
+        const actionLogger = ActionLogger.getInstance();
+        await actionLogger.logAction('fill_shadow_element', {
+            selector,
+            hostPath,
+            value: this.maskSensitiveData(value)
+        });
+
+        try {
+            const element = this.createShadowElement(selector, hostPath);
+            await element.fill(value);
+
+            await actionLogger.logAction('shadow_element_filled', { selector, hostPath, success: true });
+        } catch (error) {
+            await actionLogger.logError(error as Error, { action: 'fill', selector, hostPath });
+            throw new Error(`Failed to fill "${selector}" inside "${hostPath}": ${(error as Error).message}`);
+        }
+    }
+
+    @CSBDDStepDef('{string} inside shadow host {string} should be visible')
+    @CSBDDStepDef('{string} inside shadow host {string} is visible')
+    async assertShadowElementVisible(selector: string, hostPath: string): Promise<void> {
+        ActionLogger.logInfo('Assert shadow element visible', { selector, hostPath, type: 'validation_step' });
+
+        try {
+            const element = this.createShadowElement(selector, hostPath);
+            await element.assertVisible();
+
+            ActionLogger.logInfo('Shadow element is visible', { selector, hostPath, type: 'validation_success' });
+        } catch (error) {
+            ActionLogger.logError('Shadow element visibility assertion failed', error as Error);
+            throw new Error(`Element "${selector}" inside "${hostPath}" is not visible: ${(error as Error).message}`);
+        }
+    }
+
+    @CSBDDStepDef('{string} inside shadow host {string} should contain text {string}')
+    async assertShadowElementContainsText(selector: string, hostPath: string, expectedText: string): Promise<void> {
+        ActionLogger.logInfo('Assert shadow element contains text', {
+            selector,
+            hostPath,
+            expectedText,
+            type: 'validation_step'
+        });
+
+        try {
+            const element = this.createShadowElement(selector, hostPath);
+            await element.assertTextContains(expectedText);
+
+            ActionLogger.logInfo('Shadow element contains text', { selector, hostPath, type: 'validation_success' });
+        } catch (error) {
+            ActionLogger.logError('Shadow element text assertion failed', error as Error);
+            throw new Error(`Element "${selector}" inside "${hostPath}" does not contain "${expectedText}": ${(error as Error).message}`);
+        }
+    }
+
+    @CSBDDStepDef('shadow host {string} should have an open shadow root')
+    async assertOpenShadowRoot(hostSelector: string): Promise<void> {
+        ActionLogger.logInfo('Assert open shadow root', { host: hostSelector, type: 'validation_step' });
+
+        const host = this.page.locator(hostSelector).first();
+        await host.waitFor({ state: 'attached', timeout: ConfigurationManager.getInt('DEFAULT_TIMEOUT', 30000) });
+
+        const hasShadowRoot = await host.evaluate(el => el.shadowRoot !== null);
+        if (!hasShadowRoot) {
+            throw new Error(`Element "${hostSelector}" does not have an open shadow root`);
+        }
+
+        ActionLogger.logInfo('Open shadow root found', { host: hostSelector, type: 'validation_success' });
+    }
+
+    private createShadowElement(selector: string, hostPath: string, description?: string): CSWebElement {
+        const options: CSGetElementOptions = {
+            description: description || `${selector} in ${hostPath}`,
+            locatorType: 'shadow',
+            locatorValue: selector,
+            shadowHost: hostPath,
+            waitForVisible: ConfigurationManager.getBoolean('AUTO_WAIT_VISIBLE', true)
+        };
+
+        const element = new CSWebElement();
+        element.page = this.page;
+        element.options = options;
+        element.description = options.description;
+
+        return element;
+    }
+
+    private maskSensitiveData(text: string): string {
+        const sensitivePatterns = ConfigurationManager.getArray('SENSITIVE_DATA_PATTERNS') || [];
+        let maskedText = text;
+
+        for (const pattern of sensitivePatterns) {
+            const regex = new RegExp(pattern, 'gi');
+            maskedText = maskedText.replace(regex, '***');
+        }
+
+        return maskedText;
+    }
+}
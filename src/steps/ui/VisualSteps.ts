@@ -0,0 +1,159 @@
+// src/steps/ui/VisualSteps.ts
+import { CSBDDStepDef } from '../../bdd/decorators/CSBDDStepDef';
+import { CSBDDBaseStepDefinition } from '../../bdd/base/CSBDDBaseStepDefinition';
+import { SnapshotManager } from '../../core/debugging/SnapshotManager';
+import { SnapshotOptions, SnapshotResult } from '../../core/debugging/types/debug.types';
+import { ActionLogger } from '../../core/logging/ActionLogger';
+import { ConfigurationManager } from '../../core/configuration/ConfigurationManager';
+import { CSWebElement } from '../../core/elements/CSWebElement';
+import { CSGetElementOptions } from '../../core/elements/types/element.types';
+import { DataTable } from '../../bdd/types/bdd.types';
+
+export class VisualSteps extends CSBDDBaseStepDefinition {
+    private snapshotManager: SnapshotManager;
+
+    constructor() {
+        super();
+        this.snapshotManager = SnapshotManager.getInstance();
+    }
+
+    @CSBDDStepDef('the page should match snapshot {string}')
+    @CSBDDStepDef('page should match snapshot {string}')
+    @CSBDDStepDef('I verify the page matches snapshot {string}')
+    async assertPageMatchesSnapshot(name: string): Promise<void> {
+        ActionLogger.logInfo('Assert page matches snapshot', { name, type: 'visual_step' });
+
+        const result = await this.snapshotManager.matchPageSnapshot(this.page, name, this.getSnapshotOptions());
+        this.verifySnapshotResult(result);
+    }
+
+    @CSBDDStepDef('the full page should match snapshot {string}')
+    @CSBDDStepDef('I verify the full page matches snapshot {string}')
+    async assertFullPageMatchesSnapshot(name: string): Promise<void> {
+        ActionLogger.logInfo('Assert full page matches snapshot', { name, type: 'visual_step' });
+
+        const result = await this.snapshotManager.matchPageSnapshot(this.page, name, {
+            ...this.getSnapshotOptions(),
+            fullPage: true
+        });
+        this.verifySnapshotResult(result);
+    }
+
+    @CSBDDStepDef('the page should match snapshot {string} with options:')
+    @CSBDDStepDef('I verify the page matches snapshot {string} with options:')
+    async assertPageMatchesSnapshotWithOptions(name: string, dataTable: DataTable): Promise<void> {
+        ActionLogger.logInfo('Assert page matches snapshot with options', { name, type: 'visual_step' });
+
+        const settings = dataTable.rowsHash();
+        const options = this.getSnapshotOptions();
+
+        if (settings['threshold']) {
+            options.threshold = parseFloat(settings['threshold']);
+        }
+        if (settings['maxDiffPixelRatio']) {
+            options.maxDiffPixelRatio = parseFloat(settings['maxDiffPixelRatio']);
+        }
+        if (settings['fullPage']) {
+            options.fullPage = settings['fullPage'].toLowerCase() === 'true';
+        }
+        if (settings['mask']) {
+            options.mask = [...(options.mask || []), ...settings['mask'].split(',').map(selector => selector.trim())];
+        }
+        if (settings['ignoreRegions']) {
+            options.ignoreRegions = this.parseRegions(settings['ignoreRegions']);
+        }
+
+        const result = await this.snapshotManager.matchPageSnapshot(this.page, name, options);
+        this.verifySnapshotResult(result);
+    }
+
+    @CSBDDStepDef('{string} should match snapshot {string}')
+    @CSBDDStepDef('I verify {string} matches snapshot {string}')
+    async assertElementMatchesSnapshot(elementDescription: string, name: string): Promise<void> {
+        ActionLogger.logInfo('Assert element matches snapshot', { element: elementDescription, name, type: 'visual_step' });
+
+        const element = await this.findElement(elementDescription);
+        const locator = await element.getLocator();
+
+        const result = await this.snapshotManager.matchElementSnapshot(locator, name, this.getSnapshotOptions());
+        this.verifySnapshotResult(result);
+    }
+
+    @CSBDDStepDef('user masks {string} in snapshots')
+    @CSBDDStepDef('I mask {string} in visual snapshots')
+    async maskInSnapshots(selector: string): Promise<void> {
+        const masks = this.context.retrieve<string[]>('snapshotMasks') || [];
+        this.context.store('snapshotMasks', [...masks, selector], 'scenario');
+
+        ActionLogger.logInfo('Snapshot mask added', { selector, type: 'visual_success' });
+    }
+
+    private getSnapshotOptions(): SnapshotOptions {
+        const options: SnapshotOptions = {};
+
+        const masks = this.context.retrieve<string[]>('snapshotMasks');
+        if (masks && masks.length > 0) {
+            options.mask = [...masks];
+        }
+
+        try {
+            options.scenarioId = this.scenarioContext.getScenarioId();
+        } catch {
+            // Snapshot taken outside a scenario
+        }
+
+        return options;
+    }
+
+    private verifySnapshotResult(result: SnapshotResult): void {
+        if (result.status === 'failed') {
+            ActionLogger.logError('Visual snapshot mismatch', new Error(result.message || result.name));
+            throw new Error(
+                `Snapshot "${result.name}" does not match (${result.browser}, ${result.viewport}): ${result.message}\n` +
+                `Baseline: ${result.baselinePath}\n` +
+                `Actual: ${result.actualPath}` +
+                (result.diffPath ? `\nDiff: ${result.diffPath}` : '')
+            );
+        }
+
+        ActionLogger.logInfo('Visual snapshot verified', {
+            name: result.name,
+            status: result.status,
+            type: 'visual_success'
+        });
+    }
+
+    private parseRegions(value: string): NonNullable<SnapshotOptions['ignoreRegions']> {
+        // Regions are given as x,y,width,height separated by semicolons
+        return value.split(';').map(region => {
+            const [x, y, width, height] = region.split(',').map(part => parseInt(part.trim(), 10));
+            if ([x, y, width, height].some(part => part === undefined || isNaN(part))) {
+                throw new Error(`Invalid ignore region "${region}". Expected x,y,width,height`);
+            }
+            return { x: x!, y: y!, width: width!, height: height! };
+        });
+    }
+
+    private async findElement(description: string): Promise<CSWebElement> {
+        const storedElement = this.context.retrieve<CSWebElement>(`element_${description}`);
+        if (storedElement) {
+            return storedElement;
+        }
+
+        const options: CSGetElementOptions = {
+            description,
+            locatorType: 'text',
+            locatorValue: description,
+            aiEnabled: ConfigurationManager.getBoolean('AI_ENABLED', true),
+            aiDescription: description,
+            waitForVisible: ConfigurationManager.getBoolean('AUTO_WAIT_VISIBLE', true)
+        };
+
+        const element = new CSWebElement();
+        element.page = this.page;
+        element.options = options;
+        element.description = description;
+
+        return element;
+    }
+}